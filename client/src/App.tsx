@@ -6,14 +6,26 @@ import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
 import CaseList from "@/pages/case-list";
 import CaseEditor from "@/pages/case-editor";
+import AuthPage from "@/pages/auth-page";
+import AdminUsers from "@/pages/admin-users";
+import AdminExperts from "@/pages/admin-experts";
+import AdminVenues from "@/pages/admin-venues";
+import ClinicList from "@/pages/clinic-list";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
-      <Route path="/cases" component={CaseList} />
-      <Route path="/cases/:id" component={CaseEditor} />
-      <Route path="/cases/new" component={CaseEditor} />
+      <Route path="/auth" component={AuthPage} />
+      <ProtectedRoute path="/cases" component={CaseList} />
+      <ProtectedRoute path="/cases/:id" component={CaseEditor} />
+      <ProtectedRoute path="/cases/new" component={CaseEditor} />
+      <ProtectedRoute path="/clinics" component={ClinicList} />
+      <ProtectedRoute path="/admin/users" component={AdminUsers} permission="users:manage" />
+      <ProtectedRoute path="/admin/experts" component={AdminExperts} permission="experts:manage" />
+      <ProtectedRoute path="/admin/venues" component={AdminVenues} permission="venues:manage" />
       <Route component={NotFound} />
     </Switch>
   );
@@ -22,8 +34,10 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <Router />
-      <Toaster />
+      <AuthProvider>
+        <Router />
+        <Toaster />
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
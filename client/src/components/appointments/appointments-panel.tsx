@@ -0,0 +1,307 @@
+import React from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { CalendarClock, CalendarPlus, Check, Plus, UserX, X } from "lucide-react";
+import {
+  appointmentStatusLabels,
+  type AppointmentStatus,
+  type AppointmentWithDetails,
+  type PublicExpert,
+  type Venue,
+} from "@shared/schema";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface AppointmentsPanelProps {
+  caseId: number;
+  // The doctor the case is assigned to, whose profile is booked by default
+  assignedUserId?: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Outcome = Exclude<AppointmentStatus, "booked">;
+
+const statusStyles: Record<AppointmentStatus, string> = {
+  booked: "border-[#0E7C7B] text-[#0E7C7B]",
+  attended: "border-green-600 text-green-700",
+  did_not_attend: "border-red-500 text-red-600",
+  cancelled: "text-[#718096]",
+};
+
+const durations = [15, 30, 45, 60, 90, 120];
+
+// Server errors arrive as "409: {json}"
+const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).message ?? body;
+  } catch {
+    return body;
+  }
+};
+
+// Side sheet for booking the claimant's examination and recording how it went
+export function AppointmentsPanel({ caseId, assignedUserId, open, onOpenChange }: AppointmentsPanelProps) {
+  const { toast } = useToast();
+  const appointmentsUrl = `/api/cases/${caseId}/appointments`;
+  const [date, setDate] = React.useState("");
+  const [time, setTime] = React.useState("09:00");
+  const [durationMinutes, setDurationMinutes] = React.useState(30);
+  const [venueId, setVenueId] = React.useState<number | undefined>(undefined);
+  const [expertId, setExpertId] = React.useState<number | undefined>(undefined);
+
+  const { data: appointments, isLoading, error } = useQuery<AppointmentWithDetails[]>({
+    queryKey: [appointmentsUrl],
+    enabled: open && caseId > 0,
+  });
+
+  const { data: venues } = useQuery<Venue[]>({
+    queryKey: ["/api/venues"],
+    enabled: open,
+  });
+
+  const { data: experts } = useQuery<PublicExpert[]>({
+    queryKey: ["/api/experts"],
+    enabled: open,
+  });
+
+  // Start from the assigned doctor's profile and their usual venue
+  React.useEffect(() => {
+    if (!experts || expertId !== undefined) return;
+    const expert = experts.find(e => e.userId === assignedUserId);
+    if (!expert) return;
+    setExpertId(expert.id);
+    if (venueId === undefined && venues?.some(v => v.id === expert.defaultVenueId && v.active)) {
+      setVenueId(expert.defaultVenueId ?? undefined);
+    }
+  }, [experts, venues, assignedUserId]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [appointmentsUrl] });
+    queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+  };
+
+  const bookMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", appointmentsUrl, {
+        expertId,
+        venueId,
+        // Local wall-clock time, sent as an instant
+        startsAt: new Date(`${date}T${time}`).toISOString(),
+        durationMinutes,
+      });
+      return await res.json();
+    },
+    onSuccess: (appointment: AppointmentWithDetails) => {
+      invalidate();
+      toast({
+        title: "Appointment booked",
+        description: `${appointment.expertName} at ${appointment.venueName}, ${format(new Date(appointment.startsAt), "d MMM yyyy HH:mm")}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error booking appointment",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const outcomeMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: number; status: Outcome }) => {
+      const res = await apiRequest("POST", `/api/appointments/${id}/outcome`, { status });
+      return await res.json();
+    },
+    onSuccess: (appointment: AppointmentWithDetails) => {
+      invalidate();
+      if (appointment.status === "attended") {
+        // The case now carries the date, time and place of examination
+        queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseId}`] });
+      }
+      toast({
+        title: `Marked ${appointmentStatusLabels[appointment.status as AppointmentStatus].toLowerCase()}`,
+        description: appointment.status === "attended"
+          ? "The date, time and place of examination have been filled in on the claimant details."
+          : "The appointment is closed.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error updating appointment",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canBook = !!date && !!time && venueId !== undefined && expertId !== undefined;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5 text-[#0E7C7B]" />
+            Appointments
+          </SheetTitle>
+          <SheetDescription>
+            Book the claimant's examination. Marking it attended fills in the date and place of examination.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="grid grid-cols-2 gap-3 mt-4">
+          <div className="space-y-1">
+            <Label htmlFor="appointment-date">Date</Label>
+            <Input id="appointment-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="appointment-time">Time</Label>
+              <Input id="appointment-time" type="time" step={300} value={time} onChange={(e) => setTime(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Length</Label>
+              <Select value={durationMinutes.toString()} onValueChange={(value) => setDurationMinutes(parseInt(value, 10))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {durations.map(minutes => (
+                    <SelectItem key={minutes} value={minutes.toString()}>{minutes} min</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label>Venue</Label>
+            <Select value={venueId?.toString() ?? ""} onValueChange={(value) => setVenueId(parseInt(value, 10))}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a venue" />
+              </SelectTrigger>
+              <SelectContent>
+                {venues?.filter(venue => venue.active).map(venue => (
+                  <SelectItem key={venue.id} value={venue.id.toString()}>{venue.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Expert</Label>
+            <Select value={expertId?.toString() ?? ""} onValueChange={(value) => setExpertId(parseInt(value, 10))}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select an expert" />
+              </SelectTrigger>
+              <SelectContent>
+                {experts?.map(expert => (
+                  <SelectItem key={expert.id} value={expert.id.toString()}>{expert.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <Button
+          className="w-full mt-3 bg-[#0E7C7B] hover:bg-[#0A6463]"
+          onClick={() => bookMutation.mutate()}
+          disabled={!canBook || bookMutation.isPending}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          {bookMutation.isPending ? "Booking..." : "Book Appointment"}
+        </Button>
+
+        <ScrollArea className="h-[calc(100vh-22rem)] mt-4 pr-4">
+          {isLoading ? (
+            <div className="space-y-4">
+              <Skeleton className="h-14 w-full" />
+              <Skeleton className="h-14 w-full" />
+            </div>
+          ) : error ? (
+            <p className="text-red-600 text-center py-6">Error loading appointments</p>
+          ) : !appointments || appointments.length === 0 ? (
+            <p className="text-[#718096] text-center py-6">No appointments booked yet</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {appointments.map((appointment) => {
+                const status = appointment.status as AppointmentStatus;
+                return (
+                  <li key={appointment.id} className="py-3 flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium text-[#1A202C]">
+                        {format(new Date(appointment.startsAt), "EEE d MMM yyyy, HH:mm")}
+                        <span className="text-[#718096] font-normal"> · {appointment.durationMinutes} min</span>
+                      </p>
+                      <p className="text-xs text-[#718096]">
+                        {appointment.expertName} at {appointment.venueName}
+                      </p>
+                      <Badge variant="outline" className={`mt-1 ${statusStyles[status]}`}>
+                        {appointmentStatusLabels[status]}
+                      </Badge>
+                    </div>
+                    {status === "booked" && (
+                      <div className="flex shrink-0">
+                        <Button variant="ghost" size="sm" title="Add to calendar (.ics)" asChild>
+                          <a href={`/api/appointments/${appointment.id}/calendar.ics`}>
+                            <CalendarPlus className="h-4 w-4" />
+                          </a>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Attended"
+                          disabled={outcomeMutation.isPending}
+                          onClick={() => outcomeMutation.mutate({ id: appointment.id, status: "attended" })}
+                        >
+                          <Check className="h-4 w-4 text-green-700" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Did not attend"
+                          disabled={outcomeMutation.isPending}
+                          onClick={() => outcomeMutation.mutate({ id: appointment.id, status: "did_not_attend" })}
+                        >
+                          <UserX className="h-4 w-4 text-red-600" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Cancel"
+                          disabled={outcomeMutation.isPending}
+                          onClick={() => outcomeMutation.mutate({ id: appointment.id, status: "cancelled" })}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
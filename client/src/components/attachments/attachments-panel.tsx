@@ -0,0 +1,274 @@
+import React from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Download, Paperclip, Trash2, Upload } from "lucide-react";
+import {
+  attachmentTypes,
+  caseDocumentCategories,
+  MAX_ATTACHMENT_BYTES,
+  type CaseDocumentWithUser,
+} from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+interface AttachmentsPanelProps {
+  caseId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Category = typeof caseDocumentCategories[number];
+
+// Extensions and types for the file picker, e.g. ".pdf,application/pdf,..."
+const acceptedTypes = Object.entries(attachmentTypes)
+  .flatMap(([type, extensions]) => [...extensions, type])
+  .join(",");
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatTimestamp = (value: string | Date) =>
+  new Date(value).toLocaleString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// Side sheet for the instruction letter, ID and other files sent with a case
+export function AttachmentsPanel({ caseId, open, onOpenChange }: AttachmentsPanelProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const fileInput = React.useRef<HTMLInputElement>(null);
+  const [category, setCategory] = React.useState<Category>("Instruction Letter");
+  const documentsUrl = `/api/cases/${caseId}/documents`;
+
+  const { data: documents, isLoading, error } = useQuery<CaseDocumentWithUser[]>({
+    queryKey: [documentsUrl],
+    enabled: open && caseId > 0,
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const query = new URLSearchParams({ fileName: file.name, category });
+      const res = await apiRequest("POST", `${documentsUrl}?${query}`, file);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [documentsUrl] });
+      toast({
+        title: "Document uploaded",
+        description: "The document has been attached to this case.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error uploading document",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (documentId: number) => {
+      await apiRequest("DELETE", `${documentsUrl}/${documentId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [documentsUrl] });
+      toast({
+        title: "Document deleted",
+        description: "The document has been removed from this case.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error deleting document",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    // Same checks as the server, so the user isn't left waiting on a doomed upload
+    const extension = file.name.slice(file.name.lastIndexOf(".")).toLowerCase();
+    if (!attachmentTypes[file.type]?.includes(extension)) {
+      toast({
+        title: "Unsupported file type",
+        description: "Upload a PDF, image (JPEG, PNG, TIFF) or Word document.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      toast({
+        title: "File too large",
+        description: `Documents can be at most ${formatSize(MAX_ATTACHMENT_BYTES)}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    uploadMutation.mutate(file);
+  };
+
+  const canDelete = (document: CaseDocumentWithUser) =>
+    document.uploadedBy === user?.id || hasPermission(user?.role, "cases:delete");
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Paperclip className="h-5 w-5 text-[#0E7C7B]" />
+            Case Documents
+          </SheetTitle>
+          <SheetDescription>
+            Instruction letters, identification and records received for this case.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex items-center gap-2 mt-4">
+          <Select value={category} onValueChange={(value) => setCategory(value as Category)}>
+            <SelectTrigger className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {caseDocumentCategories.map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <input
+            ref={fileInput}
+            type="file"
+            accept={acceptedTypes}
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <Button
+            className="bg-[#0E7C7B] hover:bg-[#0A6463]"
+            onClick={() => fileInput.current?.click()}
+            disabled={uploadMutation.isPending}
+          >
+            <Upload className="h-4 w-4 mr-1" />
+            {uploadMutation.isPending ? "Uploading..." : "Upload"}
+          </Button>
+        </div>
+        <p className="text-xs text-[#718096] mt-1">
+          PDF, JPEG, PNG, TIFF or Word, up to {formatSize(MAX_ATTACHMENT_BYTES)}.
+        </p>
+
+        <ScrollArea className="h-[calc(100vh-13rem)] mt-4 pr-4">
+          {isLoading ? (
+            <div className="space-y-4">
+              <Skeleton className="h-14 w-full" />
+              <Skeleton className="h-14 w-full" />
+            </div>
+          ) : error ? (
+            <p className="text-red-600 text-center py-6">Error loading documents</p>
+          ) : !documents || documents.length === 0 ? (
+            <p className="text-[#718096] text-center py-6">No documents attached yet</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {documents.map((document) => (
+                <li key={document.id} className="py-3 flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <a
+                      href={`${documentsUrl}/${document.id}`}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="font-medium text-[#1A202C] hover:underline break-words"
+                    >
+                      {document.fileName}
+                    </a>
+                    <p className="text-xs text-[#718096]">
+                      {document.category} · {formatSize(document.size)}
+                    </p>
+                    <p className="text-xs text-[#718096]">
+                      {document.uploadedByName}, {formatTimestamp(document.uploadedAt)}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0">
+                    <Button variant="ghost" size="sm" asChild>
+                      <a href={`${documentsUrl}/${document.id}?download=1`}>
+                        <Download className="h-4 w-4" />
+                        <span className="sr-only">Download</span>
+                      </a>
+                    </Button>
+                    {canDelete(document) && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="sm" disabled={deleteMutation.isPending}>
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                            <span className="sr-only">Delete</span>
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Confirm Deletion</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Are you sure you want to delete {document.fileName}?
+                              This action cannot be undone.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              className="bg-red-600 hover:bg-red-700"
+                              onClick={() => deleteMutation.mutate(document.id)}
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,101 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { History } from "lucide-react";
+import { AuditChange, AuditEventWithUser } from "@shared/schema";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface AuditTimelineProps {
+  caseId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatTimestamp = (value: string | Date) => {
+  const date = new Date(value);
+  return date.toLocaleString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "(empty)";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+};
+
+// Side sheet listing who changed which fields of a case, newest first
+export function AuditTimeline({ caseId, open, onOpenChange }: AuditTimelineProps) {
+  const { data: events, isLoading, error } = useQuery<AuditEventWithUser[]>({
+    queryKey: [`/api/cases/${caseId}/audit`],
+    enabled: open && caseId > 0,
+  });
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-[#0E7C7B]" />
+            Change History
+          </SheetTitle>
+          <SheetDescription>
+            Every change made to this case, with the user who made it.
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="h-[calc(100vh-8rem)] mt-4 pr-4">
+          {isLoading ? (
+            <div className="space-y-4">
+              <Skeleton className="h-16 w-full" />
+              <Skeleton className="h-16 w-full" />
+              <Skeleton className="h-16 w-full" />
+            </div>
+          ) : error ? (
+            <p className="text-red-600 text-center py-6">Error loading history</p>
+          ) : !events || events.length === 0 ? (
+            <p className="text-[#718096] text-center py-6">No changes recorded yet</p>
+          ) : (
+            <ol className="relative border-l border-gray-200 ml-2">
+              {events.map((event) => {
+                const changes = event.changes as AuditChange[];
+                return (
+                  <li key={event.id} className="mb-6 ml-4">
+                    <div className="absolute w-3 h-3 bg-[#0E7C7B] rounded-full -left-1.5 mt-1.5" />
+                    <div className="flex items-baseline justify-between gap-2">
+                      <span className="font-medium text-[#1A202C]">{event.userFullName}</span>
+                      <time className="text-xs text-[#718096]">{formatTimestamp(event.createdAt)}</time>
+                    </div>
+                    <p className="text-xs text-[#718096] font-mono mb-2">{event.route}</p>
+                    <ul className="space-y-1 text-sm">
+                      {changes.map((change) => (
+                        <li key={change.path} className="break-words">
+                          <span className="font-mono text-xs text-[#4A5568]">{change.path}</span>
+                          {": "}
+                          <span className="line-through text-red-600">{formatValue(change.before)}</span>
+                          {" → "}
+                          <span className="text-green-700">{formatValue(change.after)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
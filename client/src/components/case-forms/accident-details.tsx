@@ -22,7 +22,8 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { FormSection, SubSection } from "@/components/ui/form-section";
 import { Button } from "@/components/ui/button";
-import { apiRequest } from "@/lib/queryClient";
+import { saveCaseSection, useLoadedRevision, CaseConflictError } from "@/lib/case-save";
+import { SectionConflictDialog, type SectionConflict } from "./section-conflict-dialog";
 import { useToast } from "@/hooks/use-toast";
 
 // Helper function to format date from YYYY-MM-DD to DD/MM/YYYY
@@ -44,6 +45,8 @@ interface AccidentDetailsFormProps {
 export function AccidentDetailsForm({ caseId, initialData, onSaved }: AccidentDetailsFormProps) {
   const { toast } = useToast();
   const [saving, setSaving] = React.useState(false);
+  const [conflict, setConflict] = React.useState<SectionConflict<AccidentDetails> | null>(null);
+  const loadedRevision = useLoadedRevision(caseId);
   
   // Set up form with validation schema
   const form = useForm<AccidentDetails>({
@@ -86,10 +89,8 @@ export function AccidentDetailsForm({ caseId, initialData, onSaved }: AccidentDe
     try {
       setSaving(true);
       
-      await apiRequest("PUT", `/api/cases/${caseId}/accident-details`, data);
-      
-      // Calculate completion percentage
-      await apiRequest("POST", `/api/cases/${caseId}/calculate-completion`);
+      // Saves against the revision this form was loaded from
+      await saveCaseSection(caseId, "accident-details", data, loadedRevision);
       
       toast({
         title: "Accident details saved",
@@ -98,6 +99,10 @@ export function AccidentDetailsForm({ caseId, initialData, onSaved }: AccidentDe
       
       if (onSaved) onSaved();
     } catch (error) {
+      if (error instanceof CaseConflictError) {
+        setConflict({ mine: data, error });
+        return;
+      }
       console.error("Error saving accident details:", error);
       toast({
         title: "Error saving accident details",
@@ -600,6 +605,16 @@ export function AccidentDetailsForm({ caseId, initialData, onSaved }: AccidentDe
           </div>
         </form>
       </Form>
+      <SectionConflictDialog
+        section="accident-details"
+        conflict={conflict}
+        onClose={() => setConflict(null)}
+        onReload={(theirs) => form.reset(theirs)}
+        onSave={(merged) => {
+          form.reset(merged);
+          onSubmit(merged);
+        }}
+      />
     </FormSection>
   );
 }
\ No newline at end of file
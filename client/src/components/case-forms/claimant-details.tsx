@@ -1,7 +1,9 @@
 import * as React from "react";
 import { useForm } from "react-hook-form";
+import { useQuery } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { ClaimantDetails, claimantDetailsSchema } from "@shared/schema";
+import { ClaimantDetails, claimantDetailsSchema, venueTypeLabels, type PublicExpert, type Venue, type VenueType } from "@shared/schema";
+import { placeOfExamination } from "@shared/venues";
 import { 
   Form, 
   FormControl, 
@@ -14,7 +16,8 @@ import {
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { saveCaseSection, useLoadedRevision, CaseConflictError } from "@/lib/case-save";
+import { SectionConflictDialog, type SectionConflict } from "./section-conflict-dialog";
 import { FormSection, SubSection } from "@/components/ui/form-section";
 import { Textarea } from "@/components/ui/textarea";
 import { 
@@ -30,15 +33,26 @@ import { Switch } from "@/components/ui/switch";
 interface ClaimantDetailsFormProps {
   caseId: number;
   initialData?: ClaimantDetails;
+  // Doctor the case is assigned to; their default venue is used for a new section
+  assignedUserId?: number;
   onSaved?: () => void;
 }
 
 /**
  * Form component for editing claimant details
  */
-export function ClaimantDetailsForm({ caseId, initialData, onSaved }: ClaimantDetailsFormProps) {
+export function ClaimantDetailsForm({ caseId, initialData, assignedUserId, onSaved }: ClaimantDetailsFormProps) {
   const { toast } = useToast();
   const [saving, setSaving] = React.useState(false);
+  const [conflict, setConflict] = React.useState<SectionConflict<ClaimantDetails> | null>(null);
+  const loadedRevision = useLoadedRevision(caseId);
+  
+  const { data: venues } = useQuery<Venue[]>({
+    queryKey: ["/api/venues"],
+  });
+  const { data: experts } = useQuery<PublicExpert[]>({
+    queryKey: ["/api/experts"],
+  });
   
   // Set up form with validation schema
   const form = useForm<ClaimantDetails>({
@@ -56,9 +70,11 @@ export function ClaimantDetailsForm({ caseId, initialData, onSaved }: ClaimantDe
       // Default date of report to today's date as requested
       dateOfReport: new Date().toISOString().split('T')[0],
       dateOfExamination: "",
+      examinationTime: "",
       timeSpent: "15 min",
       helpWithCommunication: false,
-      placeOfExamination: "Face to Face at Meeting Room, North, Ibis, Garstang Rd, Preston PR3 5JE",
+      venueId: undefined,
+      placeOfExamination: "",
       phone: "",
       email: "",
       // New fields added
@@ -70,6 +86,23 @@ export function ClaimantDetailsForm({ caseId, initialData, onSaved }: ClaimantDe
     },
   });
   
+  const venueId = form.watch("venueId");
+  // Retired venues stay listed for the cases already examined there
+  const venueChoices = venues?.filter(venue => venue.active || venue.id === venueId) ?? [];
+  
+  const selectVenue = (venue: Venue) => {
+    form.setValue("venueId", venue.id);
+    form.setValue("placeOfExamination", placeOfExamination(venue));
+  };
+  
+  // A section that has never been saved starts at the assigned doctor's default venue
+  React.useEffect(() => {
+    if (initialData || !venues || !experts) return;
+    const defaultVenueId = experts.find(e => e.userId === assignedUserId)?.defaultVenueId;
+    const venue = venues.find(v => v.id === defaultVenueId && v.active);
+    if (venue) selectVenue(venue);
+  }, [venues, experts, initialData, assignedUserId]);
+  
   // Check if required fields are filled
   const isComplete = !!form.watch("fullName") && !!form.watch("dateOfBirth");
   
@@ -85,10 +118,8 @@ export function ClaimantDetailsForm({ caseId, initialData, onSaved }: ClaimantDe
     try {
       setSaving(true);
       
-      await apiRequest("PUT", `/api/cases/${caseId}/claimant-details`, data);
-      
-      // Calculate completion percentage
-      await apiRequest("POST", `/api/cases/${caseId}/calculate-completion`);
+      // Saves against the revision this form was loaded from
+      await saveCaseSection(caseId, "claimant-details", data, loadedRevision);
       
       toast({
         title: "Claimant details saved",
@@ -97,6 +128,10 @@ export function ClaimantDetailsForm({ caseId, initialData, onSaved }: ClaimantDe
       
       if (onSaved) onSaved();
     } catch (error) {
+      if (error instanceof CaseConflictError) {
+        setConflict({ mine: data, error });
+        return;
+      }
       console.error("Error saving claimant details:", error);
       toast({
         title: "Error saving claimant details",
@@ -369,6 +404,31 @@ export function ClaimantDetailsForm({ caseId, initialData, onSaved }: ClaimantDe
                 )}
               />
               
+              <FormField
+                control={form.control}
+                name="examinationTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Time of Examination</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                    <FormDescription>
+                      With the time spent, puts the examination in the expert's calendar
+                      {initialData?.dateOfExamination && initialData.examinationTime && (
+                        <>
+                          {" "}&middot;{" "}
+                          <a href={`/api/cases/${caseId}/examination.ics`} className="text-[#0E7C7B] hover:underline">
+                            Download .ics
+                          </a>
+                        </>
+                      )}
+                    </FormDescription>
+                  </FormItem>
+                )}
+              />
+              
               <FormField
                 control={form.control}
                 name="dateOfReport"
@@ -479,28 +539,33 @@ export function ClaimantDetailsForm({ caseId, initialData, onSaved }: ClaimantDe
               
               <FormField
                 control={form.control}
-                name="placeOfExamination"
+                name="venueId"
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Place of Examination</FormLabel>
                     <Select
-                      onValueChange={field.onChange}
-                      defaultValue={field.value}
+                      value={field.value?.toString() ?? ""}
+                      onValueChange={(value) => {
+                        const venue = venues?.find(v => v.id === parseInt(value, 10));
+                        if (venue) selectVenue(venue);
+                      }}
                     >
                       <FormControl>
-                        <SelectTrigger className="h-20">
-                          <SelectValue placeholder="Select examination location" />
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select examination venue" />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="Face to Face at Meeting Room, North, Ibis, Garstang Rd, Preston PR3 5JE">
-                          Face to Face at Meeting Room, North, Ibis, Garstang Rd, Preston PR3 5JE
-                        </SelectItem>
-                        <SelectItem value="Regus Office, Centenary Way, Salford M50 1RF">
-                          Regus Office, Centenary Way, Salford M50 1RF
-                        </SelectItem>
+                        {venueChoices.map(venue => (
+                          <SelectItem key={venue.id} value={venue.id.toString()}>
+                            {venue.name} ({venueTypeLabels[venue.type as VenueType]}){!venue.active && " - retired"}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
+                    {form.watch("placeOfExamination") && (
+                      <FormDescription>{form.watch("placeOfExamination")}</FormDescription>
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -515,6 +580,16 @@ export function ClaimantDetailsForm({ caseId, initialData, onSaved }: ClaimantDe
           </div>
         </form>
       </Form>
+      <SectionConflictDialog
+        section="claimant-details"
+        conflict={conflict}
+        onClose={() => setConflict(null)}
+        onReload={(theirs) => form.reset(theirs)}
+        onSave={(merged) => {
+          form.reset(merged);
+          onSubmit(merged);
+        }}
+      />
     </FormSection>
   );
 }
\ No newline at end of file
@@ -0,0 +1,387 @@
+import React from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { examinationSchema, type Examination } from "@shared/schema";
+import { emptyExamination, examinationNarrative, normalRangeOfMovement } from "@shared/report/examination";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { FormSection, SubSection } from "@/components/ui/form-section";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { saveCaseSection, useLoadedRevision, CaseConflictError } from "@/lib/case-save";
+import { SectionConflictDialog, type SectionConflict } from "./section-conflict-dialog";
+import { useToast } from "@/hooks/use-toast";
+
+const tendernessOptions = ["None", "Mild", "Moderate", "Severe"] as const;
+const neurologicalOptions = ["Normal", "Abnormal", "Not Tested"] as const;
+const neurologicalChecks = [
+  { name: "reflexes", label: "Reflexes" },
+  { name: "power", label: "Power" },
+  { name: "sensation", label: "Sensation" },
+] as const;
+
+interface ExaminationFormProps {
+  caseId: number;
+  initialData?: Examination;
+  onSaved?: () => void;
+}
+
+export function ExaminationForm({ caseId, initialData, onSaved }: ExaminationFormProps) {
+  const { toast } = useToast();
+  const [saving, setSaving] = React.useState(false);
+  const [conflict, setConflict] = React.useState<SectionConflict<Examination> | null>(null);
+  const loadedRevision = useLoadedRevision(caseId);
+
+  // Set up form with validation schema
+  const form = useForm<Examination>({
+    resolver: zodResolver(examinationSchema),
+    defaultValues: initialData?.regions?.length ? initialData : emptyExamination(),
+  });
+
+  const regions = form.watch("regions") || [];
+  const isComplete = regions.some(region => region.examined);
+  const narrative = examinationNarrative(form.watch());
+
+  const onSubmit = async (data: Examination) => {
+    try {
+      setSaving(true);
+
+      // Saves against the revision this form was loaded from
+      await saveCaseSection(caseId, "examination", data, loadedRevision);
+
+      toast({
+        title: "Examination findings saved",
+        description: "Examination findings have been saved successfully.",
+      });
+
+      if (onSaved) onSaved();
+    } catch (error) {
+      if (error instanceof CaseConflictError) {
+        setConflict({ mine: data, error });
+        return;
+      }
+      console.error("Error saving examination findings:", error);
+      toast({
+        title: "Error saving examination findings",
+        description: "There was an error saving the examination findings. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <FormSection
+      title="Clinical Examination"
+      isComplete={isComplete}
+    >
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)}>
+          <SubSection title="General Observations">
+            <FormField
+              control={form.control}
+              name="generalObservations"
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Textarea
+                      placeholder="e.g. Claimant walked into the room unaided with a normal gait and sat comfortably"
+                      rows={3}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </SubSection>
+
+          {regions.map((region, regionIndex) => (
+            <SubSection key={region.region} title={`${region.region} Spine`}>
+              <FormField
+                control={form.control}
+                name={`regions.${regionIndex}.examined`}
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center space-x-2 space-y-0 mb-3">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(!!checked)}
+                      />
+                    </FormControl>
+                    <FormLabel className="font-normal">Examined</FormLabel>
+                  </FormItem>
+                )}
+              />
+
+              {region.examined && (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                    <FormField
+                      control={form.control}
+                      name={`regions.${regionIndex}.tenderness`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Tenderness</FormLabel>
+                          <Select value={field.value} onValueChange={field.onChange}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select tenderness" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {tendernessOptions.map(option => (
+                                <SelectItem key={option} value={option}>{option}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name={`regions.${regionIndex}.tendernessSite`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Site of Tenderness</FormLabel>
+                          <FormControl>
+                            <Input
+                              placeholder="e.g. paraspinal muscles"
+                              disabled={region.tenderness === "None"}
+                              {...field}
+                              value={field.value || ""}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name={`regions.${regionIndex}.rangeOfMovementUnit`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Record Movement In</FormLabel>
+                          <Select value={field.value} onValueChange={field.onChange}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="Percent">% of normal</SelectItem>
+                              <SelectItem value="Degrees">Degrees</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  <table className="w-full text-sm mb-4">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        <th className="py-1 font-medium">Movement</th>
+                        <th className="py-1 font-medium">
+                          {region.rangeOfMovementUnit === "Degrees" ? "Degrees" : "% of normal"}
+                        </th>
+                        <th className="py-1 font-medium">Painful</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {region.rangeOfMovement.map((rom, romIndex) => (
+                        <tr key={rom.movement} className="border-t">
+                          <td className="py-1 pr-2">{rom.movement}</td>
+                          <td className="py-1 pr-2">
+                            <FormField
+                              control={form.control}
+                              name={`regions.${regionIndex}.rangeOfMovement.${romIndex}.value`}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormControl>
+                                    <Input
+                                      type="number"
+                                      min={0}
+                                      max={region.rangeOfMovementUnit === "Degrees" ? 360 : 100}
+                                      className="h-8 w-28"
+                                      placeholder={region.rangeOfMovementUnit === "Degrees"
+                                        ? `normal ${normalRangeOfMovement[region.region][rom.movement]}°`
+                                        : "100"}
+                                      value={field.value ?? ""}
+                                      onChange={(e) => field.onChange(e.target.value === "" ? undefined : Number(e.target.value))}
+                                    />
+                                  </FormControl>
+                                </FormItem>
+                              )}
+                            />
+                          </td>
+                          <td className="py-1">
+                            <FormField
+                              control={form.control}
+                              name={`regions.${regionIndex}.rangeOfMovement.${romIndex}.painful`}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormControl>
+                                    <Checkbox
+                                      checked={field.value}
+                                      onCheckedChange={(checked) => field.onChange(!!checked)}
+                                    />
+                                  </FormControl>
+                                </FormItem>
+                              )}
+                            />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <FormField
+                    control={form.control}
+                    name={`regions.${regionIndex}.rangeOfMovement`}
+                    render={() => (
+                      <FormItem>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name={`regions.${regionIndex}.observations`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Observations</FormLabel>
+                        <FormControl>
+                          <Textarea
+                            placeholder="Any other findings for this region, e.g. muscle spasm"
+                            rows={2}
+                            {...field}
+                            value={field.value || ""}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </>
+              )}
+            </SubSection>
+          ))}
+
+          <SubSection title="Neurological Examination">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+              {neurologicalChecks.map(check => (
+                <FormField
+                  key={check.name}
+                  control={form.control}
+                  name={`neurological.${check.name}`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{check.label}</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {neurologicalOptions.map(option => (
+                            <SelectItem key={option} value={option}>{option}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="neurological.notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Neurological Notes</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Details of any abnormal neurological finding"
+                      rows={2}
+                      {...field}
+                      value={field.value || ""}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </SubSection>
+
+          <SubSection title="Other Findings">
+            <FormField
+              control={form.control}
+              name="otherFindings"
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Any findings outside the spine, e.g. bruising to the chest wall"
+                      rows={3}
+                      {...field}
+                      value={field.value || ""}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Examination Summary */}
+            <div className="mt-6 border border-gray-200 rounded-md p-4 bg-gray-50">
+              <h4 className="text-sm font-medium mb-2 text-[#4A5568]">Auto-Generated Examination Summary</h4>
+              {narrative.map((paragraph, index) => (
+                <p key={index} className="text-sm text-gray-600 mb-2">{paragraph}</p>
+              ))}
+            </div>
+          </SubSection>
+
+          <div className="flex justify-end mt-6">
+            <Button type="submit" disabled={saving}>
+              {saving ? "Saving..." : "Save Examination Findings"}
+            </Button>
+          </div>
+        </form>
+      </Form>
+      <SectionConflictDialog
+        section="examination"
+        conflict={conflict}
+        onClose={() => setConflict(null)}
+        onReload={(theirs) => form.reset(theirs)}
+        onSave={(merged) => {
+          form.reset(merged);
+          onSubmit(merged);
+        }}
+      />
+    </FormSection>
+  );
+}
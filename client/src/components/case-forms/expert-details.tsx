@@ -1,47 +1,93 @@
 import React from "react";
 import { useForm } from "react-hook-form";
+import { useQuery } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { expertDetailsSchema, type ExpertDetails } from "@shared/schema";
+import { expertDetailsSchema, type ExpertDetails, type PublicExpert } from "@shared/schema";
+import { expertDetailsFromProfile } from "@shared/experts";
 import { 
   Form,
   FormControl,
   FormField,
   FormItem,
+  FormDescription,
   FormLabel,
   FormMessage
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { FormSection, SubSection } from "@/components/ui/form-section";
 import { Button } from "@/components/ui/button";
-import { apiRequest } from "@/lib/queryClient";
+import { saveCaseSection, useLoadedRevision, CaseConflictError } from "@/lib/case-save";
+import { SectionConflictDialog, type SectionConflict } from "./section-conflict-dialog";
 import { useToast } from "@/hooks/use-toast";
 
 interface ExpertDetailsFormProps {
   caseId: number;
   initialData?: ExpertDetails;
+  // Doctor the case is assigned to; their profile is used for a new section
+  assignedUserId?: number;
   onSaved?: () => void;
 }
 
-export function ExpertDetailsForm({ caseId, initialData, onSaved }: ExpertDetailsFormProps) {
+// Select value for details typed in rather than taken from a profile
+const MANUAL_ENTRY = "manual";
+
+export function ExpertDetailsForm({ caseId, initialData, assignedUserId, onSaved }: ExpertDetailsFormProps) {
   const { toast } = useToast();
   const [saving, setSaving] = React.useState(false);
+  const [conflict, setConflict] = React.useState<SectionConflict<ExpertDetails> | null>(null);
+  const loadedRevision = useLoadedRevision(caseId);
+  
+  const { data: experts } = useQuery<PublicExpert[]>({
+    queryKey: ["/api/experts"],
+  });
   
   // Set up form with validation schema
   const form = useForm<ExpertDetails>({
     resolver: zodResolver(expertDetailsSchema),
     defaultValues: initialData || {
-      examiner: "Dr. Awais Iqbal",
-      credentials: "MBBS, Direct Medical Expert",
-      licensureState: "UK",
+      examiner: "",
+      credentials: "",
+      licensureState: "",
       licenseNumber: "",
-      specialty: "Medico-legal practitioner",
+      specialty: "",
       experienceYears: undefined,
-      contactInformation: "Direct Medical Expert",
+      contactInformation: "",
       signatureDate: new Date().toISOString().split('T')[0],
     },
   });
   
+  const expertId = form.watch("expertId");
+  // Profile fields can't be edited here while a profile is selected
+  const fromProfile = expertId !== undefined;
+  
+  const applyProfile = (expert: PublicExpert) => {
+    form.reset({ ...form.getValues(), ...expertDetailsFromProfile(expert) });
+  };
+  
+  const handleProfileChange = (value: string) => {
+    if (value === MANUAL_ENTRY) {
+      form.setValue("expertId", undefined);
+      return;
+    }
+    const expert = experts?.find(e => e.id === parseInt(value, 10));
+    if (expert) applyProfile(expert);
+  };
+  
+  // A section that has never been saved starts from the assigned doctor's profile
+  React.useEffect(() => {
+    if (initialData || !experts) return;
+    const assigned = experts.find(e => e.userId === assignedUserId);
+    if (assigned) applyProfile(assigned);
+  }, [experts, initialData, assignedUserId]);
+  
   // Check if required fields are filled
   const isComplete = !!form.watch("examiner") && !!form.watch("credentials");
   
@@ -57,10 +103,8 @@ export function ExpertDetailsForm({ caseId, initialData, onSaved }: ExpertDetail
     try {
       setSaving(true);
       
-      await apiRequest("PUT", `/api/cases/${caseId}/expert-details`, data);
-      
-      // Calculate completion percentage
-      await apiRequest("POST", `/api/cases/${caseId}/calculate-completion`);
+      // Saves against the revision this form was loaded from
+      await saveCaseSection(caseId, "expert-details", data, loadedRevision);
       
       toast({
         title: "Expert details saved",
@@ -69,6 +113,10 @@ export function ExpertDetailsForm({ caseId, initialData, onSaved }: ExpertDetail
       
       if (onSaved) onSaved();
     } catch (error) {
+      if (error instanceof CaseConflictError) {
+        setConflict({ mine: data, error });
+        return;
+      }
       console.error("Error saving expert details:", error);
       toast({
         title: "Error saving expert details",
@@ -88,6 +136,44 @@ export function ExpertDetailsForm({ caseId, initialData, onSaved }: ExpertDetail
     >
       <Form {...form}>
         <form onSubmit={form.handleSubmit(onSubmit)}>
+          <SubSection title="Expert Profile">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <FormField
+                control={form.control}
+                name="expertId"
+                render={() => (
+                  <FormItem>
+                    <FormLabel>Profile</FormLabel>
+                    <Select value={expertId?.toString() ?? MANUAL_ENTRY} onValueChange={handleProfileChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select an expert" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={MANUAL_ENTRY}>Enter details manually</SelectItem>
+                        {experts?.map(expert => (
+                          <SelectItem key={expert.id} value={expert.id.toString()}>
+                            {expert.name} (GMC {expert.gmcNumber})
+                          </SelectItem>
+                        ))}
+                        {/* A profile that has since been deleted */}
+                        {expertId !== undefined && experts && !experts.some(e => e.id === expertId) && (
+                          <SelectItem value={expertId.toString()}>{form.getValues("examiner")} (profile removed)</SelectItem>
+                        )}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      {fromProfile
+                        ? "Filled from the expert's profile, so the details match all of their reports."
+                        : "Pick a profile to fill these details in automatically."}
+                    </FormDescription>
+                  </FormItem>
+                )}
+              />
+            </div>
+          </SubSection>
+          
           <SubSection>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <FormField
@@ -97,7 +183,7 @@ export function ExpertDetailsForm({ caseId, initialData, onSaved }: ExpertDetail
                   <FormItem>
                     <FormLabel>Examiner Name</FormLabel>
                     <FormControl>
-                      <Input placeholder="Dr. Sarah Johnson" {...field} />
+                      <Input placeholder="Dr. Sarah Johnson" readOnly={fromProfile} {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -111,7 +197,7 @@ export function ExpertDetailsForm({ caseId, initialData, onSaved }: ExpertDetail
                   <FormItem>
                     <FormLabel>Credentials</FormLabel>
                     <FormControl>
-                      <Input placeholder="MD, FAAOS" {...field} />
+                      <Input placeholder="MD, FAAOS" readOnly={fromProfile} {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -125,7 +211,7 @@ export function ExpertDetailsForm({ caseId, initialData, onSaved }: ExpertDetail
                   <FormItem>
                     <FormLabel>Specialty</FormLabel>
                     <FormControl>
-                      <Input placeholder="Orthopedic Surgery" {...field} />
+                      <Input placeholder="Orthopedic Surgery" readOnly={fromProfile} {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -142,6 +228,7 @@ export function ExpertDetailsForm({ caseId, initialData, onSaved }: ExpertDetail
                       <Input 
                         type="number" 
                         placeholder="15"
+                        readOnly={fromProfile}
                         {...field}
                         onChange={(e) => {
                           const value = e.target.value !== "" ? parseInt(e.target.value, 10) : undefined;
@@ -166,7 +253,7 @@ export function ExpertDetailsForm({ caseId, initialData, onSaved }: ExpertDetail
                   <FormItem>
                     <FormLabel>Licensure State</FormLabel>
                     <FormControl>
-                      <Input placeholder="Massachusetts" {...field} />
+                      <Input placeholder="Massachusetts" readOnly={fromProfile} {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -180,7 +267,7 @@ export function ExpertDetailsForm({ caseId, initialData, onSaved }: ExpertDetail
                   <FormItem>
                     <FormLabel>GMC Number</FormLabel>
                     <FormControl>
-                      <Input placeholder="GMC 123456" {...field} />
+                      <Input placeholder="GMC 123456" readOnly={fromProfile} {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -201,6 +288,7 @@ export function ExpertDetailsForm({ caseId, initialData, onSaved }: ExpertDetail
                       <Textarea 
                         placeholder="Address, phone, email, etc."
                         rows={3}
+                        readOnly={fromProfile}
                         {...field} 
                       />
                     </FormControl>
@@ -232,6 +320,16 @@ export function ExpertDetailsForm({ caseId, initialData, onSaved }: ExpertDetail
           </div>
         </form>
       </Form>
+      <SectionConflictDialog
+        section="expert-details"
+        conflict={conflict}
+        onClose={() => setConflict(null)}
+        onReload={(theirs) => form.reset(theirs)}
+        onSave={(merged) => {
+          form.reset(merged);
+          onSubmit(merged);
+        }}
+      />
     </FormSection>
   );
 }
@@ -16,7 +16,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { FormSection, SubSection } from "@/components/ui/form-section";
 import { Button } from "@/components/ui/button";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { apiRequest } from "@/lib/queryClient";
+import { saveCaseSection, useLoadedRevision, CaseConflictError } from "@/lib/case-save";
+import { SectionConflictDialog, type SectionConflict } from "./section-conflict-dialog";
 import { useToast } from "@/hooks/use-toast";
 
 interface FamilyHistoryFormProps {
@@ -28,6 +29,8 @@ interface FamilyHistoryFormProps {
 export function FamilyHistoryForm({ caseId, initialData, onSaved }: FamilyHistoryFormProps) {
   const { toast } = useToast();
   const [saving, setSaving] = React.useState(false);
+  const [conflict, setConflict] = React.useState<SectionConflict<FamilyHistory> | null>(null);
+  const loadedRevision = useLoadedRevision(caseId);
   
   // Set up form with validation schema
   const form = useForm<FamilyHistory>({
@@ -139,10 +142,8 @@ export function FamilyHistoryForm({ caseId, initialData, onSaved }: FamilyHistor
     try {
       setSaving(true);
       
-      await apiRequest("PUT", `/api/cases/${caseId}/family-history`, data);
-      
-      // Calculate completion percentage
-      await apiRequest("POST", `/api/cases/${caseId}/calculate-completion`);
+      // Saves against the revision this form was loaded from
+      await saveCaseSection(caseId, "family-history", data, loadedRevision);
       
       toast({
         title: "Medical history saved",
@@ -151,6 +152,10 @@ export function FamilyHistoryForm({ caseId, initialData, onSaved }: FamilyHistor
       
       if (onSaved) onSaved();
     } catch (error) {
+      if (error instanceof CaseConflictError) {
+        setConflict({ mine: data, error });
+        return;
+      }
       console.error("Error saving medical history:", error);
       toast({
         title: "Error saving medical history",
@@ -440,6 +445,16 @@ export function FamilyHistoryForm({ caseId, initialData, onSaved }: FamilyHistor
           </div>
         </form>
       </Form>
+      <SectionConflictDialog
+        section="family-history"
+        conflict={conflict}
+        onClose={() => setConflict(null)}
+        onReload={(theirs) => form.reset(theirs)}
+        onSave={(merged) => {
+          form.reset(merged);
+          onSubmit(merged);
+        }}
+      />
     </FormSection>
   );
 }
\ No newline at end of file
@@ -24,7 +24,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { apiRequest } from "@/lib/queryClient";
+import { saveCaseSection, useLoadedRevision, CaseConflictError } from "@/lib/case-save";
+import { SectionConflictDialog, type SectionConflict } from "./section-conflict-dialog";
 import { useToast } from "@/hooks/use-toast";
 
 // Define the options for each category
@@ -91,6 +92,8 @@ interface LifestyleImpactFormProps {
 export function LifestyleImpactForm({ caseId, initialData, onSaved }: LifestyleImpactFormProps) {
   const { toast } = useToast();
   const [saving, setSaving] = React.useState(false);
+  const [conflict, setConflict] = React.useState<SectionConflict<LifestyleImpact> | null>(null);
+  const loadedRevision = useLoadedRevision(caseId);
   
   // Set up form with validation schema
   const form = useForm<LifestyleImpact>({
@@ -264,10 +267,8 @@ export function LifestyleImpactForm({ caseId, initialData, onSaved }: LifestyleI
     try {
       setSaving(true);
       
-      await apiRequest("PUT", `/api/cases/${caseId}/lifestyle-impact`, data);
-      
-      // Calculate completion percentage
-      await apiRequest("POST", `/api/cases/${caseId}/calculate-completion`);
+      // Saves against the revision this form was loaded from
+      await saveCaseSection(caseId, "lifestyle-impact", data, loadedRevision);
       
       toast({
         title: "Lifestyle impact saved",
@@ -276,6 +277,10 @@ export function LifestyleImpactForm({ caseId, initialData, onSaved }: LifestyleI
       
       if (onSaved) onSaved();
     } catch (error) {
+      if (error instanceof CaseConflictError) {
+        setConflict({ mine: data, error });
+        return;
+      }
       console.error("Error saving lifestyle impact:", error);
       toast({
         title: "Error saving lifestyle impact",
@@ -967,6 +972,16 @@ export function LifestyleImpactForm({ caseId, initialData, onSaved }: LifestyleI
           </div>
         </form>
       </Form>
+      <SectionConflictDialog
+        section="lifestyle-impact"
+        conflict={conflict}
+        onClose={() => setConflict(null)}
+        onReload={(theirs) => form.reset(theirs)}
+        onSave={(merged) => {
+          form.reset(merged);
+          onSubmit(merged);
+        }}
+      />
     </FormSection>
   );
 }
\ No newline at end of file
@@ -0,0 +1,390 @@
+import React from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  medicalRecordSources,
+  medicalRecordsReviewSchema,
+  type MedicalRecordsReview,
+} from "@shared/schema";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+  FormDescription
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { FormSection, SubSection } from "@/components/ui/form-section";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Plus, X } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { saveCaseSection, useLoadedRevision, CaseConflictError } from "@/lib/case-save";
+import { SectionConflictDialog, type SectionConflict } from "./section-conflict-dialog";
+import { useToast } from "@/hooks/use-toast";
+
+const relationOptions = ["Supports", "Contradicts", "Neutral"] as const;
+const consistencyOptions = ["Supports", "Partially Supports", "Contradicts", "Not Applicable"] as const;
+
+interface MedicalRecordsReviewFormProps {
+  caseId: number;
+  initialData?: MedicalRecordsReview;
+  onSaved?: () => void;
+}
+
+export function MedicalRecordsReviewForm({ caseId, initialData, onSaved }: MedicalRecordsReviewFormProps) {
+  const { toast } = useToast();
+  const [saving, setSaving] = React.useState(false);
+  const [conflict, setConflict] = React.useState<SectionConflict<MedicalRecordsReview> | null>(null);
+  const loadedRevision = useLoadedRevision(caseId);
+
+  // Set up form with validation schema
+  const form = useForm<MedicalRecordsReview>({
+    resolver: zodResolver(medicalRecordsReviewSchema),
+    defaultValues: initialData?.documents ? initialData : {
+      documents: [],
+      entries: [],
+      overallConsistency: "Not Applicable",
+      commentary: "",
+    },
+  });
+
+  const documents = useFieldArray({ control: form.control, name: "documents" });
+  const entries = useFieldArray({ control: form.control, name: "entries" });
+
+  // Saving with no documents records that none were provided
+  const isComplete = !!initialData?.documents;
+
+  const onSubmit = async (data: MedicalRecordsReview) => {
+    try {
+      setSaving(true);
+
+      // Saves against the revision this form was loaded from
+      await saveCaseSection(caseId, "medical-records", data, loadedRevision);
+
+      toast({
+        title: "Medical records review saved",
+        description: "Medical records review has been saved successfully.",
+      });
+
+      if (onSaved) onSaved();
+    } catch (error) {
+      if (error instanceof CaseConflictError) {
+        setConflict({ mine: data, error });
+        return;
+      }
+      console.error("Error saving medical records review:", error);
+      toast({
+        title: "Error saving medical records review",
+        description: "There was an error saving the medical records review. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const sourceSelect = (value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <FormControl>
+        <SelectTrigger>
+          <SelectValue placeholder="Select source" />
+        </SelectTrigger>
+      </FormControl>
+      <SelectContent>
+        {medicalRecordSources.map(source => (
+          <SelectItem key={source} value={source}>{source}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <FormSection
+      title="Medical Records Review"
+      isComplete={isComplete}
+    >
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)}>
+          <SubSection title="Records Reviewed">
+            <FormDescription className="mb-4">
+              List each set of notes seen. Save with no records to state that none were provided.
+            </FormDescription>
+
+            {documents.fields.map((field, index) => (
+              <Card key={field.id} className="mb-4 shadow-sm">
+                <CardContent className="pt-4">
+                  <div className="flex justify-end">
+                    <Button type="button" variant="ghost" size="sm" onClick={() => documents.remove(index)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name={`documents.${index}.source`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Source</FormLabel>
+                          {sourceSelect(field.value, field.onChange)}
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`documents.${index}.description`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Description</FormLabel>
+                          <FormControl>
+                            <Input placeholder="e.g. Royal Preston Hospital ED card" {...field} value={field.value || ""} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`documents.${index}.dateFrom`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>From</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} value={field.value || ""} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`documents.${index}.dateTo`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>To</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} value={field.value || ""} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`documents.${index}.pages`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Pages</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={1}
+                              value={field.value ?? ""}
+                              onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseInt(e.target.value, 10))}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => documents.append({ source: "GP Records", description: "", dateFrom: "", dateTo: "" })}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Record
+            </Button>
+          </SubSection>
+
+          {documents.fields.length > 0 && (
+            <SubSection title="Relevant Entries">
+              {entries.fields.map((field, index) => (
+                <Card key={field.id} className="mb-4 shadow-sm">
+                  <CardContent className="pt-4">
+                    <div className="flex justify-end">
+                      <Button type="button" variant="ghost" size="sm" onClick={() => entries.remove(index)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name={`entries.${index}.date`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Date</FormLabel>
+                            <FormControl>
+                              <Input type="date" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`entries.${index}.source`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Source</FormLabel>
+                            {sourceSelect(field.value, field.onChange)}
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`entries.${index}.clinician`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Clinician</FormLabel>
+                            <FormControl>
+                              <Input placeholder="e.g. Dr Smith (GP)" {...field} value={field.value || ""} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`entries.${index}.relationToAccount`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Claimant's Account</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {relationOptions.map(option => (
+                                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`entries.${index}.finding`}
+                        render={({ field }) => (
+                          <FormItem className="md:col-span-2">
+                            <FormLabel>Finding</FormLabel>
+                            <FormControl>
+                              <Textarea
+                                placeholder="e.g. Attended with neck pain following RTA, advised analgesia"
+                                rows={2}
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => entries.append({
+                  date: "",
+                  source: form.getValues().documents?.[0]?.source ?? "GP Records",
+                  clinician: "",
+                  finding: "",
+                  relationToAccount: "Supports",
+                })}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Entry
+              </Button>
+            </SubSection>
+          )}
+
+          {documents.fields.length > 0 && (
+            <SubSection title="Conclusion">
+              <FormField
+                control={form.control}
+                name="overallConsistency"
+                render={({ field }) => (
+                  <FormItem className="mb-4">
+                    <FormLabel>Do the records support the claimant's account?</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {consistencyOptions.map(option => (
+                          <SelectItem key={option} value={option}>{option}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="commentary"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Commentary</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        placeholder="Comment on any differences between the records and the claimant's account"
+                        rows={3}
+                        {...field}
+                        value={field.value || ""}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </SubSection>
+          )}
+
+          <div className="flex justify-end mt-6">
+            <Button type="submit" disabled={saving}>
+              {saving ? "Saving..." : "Save Medical Records Review"}
+            </Button>
+          </div>
+        </form>
+      </Form>
+      <SectionConflictDialog
+        section="medical-records"
+        conflict={conflict}
+        onClose={() => setConflict(null)}
+        onReload={(theirs) => form.reset(theirs)}
+        onSave={(merged) => {
+          form.reset(merged);
+          onSubmit(merged);
+        }}
+      />
+    </FormSection>
+  );
+}
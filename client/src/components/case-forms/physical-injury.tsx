@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from "react";
 import { useFieldArray, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { physicalInjurySchema, type PhysicalInjury } from "@shared/schema";
+import { physicalInjuryForAccidentSchema, type PhysicalInjury } from "@shared/schema";
 import { 
   Form,
   FormControl,
@@ -17,7 +17,8 @@ import { FormSection, SubSection } from "@/components/ui/form-section";
 import { Button } from "@/components/ui/button";
 import { Plus, X } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
-import { apiRequest } from "@/lib/queryClient";
+import { saveCaseSection, useLoadedRevision, CaseConflictError } from "@/lib/case-save";
+import { SectionConflictDialog, type SectionConflict } from "./section-conflict-dialog";
 import { useToast } from "@/hooks/use-toast";
 import {
   Select,
@@ -42,18 +43,35 @@ const injuryTypes = [
 interface PhysicalInjuryFormProps {
   caseId: number;
   initialData?: PhysicalInjury;
+  // From the accident details section; resolution dates can't precede it
+  accidentDate?: string;
   onSaved?: () => void;
 }
 
-export function PhysicalInjuryForm({ caseId, initialData, onSaved }: PhysicalInjuryFormProps) {
+// Injuries saved before each one carried its own prognosis
+const withPrognosis = (data?: PhysicalInjury): PhysicalInjury | undefined =>
+  data && {
+    ...data,
+    injuries: (data.injuries || []).map(injury => ({
+      ...injury,
+      prognosis: injury.prognosis ?? {
+        resolved: injury.currentSeverity === "Resolved",
+        referralNeeded: false,
+      },
+    })),
+  };
+
+export function PhysicalInjuryForm({ caseId, initialData, accidentDate, onSaved }: PhysicalInjuryFormProps) {
   const { toast } = useToast();
   const [saving, setSaving] = useState(false);
+  const [conflict, setConflict] = useState<SectionConflict<PhysicalInjury> | null>(null);
+  const loadedRevision = useLoadedRevision(caseId);
   const [showOtherInjuryField, setShowOtherInjuryField] = useState(false);
   
   // Set up form with validation schema
   const form = useForm<PhysicalInjury>({
-    resolver: zodResolver(physicalInjurySchema),
-    defaultValues: initialData || {
+    resolver: zodResolver(physicalInjuryForAccidentSchema(accidentDate)),
+    defaultValues: withPrognosis(initialData) || {
       injuries: [],
       otherInjuriesDescription: "",
       additionalNotes: "",
@@ -105,7 +123,11 @@ export function PhysicalInjuryForm({ caseId, initialData, onSaved }: PhysicalInj
         currentSeverity: "Mild",
         resolutionDays: "",
         mechanism,
-        classification
+        classification,
+        prognosis: {
+          resolved: false,
+          referralNeeded: false,
+        },
       });
       
       // Show the "Other" description field if "Other" is selected
@@ -139,12 +161,12 @@ export function PhysicalInjuryForm({ caseId, initialData, onSaved }: PhysicalInj
     }
   }, [form.watch("otherInjuriesDescription")]);
   
-  // Handle showing resolution days field when an injury is "Resolved"
+  // A resolved injury has a resolved prognosis; ask for the date it resolved
   const handleSeverityChange = (index: number, value: string) => {
     if (value === "Resolved") {
-      // Focus on the resolution days field
+      form.setValue(`injuries.${index}.prognosis.resolved`, true);
       setTimeout(() => {
-        const resolutionField = document.getElementById(`resolution-days-${index}`);
+        const resolutionField = document.getElementById(`date-resolved-${index}`);
         if (resolutionField) {
           resolutionField.focus();
         }
@@ -244,10 +266,8 @@ export function PhysicalInjuryForm({ caseId, initialData, onSaved }: PhysicalInj
     try {
       setSaving(true);
       
-      await apiRequest("PUT", `/api/cases/${caseId}/physical-injury`, data);
-      
-      // Calculate completion percentage
-      await apiRequest("POST", `/api/cases/${caseId}/calculate-completion`);
+      // Saves against the revision this form was loaded from
+      await saveCaseSection(caseId, "physical-injury", data, loadedRevision);
       
       toast({
         title: "Physical injury details saved",
@@ -256,6 +276,10 @@ export function PhysicalInjuryForm({ caseId, initialData, onSaved }: PhysicalInj
       
       if (onSaved) onSaved();
     } catch (error) {
+      if (error instanceof CaseConflictError) {
+        setConflict({ mine: data, error });
+        return;
+      }
       console.error("Error saving physical injury details:", error);
       toast({
         title: "Error saving physical injury details",
@@ -411,19 +435,98 @@ export function PhysicalInjuryForm({ caseId, initialData, onSaved }: PhysicalInj
                           </FormItem>
                         )}
                       />
+                    </div>
+                    
+                    <h4 className="font-medium mb-2 text-[#4A5568]">Prognosis</h4>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                      <FormField
+                        control={form.control}
+                        name={`injuries.${index}.prognosis.resolved`}
+                        render={({ field }) => (
+                          <FormItem className="flex items-center space-x-2 space-y-0 md:col-span-2">
+                            <FormControl>
+                              <Checkbox
+                                checked={field.value}
+                                onCheckedChange={(checked) => field.onChange(!!checked)}
+                              />
+                            </FormControl>
+                            <FormLabel className="font-normal">Injury has resolved</FormLabel>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
                       
-                      {form.watch(`injuries.${index}.currentSeverity`) === "Resolved" && (
+                      {form.watch(`injuries.${index}.prognosis.resolved`) ? (
                         <FormField
                           control={form.control}
-                          name={`injuries.${index}.resolutionDays`}
+                          name={`injuries.${index}.prognosis.dateResolved`}
                           render={({ field }) => (
                             <FormItem>
-                              <FormLabel>Days to Resolution</FormLabel>
+                              <FormLabel>Date Resolved</FormLabel>
+                              <FormControl>
+                                <Input 
+                                  id={`date-resolved-${index}`}
+                                  type="date"
+                                  min={accidentDate}
+                                  {...field}
+                                  value={field.value || ""}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      ) : (
+                        <FormField
+                          control={form.control}
+                          name={`injuries.${index}.prognosis.periodMonths`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Prognosis Period (months from accident)</FormLabel>
+                              <FormControl>
+                                <Input 
+                                  type="number"
+                                  min={0}
+                                  max={60}
+                                  value={field.value ?? ""}
+                                  onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseInt(e.target.value, 10))}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+                      
+                      <FormField
+                        control={form.control}
+                        name={`injuries.${index}.prognosis.referralNeeded`}
+                        render={({ field }) => (
+                          <FormItem className="flex items-center space-x-2 space-y-0 md:col-span-2">
+                            <FormControl>
+                              <Checkbox
+                                checked={field.value}
+                                onCheckedChange={(checked) => field.onChange(!!checked)}
+                              />
+                            </FormControl>
+                            <FormLabel className="font-normal">Further referral needed</FormLabel>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      {form.watch(`injuries.${index}.prognosis.referralNeeded`) && (
+                        <FormField
+                          control={form.control}
+                          name={`injuries.${index}.prognosis.referralDetails`}
+                          render={({ field }) => (
+                            <FormItem className="md:col-span-2">
+                              <FormLabel>Referral Details</FormLabel>
                               <FormControl>
                                 <Input 
-                                  id={`resolution-days-${index}`}
-                                  placeholder="How many days did it take to resolve?" 
-                                  {...field} 
+                                  placeholder="e.g. Orthopaedic surgeon for persistent lower back pain"
+                                  {...field}
+                                  value={field.value || ""}
                                 />
                               </FormControl>
                               <FormMessage />
@@ -541,6 +644,16 @@ export function PhysicalInjuryForm({ caseId, initialData, onSaved }: PhysicalInj
           </div>
         </form>
       </Form>
+      <SectionConflictDialog
+        section="physical-injury"
+        conflict={conflict}
+        onClose={() => setConflict(null)}
+        onReload={(theirs) => form.reset(theirs)}
+        onSave={(merged) => {
+          form.reset(merged);
+          onSubmit(merged);
+        }}
+      />
     </FormSection>
   );
 }
@@ -16,7 +16,8 @@ import { FormSection, SubSection } from "@/components/ui/form-section";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Plus, X } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
+import { saveCaseSection, useLoadedRevision, CaseConflictError } from "@/lib/case-save";
+import { SectionConflictDialog, type SectionConflict } from "./section-conflict-dialog";
 import { useToast } from "@/hooks/use-toast";
 
 // Common treatment recommendations
@@ -36,6 +37,8 @@ interface PrognosisFormProps {
 export function PrognosisForm({ caseId, initialData, onSaved }: PrognosisFormProps) {
   const { toast } = useToast();
   const [saving, setSaving] = React.useState(false);
+  const [conflict, setConflict] = React.useState<SectionConflict<Prognosis> | null>(null);
+  const loadedRevision = useLoadedRevision(caseId);
   const [otherRecommendation, setOtherRecommendation] = React.useState("");
   
   // Set up form with validation schema
@@ -78,10 +81,8 @@ export function PrognosisForm({ caseId, initialData, onSaved }: PrognosisFormPro
     try {
       setSaving(true);
       
-      await apiRequest("PUT", `/api/cases/${caseId}/prognosis`, data);
-      
-      // Calculate completion percentage
-      await apiRequest("POST", `/api/cases/${caseId}/calculate-completion`);
+      // Saves against the revision this form was loaded from
+      await saveCaseSection(caseId, "prognosis", data, loadedRevision);
       
       toast({
         title: "Prognosis saved",
@@ -90,6 +91,10 @@ export function PrognosisForm({ caseId, initialData, onSaved }: PrognosisFormPro
       
       if (onSaved) onSaved();
     } catch (error) {
+      if (error instanceof CaseConflictError) {
+        setConflict({ mine: data, error });
+        return;
+      }
       console.error("Error saving prognosis:", error);
       toast({
         title: "Error saving prognosis",
@@ -292,6 +297,16 @@ export function PrognosisForm({ caseId, initialData, onSaved }: PrognosisFormPro
           </div>
         </form>
       </Form>
+      <SectionConflictDialog
+        section="prognosis"
+        conflict={conflict}
+        onClose={() => setConflict(null)}
+        onReload={(theirs) => form.reset(theirs)}
+        onSave={(merged) => {
+          form.reset(merged);
+          onSubmit(merged);
+        }}
+      />
     </FormSection>
   );
 }
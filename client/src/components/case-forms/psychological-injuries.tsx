@@ -16,7 +16,8 @@ import { FormSection, SubSection } from "@/components/ui/form-section";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { apiRequest } from "@/lib/queryClient";
+import { saveCaseSection, useLoadedRevision, CaseConflictError } from "@/lib/case-save";
+import { SectionConflictDialog, type SectionConflict } from "./section-conflict-dialog";
 import { useToast } from "@/hooks/use-toast";
 
 // Predefined list for travel anxiety symptoms
@@ -42,6 +43,8 @@ interface PsychologicalInjuriesFormProps {
 export function PsychologicalInjuriesForm({ caseId, initialData, onSaved }: PsychologicalInjuriesFormProps) {
   const { toast } = useToast();
   const [saving, setSaving] = React.useState(false);
+  const [conflict, setConflict] = React.useState<SectionConflict<PsychologicalInjuries> | null>(null);
+  const loadedRevision = useLoadedRevision(caseId);
   
   // Set up form with validation schema
   const form = useForm<PsychologicalInjuries>({
@@ -63,10 +66,8 @@ export function PsychologicalInjuriesForm({ caseId, initialData, onSaved }: Psyc
     try {
       setSaving(true);
       
-      await apiRequest("PUT", `/api/cases/${caseId}/psychological-injuries`, data);
-      
-      // Calculate completion percentage
-      await apiRequest("POST", `/api/cases/${caseId}/calculate-completion`);
+      // Saves against the revision this form was loaded from
+      await saveCaseSection(caseId, "psychological-injuries", data, loadedRevision);
       
       toast({
         title: "Travel anxiety details saved",
@@ -75,6 +76,10 @@ export function PsychologicalInjuriesForm({ caseId, initialData, onSaved }: Psyc
       
       if (onSaved) onSaved();
     } catch (error) {
+      if (error instanceof CaseConflictError) {
+        setConflict({ mine: data, error });
+        return;
+      }
       console.error("Error saving travel anxiety details:", error);
       toast({
         title: "Error saving travel anxiety details",
@@ -349,6 +354,16 @@ export function PsychologicalInjuriesForm({ caseId, initialData, onSaved }: Psyc
           </div>
         </form>
       </Form>
+      <SectionConflictDialog
+        section="psychological-injuries"
+        conflict={conflict}
+        onClose={() => setConflict(null)}
+        onReload={(theirs) => form.reset(theirs)}
+        onSave={(merged) => {
+          form.reset(merged);
+          onSubmit(merged);
+        }}
+      />
     </FormSection>
   );
 }
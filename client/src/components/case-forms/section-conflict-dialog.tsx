@@ -0,0 +1,149 @@
+import React from "react";
+import { AlertTriangle } from "lucide-react";
+import type { Case } from "@shared/schema";
+import type { CaseSection } from "@shared/permissions";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { CaseConflictError, sectionValue } from "@/lib/case-save";
+
+// A rejected save: what this user submitted and the copy now on the server
+export interface SectionConflict<T> {
+  mine: T;
+  error: CaseConflictError;
+}
+
+interface SectionConflictDialogProps<T> {
+  section: CaseSection;
+  conflict: SectionConflict<T> | null;
+  onClose: () => void;
+  // Replace the form with the server's copy
+  onReload: (theirs: T | undefined) => void;
+  // Save the fields this user chose from each copy
+  onSave: (merged: T) => void;
+}
+
+type Choice = "mine" | "theirs";
+
+// "dateOfExamination" -> "Date of examination"
+const fieldLabel = (field: string) => {
+  const words = field.replace(/([a-z0-9])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === "") return "(empty)";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (Array.isArray(value)) return value.length === 1 ? "1 entry" : `${value.length} entries`;
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+};
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export function SectionConflictDialog<T>({ section, conflict, onClose, onReload, onSave }: SectionConflictDialogProps<T>) {
+  const [choices, setChoices] = React.useState<Record<string, Choice>>({});
+
+  const mine = (conflict?.mine ?? {}) as Record<string, unknown>;
+  const theirs = conflict ? sectionValue<T>(conflict.error.serverCase, section) ?? undefined : undefined;
+  const theirFields = (theirs ?? {}) as Record<string, unknown>;
+
+  // Top-level fields that differ; anything else is the same in both copies
+  const changedFields = Array.from(new Set([...Object.keys(mine), ...Object.keys(theirFields)]))
+    .filter(field => !sameValue(mine[field], theirFields[field]));
+
+  React.useEffect(() => {
+    setChoices({});
+  }, [conflict]);
+
+  const handleSave = () => {
+    const merged = { ...theirFields, ...mine };
+    for (const field of changedFields) {
+      if (choices[field] === "theirs") {
+        merged[field] = theirFields[field];
+      }
+    }
+    conflict?.error.accept();
+    onSave(merged as T);
+    onClose();
+  };
+
+  const handleReload = () => {
+    conflict?.error.accept();
+    onReload(theirs);
+    onClose();
+  };
+
+  const changedBy = conflict?.error.changedBy;
+
+  return (
+    <Dialog open={conflict !== null} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            This section was changed while you were editing
+          </DialogTitle>
+          <DialogDescription>
+            {changedBy ? `${changedBy} saved` : "Someone else saved"} this case after you opened it.
+            Choose which version of each field to keep, or reload their version and discard yours.
+          </DialogDescription>
+        </DialogHeader>
+
+        {changedFields.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Your changes to this section match the saved copy; only other sections were changed.
+          </p>
+        ) : (
+          <ScrollArea className="max-h-[50vh] pr-4">
+            <div className="space-y-4">
+              {changedFields.map(field => (
+                <div key={field} className="rounded-md border p-3">
+                  <p className="text-sm font-medium mb-2">{fieldLabel(field)}</p>
+                  <RadioGroup
+                    value={choices[field] ?? "mine"}
+                    onValueChange={value => setChoices(current => ({ ...current, [field]: value as Choice }))}
+                    className="grid grid-cols-2 gap-3"
+                  >
+                    <div className="flex items-start gap-2">
+                      <RadioGroupItem value="mine" id={`${field}-mine`} className="mt-0.5" />
+                      <Label htmlFor={`${field}-mine`} className="font-normal">
+                        <span className="block text-xs text-muted-foreground">Yours</span>
+                        <span className="break-words">{formatValue(mine[field])}</span>
+                      </Label>
+                    </div>
+                    <div className="flex items-start gap-2">
+                      <RadioGroupItem value="theirs" id={`${field}-theirs`} className="mt-0.5" />
+                      <Label htmlFor={`${field}-theirs`} className="font-normal">
+                        <span className="block text-xs text-muted-foreground">Saved</span>
+                        <span className="break-words">{formatValue(theirFields[field])}</span>
+                      </Label>
+                    </div>
+                  </RadioGroup>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleReload}>
+            Reload Their Version
+          </Button>
+          <Button onClick={handleSave}>
+            Save Merged Version
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -16,7 +16,8 @@ import { FormSection, SubSection } from "@/components/ui/form-section";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { apiRequest } from "@/lib/queryClient";
+import { saveCaseSection, useLoadedRevision, CaseConflictError } from "@/lib/case-save";
+import { SectionConflictDialog, type SectionConflict } from "./section-conflict-dialog";
 import { useToast } from "@/hooks/use-toast";
 
 interface TreatmentsFormProps {
@@ -28,6 +29,8 @@ interface TreatmentsFormProps {
 export function TreatmentsForm({ caseId, initialData, onSaved }: TreatmentsFormProps) {
   const { toast } = useToast();
   const [saving, setSaving] = React.useState(false);
+  const [conflict, setConflict] = React.useState<SectionConflict<Treatments> | null>(null);
+  const loadedRevision = useLoadedRevision(caseId);
   
   // Set up form with validation schema
   const form = useForm<Treatments>({
@@ -141,10 +144,8 @@ export function TreatmentsForm({ caseId, initialData, onSaved }: TreatmentsFormP
     try {
       setSaving(true);
       
-      await apiRequest("PUT", `/api/cases/${caseId}/treatments`, data);
-      
-      // Calculate completion percentage
-      await apiRequest("POST", `/api/cases/${caseId}/calculate-completion`);
+      // Saves against the revision this form was loaded from
+      await saveCaseSection(caseId, "treatments", data, loadedRevision);
       
       toast({
         title: "Treatments saved",
@@ -153,6 +154,10 @@ export function TreatmentsForm({ caseId, initialData, onSaved }: TreatmentsFormP
       
       if (onSaved) onSaved();
     } catch (error) {
+      if (error instanceof CaseConflictError) {
+        setConflict({ mine: data, error });
+        return;
+      }
       console.error("Error saving treatments:", error);
       toast({
         title: "Error saving treatments",
@@ -685,6 +690,16 @@ export function TreatmentsForm({ caseId, initialData, onSaved }: TreatmentsFormP
           </div>
         </form>
       </Form>
+      <SectionConflictDialog
+        section="treatments"
+        conflict={conflict}
+        onClose={() => setConflict(null)}
+        onReload={(theirs) => form.reset(theirs)}
+        onSave={(merged) => {
+          form.reset(merged);
+          onSubmit(merged);
+        }}
+      />
     </FormSection>
   );
 }
\ No newline at end of file
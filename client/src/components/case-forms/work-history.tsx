@@ -15,7 +15,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { FormSection, SubSection } from "@/components/ui/form-section";
 import { Button } from "@/components/ui/button";
 import { Plus } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
+import { saveCaseSection, useLoadedRevision, CaseConflictError } from "@/lib/case-save";
+import { SectionConflictDialog, type SectionConflict } from "./section-conflict-dialog";
 import { useToast } from "@/hooks/use-toast";
 
 interface WorkHistoryFormProps {
@@ -27,6 +28,8 @@ interface WorkHistoryFormProps {
 export function WorkHistoryForm({ caseId, initialData, onSaved }: WorkHistoryFormProps) {
   const { toast } = useToast();
   const [saving, setSaving] = React.useState(false);
+  const [conflict, setConflict] = React.useState<SectionConflict<WorkHistory> | null>(null);
+  const loadedRevision = useLoadedRevision(caseId);
   
   // Set up form with validation schema
   const form = useForm<WorkHistory>({
@@ -60,10 +63,8 @@ export function WorkHistoryForm({ caseId, initialData, onSaved }: WorkHistoryFor
     try {
       setSaving(true);
       
-      await apiRequest("PUT", `/api/cases/${caseId}/work-history`, data);
-      
-      // Calculate completion percentage
-      await apiRequest("POST", `/api/cases/${caseId}/calculate-completion`);
+      // Saves against the revision this form was loaded from
+      await saveCaseSection(caseId, "work-history", data, loadedRevision);
       
       toast({
         title: "Work history saved",
@@ -72,6 +73,10 @@ export function WorkHistoryForm({ caseId, initialData, onSaved }: WorkHistoryFor
       
       if (onSaved) onSaved();
     } catch (error) {
+      if (error instanceof CaseConflictError) {
+        setConflict({ mine: data, error });
+        return;
+      }
       console.error("Error saving work history:", error);
       toast({
         title: "Error saving work history",
@@ -342,6 +347,16 @@ export function WorkHistoryForm({ caseId, initialData, onSaved }: WorkHistoryFor
           </div>
         </form>
       </Form>
+      <SectionConflictDialog
+        section="work-history"
+        conflict={conflict}
+        onClose={() => setConflict(null)}
+        onReload={(theirs) => form.reset(theirs)}
+        onSave={(merged) => {
+          form.reset(merged);
+          onSubmit(merged);
+        }}
+      />
     </FormSection>
   );
 }
@@ -0,0 +1,34 @@
+import { useQuery } from "@tanstack/react-query";
+import type { PublicUser } from "@shared/schema";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface DoctorSelectProps {
+  value: number | undefined;
+  onChange: (doctorId: number) => void;
+}
+
+// Picks the doctor a case is assigned to, for office staff creating cases
+export function DoctorSelect({ value, onChange }: DoctorSelectProps) {
+  const { data: doctors } = useQuery<PublicUser[]>({
+    queryKey: ["/api/doctors"],
+  });
+
+  return (
+    <Select value={value?.toString() ?? ""} onValueChange={(selected) => onChange(parseInt(selected, 10))}>
+      <SelectTrigger>
+        <SelectValue placeholder="Select a doctor" />
+      </SelectTrigger>
+      <SelectContent>
+        {doctors?.map(doctor => (
+          <SelectItem key={doctor.id} value={doctor.id.toString()}>{doctor.fullName}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,89 @@
+import React from "react";
+import { useLocation } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import type { Case } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { DoctorSelect } from "./doctor-select";
+
+interface NewCaseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Server errors arrive as "400: {json}"
+const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).message ?? body;
+  } catch {
+    return body;
+  }
+};
+
+// Office staff create a case for the doctor who will report on it
+export function NewCaseDialog({ open, onOpenChange }: NewCaseDialogProps) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [doctorId, setDoctorId] = React.useState<number | undefined>(undefined);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/cases", { userId: doctorId });
+      return await res.json();
+    },
+    onSuccess: (created: Case) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+      onOpenChange(false);
+      toast({
+        title: "Case created",
+        description: `New case ${created.caseNumber} created successfully`,
+      });
+      setLocation(`/cases/${created.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error creating case",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Case</DialogTitle>
+          <DialogDescription>
+            Choose the doctor the case is assigned to. They examine the claimant and sign the report.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-1">
+          <Label>Doctor</Label>
+          <DoctorSelect value={doctorId} onChange={setDoctorId} />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            className="bg-[#0E7C7B] hover:bg-[#0A6463]"
+            onClick={() => createMutation.mutate()}
+            disabled={doctorId === undefined || createMutation.isPending}
+          >
+            {createMutation.isPending ? "Creating..." : "Create Case"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
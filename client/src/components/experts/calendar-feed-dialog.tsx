@@ -0,0 +1,128 @@
+import React from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Copy, RefreshCw } from "lucide-react";
+import type { PublicExpert } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface CalendarFeedDialogProps {
+  expert: PublicExpert;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// The expert's subscription URL for calendar apps, with ways to reissue or revoke it
+export function CalendarFeedDialog({ expert, open, onOpenChange }: CalendarFeedDialogProps) {
+  const { toast } = useToast();
+  const feedUrl = `/api/experts/${expert.id}/calendar-feed`;
+
+  const { data, isLoading } = useQuery<{ url: string | null }>({
+    queryKey: [feedUrl],
+    enabled: open,
+  });
+
+  const onFeedChanged = () => {
+    queryClient.invalidateQueries({ queryKey: [feedUrl] });
+    queryClient.invalidateQueries({ queryKey: ["/api/experts"] });
+  };
+
+  const issueMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", feedUrl);
+      return await res.json();
+    },
+    onSuccess: () => {
+      onFeedChanged();
+      toast({
+        title: "Calendar link created",
+        description: "Calendars subscribed to any earlier link will stop updating.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error creating calendar link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", feedUrl);
+    },
+    onSuccess: () => {
+      onFeedChanged();
+      toast({
+        title: "Calendar link turned off",
+        description: "Subscribed calendars will stop updating.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error turning off calendar link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyUrl = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    toast({ title: "Link copied" });
+  };
+
+  const url = data?.url;
+  const busy = issueMutation.isPending || revokeMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Calendar for {expert.name}</DialogTitle>
+          <DialogDescription>
+            Subscribe to this link in Outlook, Google or Apple Calendar to see booked and recorded
+            examinations. Events show the claimant's initials, never their name. Anyone with the
+            link can read the calendar, so keep it private.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Skeleton className="h-10 w-full" />
+        ) : url ? (
+          <div className="flex items-center gap-2">
+            <Input readOnly value={url} onFocus={(e) => e.target.select()} />
+            <Button variant="outline" size="sm" title="Copy link" onClick={() => copyUrl(url)}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-[#718096]">No calendar link has been created yet.</p>
+        )}
+
+        <DialogFooter>
+          {url && (
+            <Button variant="outline" className="text-red-600" disabled={busy} onClick={() => revokeMutation.mutate()}>
+              Turn Off
+            </Button>
+          )}
+          <Button disabled={busy || isLoading} onClick={() => issueMutation.mutate()}>
+            <RefreshCw className="h-4 w-4 mr-1" />
+            {url ? "New Link" : "Create Link"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,299 @@
+import React from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  insertExpertSchema,
+  type InsertExpert,
+  type PublicExpert,
+  type PublicUser,
+  type Venue,
+} from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+
+interface ExpertFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The profile being edited, or undefined to add one
+  expert?: PublicExpert;
+  // Doctor accounts a profile can be linked to
+  doctors: PublicUser[];
+  venues: Venue[];
+  saving: boolean;
+  onSubmit: (data: InsertExpert) => void;
+}
+
+// Select value for a profile not linked to any account, or without a default venue
+const NONE = "none";
+
+const emptyExpert: InsertExpert = {
+  userId: null,
+  name: "",
+  qualifications: "",
+  gmcNumber: "",
+  medcoRegistration: "",
+  specialty: "",
+  experienceYears: null,
+  contactInformation: "",
+  defaultVenueId: null,
+  cv: "",
+};
+
+// Form fields for a profile; blank optional fields are kept as empty strings
+const toFormValues = (expert?: PublicExpert): InsertExpert =>
+  expert
+    ? {
+        userId: expert.userId,
+        name: expert.name,
+        qualifications: expert.qualifications,
+        gmcNumber: expert.gmcNumber,
+        medcoRegistration: expert.medcoRegistration ?? "",
+        specialty: expert.specialty ?? "",
+        experienceYears: expert.experienceYears,
+        contactInformation: expert.contactInformation ?? "",
+        defaultVenueId: expert.defaultVenueId,
+        cv: expert.cv ?? "",
+      }
+    : emptyExpert;
+
+export function ExpertFormDialog({ open, onOpenChange, expert, doctors, venues, saving, onSubmit }: ExpertFormDialogProps) {
+  const form = useForm<InsertExpert>({
+    resolver: zodResolver(insertExpertSchema),
+    defaultValues: toFormValues(expert),
+  });
+
+  React.useEffect(() => {
+    if (open) form.reset(toFormValues(expert));
+  }, [open, expert]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{expert ? `Edit ${expert.name}` : "Add Expert"}</DialogTitle>
+          <DialogDescription>
+            These details are printed on every report the expert signs.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Dr. Sarah Johnson" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="qualifications"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Qualifications</FormLabel>
+                    <FormControl>
+                      <Input placeholder="MBChB, MRCGP" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="gmcNumber"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>GMC Number</FormLabel>
+                    <FormControl>
+                      <Input placeholder="1234567" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="medcoRegistration"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Medco Registration</FormLabel>
+                    <FormControl>
+                      <Input placeholder="DME 1234" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="specialty"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Specialty</FormLabel>
+                    <FormControl>
+                      <Input placeholder="General Practice" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="experienceYears"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Years of Experience</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        placeholder="15"
+                        {...field}
+                        onChange={(e) => {
+                          const value = e.target.value !== "" ? parseInt(e.target.value, 10) : null;
+                          field.onChange(value);
+                        }}
+                        value={field.value ?? ""}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="userId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Doctor Account</FormLabel>
+                    <Select
+                      value={field.value?.toString() ?? NONE}
+                      onValueChange={(value) => field.onChange(value === NONE ? null : parseInt(value, 10))}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a doctor" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NONE}>Not linked</SelectItem>
+                        {doctors.map(doctor => (
+                          <SelectItem key={doctor.id} value={doctor.id.toString()}>{doctor.fullName}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Cases assigned to this doctor are signed with this profile.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="defaultVenueId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Default Venue</FormLabel>
+                    <Select
+                      value={field.value?.toString() ?? NONE}
+                      onValueChange={(value) => field.onChange(value === NONE ? null : parseInt(value, 10))}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a venue" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NONE}>No default</SelectItem>
+                        {venues.filter(venue => venue.active || venue.id === field.value).map(venue => (
+                          <SelectItem key={venue.id} value={venue.id.toString()}>{venue.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Used as the place of examination on this expert's new cases.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="contactInformation"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Contact Information</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Address, phone, email, etc." rows={2} {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="cv"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Curriculum Vitae</FormLabel>
+                  <FormControl>
+                    <Textarea rows={6} {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormDescription>Printed as the CV appendix when a report includes it.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : expert ? "Save Changes" : "Add Expert"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,378 @@
+import React from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { AlertCircle, CheckCircle, FileSpreadsheet, Upload } from "lucide-react";
+import type { Case } from "@shared/schema";
+import { importFieldLabels, type ImportField, type ImportPreview } from "@shared/case-import";
+import type { BundleIncompatibility } from "@shared/case-bundle";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { DoctorSelect } from "@/components/cases/doctor-select";
+
+interface CaseImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Server errors arrive as "400: {json}"
+const errorBody = (error: Error): { message?: string; incompatibilities?: BundleIncompatibility[] } => {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body);
+  } catch {
+    return { message: body };
+  }
+};
+
+const errorMessage = (error: Error) => errorBody(error).message ?? error.message;
+
+interface RestoredCase {
+  case: Case;
+  originalCaseNumber: string;
+  warnings: string[];
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString("en-GB");
+
+/**
+ * Three-step import of new instructions: pick a spreadsheet, check the rows
+ * the server could read, then create cases for the valid ones. Rows with
+ * errors are left out and can be fixed in the spreadsheet and imported again.
+ * A case file from the export endpoint can be restored from the first step.
+ * Office staff first choose the doctor the imported cases are assigned to.
+ */
+export function CaseImportDialog({ open, onOpenChange }: CaseImportDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const fileInput = React.useRef<HTMLInputElement>(null);
+  const bundleInput = React.useRef<HTMLInputElement>(null);
+  const [preview, setPreview] = React.useState<ImportPreview | null>(null);
+  const [created, setCreated] = React.useState<Case[] | null>(null);
+  const [restored, setRestored] = React.useState<RestoredCase | null>(null);
+  const [incompatibilities, setIncompatibilities] = React.useState<BundleIncompatibility[] | null>(null);
+  const [doctorId, setDoctorId] = React.useState<number | undefined>(undefined);
+
+  // A doctor's imports are their own cases
+  const choosesDoctor = user?.role !== "doctor";
+  const assignee = choosesDoctor ? doctorId : undefined;
+  const needsDoctor = choosesDoctor && doctorId === undefined;
+
+  const validRows = preview?.rows.filter(row => row.data) ?? [];
+  const invalidRows = preview?.rows.filter(row => !row.data) ?? [];
+
+  const reset = () => {
+    setPreview(null);
+    setCreated(null);
+    setRestored(null);
+    setIncompatibilities(null);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const query = new URLSearchParams({ fileName: file.name });
+      // Sent as plain bytes; the server works out the format from the file name
+      const body = new Blob([file], { type: "application/octet-stream" });
+      const res = await apiRequest("POST", `/api/cases/import/spreadsheet/preview?${query}`, body);
+      return await res.json() as ImportPreview;
+    },
+    onSuccess: setPreview,
+    onError: (error: Error) => {
+      toast({
+        title: "Error reading spreadsheet",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/cases/import/spreadsheet", {
+        rows: validRows.map(row => row.data),
+        userId: assignee,
+      });
+      return await res.json() as Case[];
+    },
+    onSuccess: (cases) => {
+      setCreated(cases);
+      queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+      toast({
+        title: "Cases imported",
+        description: `${cases.length} new ${cases.length === 1 ? "case has" : "cases have"} been created.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error importing cases",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // A case file exported from this or another instance is restored as one new case
+  const restoreMutation = useMutation({
+    mutationFn: async (file: File) => {
+      let bundle: unknown;
+      try {
+        bundle = JSON.parse(await file.text());
+      } catch {
+        throw new Error("The file is not valid JSON");
+      }
+      const query = assignee !== undefined ? `?${new URLSearchParams({ userId: assignee.toString() })}` : "";
+      const res = await apiRequest("POST", `/api/cases/import${query}`, bundle);
+      return await res.json() as RestoredCase;
+    },
+    onSuccess: (result) => {
+      setRestored(result);
+      queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+      toast({
+        title: "Case restored",
+        description: `Case ${result.originalCaseNumber} has been imported as ${result.case.caseNumber}.`,
+      });
+    },
+    onError: (error: Error) => {
+      const body = errorBody(error);
+      if (body.incompatibilities) {
+        setIncompatibilities(body.incompatibilities);
+      }
+      toast({
+        title: "Error restoring case",
+        description: body.message ?? error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleBundleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    setIncompatibilities(null);
+    if (file) restoreMutation.mutate(file);
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file) previewMutation.mutate(file);
+  };
+
+  const mappedColumns = preview
+    ? (Object.keys(preview.mapping.fields) as ImportField[]).map(field => importFieldLabels[field])
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5 text-[#0E7C7B]" />
+            Import Cases
+          </DialogTitle>
+          <DialogDescription>
+            Create cases from an instruction spreadsheet (CSV or .xlsx), one claimant per row,
+            or restore an exported case file.
+          </DialogDescription>
+        </DialogHeader>
+
+        {restored ? (
+          <div className="space-y-3">
+            <p className="flex items-center gap-2 text-green-700">
+              <CheckCircle className="h-5 w-5" />
+              Case {restored.originalCaseNumber} restored as{" "}
+              <span className="font-mono">{restored.case.caseNumber}</span>.
+            </p>
+            {restored.warnings.length > 0 && (
+              <ul className="text-sm text-amber-700 space-y-1">
+                {restored.warnings.map((warning, index) => (
+                  <li key={index} className="flex items-start gap-1">
+                    <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                    {warning}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ) : incompatibilities ? (
+          <div className="space-y-3">
+            <p className="text-sm text-red-700">
+              The case file can't be imported. Correct the following and try again:
+            </p>
+            <ScrollArea className="h-80 border rounded-md p-3">
+              <ul className="text-sm text-red-700 space-y-1">
+                {incompatibilities.map((problem, index) => (
+                  <li key={index} className="flex items-start gap-1">
+                    <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                    <span><span className="font-medium">{problem.section}:</span> {problem.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+          </div>
+        ) : created ? (
+          <div className="space-y-3">
+            <p className="flex items-center gap-2 text-green-700">
+              <CheckCircle className="h-5 w-5" />
+              Imported {created.length} {created.length === 1 ? "case" : "cases"} from {preview?.fileName}.
+            </p>
+            <ScrollArea className="max-h-80">
+              <ul className="text-sm space-y-1">
+                {created.map(caseItem => (
+                  <li key={caseItem.id}>
+                    <span className="font-mono">{caseItem.caseNumber}</span>
+                    {" – "}
+                    {(caseItem.claimantDetails as { fullName?: string } | null)?.fullName}
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+          </div>
+        ) : preview ? (
+          <div className="space-y-3">
+            <p className="text-sm text-[#4A5568]">
+              <span className="font-medium">{preview.fileName}</span>: {validRows.length} ready to import
+              {invalidRows.length > 0 && <>, <span className="text-red-600">{invalidRows.length} with errors</span></>}.
+            </p>
+            <p className="text-xs text-[#718096]">
+              Columns read: {mappedColumns.join(", ")}
+              {preview.mapping.unmapped.length > 0 && <>. Ignored: {preview.mapping.unmapped.join(", ")}</>}
+            </p>
+            <ScrollArea className="h-80 border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Claimant</TableHead>
+                    <TableHead>Date of Birth</TableHead>
+                    <TableHead>Accident Date</TableHead>
+                    <TableHead>MedCo Ref</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.map(row => (
+                    <TableRow key={row.rowNumber} className={row.data ? undefined : "bg-red-50"}>
+                      <TableCell>{row.rowNumber}</TableCell>
+                      {row.data ? (
+                        <>
+                          <TableCell>{row.data.claimantDetails.fullName}</TableCell>
+                          <TableCell>{formatDate(row.data.claimantDetails.dateOfBirth)}</TableCell>
+                          <TableCell>{formatDate(row.data.accidentDetails.accidentDate)}</TableCell>
+                          <TableCell>{row.data.claimantDetails.medcoRefNumber || "-"}</TableCell>
+                          <TableCell>
+                            <CheckCircle className="h-4 w-4 text-green-600" />
+                          </TableCell>
+                        </>
+                      ) : (
+                        <TableCell colSpan={5}>
+                          <ul className="text-sm text-red-700">
+                            {row.errors.map((error, index) => (
+                              <li key={index} className="flex items-start gap-1">
+                                <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                                <span><span className="font-medium">{error.field}:</span> {error.message}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </div>
+        ) : (
+          <div className="border-2 border-dashed border-gray-200 rounded-md p-8 text-center">
+            {choosesDoctor && (
+              <div className="max-w-xs mx-auto mb-4 space-y-1 text-left">
+                <Label>Assign imported cases to</Label>
+                <DoctorSelect value={doctorId} onChange={setDoctorId} />
+              </div>
+            )}
+            <p className="text-sm text-[#4A5568] mb-1">
+              The first row must name the columns. Claimant name, date of birth and accident date are required;
+              instructing party, references, MedCo number and contact details are read when present.
+            </p>
+            <p className="text-xs text-[#718096] mb-4">Dates are read day first, e.g. 31/01/2024.</p>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".csv,.xlsx"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <Button
+              className="bg-[#0E7C7B] hover:bg-[#0A6463]"
+              onClick={() => fileInput.current?.click()}
+              disabled={needsDoctor || previewMutation.isPending}
+            >
+              <Upload className="h-4 w-4 mr-1" />
+              {previewMutation.isPending ? "Reading..." : "Choose Spreadsheet"}
+            </Button>
+            <p className="text-xs text-[#718096] mt-6 mb-2">
+              To restore a single case exported from this or another instance, choose its case file instead.
+            </p>
+            <input
+              ref={bundleInput}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleBundleChange}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => bundleInput.current?.click()}
+              disabled={needsDoctor || restoreMutation.isPending}
+            >
+              {restoreMutation.isPending ? "Restoring..." : "Choose Case File (.json)"}
+            </Button>
+          </div>
+        )}
+
+        <DialogFooter>
+          {created || restored ? (
+            <Button onClick={() => handleOpenChange(false)}>Done</Button>
+          ) : incompatibilities ? (
+            <Button variant="outline" onClick={reset}>Back</Button>
+          ) : preview ? (
+            <>
+              <Button variant="outline" onClick={reset} disabled={importMutation.isPending}>
+                Choose Another File
+              </Button>
+              <Button
+                className="bg-[#0E7C7B] hover:bg-[#0A6463]"
+                onClick={() => importMutation.mutate()}
+                disabled={validRows.length === 0 || importMutation.isPending}
+              >
+                {importMutation.isPending
+                  ? "Importing..."
+                  : `Import ${validRows.length} ${validRows.length === 1 ? "Case" : "Cases"}`}
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,5 @@
 import React from "react";
-import { FileText, Save } from "lucide-react";
+import { FileText, Save, CheckCircle, History, Paperclip, CalendarClock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
@@ -10,9 +10,16 @@ interface HeaderProps {
   onSave: () => Promise<void>;
   onGeneratePdf?: () => void;
   canGeneratePdf?: boolean;
+  onSignOff?: () => void;
+  canSignOff?: boolean;
+  onShowHistory?: () => void;
+  onShowAttachments?: () => void;
+  onShowAppointments?: () => void;
+  // Current status and the moves available from it
+  statusMenu?: React.ReactNode;
 }
 
-export function Header({ caseNumber, onSave, onGeneratePdf, canGeneratePdf = false }: HeaderProps) {
+export function Header({ caseNumber, onSave, onGeneratePdf, canGeneratePdf = false, onSignOff, canSignOff = false, onShowHistory, onShowAttachments, onShowAppointments, statusMenu }: HeaderProps) {
   const { toast } = useToast();
   const [saving, setSaving] = React.useState(false);
   
@@ -43,6 +50,8 @@ export function Header({ caseNumber, onSave, onGeneratePdf, canGeneratePdf = fal
         <h1 className="ml-2 text-xl font-semibold text-[#0E7C7B]">Medical-Legal Report Generator</h1>
       </div>
       <div className="flex items-center space-x-4">
+        {statusMenu}
+        
         <Button 
           variant="outline"
           className="bg-gray-100 hover:bg-gray-200 text-[#4A5568]"
@@ -53,6 +62,50 @@ export function Header({ caseNumber, onSave, onGeneratePdf, canGeneratePdf = fal
           Save Case
         </Button>
         
+        {onShowHistory && (
+          <Button 
+            variant="outline"
+            className="bg-gray-100 hover:bg-gray-200 text-[#4A5568]"
+            onClick={onShowHistory}
+          >
+            <History className="h-4 w-4 mr-1" />
+            History
+          </Button>
+        )}
+        
+        {onShowAttachments && (
+          <Button 
+            variant="outline"
+            className="bg-gray-100 hover:bg-gray-200 text-[#4A5568]"
+            onClick={onShowAttachments}
+          >
+            <Paperclip className="h-4 w-4 mr-1" />
+            Documents
+          </Button>
+        )}
+        
+        {onShowAppointments && (
+          <Button 
+            variant="outline"
+            className="bg-gray-100 hover:bg-gray-200 text-[#4A5568]"
+            onClick={onShowAppointments}
+          >
+            <CalendarClock className="h-4 w-4 mr-1" />
+            Appointments
+          </Button>
+        )}
+        
+        {canSignOff && onSignOff && (
+          <Button 
+            variant="outline"
+            className="border-[#0E7C7B] text-[#0E7C7B] hover:bg-teal-50"
+            onClick={onSignOff}
+          >
+            <CheckCircle className="h-4 w-4 mr-1" />
+            Sign Off Report
+          </Button>
+        )}
+        
         {canGeneratePdf && onGeneratePdf && (
           <Button 
             className="bg-[#0E7C7B] hover:bg-[#0A6463]" 
@@ -8,7 +8,14 @@ import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Input } from '@/components/ui/input';
 import { Separator } from '@/components/ui/separator';
-import { PDFCustomizationOptions } from '@/lib/pdf-generator';
+import {
+  defaultPDFOptions,
+  reportTemplateIds,
+  type PDFCustomizationOptions,
+  type ReportTemplateId,
+  type SectionsToInclude,
+} from '@shared/report/options';
+import { reportTemplates } from '@shared/report/templates';
 import { FileImage, FileText, Layout, List, Palette, Type } from 'lucide-react';
 
 interface PDFOptionsPanelProps {
@@ -28,7 +35,9 @@ export function PDFOptionsPanel({ options, onChange, onClose, onApply }: PDFOpti
     });
   };
 
-  const updateSectionsToInclude = (sectionName: keyof PDFCustomizationOptions['sectionsToInclude'], value: boolean) => {
+  const fontSize = { ...defaultPDFOptions.fontSize, ...options.fontSize };
+
+  const updateSectionsToInclude = (sectionName: keyof SectionsToInclude, value: boolean) => {
     onChange({
       ...options,
       sectionsToInclude: {
@@ -70,6 +79,26 @@ export function PDFOptionsPanel({ options, onChange, onClose, onApply }: PDFOpti
           </TabsList>
 
           <TabsContent value="layout" className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="template">Template</Label>
+              <Select 
+                value={options.template ?? defaultPDFOptions.template}
+                onValueChange={(value) => updateOptions({ template: value as ReportTemplateId })}
+              >
+                <SelectTrigger id="template">
+                  <SelectValue placeholder="Select template" />
+                </SelectTrigger>
+                <SelectContent>
+                  {reportTemplateIds.map((id) => (
+                    <SelectItem key={id} value={id}>{reportTemplates[id].name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-slate-500">
+                {reportTemplates[options.template ?? defaultPDFOptions.template].description}
+              </p>
+            </div>
+
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="page-size">Page Size</Label>
@@ -171,6 +200,17 @@ export function PDFOptionsPanel({ options, onChange, onClose, onApply }: PDFOpti
               </div>
             </div>
             
+            <div className="space-y-2 pt-2">
+              <div className="flex items-center space-x-2">
+                <Switch 
+                  checked={options.includeTariffAppendix}
+                  onCheckedChange={(checked) => updateOptions({ includeTariffAppendix: checked })}
+                  id="tariff-appendix"
+                />
+                <Label htmlFor="tariff-appendix">Include Whiplash Tariff Appendix</Label>
+              </div>
+            </div>
+            
             <div className="space-y-2 pt-2">
               <div className="flex items-center space-x-2">
                 <Switch 
@@ -246,6 +286,17 @@ export function PDFOptionsPanel({ options, onChange, onClose, onApply }: PDFOpti
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <div className="flex items-center space-x-2">
+                  <Checkbox 
+                    checked={options.sectionsToInclude?.examination}
+                    onCheckedChange={(checked) => updateSectionsToInclude('examination', !!checked)}
+                    id="include-examination"
+                  />
+                  <Label htmlFor="include-examination">Clinical Examination</Label>
+                </div>
+              </div>
+
               <div className="space-y-2">
                 <div className="flex items-center space-x-2">
                   <Checkbox 
@@ -257,6 +308,17 @@ export function PDFOptionsPanel({ options, onChange, onClose, onApply }: PDFOpti
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <div className="flex items-center space-x-2">
+                  <Checkbox 
+                    checked={options.sectionsToInclude?.medicalRecords}
+                    onCheckedChange={(checked) => updateSectionsToInclude('medicalRecords', !!checked)}
+                    id="include-records"
+                  />
+                  <Label htmlFor="include-records">Medical Records Review</Label>
+                </div>
+              </div>
+
               <div className="space-y-2">
                 <div className="flex items-center space-x-2">
                   <Checkbox 
@@ -279,6 +341,17 @@ export function PDFOptionsPanel({ options, onChange, onClose, onApply }: PDFOpti
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <div className="flex items-center space-x-2">
+                  <Checkbox 
+                    checked={options.sectionsToInclude?.prognosis}
+                    onCheckedChange={(checked) => updateSectionsToInclude('prognosis', !!checked)}
+                    id="include-prognosis"
+                  />
+                  <Label htmlFor="include-prognosis">Prognosis</Label>
+                </div>
+              </div>
+
               <div className="space-y-2">
                 <div className="flex items-center space-x-2">
                   <Checkbox 
@@ -444,7 +517,7 @@ export function PDFOptionsPanel({ options, onChange, onClose, onApply }: PDFOpti
                     if (!isNaN(value) && value >= 8 && value <= 36) {
                       updateOptions({ 
                         fontSize: {
-                          ...options.fontSize,
+                          ...fontSize,
                           title: value
                         } 
                       });
@@ -466,7 +539,7 @@ export function PDFOptionsPanel({ options, onChange, onClose, onApply }: PDFOpti
                     if (!isNaN(value) && value >= 6 && value <= 24) {
                       updateOptions({ 
                         fontSize: {
-                          ...options.fontSize,
+                          ...fontSize,
                           subtitle: value
                         } 
                       });
@@ -488,7 +561,7 @@ export function PDFOptionsPanel({ options, onChange, onClose, onApply }: PDFOpti
                     if (!isNaN(value) && value >= 8 && value <= 24) {
                       updateOptions({ 
                         fontSize: {
-                          ...options.fontSize,
+                          ...fontSize,
                           sectionHeader: value
                         } 
                       });
@@ -510,7 +583,7 @@ export function PDFOptionsPanel({ options, onChange, onClose, onApply }: PDFOpti
                     if (!isNaN(value) && value >= 6 && value <= 18) {
                       updateOptions({ 
                         fontSize: {
-                          ...options.fontSize,
+                          ...fontSize,
                           bodyText: value
                         } 
                       });
@@ -1,11 +1,13 @@
 import React, { useState } from "react";
-import { FileText, FileQuestion, Settings } from "lucide-react";
+import { FileText, FileQuestion, FileDown, Settings } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { calculateCompletionPercentage } from "@/lib/sections";
 import { Case } from "@shared/schema";
-import { PDFCustomizationOptions } from "@/lib/pdf-generator";
+import { defaultPDFOptions, type PDFCustomizationOptions } from "@shared/report/options";
 import { PDFOptionsPanel } from "./pdf-options-panel";
+import { ReportVersions } from "./report-versions";
+import { TariffSummary } from "./tariff-summary";
 
 interface PreviewPanelProps {
   caseData: Case | null;
@@ -26,37 +28,7 @@ const formatDate = (dateString?: string) => {
 export function PreviewPanel({ caseData, onGeneratePdf }: PreviewPanelProps) {
   const completionPercentage = caseData ? calculateCompletionPercentage(caseData) : 0;
   const [showPdfOptions, setShowPdfOptions] = useState(false);
-  const [pdfOptions, setPdfOptions] = useState<PDFCustomizationOptions>({
-    pageSize: 'a4',
-    orientation: 'portrait',
-    includeCoverPage: true,
-    includeAgencyDetails: true,
-    fontFamily: 'helvetica',
-    fontSize: {
-      title: 18,
-      subtitle: 10,
-      sectionHeader: 12,
-      bodyText: 9
-    },
-    includeSectionNumbers: false,
-    includeTableOfContents: false,
-    primaryColor: [14, 124, 123], // RGB for #0E7C7B dark teal
-    secondaryColor: [74, 85, 104], // RGB for #4A5568 slate grey
-    includeExpertCV: true,
-    includeDeclaration: true,
-    includeFooterOnEveryPage: true,
-    sectionsToInclude: {
-      claimantDetails: true,
-      accidentDetails: true,
-      physicalInjury: true,
-      psychologicalInjury: true,
-      treatments: true,
-      lifeStyleImpact: true,
-      familyHistory: true,
-      prognosis: true,
-      expertDetails: true
-    }
-  });
+  const [pdfOptions, setPdfOptions] = useState<PDFCustomizationOptions>(defaultPDFOptions);
   
   const handleGeneratePdf = () => {
     onGeneratePdf(pdfOptions);
@@ -133,6 +105,14 @@ export function PreviewPanel({ caseData, onGeneratePdf }: PreviewPanelProps) {
                 Generate PDF Report
               </Button>
               
+              {/* Rendered on the server so the browser doesn't have to bundle a Word writer */}
+              <Button asChild variant="outline" className="w-full mb-2 text-[#0E7C7B] border-[#0E7C7B]/40">
+                <a href={`/api/cases/${caseData.id}/docx?template=${pdfOptions.template ?? defaultPDFOptions.template}`}>
+                  <FileDown className="mr-2 h-4 w-4" />
+                  Download Word (.docx)
+                </a>
+              </Button>
+              
               <button 
                 className="w-full text-sm text-[#0E7C7B] hover:text-teal-800 p-2 border border-[#0E7C7B]/20 rounded-md"
                 onClick={() => setShowPdfOptions(true)}
@@ -150,6 +130,14 @@ export function PreviewPanel({ caseData, onGeneratePdf }: PreviewPanelProps) {
                 <Progress value={completionPercentage} className="h-2" />
               </div>
             </div>
+            
+            <div className="mt-6 border-t pt-4">
+              <TariffSummary caseData={caseData} />
+            </div>
+            
+            <div className="mt-6 border-t pt-4">
+              <ReportVersions caseId={caseData.id} />
+            </div>
           </div>
         )}
       </div>
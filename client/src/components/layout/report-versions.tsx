@@ -0,0 +1,163 @@
+import React, { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { History, Download } from "lucide-react";
+import { Case, ReportVersion, ReportVersionSummary } from "@shared/schema";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { diffReportSnapshots } from "@/lib/report-diff";
+
+interface ReportVersionsProps {
+  caseId: number;
+}
+
+type ReportSnapshot = Omit<ReportVersion, "pdfData">;
+
+const formatIssuedAt = (value: string | Date) =>
+  new Date(value).toLocaleString("en-GB", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// Issued versions of a case's report, with a section-by-section comparison
+export function ReportVersions({ caseId }: ReportVersionsProps) {
+  const { data: versions, isLoading } = useQuery<ReportVersionSummary[]>({
+    queryKey: [`/api/cases/${caseId}/reports`],
+  });
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+
+  // Default to comparing the two most recent versions
+  useEffect(() => {
+    if (versions && versions.length >= 2) {
+      setFromVersion(versions[1].version);
+      setToVersion(versions[0].version);
+    }
+  }, [versions]);
+
+  const { data: fromSnapshot } = useQuery<ReportSnapshot>({
+    queryKey: [`/api/cases/${caseId}/reports/${fromVersion}`],
+    enabled: fromVersion !== null,
+  });
+  const { data: toSnapshot } = useQuery<ReportSnapshot>({
+    queryKey: [`/api/cases/${caseId}/reports/${toVersion}`],
+    enabled: toVersion !== null,
+  });
+
+  const sectionDiffs = fromSnapshot && toSnapshot
+    ? diffReportSnapshots(fromSnapshot.snapshot as Case, toSnapshot.snapshot as Case)
+    : null;
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-[#4A5568] flex items-center mb-2">
+        <History className="h-4 w-4 mr-1" />
+        Issued Versions
+      </h3>
+
+      {!versions || versions.length === 0 ? (
+        <p className="text-sm text-gray-500">No report has been issued yet.</p>
+      ) : (
+        <ul className="space-y-1 mb-4">
+          {versions.map((version) => (
+            <li key={version.id} className="flex items-center justify-between text-sm">
+              <span>
+                <span className="font-medium">v{version.version}</span>
+                <span className="text-gray-500"> · {formatIssuedAt(version.issuedAt)} · {version.issuedByName}</span>
+              </span>
+              <a
+                href={`/api/cases/${caseId}/reports/${version.version}/pdf`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-[#0E7C7B] hover:text-teal-900"
+                title="Open issued PDF"
+              >
+                <Download className="h-4 w-4" />
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {versions && versions.length >= 2 && (
+        <div>
+          <div className="flex items-center gap-2 mb-3">
+            <Select
+              value={fromVersion?.toString()}
+              onValueChange={(value) => setFromVersion(parseInt(value, 10))}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue placeholder="From" />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((version) => (
+                  <SelectItem key={version.id} value={version.version.toString()}>v{version.version}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-sm text-gray-500">→</span>
+            <Select
+              value={toVersion?.toString()}
+              onValueChange={(value) => setToVersion(parseInt(value, 10))}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue placeholder="To" />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((version) => (
+                  <SelectItem key={version.id} value={version.version.toString()}>v{version.version}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {!sectionDiffs ? (
+            <Skeleton className="h-16 w-full" />
+          ) : sectionDiffs.length === 0 ? (
+            <p className="text-sm text-gray-500">No differences between these versions.</p>
+          ) : (
+            <div className="space-y-3">
+              {sectionDiffs.map((section) => (
+                <div key={section.title} className="border rounded-md bg-white">
+                  <div className="px-3 py-1.5 border-b bg-gray-50 text-sm font-medium text-[#0E7C7B]">
+                    {section.title}
+                  </div>
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        <th className="px-3 py-1 font-medium">Field</th>
+                        <th className="px-3 py-1 font-medium">v{fromVersion}</th>
+                        <th className="px-3 py-1 font-medium">v{toVersion}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {section.changes.map((change) => (
+                        <tr key={change.label} className="border-t align-top">
+                          <td className="px-3 py-1 text-gray-600">{change.label}</td>
+                          <td className="px-3 py-1 bg-red-50 break-words">{change.before || "—"}</td>
+                          <td className="px-3 py-1 bg-green-50 break-words">{change.after || "—"}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
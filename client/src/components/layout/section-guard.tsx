@@ -0,0 +1,34 @@
+import React, { ReactNode } from "react";
+import { Lock } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useAuth } from "@/hooks/use-auth";
+import { canEditSection, type CaseSection } from "@shared/permissions";
+
+interface SectionGuardProps {
+  section: CaseSection;
+  children: ReactNode;
+}
+
+// Renders a case form read-only when the user's role may not edit that section
+export function SectionGuard({ section, children }: SectionGuardProps) {
+  const { user } = useAuth();
+
+  if (canEditSection(user?.role, section)) {
+    return <>{children}</>;
+  }
+
+  return (
+    <div>
+      <Alert className="mb-3 bg-gray-50">
+        <Lock className="h-4 w-4" />
+        <AlertTitle>Read only</AlertTitle>
+        <AlertDescription>
+          Only the examining doctor can edit this section.
+        </AlertDescription>
+      </Alert>
+      <fieldset disabled className="opacity-75">
+        {children}
+      </fieldset>
+    </div>
+  );
+}
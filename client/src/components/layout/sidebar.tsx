@@ -3,6 +3,9 @@ import { sections, SectionId, calculateCompletionPercentage } from "@/lib/sectio
 import { Progress } from "@/components/ui/progress";
 import { Case } from "@shared/schema";
 import { cn } from "@/lib/utils";
+import { Lock } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { canEditSection } from "@shared/permissions";
 
 interface SidebarProps {
   caseData: Case | null;
@@ -12,6 +15,7 @@ interface SidebarProps {
 
 export function Sidebar({ caseData, activeSection, onSectionChange }: SidebarProps) {
   const completionPercentage = caseData ? calculateCompletionPercentage(caseData) : 0;
+  const { user } = useAuth();
   
   return (
     <aside className="w-64 border-r border-gray-200 bg-white flex flex-col">
@@ -62,6 +66,9 @@ export function Sidebar({ caseData, activeSection, onSectionChange }: SidebarPro
                     isActive ? "text-[#0E7C7B]" : "text-gray-400"
                   )} />
                   {section.name}
+                  {!canEditSection(user?.role, section.apiPath) && (
+                    <Lock className={cn("h-3 w-3 text-gray-400", isComplete ? "ml-2" : "ml-auto")} />
+                  )}
                   {isComplete && (
                     <svg
                       xmlns="http://www.w3.org/2000/svg"
@@ -0,0 +1,54 @@
+import React from "react";
+import { Scale } from "lucide-react";
+import { Case } from "@shared/schema";
+import { assessWhiplashTariff, formatTariffAmount } from "@shared/whiplash-tariff";
+
+interface TariffSummaryProps {
+  caseData: Case;
+}
+
+// Whiplash tariff band implied by the prognosis recorded on the case
+export function TariffSummary({ caseData }: TariffSummaryProps) {
+  const assessment = assessWhiplashTariff(caseData);
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-[#4A5568] flex items-center mb-2">
+        <Scale className="h-4 w-4 mr-1" />
+        Whiplash Tariff
+      </h3>
+
+      {assessment.band ? (
+        <div className="text-sm space-y-1">
+          <p>
+            <span className="text-gray-500">Band: </span>
+            <span className="font-medium">{assessment.band.label}</span>
+          </p>
+          <p>
+            <span className="text-gray-500">Minor psychological injury: </span>
+            {assessment.withPsychologicalInjury ? "Yes" : "No"}
+          </p>
+          {assessment.amount !== null && (
+            <p>
+              <span className="text-gray-500">Tariff amount: </span>
+              <span className="font-medium text-[#0E7C7B]">{formatTariffAmount(assessment.amount)}</span>
+              {assessment.schedule && (
+                <span className="text-gray-500 text-xs"> ({assessment.schedule.regulations})</span>
+              )}
+            </p>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">Outside the tariff</p>
+      )}
+
+      {assessment.reasons.length > 0 && (
+        <ul className="mt-2 text-xs text-amber-700 list-disc pl-4 space-y-0.5">
+          {assessment.reasons.map((reason) => (
+            <li key={reason}>{reason}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
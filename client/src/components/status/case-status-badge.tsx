@@ -0,0 +1,25 @@
+import { caseStatusLabels, toCaseStatus, type CaseStatus } from "@shared/case-status";
+
+export const caseStatusStyles: Record<CaseStatus, string> = {
+  draft: "bg-gray-100 text-gray-800",
+  awaiting_examination: "bg-yellow-100 text-yellow-800",
+  examined: "bg-orange-100 text-orange-800",
+  report_drafted: "bg-blue-100 text-blue-800",
+  under_review: "bg-purple-100 text-purple-800",
+  issued: "bg-green-100 text-green-800",
+  amended: "bg-teal-100 text-teal-800",
+  archived: "bg-slate-200 text-slate-600",
+};
+
+interface CaseStatusBadgeProps {
+  status: string;
+}
+
+export function CaseStatusBadge({ status }: CaseStatusBadgeProps) {
+  const caseStatus = toCaseStatus(status);
+  return (
+    <span className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${caseStatusStyles[caseStatus]}`}>
+      {caseStatusLabels[caseStatus]}
+    </span>
+  );
+}
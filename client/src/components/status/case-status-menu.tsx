@@ -0,0 +1,93 @@
+import React from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { ChevronDown } from "lucide-react";
+import type { Case } from "@shared/schema";
+import {
+  caseStatusLabels,
+  caseTransitions,
+  signOffStatuses,
+  toCaseStatus,
+  type CaseStatus,
+} from "@shared/case-status";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CaseStatusBadge } from "./case-status-badge";
+
+interface CaseStatusMenuProps {
+  caseData: Case;
+}
+
+// Server errors arrive as "409: {json}"
+const errorBody = (error: Error): { message?: string; blockers?: string[] } => {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body);
+  } catch {
+    return { message: body };
+  }
+};
+
+/**
+ * The case's current status, with the moves it can make next. Issuing is
+ * left to the sign-off button, which records the issued report.
+ */
+export function CaseStatusMenu({ caseData }: CaseStatusMenuProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const current = toCaseStatus(caseData.status);
+  const nextStatuses = caseTransitions[current].filter(status => !signOffStatuses.includes(status));
+
+  const transitionMutation = useMutation({
+    mutationFn: async (status: CaseStatus) => {
+      const response = await apiRequest("POST", `/api/cases/${caseData.id}/transition`, { status });
+      return response.json();
+    },
+    onSuccess: (_data, status) => {
+      toast({
+        title: "Status changed",
+        description: `Case ${caseData.caseNumber} is now ${caseStatusLabels[status]}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseData.id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+    },
+    onError: (error: Error) => {
+      const { message, blockers } = errorBody(error);
+      toast({
+        title: message ?? "Error changing status",
+        description: blockers?.length ? blockers.join(". ") : "The case status could not be changed.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          className="flex items-center gap-1 px-2"
+          disabled={nextStatuses.length === 0 || transitionMutation.isPending}
+        >
+          <CaseStatusBadge status={caseData.status} />
+          {nextStatuses.length > 0 && <ChevronDown className="h-4 w-4 text-gray-500" />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Move case to</DropdownMenuLabel>
+        {nextStatuses.map(status => (
+          <DropdownMenuItem key={status} onSelect={() => transitionMutation.mutate(status)}>
+            {caseStatusLabels[status]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
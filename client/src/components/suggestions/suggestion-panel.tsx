@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { AlertCircle, AlertTriangle, Info, X, ChevronRight, ChevronDown } from "lucide-react";
 import { Case } from "@shared/schema";
-import { analyzeCaseCompleteness, Suggestion } from "@/lib/suggestion-engine";
+import type { Suggestion } from "@shared/suggestion-engine";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
@@ -13,10 +14,15 @@ interface SuggestionPanelProps {
 }
 
 export function SuggestionPanel({ caseData, onSectionNavigate }: SuggestionPanelProps) {
-  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
   const [isOpen, setIsOpen] = useState(true);
   const [expandedSections, setExpandedSections] = useState<{[key: string]: boolean}>({});
   
+  // The rules run on the server; the revision in the key refetches after each save
+  const { data: suggestions = [] } = useQuery<Suggestion[]>({
+    queryKey: [`/api/cases/${caseData?.id}/suggestions`, caseData?.revision],
+    enabled: !!caseData,
+  });
+  
   // Group suggestions by section
   const suggestionsBySection: {[key: string]: Suggestion[]} = {};
   suggestions.forEach(suggestion => {
@@ -31,26 +37,18 @@ export function SuggestionPanel({ caseData, onSectionNavigate }: SuggestionPanel
   const warningCount = suggestions.filter(s => s.severity === 'warning').length;
   const infoCount = suggestions.filter(s => s.severity === 'info').length;
   
-  // Refresh suggestions when case data changes
+  // Default to expanding sections with critical issues when suggestions arrive
   useEffect(() => {
-    if (caseData) {
-      const newSuggestions = analyzeCaseCompleteness(caseData);
-      setSuggestions(newSuggestions);
-      
-      // Default to expanding sections with critical issues
-      const newExpandedSections: {[key: string]: boolean} = {};
-      if (newSuggestions.some(s => s.severity === 'critical')) {
-        newSuggestions.forEach(s => {
-          if (s.severity === 'critical') {
-            newExpandedSections[s.sectionId] = true;
-          }
-        });
-        setExpandedSections(newExpandedSections);
-      }
-    } else {
-      setSuggestions([]);
+    const newExpandedSections: {[key: string]: boolean} = {};
+    if (suggestions.some(s => s.severity === 'critical')) {
+      suggestions.forEach(s => {
+        if (s.severity === 'critical') {
+          newExpandedSections[s.sectionId] = true;
+        }
+      });
+      setExpandedSections(newExpandedSections);
     }
-  }, [caseData]);
+  }, [suggestions]);
   
   const toggleSection = (sectionId: string) => {
     setExpandedSections(prev => ({
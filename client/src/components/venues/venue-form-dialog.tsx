@@ -0,0 +1,151 @@
+import React from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  insertVenueSchema,
+  venueTypeLabels,
+  venueTypes,
+  type InsertVenue,
+  type Venue,
+  type VenueType,
+} from "@shared/schema";
+import { placeOfExamination } from "@shared/venues";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+
+interface VenueFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The venue being edited, or undefined to add one
+  venue?: Venue;
+  saving: boolean;
+  onSubmit: (data: InsertVenue) => void;
+}
+
+const toFormValues = (venue?: Venue): InsertVenue =>
+  venue
+    ? { name: venue.name, address: venue.address, type: venue.type as VenueType, active: venue.active }
+    : { name: "", address: "", type: "face_to_face", active: true };
+
+export function VenueFormDialog({ open, onOpenChange, venue, saving, onSubmit }: VenueFormDialogProps) {
+  const form = useForm<InsertVenue>({
+    resolver: zodResolver(insertVenueSchema),
+    defaultValues: toFormValues(venue),
+  });
+
+  React.useEffect(() => {
+    if (open) form.reset(toFormValues(venue));
+  }, [open, venue]);
+
+  const address = form.watch("address");
+  const type = form.watch("type") as VenueType;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{venue ? `Edit ${venue.name}` : "Add Venue"}</DialogTitle>
+          <DialogDescription>
+            Changes apply to cases saved from now on; issued reports keep the address they were written with.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Preston - Ibis Garstang Rd" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Type</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {venueTypes.map(option => (
+                        <SelectItem key={option} value={option}>{venueTypeLabels[option]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{type === "remote_video" ? "Video Platform" : "Address"}</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      rows={2}
+                      placeholder={type === "remote_video" ? "Microsoft Teams" : "Meeting Room, North, Ibis, Garstang Rd, Preston PR3 5JE"}
+                      {...field}
+                    />
+                  </FormControl>
+                  {address && (
+                    <FormDescription>Printed on reports as: {placeOfExamination({ type, address })}</FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : venue ? "Save Changes" : "Add Venue"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
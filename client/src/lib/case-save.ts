@@ -0,0 +1,77 @@
+import React from "react";
+import type { Case } from "@shared/schema";
+import { caseSectionColumns, type CaseSection } from "@shared/permissions";
+import { apiRequest, queryClient } from "./queryClient";
+
+// Thrown when someone else saved the case after this copy was loaded
+export class CaseConflictError extends Error {
+  constructor(
+    public serverCase: Case,
+    public changedBy: string | null,
+    private onAccept: () => void,
+  ) {
+    super("This case has been changed by someone else since you opened it");
+    this.name = "CaseConflictError";
+  }
+
+  // The user has reloaded or merged the server's copy, so the form's next
+  // save is checked against that revision
+  accept() {
+    this.onAccept();
+  }
+}
+
+// The revision a form's data was loaded at
+export interface LoadedRevision {
+  current: number | undefined;
+}
+
+const caseQueryKey = (caseId: number) => [`/api/cases/${caseId}`];
+
+// Remembers the revision of the cached case when the form mounts with its
+// data; a later refetch of the cache doesn't move it
+export function useLoadedRevision(caseId: number): LoadedRevision {
+  return React.useRef(queryClient.getQueryData<Case>(caseQueryKey(caseId))?.revision);
+}
+
+/**
+ * Saves one section of a case against the revision the form loaded, then
+ * recalculates completion and moves the form on to the saved revision. On a
+ * conflict the cached case is replaced with the server's copy.
+ */
+export async function saveCaseSection<T>(caseId: number, section: CaseSection, data: T, loaded: LoadedRevision): Promise<Case> {
+  const res = await fetch(`/api/cases/${caseId}/${section}`, {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+      ...(loaded.current !== undefined ? { "If-Match": `"${loaded.current}"` } : {}),
+    },
+    body: JSON.stringify(data),
+    credentials: "include",
+  });
+
+  if (res.status === 409) {
+    const conflict: { case: Case; changedBy: string | null } = await res.json();
+    queryClient.setQueryData(caseQueryKey(caseId), conflict.case);
+    throw new CaseConflictError(conflict.case, conflict.changedBy, () => {
+      loaded.current = conflict.case.revision;
+    });
+  }
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+
+  const updatedCase: Case = await res.json();
+
+  // Calculate completion percentage; this moves the revision on again
+  const completion = await apiRequest("POST", `/api/cases/${caseId}/calculate-completion`);
+  const { completionPercentage, revision } = await completion.json();
+  queryClient.setQueryData(caseQueryKey(caseId), { ...updatedCase, completionPercentage, revision });
+  loaded.current = revision;
+  return updatedCase;
+}
+
+// The value of one section on a copy of the case
+export const sectionValue = <T>(caseData: Case, section: CaseSection) =>
+  caseData[caseSectionColumns[section]] as T | null;
@@ -0,0 +1,33 @@
+import React from "react";
+import { Redirect, Route } from "wouter";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { hasPermission, type Permission } from "@shared/permissions";
+
+interface ProtectedRouteProps {
+  path: string;
+  component: () => React.JSX.Element;
+  permission?: Permission;
+}
+
+// Route that sends anonymous visitors to the login page, and users lacking
+// the route's permission back to the case list
+export function ProtectedRoute({ path, component: Component, permission }: ProtectedRouteProps) {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-screen">
+          <Loader2 className="h-8 w-8 animate-spin text-[#0E7C7B]" />
+        </div>
+      ) : user && permission && !hasPermission(user.role, permission) ? (
+        <Redirect to="/cases" />
+      ) : user ? (
+        <Component />
+      ) : (
+        <Redirect to="/auth" />
+      )}
+    </Route>
+  );
+}
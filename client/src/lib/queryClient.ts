@@ -12,10 +12,12 @@ export async function apiRequest(
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
+  // Files are sent as the raw body with their own content type
+  const isFile = data instanceof Blob;
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
-    body: data ? JSON.stringify(data) : undefined,
+    headers: data ? { "Content-Type": isFile ? data.type : "application/json" } : {},
+    body: data ? (isFile ? data : JSON.stringify(data)) : undefined,
     credentials: "include",
   });
 
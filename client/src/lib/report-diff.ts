@@ -0,0 +1,116 @@
+import { z } from "zod";
+import {
+  Case,
+  claimantDetailsSchema,
+  accidentDetailsSchema,
+  physicalInjurySchema,
+  psychologicalInjuriesSchema,
+  treatmentsSchema,
+  lifestyleImpactSchema,
+  familyHistorySchema,
+  workHistorySchema,
+  prognosisSchema,
+  examinationSchema,
+  medicalRecordsReviewSchema,
+  expertDetailsSchema,
+} from "@shared/schema";
+
+interface ReportSection {
+  key: keyof Case;
+  title: string;
+  schema: z.AnyZodObject;
+}
+
+// Report sections in the order they appear in the issued report
+export const reportSections: ReportSection[] = [
+  { key: "claimantDetails", title: "Claimant Details", schema: claimantDetailsSchema },
+  { key: "accidentDetails", title: "Accident Details", schema: accidentDetailsSchema },
+  { key: "physicalInjuryDetails", title: "Physical Injury Details", schema: physicalInjurySchema },
+  { key: "psychologicalInjuries", title: "Travel Anxiety", schema: psychologicalInjuriesSchema },
+  { key: "examination", title: "Clinical Examination", schema: examinationSchema },
+  { key: "treatments", title: "Treatments", schema: treatmentsSchema },
+  { key: "medicalRecordsReview", title: "Medical Records Review", schema: medicalRecordsReviewSchema },
+  { key: "lifestyleImpact", title: "Impact on Lifestyle", schema: lifestyleImpactSchema },
+  { key: "familyHistory", title: "Past History of Accidents or Illness", schema: familyHistorySchema },
+  { key: "workHistory", title: "Work History", schema: workHistorySchema },
+  { key: "prognosis", title: "Prognosis", schema: prognosisSchema },
+  { key: "expertDetails", title: "Medical Expert Details", schema: expertDetailsSchema },
+];
+
+export interface FieldDiff {
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface SectionDiff {
+  title: string;
+  changes: FieldDiff[];
+}
+
+// "currentSeverity" -> "Current Severity"
+const toLabel = (key: string) =>
+  key.replace(/([A-Z])/g, " $1").replace(/^./, (c) => c.toUpperCase()).trim();
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
+// Keep only the fields the section schema knows about. Sections saved before a
+// schema change may not parse, so fall back to picking the schema's keys.
+const normalizeSection = (schema: z.AnyZodObject, value: unknown): Record<string, unknown> => {
+  if (!value || typeof value !== "object") return {};
+  const parsed = schema.partial().safeParse(value);
+  if (parsed.success) return parsed.data;
+
+  const raw = value as Record<string, unknown>;
+  return Object.fromEntries(Object.keys(schema.shape).map((key) => [key, raw[key]]));
+};
+
+// Flatten nested values into labelled leaves, e.g. "Injuries 1 › Current Severity"
+const flatten = (value: unknown, label: string, out: Map<string, string>) => {
+  if (Array.isArray(value)) {
+    if (value.every((item) => item === null || typeof item !== "object")) {
+      out.set(label, value.map(formatValue).filter(Boolean).join(", "));
+      return;
+    }
+    value.forEach((item, index) => flatten(item, `${label} ${index + 1}`, out));
+    return;
+  }
+  if (value && typeof value === "object") {
+    Object.entries(value).forEach(([key, nested]) =>
+      flatten(nested, label ? `${label} › ${toLabel(key)}` : toLabel(key), out),
+    );
+    return;
+  }
+  out.set(label, formatValue(value));
+};
+
+/**
+ * Compares two case snapshots section by section, using the zod section
+ * schemas to decide which fields belong to the report. Only sections with at
+ * least one changed field are returned.
+ */
+export function diffReportSnapshots(before: Case, after: Case): SectionDiff[] {
+  return reportSections
+    .map(({ key, title, schema }) => {
+      const beforeFields = new Map<string, string>();
+      const afterFields = new Map<string, string>();
+      flatten(normalizeSection(schema, before[key]), "", beforeFields);
+      flatten(normalizeSection(schema, after[key]), "", afterFields);
+
+      const labels = Array.from(new Set([...Array.from(beforeFields.keys()), ...Array.from(afterFields.keys())]));
+      const changes = labels
+        .map((label) => ({
+          label,
+          before: beforeFields.get(label) ?? "",
+          after: afterFields.get(label) ?? "",
+        }))
+        .filter((change) => change.before !== change.after);
+
+      return { title, changes };
+    })
+    .filter((section) => section.changes.length > 0);
+}
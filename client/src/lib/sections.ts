@@ -8,15 +8,20 @@ import {
   UserCircle, 
   Briefcase,
   ShieldCheck,
-  GraduationCap
+  GraduationCap,
+  Activity,
+  FileSearch
 } from "lucide-react";
+import type { CaseSection } from "@shared/permissions";
 
 export type SectionId = 
   | "claimant" 
   | "accident" 
   | "physical" 
   | "psychological" 
+  | "examination" 
   | "treatments" 
+  | "records" 
   | "lifestyle" 
   | "family" 
   | "expert";
@@ -25,7 +30,7 @@ export interface Section {
   id: SectionId;
   name: string;
   icon: any;
-  apiPath: string;
+  apiPath: CaseSection;
   getCompletionStatus: (caseData: any) => boolean;
 }
 
@@ -65,6 +70,14 @@ export const sections: Section[] = [
     getCompletionStatus: (caseData) => 
       caseData?.psychologicalInjuries?.travelAnxietySymptoms?.length > 0
   },
+  {
+    id: "examination",
+    name: "Clinical Examination",
+    icon: Activity,
+    apiPath: "examination",
+    getCompletionStatus: (caseData) => 
+      caseData?.examination?.regions?.length > 0
+  },
   {
     id: "treatments",
     name: "Treatments",
@@ -73,6 +86,14 @@ export const sections: Section[] = [
     getCompletionStatus: (caseData) => 
       !!caseData?.treatments
   },
+  {
+    id: "records",
+    name: "Medical Records Review",
+    icon: FileSearch,
+    apiPath: "medical-records",
+    getCompletionStatus: (caseData) => 
+      !!caseData?.medicalRecordsReview?.documents
+  },
   {
     id: "lifestyle",
     name: "Impact on Lifestyle",
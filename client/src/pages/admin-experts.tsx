@@ -0,0 +1,353 @@
+import React, { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  expertImageTypes,
+  MAX_EXPERT_IMAGE_BYTES,
+  type InsertExpert,
+  type PublicExpert,
+  type PublicUser,
+  type Venue,
+} from "@shared/schema";
+import { FileText, ArrowLeft, CalendarPlus, Pencil, Plus, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ExpertFormDialog } from "@/components/experts/expert-form-dialog";
+import { CalendarFeedDialog } from "@/components/experts/calendar-feed-dialog";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type ImageKind = "signature" | "letterhead";
+
+const imageLabels: Record<ImageKind, string> = {
+  signature: "Signature",
+  letterhead: "Letterhead",
+};
+
+// Server errors arrive as "400: {json}"
+const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).message ?? body;
+  } catch {
+    return body;
+  }
+};
+
+export default function AdminExperts() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInput = React.useRef<HTMLInputElement>(null);
+  // Which profile and image the file picker is choosing for
+  const [uploadTarget, setUploadTarget] = useState<{ expert: PublicExpert; kind: ImageKind } | null>(null);
+  const [editing, setEditing] = useState<PublicExpert | undefined>(undefined);
+  const [formOpen, setFormOpen] = useState(false);
+  const [calendarExpert, setCalendarExpert] = useState<PublicExpert | null>(null);
+
+  const { data: experts, isLoading, error } = useQuery<PublicExpert[]>({
+    queryKey: ["/api/experts"],
+  });
+
+  const { data: users } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+  });
+  const doctors = users?.filter(user => user.role === "doctor") ?? [];
+
+  const { data: venues } = useQuery<Venue[]>({
+    queryKey: ["/api/venues"],
+  });
+
+  const saveExpertMutation = useMutation({
+    mutationFn: async (data: InsertExpert) => {
+      const response = editing
+        ? await apiRequest("PUT", `/api/experts/${editing.id}`, data)
+        : await apiRequest("POST", "/api/experts", data);
+      return response.json();
+    },
+    onSuccess: (data: PublicExpert) => {
+      toast({
+        title: editing ? "Expert updated" : "Expert added",
+        description: `${data.name}'s profile has been saved.`,
+      });
+      setFormOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/experts"] });
+    },
+    onError: (error: Error) => {
+      console.error("Error saving expert:", error);
+      toast({
+        title: "Error saving expert",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteExpertMutation = useMutation({
+    mutationFn: async (expert: PublicExpert) => {
+      await apiRequest("DELETE", `/api/experts/${expert.id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Expert deleted",
+        description: "Cases that used this profile keep the details already copied from it.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/experts"] });
+    },
+    onError: (error: Error) => {
+      console.error("Error deleting expert:", error);
+      toast({
+        title: "Error deleting expert",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const uploadImageMutation = useMutation({
+    mutationFn: async ({ expert, kind, file }: { expert: PublicExpert; kind: ImageKind; file: File }) => {
+      const response = await apiRequest("PUT", `/api/experts/${expert.id}/${kind}`, file);
+      return response.json();
+    },
+    onSuccess: (_data, { expert, kind }) => {
+      toast({
+        title: `${imageLabels[kind]} uploaded`,
+        description: `${expert.name}'s ${kind} will be used on their reports.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/experts"] });
+    },
+    onError: (error: Error) => {
+      console.error("Error uploading image:", error);
+      toast({
+        title: "Error uploading image",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const chooseImage = (expert: PublicExpert, kind: ImageKind) => {
+    setUploadTarget({ expert, kind });
+    fileInput.current?.click();
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file || !uploadTarget) return;
+
+    // Same checks as the server, so the user isn't left waiting on a doomed upload
+    if (!expertImageTypes[file.type]) {
+      toast({
+        title: "Unsupported image type",
+        description: "Upload a JPEG or PNG image.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (file.size > MAX_EXPERT_IMAGE_BYTES) {
+      toast({
+        title: "Image too large",
+        description: `Images can be at most ${MAX_EXPERT_IMAGE_BYTES / (1024 * 1024)} MB.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    uploadImageMutation.mutate({ ...uploadTarget, file });
+  };
+
+  const openForm = (expert?: PublicExpert) => {
+    setEditing(expert);
+    setFormOpen(true);
+  };
+
+  const doctorName = (userId: number | null) =>
+    users?.find(user => user.id === userId)?.fullName ?? "Not linked";
+
+  const imageCell = (expert: PublicExpert, kind: ImageKind) => {
+    const onFile = kind === "signature" ? expert.hasSignature : expert.hasLetterhead;
+    return (
+      <div className="flex items-center gap-2">
+        {onFile ? (
+          <a href={`/api/experts/${expert.id}/${kind}`} target="_blank" rel="noreferrer">
+            <Badge variant="outline" className="border-green-600 text-green-700">On file</Badge>
+          </a>
+        ) : (
+          <Badge variant="outline" className={kind === "signature" ? "border-red-500 text-red-600" : ""}>
+            Missing
+          </Badge>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2"
+          title={`Upload ${kind}`}
+          disabled={uploadImageMutation.isPending}
+          onClick={() => chooseImage(expert, kind)}
+        >
+          <Upload className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-[#F7FAFC]">
+      <header className="bg-white border-b border-gray-200 py-4 px-6">
+        <div className="max-w-7xl mx-auto flex items-center justify-between">
+          <div className="flex items-center">
+            <FileText className="h-8 w-8 text-[#0E7C7B]" />
+            <h1 className="ml-2 text-xl font-semibold text-[#0E7C7B]">Medical-Legal Report Generator</h1>
+          </div>
+          <Link href="/cases">
+            <Button variant="ghost" className="flex items-center gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Cases
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-8 md:px-6 lg:px-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-[#1A202C]">Expert Profiles</h2>
+          <Button className="flex items-center gap-2" onClick={() => openForm()}>
+            <Plus className="h-4 w-4" />
+            Add Expert
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle>Experts</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-4">
+                <Skeleton className="h-10 w-full" />
+                <Skeleton className="h-12 w-full" />
+                <Skeleton className="h-12 w-full" />
+              </div>
+            ) : error ? (
+              <p className="text-red-600 text-center py-6">Error loading experts</p>
+            ) : experts?.length === 0 ? (
+              <p className="text-[#718096] text-center py-6">
+                No expert profiles yet. Reports can't be signed off until the assigned expert has one.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>GMC Number</TableHead>
+                    <TableHead>Specialty</TableHead>
+                    <TableHead>Doctor Account</TableHead>
+                    <TableHead>Signature</TableHead>
+                    <TableHead>Letterhead</TableHead>
+                    <TableHead className="w-32" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {experts?.map((expert) => (
+                    <TableRow key={expert.id}>
+                      <TableCell>
+                        <div className="font-medium">{expert.name}</div>
+                        <div className="text-xs text-[#718096]">{expert.qualifications}</div>
+                      </TableCell>
+                      <TableCell>{expert.gmcNumber}</TableCell>
+                      <TableCell>{expert.specialty || "-"}</TableCell>
+                      <TableCell>{doctorName(expert.userId)}</TableCell>
+                      <TableCell>{imageCell(expert, "signature")}</TableCell>
+                      <TableCell>{imageCell(expert, "letterhead")}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <Button variant="ghost" size="sm" className="h-8 px-2" title="Edit" onClick={() => openForm(expert)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className={`h-8 px-2 ${expert.hasCalendarFeed ? "text-[#0E7C7B]" : ""}`}
+                            title="Calendar feed"
+                            onClick={() => setCalendarExpert(expert)}
+                          >
+                            <CalendarPlus className="h-4 w-4" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="sm" className="h-8 px-2 text-red-600" title="Delete">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete {expert.name}?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Their signature and letterhead are deleted too. Cases that used this profile keep
+                                  the details copied from it, but can't be signed off with it.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  className="bg-red-600 hover:bg-red-700"
+                                  onClick={() => deleteExpertMutation.mutate(expert)}
+                                >
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <input
+          ref={fileInput}
+          type="file"
+          accept={Object.keys(expertImageTypes).join(",")}
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </main>
+
+      <ExpertFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        expert={editing}
+        doctors={doctors}
+        venues={venues ?? []}
+        saving={saveExpertMutation.isPending}
+        onSubmit={(data) => saveExpertMutation.mutate(data)}
+      />
+
+      {calendarExpert && (
+        <CalendarFeedDialog
+          expert={calendarExpert}
+          open={!!calendarExpert}
+          onOpenChange={(open) => !open && setCalendarExpert(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import React, { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { PublicUser } from "@shared/schema";
+import { userRoles, type UserRole } from "@shared/permissions";
+import { FileText, ArrowLeft, UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+
+const roleLabels: Record<UserRole, string> = {
+  doctor: "Doctor",
+  secretary: "Secretary",
+  admin: "Admin",
+};
+
+export default function AdminUsers() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user: currentUser } = useAuth();
+  const [newUser, setNewUser] = useState({
+    username: "",
+    fullName: "",
+    password: "",
+    role: "secretary" as UserRole,
+  });
+
+  const { data: users, isLoading, error } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const createUserMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/users", newUser);
+      return response.json();
+    },
+    onSuccess: (data: PublicUser) => {
+      toast({
+        title: "User created",
+        description: `${data.fullName} can now sign in as ${data.username}.`,
+      });
+      setNewUser({ username: "", fullName: "", password: "", role: "secretary" });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: (error) => {
+      console.error("Error creating user:", error);
+      toast({
+        title: "Error creating user",
+        description: "There was an error creating the user. The username may already be taken.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: number; role: UserRole }) => {
+      const response = await apiRequest("PATCH", `/api/users/${id}`, { role });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Role updated",
+        description: "The user's role has been changed.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: (error) => {
+      console.error("Error updating role:", error);
+      toast({
+        title: "Error updating role",
+        description: "There was an error changing the role. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreateUser = (e: React.FormEvent) => {
+    e.preventDefault();
+    createUserMutation.mutate();
+  };
+
+  return (
+    <div className="min-h-screen bg-[#F7FAFC]">
+      <header className="bg-white border-b border-gray-200 py-4 px-6">
+        <div className="max-w-7xl mx-auto flex items-center justify-between">
+          <div className="flex items-center">
+            <FileText className="h-8 w-8 text-[#0E7C7B]" />
+            <h1 className="ml-2 text-xl font-semibold text-[#0E7C7B]">Medical-Legal Report Generator</h1>
+          </div>
+          <Link href="/cases">
+            <Button variant="ghost" className="flex items-center gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Cases
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-8 md:px-6 lg:px-8 space-y-6">
+        <h2 className="text-2xl font-bold text-[#1A202C]">User Management</h2>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle>Users</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-4">
+                <Skeleton className="h-10 w-full" />
+                <Skeleton className="h-12 w-full" />
+                <Skeleton className="h-12 w-full" />
+              </div>
+            ) : error ? (
+              <p className="text-red-600 text-center py-6">Error loading users</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Username</TableHead>
+                    <TableHead className="w-48">Role</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {users?.map((user) => (
+                    <TableRow key={user.id}>
+                      <TableCell className="font-medium">{user.fullName}</TableCell>
+                      <TableCell>{user.username}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={user.role}
+                          disabled={user.id === currentUser?.id}
+                          onValueChange={(role) => updateRoleMutation.mutate({ id: user.id, role: role as UserRole })}
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue placeholder="Select role" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {userRoles.map((role) => (
+                              <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2">
+              <UserPlus className="h-5 w-5 text-[#0E7C7B]" />
+              Add User
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreateUser} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="new-full-name">Full Name</Label>
+                <Input
+                  id="new-full-name"
+                  value={newUser.fullName}
+                  onChange={(e) => setNewUser({ ...newUser, fullName: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="new-username">Username</Label>
+                <Input
+                  id="new-username"
+                  value={newUser.username}
+                  onChange={(e) => setNewUser({ ...newUser, username: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="new-password">Password</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={newUser.password}
+                  onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="new-role">Role</Label>
+                <Select
+                  value={newUser.role}
+                  onValueChange={(role) => setNewUser({ ...newUser, role: role as UserRole })}
+                >
+                  <SelectTrigger id="new-role">
+                    <SelectValue placeholder="Select role" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {userRoles.map((role) => (
+                      <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="md:col-span-2 flex justify-end">
+                <Button
+                  type="submit"
+                  disabled={
+                    createUserMutation.isPending ||
+                    !newUser.username ||
+                    !newUser.fullName ||
+                    !newUser.password
+                  }
+                >
+                  {createUserMutation.isPending ? "Creating..." : "Create User"}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import React, { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { venueTypeLabels, type InsertVenue, type Venue, type VenueType } from "@shared/schema";
+import { FileText, ArrowLeft, Pencil, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { VenueFormDialog } from "@/components/venues/venue-form-dialog";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// Server errors arrive as "400: {json}"
+const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).message ?? body;
+  } catch {
+    return body;
+  }
+};
+
+export default function AdminVenues() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<Venue | undefined>(undefined);
+  const [formOpen, setFormOpen] = useState(false);
+
+  const { data: venues, isLoading, error } = useQuery<Venue[]>({
+    queryKey: ["/api/venues"],
+  });
+
+  const saveVenueMutation = useMutation({
+    mutationFn: async (data: InsertVenue) => {
+      const response = editing
+        ? await apiRequest("PUT", `/api/venues/${editing.id}`, data)
+        : await apiRequest("POST", "/api/venues", data);
+      return response.json();
+    },
+    onSuccess: (data: Venue) => {
+      toast({
+        title: editing ? "Venue updated" : "Venue added",
+        description: `${data.name} has been saved.`,
+      });
+      setFormOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/venues"] });
+    },
+    onError: (error: Error) => {
+      console.error("Error saving venue:", error);
+      toast({
+        title: "Error saving venue",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setActiveMutation = useMutation({
+    mutationFn: async ({ id, active }: { id: number; active: boolean }) => {
+      const response = await apiRequest("PUT", `/api/venues/${id}`, { active });
+      return response.json();
+    },
+    onSuccess: (data: Venue) => {
+      toast({
+        title: data.active ? "Venue reopened" : "Venue retired",
+        description: data.active
+          ? `${data.name} can be picked for examinations again.`
+          : `${data.name} can no longer be picked for new examinations.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/venues"] });
+    },
+    onError: (error: Error) => {
+      console.error("Error updating venue:", error);
+      toast({
+        title: "Error updating venue",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openForm = (venue?: Venue) => {
+    setEditing(venue);
+    setFormOpen(true);
+  };
+
+  return (
+    <div className="min-h-screen bg-[#F7FAFC]">
+      <header className="bg-white border-b border-gray-200 py-4 px-6">
+        <div className="max-w-7xl mx-auto flex items-center justify-between">
+          <div className="flex items-center">
+            <FileText className="h-8 w-8 text-[#0E7C7B]" />
+            <h1 className="ml-2 text-xl font-semibold text-[#0E7C7B]">Medical-Legal Report Generator</h1>
+          </div>
+          <Link href="/cases">
+            <Button variant="ghost" className="flex items-center gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Cases
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-8 md:px-6 lg:px-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-[#1A202C]">Examination Venues</h2>
+          <Button className="flex items-center gap-2" onClick={() => openForm()}>
+            <Plus className="h-4 w-4" />
+            Add Venue
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle>Venues</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-4">
+                <Skeleton className="h-10 w-full" />
+                <Skeleton className="h-12 w-full" />
+                <Skeleton className="h-12 w-full" />
+              </div>
+            ) : error ? (
+              <p className="text-red-600 text-center py-6">Error loading venues</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Address</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead className="w-24">In Use</TableHead>
+                    <TableHead className="w-16" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {venues?.map((venue) => (
+                    <TableRow key={venue.id} className={venue.active ? "" : "text-[#A0AEC0]"}>
+                      <TableCell className="font-medium">{venue.name}</TableCell>
+                      <TableCell>{venue.address}</TableCell>
+                      <TableCell>{venueTypeLabels[venue.type as VenueType]}</TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={venue.active}
+                          disabled={setActiveMutation.isPending}
+                          onCheckedChange={(active) => setActiveMutation.mutate({ id: venue.id, active })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="sm" className="h-8 px-2" title="Edit" onClick={() => openForm(venue)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <VenueFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        venue={editing}
+        saving={saveVenueMutation.isPending}
+        onSubmit={(data) => saveVenueMutation.mutate(data)}
+      />
+    </div>
+  );
+}
@@ -1,14 +1,17 @@
 import React, { useState, useEffect } from "react";
 import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Case } from "@shared/schema";
+import { Case, AccidentDetails, Examination, MedicalRecordsReview } from "@shared/schema";
 import { Header } from "@/components/layout/header";
 import { Sidebar } from "@/components/layout/sidebar";
 import { SuggestionPanel } from "@/components/suggestions/suggestion-panel";
+import { CaseStatusMenu } from "@/components/status/case-status-menu";
 import { ClaimantDetailsForm } from "@/components/case-forms/claimant-details";
 import { AccidentDetailsForm } from "@/components/case-forms/accident-details";
 import { PhysicalInjuryForm } from "@/components/case-forms/physical-injury";
 import { PsychologicalInjuriesForm } from "@/components/case-forms/psychological-injuries";
+import { ExaminationForm } from "@/components/case-forms/examination";
+import { MedicalRecordsReviewForm } from "@/components/case-forms/medical-records-review";
 import { TreatmentsForm } from "@/components/case-forms/treatments";
 import { LifestyleImpactForm } from "@/components/case-forms/lifestyle-impact";
 import { FamilyHistoryForm } from "@/components/case-forms/family-history";
@@ -22,18 +25,38 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { FileText } from "lucide-react";
-import { PDFCustomizationOptions } from "@/lib/pdf-generator";
-import { generateMedcoPDF } from "@/lib/medco-pdf-generator";
-import { generateCustomMedcoPDF } from "@/lib/custom-medco-pdf";
+import { PDFCustomizationOptions, ReportAssets, generatePDF } from "@/lib/pdf-generator";
 import { ProgressTracker } from "@/components/ui/progress-tracker";
+import { SectionGuard } from "@/components/layout/section-guard";
+import { AuditTimeline } from "@/components/audit/audit-timeline";
+import { AttachmentsPanel } from "@/components/attachments/attachments-panel";
+import { AppointmentsPanel } from "@/components/appointments/appointments-panel";
+import { PreviewPanel } from "@/components/layout/preview-panel";
+import { useAuth } from "@/hooks/use-auth";
+import { hasPermission } from "@shared/permissions";
+import { signOffTarget } from "@shared/case-status";
+
+// Server errors arrive as "400: {json}"
+const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).message ?? body;
+  } catch {
+    return body;
+  }
+};
 
 export default function CaseEditor() {
   const [, setLocation] = useLocation();
   const params = useParams<{ id: string }>();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { user } = useAuth();
   const [activeSection, setActiveSection] = useState<SectionId>("claimant");
   const [pdfUrl, setPdfUrl] = useState<string | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [attachmentsOpen, setAttachmentsOpen] = useState(false);
+  const [appointmentsOpen, setAppointmentsOpen] = useState(false);
   
   // Check if this is a new case or editing an existing one
   const isNewCase = params.id === "new";
@@ -45,14 +68,18 @@ export default function CaseEditor() {
     enabled: !isNewCase,
   });
   
+  // The assigned expert's profile, signature and letterhead for the report
+  const { data: reportAssets } = useQuery<ReportAssets>({
+    queryKey: [`/api/cases/${caseId}/report-assets`],
+    enabled: !isNewCase,
+  });
+  
   // Create a new case if this is a new case
   const createCaseMutation = useMutation({
     mutationFn: async () => {
       // Create a new case with default values
       const response = await apiRequest("POST", "/api/cases", {
         caseNumber: "",  // Will be generated on server
-        status: "in_progress",
-        userId: 1, // Default user (would be set from auth context in a real app)
         completionPercentage: 0,
       });
       
@@ -70,16 +97,60 @@ export default function CaseEditor() {
       // Invalidate the cases list query
       queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
     },
-    onError: (error) => {
+    onError: (error: Error) => {
       console.error("Error creating case:", error);
       toast({
         title: "Error creating case",
-        description: "There was an error creating the case. Please try again.",
+        description: errorMessage(error),
         variant: "destructive",
       });
+      // Office staff choose the doctor from the case list instead
+      setLocation("/cases");
     },
   });
   
+  // Doctor sign-off of the finished report
+  const signOffMutation = useMutation({
+    mutationFn: async () => {
+      // The server renders and keeps the issued PDF
+      const response = await apiRequest("POST", `/api/cases/${caseId}/sign-off`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Report signed off",
+        description: `Version ${data.issuedVersion} of the report has been issued.`,
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseId}/reports`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+    },
+    onError: (error: Error) => {
+      console.error("Error signing off case:", error);
+      // Blocked sign-offs say what still needs fixing
+      let body: { message?: string; blockers?: string[] } = {};
+      try {
+        body = JSON.parse(error.message.replace(/^\d+: /, ""));
+      } catch {
+        body = {};
+      }
+      toast({
+        title: "Error signing off case",
+        description: body.blockers?.length
+          ? body.blockers.join(". ")
+          : body.message ?? "There was an error signing off the case. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Only the assigned doctor can sign off, once the case is under review;
+  // signing off again after changes issues an amended version of the report
+  const canSignOff = !!caseData &&
+    hasPermission(user?.role, "cases:sign-off") &&
+    caseData.userId === user?.id &&
+    signOffTarget(caseData.status) !== undefined;
+  
   // If this is a new case, create it when the component mounts
   useEffect(() => {
     if (isNewCase) {
@@ -114,8 +185,8 @@ export default function CaseEditor() {
     }
     
     try {
-      // Generate PDF using our custom teal green themed format
-      const pdfDataUri = generateCustomMedcoPDF(caseData);
+      // Render with the template and sections chosen in the PDF options
+      const pdfDataUri = generatePDF(caseData, options, reportAssets);
       
       // Open the PDF in a new window
       const newWindow = window.open();
@@ -204,6 +275,31 @@ export default function CaseEditor() {
         onSave={handleSave}
         onGeneratePdf={() => handleGeneratePdf()}
         canGeneratePdf={!!caseData}
+        onSignOff={() => signOffMutation.mutate()}
+        canSignOff={canSignOff}
+        onShowHistory={caseData ? () => setHistoryOpen(true) : undefined}
+        onShowAttachments={caseData ? () => setAttachmentsOpen(true) : undefined}
+        onShowAppointments={caseData ? () => setAppointmentsOpen(true) : undefined}
+        statusMenu={caseData ? <CaseStatusMenu caseData={caseData} /> : undefined}
+      />
+      
+      <AuditTimeline
+        caseId={caseData?.id ?? 0}
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+      />
+      
+      <AttachmentsPanel
+        caseId={caseData?.id ?? 0}
+        open={attachmentsOpen}
+        onOpenChange={setAttachmentsOpen}
+      />
+      
+      <AppointmentsPanel
+        caseId={caseData?.id ?? 0}
+        assignedUserId={caseData?.userId}
+        open={appointmentsOpen}
+        onOpenChange={setAppointmentsOpen}
       />
       
       <div className="flex flex-1 overflow-hidden">
@@ -230,108 +326,155 @@ export default function CaseEditor() {
           {/* AI Suggestions Panel removed as requested */}
           
           {activeSection === "claimant" && (
-            <ClaimantDetailsForm
-              caseId={caseData?.id ?? 0}
-              initialData={caseData?.claimantDetails}
-              onSaved={() => {
-                queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseData?.id}`] });
-                navigateToNextSection();
-              }}
-            />
+            <SectionGuard section="claimant-details">
+              <ClaimantDetailsForm
+                caseId={caseData?.id ?? 0}
+                initialData={caseData?.claimantDetails}
+                assignedUserId={caseData?.userId}
+                onSaved={() => {
+                  queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseData?.id}`] });
+                  navigateToNextSection();
+                }}
+              />
+            </SectionGuard>
           )}
           
           {activeSection === "accident" && (
-            <AccidentDetailsForm
-              caseId={caseData?.id ?? 0}
-              initialData={caseData?.accidentDetails}
-              onSaved={() => {
-                queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseData?.id}`] });
-                navigateToNextSection();
-              }}
-            />
+            <SectionGuard section="accident-details">
+              <AccidentDetailsForm
+                caseId={caseData?.id ?? 0}
+                initialData={caseData?.accidentDetails}
+                onSaved={() => {
+                  queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseData?.id}`] });
+                  navigateToNextSection();
+                }}
+              />
+            </SectionGuard>
           )}
           
           {activeSection === "physical" && (
-            <PhysicalInjuryForm
-              caseId={caseData?.id ?? 0}
-              initialData={caseData?.physicalInjuryDetails}
-              onSaved={() => {
-                queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseData?.id}`] });
-                navigateToNextSection();
-              }}
-            />
+            <SectionGuard section="physical-injury">
+              <PhysicalInjuryForm
+                caseId={caseData?.id ?? 0}
+                initialData={caseData?.physicalInjuryDetails}
+                accidentDate={(caseData?.accidentDetails as AccidentDetails | null)?.accidentDate}
+                onSaved={() => {
+                  queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseData?.id}`] });
+                  navigateToNextSection();
+                }}
+              />
+            </SectionGuard>
           )}
           
           {activeSection === "psychological" && (
-            <PsychologicalInjuriesForm
-              caseId={caseData?.id ?? 0}
-              initialData={caseData?.psychologicalInjuries}
-              onSaved={() => {
-                queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseData?.id}`] });
-                navigateToNextSection();
-              }}
-            />
+            <SectionGuard section="psychological-injuries">
+              <PsychologicalInjuriesForm
+                caseId={caseData?.id ?? 0}
+                initialData={caseData?.psychologicalInjuries}
+                onSaved={() => {
+                  queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseData?.id}`] });
+                  navigateToNextSection();
+                }}
+              />
+            </SectionGuard>
+          )}
+          
+          {activeSection === "examination" && (
+            <SectionGuard section="examination">
+              <ExaminationForm
+                caseId={caseData?.id ?? 0}
+                initialData={caseData?.examination as Examination | undefined}
+                onSaved={() => {
+                  queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseData?.id}`] });
+                  navigateToNextSection();
+                }}
+              />
+            </SectionGuard>
           )}
           
           {activeSection === "treatments" && (
-            <TreatmentsForm
-              caseId={caseData?.id ?? 0}
-              initialData={caseData?.treatments}
-              onSaved={() => {
-                queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseData?.id}`] });
-                navigateToNextSection();
-              }}
-            />
+            <SectionGuard section="treatments">
+              <TreatmentsForm
+                caseId={caseData?.id ?? 0}
+                initialData={caseData?.treatments}
+                onSaved={() => {
+                  queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseData?.id}`] });
+                  navigateToNextSection();
+                }}
+              />
+            </SectionGuard>
+          )}
+          
+          {activeSection === "records" && (
+            <SectionGuard section="medical-records">
+              <MedicalRecordsReviewForm
+                caseId={caseData?.id ?? 0}
+                initialData={caseData?.medicalRecordsReview as MedicalRecordsReview | undefined}
+                onSaved={() => {
+                  queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseData?.id}`] });
+                  navigateToNextSection();
+                }}
+              />
+            </SectionGuard>
           )}
           
           {activeSection === "lifestyle" && (
-            <LifestyleImpactForm
-              caseId={caseData?.id ?? 0}
-              initialData={caseData?.lifestyleImpact}
-              onSaved={() => {
-                queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseData?.id}`] });
-                navigateToNextSection();
-              }}
-            />
+            <SectionGuard section="lifestyle-impact">
+              <LifestyleImpactForm
+                caseId={caseData?.id ?? 0}
+                initialData={caseData?.lifestyleImpact}
+                onSaved={() => {
+                  queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseData?.id}`] });
+                  navigateToNextSection();
+                }}
+              />
+            </SectionGuard>
           )}
           
           {activeSection === "family" && (
-            <FamilyHistoryForm
-              caseId={caseData?.id ?? 0}
-              initialData={caseData?.familyHistory}
-              onSaved={() => {
-                queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseData?.id}`] });
-                navigateToNextSection();
-              }}
-            />
+            <SectionGuard section="family-history">
+              <FamilyHistoryForm
+                caseId={caseData?.id ?? 0}
+                initialData={caseData?.familyHistory}
+                onSaved={() => {
+                  queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseData?.id}`] });
+                  navigateToNextSection();
+                }}
+              />
+            </SectionGuard>
           )}
           
           {/* Work History section is not in our main sections but we'll render it conditionally */}
           {activeSection === "family" && caseData?.familyHistory && (
-            <WorkHistoryForm
-              caseId={caseData?.id ?? 0}
-              initialData={caseData?.workHistory}
-              onSaved={() => {
-                queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseData?.id}`] });
-                navigateToNextSection();
-              }}
-            />
+            <SectionGuard section="work-history">
+              <WorkHistoryForm
+                caseId={caseData?.id ?? 0}
+                initialData={caseData?.workHistory}
+                onSaved={() => {
+                  queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseData?.id}`] });
+                  navigateToNextSection();
+                }}
+              />
+            </SectionGuard>
           )}
           
           {/* Prognosis section removed as requested */}
           
           {activeSection === "expert" && (
-            <ExpertDetailsForm
-              caseId={caseData?.id ?? 0}
-              initialData={caseData?.expertDetails}
-              onSaved={() => {
-                queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseData?.id}`] });
-                toast({
-                  title: "Expert details saved",
-                  description: "All sections have been completed. You can now generate the PDF report.",
-                });
-              }}
-            />
+            <SectionGuard section="expert-details">
+              <ExpertDetailsForm
+                caseId={caseData?.id ?? 0}
+                initialData={caseData?.expertDetails}
+                assignedUserId={caseData?.userId}
+                onSaved={() => {
+                  queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseData?.id}`] });
+                  toast({
+                    title: "Expert details saved",
+                    description: "All sections have been completed. You can now generate the PDF report.",
+                  });
+                }}
+              />
+            </SectionGuard>
           )}
           
           {pdfUrl && (
@@ -355,6 +498,13 @@ export default function CaseEditor() {
             </div>
           )}
         </main>
+        
+        {caseData && (
+          <PreviewPanel
+            caseData={caseData as Case}
+            onGeneratePdf={handleGeneratePdf}
+          />
+        )}
       </div>
     </div>
   );
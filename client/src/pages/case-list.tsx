@@ -2,12 +2,21 @@
 import React, { useState } from "react";
 import { Link, useLocation } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Case } from "@shared/schema";
-import { FileText, Plus, Pencil, Trash, ArrowLeft, Search, Lock } from "lucide-react";
+import { Case, PublicExpert, PublicUser } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { caseStatuses, caseStatusLabels, toCaseStatus } from "@shared/case-status";
+import { FileText, Plus, Pencil, Trash, ArrowLeft, Search, LogOut, Users, Stethoscope, MapPin, CalendarDays, CalendarPlus, FileSpreadsheet, Download } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { 
   AlertDialog,
   AlertDialogAction,
@@ -23,34 +32,77 @@ import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Progress } from "@/components/ui/progress";
 import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/hooks/use-auth";
+import { CaseImportDialog } from "@/components/import/case-import-dialog";
+import { NewCaseDialog } from "@/components/cases/new-case-dialog";
+import { CalendarFeedDialog } from "@/components/experts/calendar-feed-dialog";
+import { CaseStatusBadge } from "@/components/status/case-status-badge";
+
+// "active" hides archived cases; otherwise a single status
+type StatusFilter = "active" | "all" | typeof caseStatuses[number];
 
 export default function CaseList() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("active");
   const [caseToDelete, setCaseToDelete] = useState<Case | null>(null);
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [password, setPassword] = useState("");
-  const CORRECT_PASSWORD = "9118";
+  const [importOpen, setImportOpen] = useState(false);
+  const [newCaseOpen, setNewCaseOpen] = useState(false);
+  const [calendarOpen, setCalendarOpen] = useState(false);
+  const { user, logoutMutation } = useAuth();
+  const canReassign = hasPermission(user?.role, "cases:reassign");
+  const canDelete = hasPermission(user?.role, "cases:delete");
   
-  const handlePasswordSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (password === CORRECT_PASSWORD) {
-      setIsAuthenticated(true);
+  // A doctor's new case is their own; anyone else picks the doctor first
+  const newCase = () => {
+    if (user?.role === "doctor") {
+      setLocation("/cases/new");
     } else {
-      toast({
-        title: "Incorrect Password",
-        description: "Please try again",
-        variant: "destructive",
-      });
+      setNewCaseOpen(true);
     }
   };
 
-  // Fetch cases only if authenticated
+  // Fetch the cases visible to the logged-in user
   const { data: cases, isLoading, error } = useQuery({
     queryKey: ["/api/cases"],
-    enabled: isAuthenticated,
+  });
+  
+  // Admins need the doctor list to reassign cases
+  const { data: users } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+    enabled: canReassign,
+  });
+  const doctors = users?.filter(u => u.role === "doctor") ?? [];
+  
+  // Doctors with an expert profile can subscribe to their own examinations
+  const { data: experts } = useQuery<PublicExpert[]>({
+    queryKey: ["/api/experts"],
+    enabled: user?.role === "doctor",
+  });
+  const ownExpert = experts?.find(expert => expert.userId === user?.id);
+  
+  // Reassign case mutation
+  const assignMutation = useMutation({
+    mutationFn: async ({ id, userId }: { id: number; userId: number }) => {
+      await apiRequest("PUT", `/api/cases/${id}/assign`, { userId });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Case reassigned",
+        description: "The case has been assigned to the selected doctor.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+    },
+    onError: (error) => {
+      console.error("Error reassigning case:", error);
+      toast({
+        title: "Error reassigning case",
+        description: "There was an error reassigning the case. Please try again.",
+        variant: "destructive",
+      });
+    },
   });
   
   // Delete case mutation
@@ -64,6 +116,8 @@ export default function CaseList() {
         description: "The case has been deleted successfully.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+      // Its appointments were deleted with it
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
     },
     onError: (error) => {
       console.error("Error deleting case:", error);
@@ -83,13 +137,16 @@ export default function CaseList() {
     }
   };
   
-  // Filter cases based on search term
+  // Filter cases based on search term and status
   const filteredCases = cases?.filter((caseItem: Case) => {
     const searchLower = searchTerm.toLowerCase();
     const caseNumber = caseItem.caseNumber?.toLowerCase() || "";
     const claimantName = caseItem.claimantDetails?.fullName?.toLowerCase() || "";
+    const status = toCaseStatus(caseItem.status);
+    const statusMatches = statusFilter === "all"
+      || (statusFilter === "active" ? status !== "archived" : status === statusFilter);
     
-    return caseNumber.includes(searchLower) || claimantName.includes(searchLower);
+    return statusMatches && (caseNumber.includes(searchLower) || claimantName.includes(searchLower));
   });
   
   // Format date
@@ -98,34 +155,6 @@ export default function CaseList() {
     return date.toLocaleDateString();
   };
 
-  if (!isAuthenticated) {
-    return (
-      <div className="min-h-screen bg-[#F7FAFC] flex items-center justify-center">
-        <Card className="w-[400px]">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Lock className="h-5 w-5 text-[#0E7C7B]" />
-              Password Protected
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <form onSubmit={handlePasswordSubmit} className="space-y-4">
-              <Input
-                type="password"
-                placeholder="Enter password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-              />
-              <Button type="submit" className="w-full">
-                Access Cases
-              </Button>
-            </form>
-          </CardContent>
-        </Card>
-      </div>
-    );
-  }
-  
   return (
     <div className="min-h-screen bg-[#F7FAFC]">
       <header className="bg-white border-b border-gray-200 py-4 px-6">
@@ -134,34 +163,110 @@ export default function CaseList() {
             <FileText className="h-8 w-8 text-[#0E7C7B]" />
             <h1 className="ml-2 text-xl font-semibold text-[#0E7C7B]">Medical-Legal Report Generator</h1>
           </div>
-          <div className="flex space-x-4">
+          <div className="flex items-center space-x-4">
+            {user && (
+              <span className="text-sm text-[#4A5568]">{user.fullName}</span>
+            )}
+            {ownExpert && (
+              <Button variant="outline" className="flex items-center gap-2" onClick={() => setCalendarOpen(true)}>
+                <CalendarPlus className="h-4 w-4" />
+                My Calendar
+              </Button>
+            )}
+            <Link href="/clinics">
+              <Button variant="outline" className="flex items-center gap-2">
+                <CalendarDays className="h-4 w-4" />
+                Clinics
+              </Button>
+            </Link>
+            {hasPermission(user?.role, "users:manage") && (
+              <Link href="/admin/users">
+                <Button variant="outline" className="flex items-center gap-2">
+                  <Users className="h-4 w-4" />
+                  Users
+                </Button>
+              </Link>
+            )}
+            {hasPermission(user?.role, "experts:manage") && (
+              <Link href="/admin/experts">
+                <Button variant="outline" className="flex items-center gap-2">
+                  <Stethoscope className="h-4 w-4" />
+                  Experts
+                </Button>
+              </Link>
+            )}
+            {hasPermission(user?.role, "venues:manage") && (
+              <Link href="/admin/venues">
+                <Button variant="outline" className="flex items-center gap-2">
+                  <MapPin className="h-4 w-4" />
+                  Venues
+                </Button>
+              </Link>
+            )}
             <Link href="/">
               <Button variant="ghost" className="flex items-center gap-2">
                 <ArrowLeft className="h-4 w-4" />
                 Back to Home
               </Button>
             </Link>
-            <Link href="/cases/new">
-              <Button className="flex items-center gap-2">
-                <Plus className="h-4 w-4" />
-                New Case
+            <Button className="flex items-center gap-2" onClick={newCase}>
+              <Plus className="h-4 w-4" />
+              New Case
+            </Button>
+            {hasPermission(user?.role, "cases:create") && (
+              <Button
+                variant="outline"
+                className="flex items-center gap-2"
+                onClick={() => setImportOpen(true)}
+              >
+                <FileSpreadsheet className="h-4 w-4" />
+                Import
               </Button>
-            </Link>
+            )}
+            <Button
+              variant="outline"
+              className="flex items-center gap-2"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+            >
+              <LogOut className="h-4 w-4" />
+              Log Out
+            </Button>
           </div>
         </div>
       </header>
 
+      <CaseImportDialog open={importOpen} onOpenChange={setImportOpen} />
+      <NewCaseDialog open={newCaseOpen} onOpenChange={setNewCaseOpen} />
+      {ownExpert && (
+        <CalendarFeedDialog expert={ownExpert} open={calendarOpen} onOpenChange={setCalendarOpen} />
+      )}
+
       <main className="max-w-7xl mx-auto px-4 py-8 md:px-6 lg:px-8">
         <div className="flex items-center justify-between mb-6">
           <h2 className="text-2xl font-bold text-[#1A202C]">Case List</h2>
-          <div className="relative w-64">
-            <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-500" />
-            <Input
-              placeholder="Search cases..."
-              className="pl-8"
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-            />
+          <div className="flex items-center gap-3">
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+              <SelectTrigger className="w-52">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="active">All except archived</SelectItem>
+                <SelectItem value="all">All statuses</SelectItem>
+                {caseStatuses.map(status => (
+                  <SelectItem key={status} value={status}>{caseStatusLabels[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="relative w-64">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-500" />
+              <Input
+                placeholder="Search cases..."
+                className="pl-8"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+              />
+            </div>
           </div>
         </div>
         
@@ -196,6 +301,7 @@ export default function CaseList() {
                     <TableHead>Created Date</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Completion</TableHead>
+                    {canReassign && <TableHead>Assigned Doctor</TableHead>}
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -206,13 +312,7 @@ export default function CaseList() {
                       <TableCell>{caseItem.claimantDetails?.fullName || "Not specified"}</TableCell>
                       <TableCell>{formatDate(caseItem.createdAt)}</TableCell>
                       <TableCell>
-                        <span className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${
-                          caseItem.status === "completed" 
-                            ? "bg-green-100 text-green-800" 
-                            : "bg-yellow-100 text-yellow-800"
-                        }`}>
-                          {caseItem.status === "completed" ? "Completed" : "In Progress"}
-                        </span>
+                        <CaseStatusBadge status={caseItem.status} />
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-2">
@@ -220,6 +320,23 @@ export default function CaseList() {
                           <span className="text-xs text-gray-500">{caseItem.completionPercentage}%</span>
                         </div>
                       </TableCell>
+                      {canReassign && (
+                        <TableCell>
+                          <Select
+                            value={doctors.some(d => d.id === caseItem.userId) ? String(caseItem.userId) : undefined}
+                            onValueChange={(value) => assignMutation.mutate({ id: caseItem.id, userId: parseInt(value, 10) })}
+                          >
+                            <SelectTrigger className="h-8 w-44">
+                              <SelectValue placeholder="Unassigned" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {doctors.map(doctor => (
+                                <SelectItem key={doctor.id} value={String(doctor.id)}>{doctor.fullName}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                      )}
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
                           <Button
@@ -231,34 +348,42 @@ export default function CaseList() {
                             <Pencil className="h-4 w-4" />
                             <span className="sr-only">Edit</span>
                           </Button>
-                          <AlertDialog>
-                            <AlertDialogTrigger asChild>
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                className="h-8 w-8 p-0 text-red-600 border-red-200 hover:bg-red-50"
-                                onClick={() => setCaseToDelete(caseItem)}
-                              >
-                                <Trash className="h-4 w-4" />
-                                <span className="sr-only">Delete</span>
-                              </Button>
-                            </AlertDialogTrigger>
-                            <AlertDialogContent>
-                              <AlertDialogHeader>
-                                <AlertDialogTitle>Confirm Deletion</AlertDialogTitle>
-                                <AlertDialogDescription>
-                                  Are you sure you want to delete case {caseItem.caseNumber}?
-                                  This action cannot be undone.
-                                </AlertDialogDescription>
-                              </AlertDialogHeader>
-                              <AlertDialogFooter>
-                                <AlertDialogCancel onClick={() => setCaseToDelete(null)}>Cancel</AlertDialogCancel>
-                                <AlertDialogAction className="bg-red-600 hover:bg-red-700" onClick={handleDeleteConfirm}>
-                                  Delete
-                                </AlertDialogAction>
-                              </AlertDialogFooter>
-                            </AlertDialogContent>
-                          </AlertDialog>
+                          <Button asChild variant="outline" size="sm" className="h-8 w-8 p-0">
+                            <a href={`/api/cases/${caseItem.id}/export`} title="Export case file">
+                              <Download className="h-4 w-4" />
+                              <span className="sr-only">Export</span>
+                            </a>
+                          </Button>
+                          {canDelete && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="h-8 w-8 p-0 text-red-600 border-red-200 hover:bg-red-50"
+                                  onClick={() => setCaseToDelete(caseItem)}
+                                >
+                                  <Trash className="h-4 w-4" />
+                                  <span className="sr-only">Delete</span>
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Confirm Deletion</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Are you sure you want to delete case {caseItem.caseNumber}?
+                                    This action cannot be undone.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel onClick={() => setCaseToDelete(null)}>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction className="bg-red-600 hover:bg-red-700" onClick={handleDeleteConfirm}>
+                                    Delete
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -267,13 +392,11 @@ export default function CaseList() {
               </Table>
             ) : (
               <div className="text-center py-12">
-                <p className="text-gray-500 mb-4">No cases found{searchTerm ? " matching your search" : ""}.</p>
-                <Link href="/cases/new">
-                  <Button className="flex items-center gap-2">
-                    <Plus className="h-4 w-4" />
-                    Create New Case
-                  </Button>
-                </Link>
+                <p className="text-gray-500 mb-4">No cases found{searchTerm || statusFilter !== "active" ? " matching your filters" : ""}.</p>
+                <Button className="flex items-center gap-2" onClick={newCase}>
+                  <Plus className="h-4 w-4" />
+                  Create New Case
+                </Button>
               </div>
             )}
           </CardContent>
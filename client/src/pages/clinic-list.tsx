@@ -0,0 +1,161 @@
+import React, { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { addDays, format, startOfDay } from "date-fns";
+import {
+  appointmentStatusLabels,
+  type AppointmentStatus,
+  type AppointmentWithDetails,
+  type Venue,
+} from "@shared/schema";
+import { FileText, ArrowLeft, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest } from "@/lib/queryClient";
+
+// Select value for every venue at once
+const ALL_VENUES = "all";
+
+// The day's appointments at a venue, laid out to be printed for the clinic
+export default function ClinicList() {
+  const [day, setDay] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [venueId, setVenueId] = useState<string>(ALL_VENUES);
+
+  const { data: venues } = useQuery<Venue[]>({
+    queryKey: ["/api/venues"],
+  });
+
+  // The day runs midnight to midnight in the browser's time zone
+  const from = startOfDay(new Date(`${day}T00:00`));
+  const query = new URLSearchParams({
+    from: from.toISOString(),
+    to: addDays(from, 1).toISOString(),
+  });
+  if (venueId !== ALL_VENUES) query.set("venueId", venueId);
+
+  const { data: appointments, isLoading, error } = useQuery<AppointmentWithDetails[]>({
+    // Keyed under /api/appointments so bookings elsewhere refresh it
+    queryKey: ["/api/appointments", query.toString()],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/appointments?${query}`);
+      return res.json();
+    },
+  });
+
+  const venueName = venues?.find(venue => venue.id.toString() === venueId)?.name ?? "All venues";
+
+  return (
+    <div className="min-h-screen bg-[#F7FAFC] print:bg-white">
+      <header className="bg-white border-b border-gray-200 py-4 px-6 print:hidden">
+        <div className="max-w-7xl mx-auto flex items-center justify-between">
+          <div className="flex items-center">
+            <FileText className="h-8 w-8 text-[#0E7C7B]" />
+            <h1 className="ml-2 text-xl font-semibold text-[#0E7C7B]">Medical-Legal Report Generator</h1>
+          </div>
+          <Link href="/cases">
+            <Button variant="ghost" className="flex items-center gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Cases
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-8 md:px-6 lg:px-8 space-y-6 print:p-0">
+        <div className="flex items-end justify-between gap-4 print:hidden">
+          <div className="flex items-end gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="clinic-day">Day</Label>
+              <Input id="clinic-day" type="date" value={day} onChange={(e) => e.target.value && setDay(e.target.value)} />
+            </div>
+            <div className="space-y-1 w-64">
+              <Label>Venue</Label>
+              <Select value={venueId} onValueChange={setVenueId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_VENUES}>All venues</SelectItem>
+                  {venues?.map(venue => (
+                    <SelectItem key={venue.id} value={venue.id.toString()}>{venue.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Button className="flex items-center gap-2" onClick={() => window.print()}>
+            <Printer className="h-4 w-4" />
+            Print
+          </Button>
+        </div>
+
+        <Card className="print:border-0 print:shadow-none">
+          <CardHeader className="pb-2">
+            <CardTitle>
+              Clinic List: {venueName}, {format(from, "EEEE d MMMM yyyy")}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-4">
+                <Skeleton className="h-10 w-full" />
+                <Skeleton className="h-12 w-full" />
+                <Skeleton className="h-12 w-full" />
+              </div>
+            ) : error ? (
+              <p className="text-red-600 text-center py-6">Error loading clinic list</p>
+            ) : !appointments || appointments.length === 0 ? (
+              <p className="text-[#718096] text-center py-6">No appointments booked for this day</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-24">Time</TableHead>
+                    <TableHead>Claimant</TableHead>
+                    <TableHead>Case</TableHead>
+                    <TableHead>Expert</TableHead>
+                    {venueId === ALL_VENUES && <TableHead>Venue</TableHead>}
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {appointments.map((appointment) => (
+                    <TableRow
+                      key={appointment.id}
+                      className={appointment.status === "cancelled" ? "text-[#A0AEC0] line-through" : ""}
+                    >
+                      <TableCell>
+                        {format(new Date(appointment.startsAt), "HH:mm")}
+                        <div className="text-xs text-[#718096]">{appointment.durationMinutes} min</div>
+                      </TableCell>
+                      <TableCell className="font-medium">{appointment.claimantName ?? "Not recorded"}</TableCell>
+                      <TableCell>
+                        <Link href={`/cases/${appointment.caseId}`} className="hover:underline">
+                          {appointment.caseNumber}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{appointment.expertName}</TableCell>
+                      {venueId === ALL_VENUES && <TableCell>{appointment.venueName}</TableCell>}
+                      <TableCell>{appointmentStatusLabels[appointment.status as AppointmentStatus]}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import type { Appointment, AppointmentWithDetails, Case, ClaimantDetails, Venue } from "@shared/schema";
+import { placeOfExamination } from "@shared/venues";
+import { storage } from "./storage";
+import { clinicDate, clinicTime, describeClinicTime } from "./clinic-time";
+
+// Adds the case, expert and venue names each appointment is shown with
+export async function withAppointmentDetails(appointments: Appointment[]): Promise<AppointmentWithDetails[]> {
+  const [experts, venues] = await Promise.all([storage.getExperts(), storage.getVenues()]);
+  const expertNames = new Map(experts.map(expert => [expert.id, expert.name]));
+  const venueNames = new Map(venues.map(venue => [venue.id, venue.name]));
+
+  const cases = new Map<number, Case | undefined>();
+  for (const appointment of appointments) {
+    if (!cases.has(appointment.caseId)) {
+      cases.set(appointment.caseId, await storage.getCase(appointment.caseId));
+    }
+  }
+
+  return appointments.map(appointment => {
+    const caseData = cases.get(appointment.caseId);
+    return {
+      ...appointment,
+      caseNumber: caseData?.caseNumber ?? "Deleted case",
+      claimantName: (caseData?.claimantDetails as Partial<ClaimantDetails> | null)?.fullName ?? null,
+      expertName: expertNames.get(appointment.expertId) ?? "Deleted expert",
+      venueName: venueNames.get(appointment.venueId) ?? "Deleted venue",
+    };
+  });
+}
+
+// Why a booking for the case was refused
+export function describeClash(clash: AppointmentWithDetails, caseId: number): string {
+  const when = describeClinicTime(clash.startsAt);
+  return clash.caseId === caseId
+    ? `This case is already booked for ${when}`
+    : `${clash.expertName} is already seeing case ${clash.caseNumber} on ${when}`;
+}
+
+// Claimant details once the claimant has attended: the examination happened
+// at the appointment's time and venue
+export function attendedClaimantDetails(caseData: Case, appointment: Appointment, venue: Venue): ClaimantDetails {
+  return {
+    ...(caseData.claimantDetails as ClaimantDetails | null),
+    dateOfExamination: clinicDate(appointment.startsAt),
+    examinationTime: clinicTime(appointment.startsAt),
+    venueId: venue.id,
+    placeOfExamination: placeOfExamination(venue),
+  } as ClaimantDetails;
+}
@@ -0,0 +1,75 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import type { Case, AuditChange } from "@shared/schema";
+
+// Bookkeeping columns that change on every write and carry no case content
+const ignoredCaseFields = new Set(["updatedAt", "revision"]);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === "object" && !Array.isArray(value) && !(value instanceof Date);
+
+const serialize = (value: unknown): unknown =>
+  value instanceof Date ? value.toISOString() : value;
+
+/**
+ * Computes a leaf-level diff between two JSON-like values. Objects and arrays
+ * are walked recursively; any other differing value is reported at its path.
+ */
+export function diffValues(before: unknown, after: unknown, path = ""): AuditChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+    return keys.flatMap(key =>
+      diffValues(before[key], after[key], path ? `${path}.${key}` : key),
+    );
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    const changes: AuditChange[] = [];
+    for (let i = 0; i < length; i++) {
+      changes.push(...diffValues(before[i], after[i], `${path}.${i}`));
+    }
+    return changes;
+  }
+
+  if (JSON.stringify(serialize(before)) === JSON.stringify(serialize(after))) {
+    return [];
+  }
+
+  return [{
+    path,
+    before: serialize(before) ?? null,
+    after: serialize(after) ?? null,
+  }];
+}
+
+export function diffCases(before: Case | null, after: Case | null): AuditChange[] {
+  const strip = (caseData: Case | null) => {
+    if (!caseData) return {};
+    return Object.fromEntries(
+      Object.entries(caseData).filter(([key]) => !ignoredCaseFields.has(key)),
+    );
+  };
+
+  return diffValues(strip(before), strip(after));
+}
+
+/**
+ * Appends an audit event describing how a request changed a case. Pass
+ * `null` as `before` for a newly created case and as `after` for a deleted
+ * one. Requests that changed nothing are not recorded.
+ */
+export async function recordAuditEvent(req: Request, before: Case | null, after: Case | null) {
+  const caseData = after ?? before;
+  if (!caseData) return;
+
+  const changes = diffCases(before, after);
+  if (changes.length === 0) return;
+
+  await storage.createAuditEvent({
+    caseId: caseData.id,
+    userId: req.user!.id,
+    route: `${req.method} ${req.baseUrl}${req.route?.path ?? req.path}`,
+    changes,
+  });
+}
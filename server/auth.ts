@@ -0,0 +1,163 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { type User as SelectUser, type PublicUser } from "@shared/schema";
+import {
+  hasPermission,
+  canEditSection,
+  type Permission,
+  type CaseSection,
+} from "@shared/permissions";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Passwords are stored as "<hex hash>.<hex salt>"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export function isHashedPassword(stored: string): boolean {
+  return /^[0-9a-f]{128}\.[0-9a-f]{32}$/.test(stored);
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  if (!isHashedPassword(stored)) return false;
+
+  const [hashed, salt] = stored.split(".");
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Strip the password hash before sending a user to the client
+export function toPublicUser(user: SelectUser): PublicUser {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
+
+// Middleware rejecting requests that do not carry a logged-in session
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+  next();
+}
+
+// Middleware rejecting users whose role lacks the given permission
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    if (!hasPermission(req.user.role, permission)) {
+      return res.status(403).json({ message: "You do not have permission to perform this action" });
+    }
+    next();
+  };
+}
+
+// Middleware rejecting users whose role may not edit the given case section
+export function requireSectionEdit(section: CaseSection) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    if (!canEditSection(req.user.role, section)) {
+      return res.status(403).json({ message: "Your role cannot edit this section" });
+    }
+    next();
+  };
+}
+
+export function setupAuth(app: Express) {
+  let sessionSecret = process.env.SESSION_SECRET;
+  if (!sessionSecret) {
+    if (app.get("env") === "production") {
+      throw new Error("SESSION_SECRET must be set in production.");
+    }
+    // Sessions will not survive a restart without a configured secret
+    sessionSecret = randomBytes(32).toString("hex");
+  }
+
+  const sessionSettings: session.SessionOptions = {
+    secret: sessionSecret,
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 1000 * 60 * 60 * 12, // 12 hours
+    },
+  };
+
+  app.set("trust proxy", 1);
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/login", (req: Request, res: Response, next: NextFunction) => {
+    passport.authenticate("local", (err: any, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req: Request, res: Response, next: NextFunction) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.sendStatus(200);
+      });
+    });
+  });
+
+  app.get("/api/me", requireAuth, (req: Request, res: Response) => {
+    res.json(toPublicUser(req.user!));
+  });
+}
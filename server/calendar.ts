@@ -0,0 +1,145 @@
+import { addDays } from "date-fns";
+import type { Appointment, Case, ClaimantDetails, Expert } from "@shared/schema";
+import { storage } from "./storage";
+import { clinicDate, fromClinicTime } from "./clinic-time";
+
+// One examination as it appears in a calendar. Only initials identify the
+// claimant: calendar apps sync events to devices and services we don't control
+interface CalendarEvent {
+  uid: string;
+  start: Date;
+  durationMinutes: number;
+  summary: string;
+  location?: string;
+  description: string;
+}
+
+// How far back a feed goes; older examinations stay in calendars that already have them
+const FEED_HISTORY_DAYS = 90;
+
+const DEFAULT_DURATION_MINUTES = 15;
+
+// "J. R." from "Jane Roe"
+export function claimantInitials(fullName: string | undefined): string {
+  const initials = (fullName ?? "").trim().split(/\s+/).filter(Boolean).map(part => `${part[0].toUpperCase()}.`);
+  return initials.length > 0 ? initials.join(" ") : "Claimant";
+}
+
+// Minutes in a free-text time spent such as "15 min", "1 hour" or "1h 30m"
+export function timeSpentMinutes(timeSpent: string | undefined): number {
+  const text = (timeSpent ?? "").toLowerCase();
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*h/);
+  const minutes = text.match(/(\d+)\s*m/);
+  if (hours || minutes) {
+    const total = Math.round(parseFloat(hours?.[1] ?? "0") * 60 + parseInt(minutes?.[1] ?? "0", 10));
+    return total > 0 ? total : DEFAULT_DURATION_MINUTES;
+  }
+  const bare = parseInt(text, 10);
+  return bare > 0 ? bare : DEFAULT_DURATION_MINUTES;
+}
+
+const claimantOf = (caseData: Case) => caseData.claimantDetails as Partial<ClaimantDetails> | null;
+
+// Where the claimant is seen: the venue's address, or the place typed on the case
+async function examinationLocation(venueId: number | undefined, fallback?: string): Promise<string | undefined> {
+  const venue = venueId ? await storage.getVenue(venueId) : undefined;
+  return venue?.address ?? fallback;
+}
+
+// The examination recorded on the case, once it has a date and start time
+export async function caseExaminationEvent(caseData: Case): Promise<CalendarEvent | undefined> {
+  const claimant = claimantOf(caseData);
+  if (!claimant?.dateOfExamination || !claimant.examinationTime) return undefined;
+
+  const durationMinutes = timeSpentMinutes(claimant.timeSpent);
+  return {
+    uid: `case-${caseData.id}`,
+    // Typed on the case in clinic time
+    start: fromClinicTime(claimant.dateOfExamination, claimant.examinationTime),
+    durationMinutes,
+    summary: `Examination: ${claimantInitials(claimant.fullName)} (${caseData.caseNumber})`,
+    location: await examinationLocation(claimant.venueId, claimant.placeOfExamination),
+    description: `Case ${caseData.caseNumber}\nDuration: ${durationMinutes} min`,
+  };
+}
+
+// A booked appointment, which holds its slot until the claimant attends
+export async function appointmentEvent(appointment: Appointment, caseData: Case): Promise<CalendarEvent> {
+  return {
+    uid: `appointment-${appointment.id}`,
+    start: appointment.startsAt,
+    durationMinutes: appointment.durationMinutes,
+    summary: `Examination: ${claimantInitials(claimantOf(caseData)?.fullName)} (${caseData.caseNumber})`,
+    location: await examinationLocation(appointment.venueId),
+    description: `Case ${caseData.caseNumber}\nDuration: ${appointment.durationMinutes} min`,
+  };
+}
+
+// The expert's booked appointments and recorded examinations from the last
+// few months on. A case with a booked appointment is shown by the appointment
+export async function expertCalendarEvents(expert: Expert): Promise<CalendarEvent[]> {
+  const since = addDays(new Date(), -FEED_HISTORY_DAYS);
+  const schedule = await storage.getExpertSchedule(expert, { from: since, examinedFrom: clinicDate(since) });
+  const events: CalendarEvent[] = [];
+
+  for (const { appointment, case: caseData } of schedule.appointments) {
+    events.push(await appointmentEvent(appointment, caseData));
+  }
+
+  const bookedCaseIds = new Set(schedule.appointments.map(({ case: caseData }) => caseData.id));
+  for (const caseData of schedule.examinedCases) {
+    if (bookedCaseIds.has(caseData.id)) continue;
+    const event = await caseExaminationEvent(caseData);
+    if (event) events.push(event);
+  }
+
+  return events;
+}
+
+// Text values escape backslashes, separators and newlines (RFC 5545 3.3.11)
+const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    if (Buffer.byteLength(current + char) > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+// Times are written in UTC, which every calendar app converts to its own zone
+const utcStamp = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// A VCALENDAR document holding the events
+export function toICalendar(name: string, events: CalendarEvent[]): string {
+  const stamp = utcStamp(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Medical-Legal Report Generator//Examinations//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap(event => [
+      "BEGIN:VEVENT",
+      `UID:${event.uid}@medical-legal-reports`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${utcStamp(event.start)}`,
+      `DURATION:PT${event.durationMinutes}M`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+      `DESCRIPTION:${escapeText(event.description)}`,
+      "END:VEVENT",
+    ]),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
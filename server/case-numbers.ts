@@ -0,0 +1,70 @@
+import type { Case, InsertCase } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// How case numbers are built: `${prefix}-${year}-${number}` when numbering
+// restarts each year, `${prefix}-${number}` when it runs on for ever. The
+// number is zero-padded to `padding` digits and grows past it when needed.
+export interface CaseNumberFormat {
+  prefix: string;
+  padding: number;
+  resetYearly: boolean;
+}
+
+// Read once at startup from CASE_NUMBER_PREFIX, CASE_NUMBER_PADDING and
+// CASE_NUMBER_RESET ("yearly" or "never"); the defaults give MED-2025-001.
+// There's no organisation model, so one format applies to the whole
+// installation; organisations that need their own format run their own.
+function caseNumberFormatFromEnv(): CaseNumberFormat {
+  const prefix = process.env.CASE_NUMBER_PREFIX || "MED";
+  const padding = parseInt(process.env.CASE_NUMBER_PADDING || "3", 10);
+  const reset = process.env.CASE_NUMBER_RESET || "yearly";
+
+  if (!/^[A-Za-z0-9]+$/.test(prefix)) {
+    throw new Error(`CASE_NUMBER_PREFIX must be letters and digits only, got "${prefix}"`);
+  }
+  if (isNaN(padding) || padding < 1 || padding > 10) {
+    throw new Error(`CASE_NUMBER_PADDING must be between 1 and 10, got "${process.env.CASE_NUMBER_PADDING}"`);
+  }
+  if (reset !== "yearly" && reset !== "never") {
+    throw new Error(`CASE_NUMBER_RESET must be "yearly" or "never", got "${reset}"`);
+  }
+  return { prefix, padding, resetYearly: reset === "yearly" };
+}
+
+export const caseNumberFormat = caseNumberFormatFromEnv();
+
+/**
+ * The fixed part of a case number, before the running number. Each scope has
+ * its own counter, so changing the prefix or reset rule starts a new series
+ * rather than clashing with the old one.
+ */
+export const caseNumberScope = (format: CaseNumberFormat, date = new Date()) =>
+  format.resetYearly ? `${format.prefix}-${date.getFullYear()}-` : `${format.prefix}-`;
+
+export const formatCaseNumber = (scope: string, number: number, format: CaseNumberFormat) =>
+  `${scope}${number.toString().padStart(format.padding, "0")}`;
+
+// Postgres reports a duplicate key as SQLSTATE 23505; MemStorage mimics it
+export const isUniqueViolation = (error: unknown) =>
+  typeof error === "object" && error !== null && (error as { code?: unknown }).code === "23505";
+
+const MAX_ATTEMPTS = 5;
+
+/**
+ * Creates a case under the next free case number. Counters are allocated
+ * atomically, but a number can still be taken by a case created by hand or
+ * imported before the counter existed, so a clash moves on to the next one.
+ */
+export async function createNumberedCase(
+  storage: IStorage,
+  caseData: Omit<InsertCase, "caseNumber">,
+): Promise<Case> {
+  for (let attempt = 1; ; attempt++) {
+    const caseNumber = await storage.generateCaseNumber();
+    try {
+      return await storage.createCase({ ...caseData, caseNumber });
+    } catch (error) {
+      if (!isUniqueViolation(error) || attempt >= MAX_ATTEMPTS) throw error;
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { clinicDate, clinicTime, describeClinicTime, fromClinicTime } from "./clinic-time";
+
+describe("clinic time", () => {
+  it("reads instants in UK time, in and out of summer time", () => {
+    assert.equal(clinicTime(new Date("2025-01-15T09:30:00Z")), "09:30");
+    assert.equal(clinicTime(new Date("2025-07-15T09:30:00Z")), "10:30");
+    assert.equal(clinicDate(new Date("2025-07-15T23:30:00Z")), "2025-07-16");
+    assert.equal(describeClinicTime(new Date("2025-07-15T23:30:00Z")), "16 Jul 2025 at 00:30");
+  });
+
+  it("turns a UK date and time into the instant it falls on", () => {
+    assert.equal(fromClinicTime("2025-01-15", "09:30").toISOString(), "2025-01-15T09:30:00.000Z");
+    assert.equal(fromClinicTime("2025-07-15", "09:30").toISOString(), "2025-07-15T08:30:00.000Z");
+  });
+
+  it("moves a time the clocks skip to an hour later", () => {
+    assert.equal(fromClinicTime("2025-03-30", "01:30").toISOString(), "2025-03-30T01:30:00.000Z");
+    assert.equal(clinicTime(fromClinicTime("2025-03-30", "01:30")), "02:30");
+  });
+});
@@ -0,0 +1,49 @@
+import { format, parseISO } from "date-fns";
+
+// Claimants are seen in UK clinics, so examination times are read and written
+// in UK time whatever zone the server itself runs in
+export const CLINIC_TIME_ZONE = "Europe/London";
+
+const clinicFormatter = new Intl.DateTimeFormat("en-GB", {
+  timeZone: CLINIC_TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+  hourCycle: "h23",
+});
+
+function clinicParts(date: Date) {
+  const parts = Object.fromEntries(clinicFormatter.formatToParts(date).map(part => [part.type, part.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+    seconds: parts.second,
+  };
+}
+
+// "2025-03-01" on the clinic's calendar
+export const clinicDate = (date: Date) => clinicParts(date).date;
+
+// "09:30" on the clinic's clock
+export const clinicTime = (date: Date) => clinicParts(date).time;
+
+// "1 Mar 2025 at 09:30" in clinic time
+export const describeClinicTime = (date: Date) =>
+  `${format(parseISO(clinicDate(date)), "d MMM yyyy")} at ${clinicTime(date)}`;
+
+// How far clinic time is ahead of UTC at an instant, in milliseconds
+function clinicOffset(instant: number): number {
+  const { date, time, seconds } = clinicParts(new Date(instant));
+  return Date.parse(`${date}T${time}:${seconds}Z`) - Math.floor(instant / 1000) * 1000;
+}
+
+// The instant a clinic date and "HH:mm" time fall on. A time skipped when the
+// clocks go forward lands an hour later, as the clinic's clocks would show it.
+export function fromClinicTime(date: string, time: string): Date {
+  const wallClock = Date.parse(`${date}T${time}:00Z`);
+  const guess = wallClock - clinicOffset(wallClock);
+  return new Date(wallClock - clinicOffset(guess));
+}
@@ -1,15 +1,28 @@
 import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
+import { drizzle, type NeonDatabase } from 'drizzle-orm/neon-serverless';
 import ws from "ws";
 import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+export interface DatabaseConnection {
+  pool: Pool;
+  db: NeonDatabase<typeof schema>;
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
+let connection: DatabaseConnection | undefined;
+
+// Connects on first use rather than at import, so the in-memory storage can
+// run without a database
+export function getDatabase(): DatabaseConnection {
+  if (!connection) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error(
+        "DATABASE_URL must be set. Did you forget to provision a database? Set STORAGE_DRIVER=memory to run without one.",
+      );
+    }
+    const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+    connection = { pool, db: drizzle({ client: pool, schema }) };
+  }
+  return connection;
+}
@@ -0,0 +1,281 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  Footer,
+  ImageRun,
+  Packer,
+  PageBreak,
+  PageNumber,
+  PageOrientation,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from "docx";
+import type { Case } from "@shared/schema";
+import { buildReportDocument, type ReportBlock, type ReportDocument } from "@shared/report/document";
+import {
+  resolvePDFOptions,
+  type PDFCustomizationOptions,
+  type ResolvedPDFOptions,
+  type RGBColor,
+} from "@shared/report/options";
+import { getReportTemplate } from "@shared/report/templates";
+import type { ReportAssets, ReportImage, ReportTheme } from "@shared/report/renderer";
+import { loadReportAssets } from "./experts";
+
+// Word has no Helvetica/Times/Courier, so map the jsPDF core fonts to their usual stand-ins
+const wordFonts: Record<string, string> = {
+  helvetica: "Arial",
+  times: "Times New Roman",
+  courier: "Courier New",
+};
+
+// Page sizes in twentieths of a point
+const pageSizes = {
+  a4: { width: 11906, height: 16838 },
+  letter: { width: 12240, height: 15840 },
+};
+
+const hex = ([r, g, b]: RGBColor) =>
+  [r, g, b].map(channel => channel.toString(16).padStart(2, "0")).join("").toUpperCase();
+
+// docx sizes text in half-points
+const halfPoints = (size: number) => size * 2;
+
+// An image scaled to the given height in pixels, keeping its aspect ratio
+const imageRun = ({ data, format, width, height }: ReportImage, drawHeight: number) =>
+  new ImageRun({
+    type: format === "PNG" ? "png" : "jpg",
+    data,
+    transformation: { width: Math.round(drawHeight * width / height), height: drawHeight },
+  });
+
+/**
+ * Lays the report document out as a Word file. It follows the same section
+ * order, numbering and colours as the PDF template so solicitors get an
+ * editable copy of the report they were sent.
+ */
+function buildDocx(
+  document: ReportDocument,
+  theme: ReportTheme,
+  options: ResolvedPDFOptions,
+  assets: ReportAssets,
+): Document {
+  const font = wordFonts[theme.fontFamily] ?? theme.fontFamily;
+  const bodySize = halfPoints(theme.fontSize.bodyText + 2);
+  const headerColor = hex(theme.headerColor);
+  const labelColor = hex(theme.labelColor);
+
+  const sectionTitle = (title: string, index: number) =>
+    options.includeSectionNumbers ? `${index + 1}. ${title.toUpperCase()}` : title.toUpperCase();
+
+  const sectionHeader = (title: string) =>
+    theme.headerStyle === "bar"
+      ? new Paragraph({
+          shading: { type: ShadingType.CLEAR, color: "auto", fill: headerColor },
+          spacing: { before: 240, after: 120 },
+          children: [new TextRun({ text: title, bold: true, color: "FFFFFF", size: halfPoints(theme.fontSize.sectionHeader + 2) })],
+        })
+      : new Paragraph({
+          border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: headerColor, space: 1 } },
+          spacing: { before: 240, after: 120 },
+          children: [new TextRun({ text: title, bold: true, color: headerColor, size: halfPoints(theme.fontSize.sectionHeader + 2) })],
+        });
+
+  const cell = (text: string, header = false) =>
+    new TableCell({
+      shading: header && theme.headerStyle === "bar"
+        ? { type: ShadingType.CLEAR, color: "auto", fill: headerColor }
+        : undefined,
+      children: [
+        new Paragraph({
+          children: [new TextRun({
+            text,
+            bold: header,
+            color: header ? (theme.headerStyle === "bar" ? "FFFFFF" : headerColor) : undefined,
+          })],
+        }),
+      ],
+    });
+
+  const blockToDocx = (block: ReportBlock, sectionIndex: number, counter: { n: number }): (Paragraph | Table)[] => {
+    switch (block.kind) {
+      case "fields":
+        return block.fields.map(field => {
+          counter.n += 1;
+          const label = options.includeSectionNumbers
+            ? `${sectionIndex + 1}.${counter.n} ${field.label}: `
+            : `${field.label}: `;
+          return new Paragraph({
+            spacing: { after: 60 },
+            children: [
+              new TextRun({ text: label, bold: true, color: labelColor }),
+              new TextRun({ text: field.value }),
+            ],
+          });
+        });
+      case "paragraph":
+        return [new Paragraph({ spacing: { after: 120 }, children: [new TextRun({ text: block.text, italics: block.note })] })];
+      case "subheading":
+        return [new Paragraph({
+          spacing: { before: 120, after: 60 },
+          children: [new TextRun({ text: block.text, bold: true, color: labelColor })],
+        })];
+      case "table":
+        return [
+          new Table({
+            width: { size: 100, type: WidthType.PERCENTAGE },
+            rows: [
+              new TableRow({ tableHeader: true, children: block.columns.map(column => cell(column, true)) }),
+              ...(block.rows.length === 0
+                ? [new TableRow({
+                    children: [new TableCell({
+                      columnSpan: block.columns.length,
+                      children: [new Paragraph({ alignment: AlignmentType.CENTER, text: block.emptyText })],
+                    })],
+                  })]
+                : block.rows.map(row => new TableRow({ children: row.map(value => cell(value)) }))),
+            ],
+          }),
+          new Paragraph({ text: "" }),
+        ];
+      case "signatureLine":
+        return [
+          new Paragraph({ spacing: { before: 480 }, text: "______________________________" }),
+          new Paragraph({ children: [new TextRun({ text: block.text, italics: true })] }),
+        ];
+    }
+  };
+
+  const cover: Paragraph[] = options.includeCoverPage
+    ? [
+        new Paragraph({
+          alignment: AlignmentType.CENTER,
+          spacing: { before: 2400, after: 480 },
+          children: [new TextRun({ text: document.title, bold: true, size: halfPoints(theme.fontSize.title + 4) })],
+        }),
+        ...([
+          ["Claimant", document.claimantName],
+          ["Case Number", document.caseNumber],
+          ["MedCo Reference", document.medcoReference],
+          ["Medical Expert", `${document.expert.name}, ${document.expert.credentials}`],
+          ["Report Date", document.reportDate],
+        ] as [string, string][]).map(([label, value]) =>
+          new Paragraph({
+            alignment: AlignmentType.CENTER,
+            spacing: { after: 160 },
+            children: [
+              new TextRun({ text: `${label}: `, bold: true, color: labelColor }),
+              new TextRun({ text: value }),
+            ],
+          }),
+        ),
+        new Paragraph({ children: [new PageBreak()] }),
+      ]
+    : [];
+
+  const contents: Paragraph[] = options.includeTableOfContents
+    ? [
+        new Paragraph({
+          spacing: { after: 240 },
+          children: [new TextRun({ text: "CONTENTS", bold: true, color: headerColor, size: halfPoints(theme.fontSize.title) })],
+        }),
+        ...document.sections.map((section, index) => new Paragraph({ text: sectionTitle(section.title, index) })),
+        new Paragraph({ children: [new PageBreak()] }),
+      ]
+    : [];
+
+  const letterhead = assets.letterheadImage
+    ? [new Paragraph({ alignment: AlignmentType.CENTER, spacing: { after: 240 }, children: [imageRun(assets.letterheadImage, 150)] })]
+    : [];
+
+  const body = document.sections.flatMap((section, index) => {
+    const counter = { n: 0 };
+    return [
+      sectionHeader(sectionTitle(section.title, index)),
+      ...section.blocks.flatMap(block => blockToDocx(block, index, counter)),
+    ];
+  });
+
+  const signature = [
+    sectionHeader(sectionTitle("Signature", document.sections.length)),
+    new Paragraph({ spacing: { after: 120 }, text: `Date: ${document.signature.date}` }),
+    assets.signatureImage
+      ? new Paragraph({ children: [imageRun(assets.signatureImage, 76)] })
+      : new Paragraph({ children: [new TextRun({ text: "Unsigned - no signature on file", italics: true })] }),
+    new Paragraph({ spacing: { before: 120 }, text: document.signature.name }),
+    new Paragraph({ text: document.signature.credentials }),
+  ];
+
+  const size = pageSizes[options.pageSize];
+  const landscape = options.orientation === "landscape";
+
+  return new Document({
+    creator: document.expert.name,
+    title: `${document.title} - ${document.claimantName}`,
+    styles: {
+      default: {
+        document: { run: { font, size: bodySize, color: hex(theme.textColor) } },
+      },
+    },
+    sections: [
+      {
+        properties: {
+          titlePage: options.includeCoverPage && !options.includeFooterOnEveryPage,
+          page: {
+            size: {
+              width: size.width,
+              height: size.height,
+              orientation: landscape ? PageOrientation.LANDSCAPE : PageOrientation.PORTRAIT,
+            },
+            // Template margins are in mm; 1mm is roughly 57 twips
+            margin: {
+              top: theme.margin * 57,
+              bottom: theme.margin * 57,
+              left: theme.margin * 57,
+              right: theme.margin * 57,
+            },
+          },
+        },
+        footers: {
+          default: new Footer({
+            children: [
+              new Paragraph({
+                alignment: AlignmentType.CENTER,
+                children: [
+                  new TextRun({
+                    size: 16,
+                    color: hex(theme.mutedColor),
+                    children: [
+                      "Page ",
+                      PageNumber.CURRENT,
+                      " of ",
+                      PageNumber.TOTAL_PAGES,
+                      ` | ${document.claimantName} | ${document.caseNumber || "Medico-Legal Report"}`,
+                    ],
+                  }),
+                ],
+              }),
+            ],
+          }),
+          first: new Footer({ children: [] }),
+        },
+        children: [...cover, ...contents, ...letterhead, ...body, ...signature],
+      },
+    ],
+  });
+}
+
+// Renders the report for a case as a .docx file, using the same template choice as the PDF
+export async function renderCaseDocx(caseData: Case, options?: PDFCustomizationOptions): Promise<Buffer> {
+  const resolved = resolvePDFOptions(options);
+  const assets = await loadReportAssets(caseData);
+  const document = buildReportDocument(caseData, resolved, assets.expert);
+  const theme = getReportTemplate(resolved.template).theme(resolved);
+  return Packer.toBuffer(buildDocx(document, theme, resolved, assets));
+}
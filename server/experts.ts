@@ -0,0 +1,63 @@
+import { jsPDF } from "jspdf";
+import type { Case, Expert, ExpertDetails, PublicExpert } from "@shared/schema";
+import type { ReportExpert } from "@shared/report/document";
+import type { ReportAssets, ReportImage } from "@shared/report/renderer";
+import { fileStorage } from "./file-storage";
+import { storage } from "./storage";
+
+// The expert who signs a case's report: the profile picked in its expert
+// details, or else the profile of the doctor the case is assigned to
+export async function getCaseExpert(caseData: Case): Promise<Expert | undefined> {
+  const expertId = (caseData.expertDetails as Partial<ExpertDetails> | null)?.expertId;
+  const selected = expertId ? await storage.getExpert(expertId) : undefined;
+  return selected ?? storage.getExpertByUserId(caseData.userId);
+}
+
+export function toPublicExpert(expert: Expert): PublicExpert {
+  const { signatureKey, signatureContentType, letterheadKey, letterheadContentType, calendarToken, ...rest } = expert;
+  return { ...rest, hasSignature: !!signatureKey, hasLetterhead: !!letterheadKey, hasCalendarFeed: !!calendarToken };
+}
+
+// Reads a stored image with what the renderer needs to place it
+async function loadReportImage(key: string | null, contentType: string | null): Promise<ReportImage | undefined> {
+  if (!key) return undefined;
+  const data = await fileStorage.get(key);
+  if (!data) {
+    console.error(`Expert image ${key} is missing from file storage`);
+    return undefined;
+  }
+  const bytes = new Uint8Array(data);
+  const { width, height } = new jsPDF().getImageProperties(bytes);
+  return { data: bytes, format: contentType === "image/png" ? "PNG" : "JPEG", width, height };
+}
+
+// The assigned expert's profile, signature and letterhead for the case's report
+export async function loadReportAssets(caseData: Case): Promise<ReportAssets> {
+  const expert = await getCaseExpert(caseData);
+  if (!expert) return {};
+  return {
+    expert,
+    signatureImage: await loadReportImage(expert.signatureKey, expert.signatureContentType),
+    letterheadImage: await loadReportImage(expert.letterheadKey, expert.letterheadContentType),
+  };
+}
+
+// Report assets as sent to the browser, which draws images from data URLs
+export function toBrowserReportAssets(assets: ReportAssets): ReportAssets {
+  const toDataUrl = (image?: ReportImage): ReportImage | undefined => image && {
+    ...image,
+    data: `data:image/${image.format.toLowerCase()};base64,${Buffer.from(image.data).toString("base64")}`,
+  };
+  const expert: ReportExpert | undefined = assets.expert && {
+    name: assets.expert.name,
+    qualifications: assets.expert.qualifications,
+    gmcNumber: assets.expert.gmcNumber,
+    medcoRegistration: assets.expert.medcoRegistration,
+    cv: assets.expert.cv,
+  };
+  return {
+    expert,
+    signatureImage: toDataUrl(assets.signatureImage),
+    letterheadImage: toDataUrl(assets.letterheadImage),
+  };
+}
@@ -0,0 +1,65 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+
+// Where attachment bytes are kept. Metadata lives in the case_documents table;
+// backends only deal in opaque keys so they can be swapped without a migration.
+export interface FileStorage {
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+// Stores files under a root directory, one sub-directory per case
+export class LocalFileStorage implements FileStorage {
+  constructor(private readonly root: string) {}
+
+  // Keys are generated by us, but never let one escape the root directory
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.promises.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
+
+// New key for an upload; the original file name is kept in the database only
+export const newStorageKey = (caseId: number, extension: string) =>
+  `cases/${caseId}/${randomUUID()}${extension}`;
+
+// Experts' signature and letterhead images live apart from any case
+export const newExpertImageKey = (expertId: number, kind: string, extension: string) =>
+  `experts/${expertId}/${kind}-${randomUUID()}${extension}`;
+
+// FILE_STORAGE_DRIVER picks the backend; only "local" exists so far
+function createFileStorage(): FileStorage {
+  const driver = process.env.FILE_STORAGE_DRIVER || "local";
+  switch (driver) {
+    case "local":
+      return new LocalFileStorage(process.env.FILE_STORAGE_PATH || path.resolve(process.cwd(), "uploads"));
+    default:
+      throw new Error(`Unknown FILE_STORAGE_DRIVER "${driver}"`);
+  }
+}
+
+export const fileStorage = createFileStorage();
@@ -2,9 +2,7 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { storage } from "./storage";
-import { db } from "./db";
-import { users } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { hashPassword, isHashedPassword } from "./auth";
 
 // Function to ensure default user exists
 async function ensureDefaultUser() {
@@ -17,11 +15,17 @@ async function ensureDefaultUser() {
       // Create default user if it doesn't exist
       await storage.createUser({
         username: "doctor",
-        password: "password123",
+        password: await hashPassword(process.env.DEFAULT_USER_PASSWORD || "password123"),
         fullName: "Dr. Sarah Johnson",
         role: "doctor"
       });
       log("Default user created successfully");
+    } else if (!isHashedPassword(existingUser.password)) {
+      // Upgrade accounts seeded before passwords were hashed
+      log("Hashing plaintext password for default user");
+      await storage.updateUser(existingUser.id, {
+        password: await hashPassword(existingUser.password),
+      });
     } else {
       log("Default user already exists");
     }
@@ -30,8 +34,81 @@ async function ensureDefaultUser() {
   }
 }
 
+// Accounts made before roles existed hold the old role "user", which grants
+// nothing now. They were all doctors' logins, so they become doctors.
+async function upgradeLegacyRoles() {
+  try {
+    const legacyUsers = (await storage.getUsers()).filter(user => user.role === "user");
+    for (const user of legacyUsers) {
+      log(`Giving legacy user ${user.username} the doctor role`);
+      await storage.updateUser(user.id, { role: "doctor" });
+    }
+  } catch (error) {
+    console.error("Error upgrading legacy user roles:", error);
+  }
+}
+
+// Only admins can manage users, experts and venues, so an installation needs
+// one to start with. DEFAULT_ADMIN_PASSWORD creates it, or promotes the
+// account named by DEFAULT_ADMIN_USERNAME (default "admin") if that exists.
+async function ensureDefaultAdmin() {
+  try {
+    const users = await storage.getUsers();
+    if (users.some(user => user.role === "admin")) {
+      return;
+    }
+    
+    const password = process.env.DEFAULT_ADMIN_PASSWORD;
+    if (!password) {
+      log("No admin account exists; set DEFAULT_ADMIN_PASSWORD to create one");
+      return;
+    }
+    
+    const username = process.env.DEFAULT_ADMIN_USERNAME || "admin";
+    const existingUser = users.find(user => user.username === username);
+    if (existingUser) {
+      log(`Promoting ${username} to admin`);
+      await storage.updateUser(existingUser.id, { role: "admin" });
+    } else {
+      log(`Creating admin account ${username}`);
+      await storage.createUser({
+        username,
+        password: await hashPassword(password),
+        fullName: "Administrator",
+        role: "admin"
+      });
+    }
+  } catch (error) {
+    console.error("Error ensuring admin account:", error);
+  }
+}
+
+// The two clinics used before venues could be configured, so existing
+// installations start with the choices they had
+async function ensureDefaultVenues() {
+  try {
+    const existingVenues = await storage.getVenues();
+    if (existingVenues.length === 0) {
+      log("Creating default venues");
+      await storage.createVenue({
+        name: "Preston - Ibis Garstang Rd",
+        address: "Meeting Room, North, Ibis, Garstang Rd, Preston PR3 5JE",
+        type: "face_to_face",
+      });
+      await storage.createVenue({
+        name: "Salford - Regus Centenary Way",
+        address: "Regus Office, Centenary Way, Salford M50 1RF",
+        type: "face_to_face",
+      });
+    }
+  } catch (error) {
+    console.error("Error ensuring default venues:", error);
+  }
+}
+
 const app = express();
-app.use(express.json());
+// Large enough for a case bundle posted for import
+app.use(express.json({ limit: "25mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -65,8 +142,11 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  // Ensure default user exists in database
+  // Ensure default users exist in database
+  await upgradeLegacyRoles();
   await ensureDefaultUser();
+  await ensureDefaultAdmin();
+  await ensureDefaultVenues();
   
   const server = await registerRoutes(app);
 
@@ -0,0 +1,13 @@
+import type { Case } from "@shared/schema";
+import { renderCaseReport } from "@shared/report/renderer";
+import type { ReportAssets } from "@shared/report/renderer";
+import type { PDFCustomizationOptions } from "@shared/report/options";
+import { loadReportAssets } from "./experts";
+
+// Renders the report for a case with the same templates as the browser,
+// signed by the expert assigned to it. Callers that have checked the assets
+// already can pass them in rather than have them loaded again.
+export async function renderCasePdf(caseData: Case, options?: PDFCustomizationOptions, assets?: ReportAssets): Promise<Buffer> {
+  const doc = renderCaseReport(caseData, options, assets ?? await loadReportAssets(caseData));
+  return Buffer.from(doc.output("arraybuffer"));
+}
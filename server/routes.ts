@@ -1,32 +1,259 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, CaseRevisionConflictError, AppointmentClashError } from "./storage";
 import {
+  setupAuth,
+  requireAuth,
+  requirePermission,
+  requireSectionEdit,
+  hashPassword,
+  toPublicUser,
+} from "./auth";
+import {
+  type Case,
+  type AccidentDetails,
+  type ClaimantDetails,
   insertCaseSchema,
   updateCaseSchema,
   claimantDetailsSchema,
   accidentDetailsSchema,
-  physicalInjurySchema,
+  physicalInjuryForAccidentSchema,
   psychologicalInjuriesSchema,
   treatmentsSchema,
   lifestyleImpactSchema,
   familyHistorySchema,
   workHistorySchema,
   prognosisSchema,
+  examinationSchema,
+  medicalRecordsReviewSchema,
   expertDetailsSchema,
+  insertUserSchema,
+  attachmentTypes,
+  caseDocumentCategories,
+  MAX_ATTACHMENT_BYTES,
+  type Expert,
+  insertExpertSchema,
+  insertVenueSchema,
+  insertAppointmentSchema,
+  appointmentOutcomeSchema,
+  expertImageTypes,
+  MAX_EXPERT_IMAGE_BYTES,
 } from "@shared/schema";
+import { hasPermission, canEditSection, getSectionForColumn, caseCompletion } from "@shared/permissions";
+import { recordAuditEvent } from "./audit";
+import { renderCasePdf } from "./pdf";
+import { renderCaseDocx } from "./docx";
+import { fileStorage, newStorageKey, newExpertImageKey } from "./file-storage";
+import { loadReportAssets, toBrowserReportAssets, toPublicExpert } from "./experts";
+import { withAppointmentDetails, attendedClaimantDetails, describeClash } from "./appointments";
+import { appointmentEvent, caseExaminationEvent, expertCalendarEvents, toICalendar } from "./calendar";
+import { createNumberedCase } from "./case-numbers";
+import { readSpreadsheet, spreadsheetExtensions } from "./spreadsheet";
+import express from "express";
+import path from "path";
+import { randomBytes } from "crypto";
+import { reportTemplateIds } from "@shared/report/options";
+import type { ReportAssets } from "@shared/report/renderer";
+import {
+  importFieldLabels,
+  importRowSchema,
+  previewImport,
+  requiredImportFields,
+  type ImportRow,
+} from "@shared/case-import";
+import { createCaseBundle, readCaseBundle } from "@shared/case-bundle";
+import {
+  caseStatusLabels,
+  caseTransitions,
+  signOffStatuses,
+  signOffTarget,
+  toCaseStatus,
+  transitionBlockers,
+  transitionSchema,
+} from "@shared/case-status";
+import { analyzeCaseCompleteness } from "@shared/suggestion-engine";
+import { expertDetailsFromProfile } from "@shared/experts";
+import { placeOfExamination } from "@shared/venues";
+import { z } from "zod";
 import { fromZodError } from "zod-validation-error";
 
+// Query string of an attachment upload; the file itself is the raw request body
+const uploadQuerySchema = z.object({
+  fileName: z.string().trim().min(1, "File name is required").max(255)
+    .refine(name => !/[\\/]/.test(name), "File name must not contain a path"),
+  category: z.enum(caseDocumentCategories).default("Other"),
+});
+
+// Clinic list range; the browser sends its own day boundaries
+const clinicListQuerySchema = z.object({
+  venueId: z.coerce.number().int().positive().optional(),
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+});
+
+// Largest instruction spreadsheet accepted for import, and most rows per import
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+const MAX_IMPORT_ROWS = 500;
+
+// Body of an import confirmation: the rows accepted at the preview step, and
+// the doctor the cases are assigned to when office staff import them
+const importConfirmSchema = z.object({
+  rows: z.array(importRowSchema).min(1, "No rows to import").max(MAX_IMPORT_ROWS),
+  userId: z.number().int().positive().optional(),
+});
+
+// Query of a case bundle import
+const bundleImportQuerySchema = z.object({
+  userId: z.coerce.number().int().positive().optional(),
+});
+
+// Leading bytes of each accepted file type, so a renamed executable isn't stored as a PDF
+const fileSignatures: Record<string, number[][]> = {
+  "application/pdf": [[0x25, 0x50, 0x44, 0x46]],
+  "image/jpeg": [[0xff, 0xd8, 0xff]],
+  "image/png": [[0x89, 0x50, 0x4e, 0x47]],
+  "image/tiff": [[0x49, 0x49, 0x2a, 0x00], [0x4d, 0x4d, 0x00, 0x2a]],
+  "application/msword": [[0xd0, 0xcf, 0x11, 0xe0]],
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [[0x50, 0x4b, 0x03, 0x04]],
+};
+
+const matchesFileSignature = (contentType: string, data: Buffer) =>
+  (fileSignatures[contentType] ?? []).some(signature =>
+    signature.every((byte, index) => data[index] === byte));
+
+// Where each kind of expert image is kept on the expert's profile
+const expertImageColumns = {
+  signature: { key: "signatureKey", contentType: "signatureContentType" },
+  letterhead: { key: "letterheadKey", contentType: "letterheadContentType" },
+} as const;
+
+const expertImageKindSchema = z.enum(["signature", "letterhead"]);
+
+// Where a calendar app subscribes to an expert's examinations
+const calendarFeedUrl = (req: Request, token: string) =>
+  `${req.protocol}://${req.get("host")}/api/calendar/${token}.ics`;
+
+function sendCalendar(res: Response, fileName: string, calendar: string) {
+  res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+  res.send(calendar);
+}
+
+// Expert managers may edit any profile; a doctor may edit their own
+const canEditExpert = (req: Request, expert: Expert) =>
+  hasPermission(req.user!.role, "experts:manage") || expert.userId === req.user!.id;
+
+// Why a profile can't be linked to the given user, if it can't
+async function expertUserProblem(userId: number, expertId?: number): Promise<string | undefined> {
+  const user = await storage.getUser(userId);
+  if (!user || user.role !== "doctor") {
+    return "Experts can only be linked to a doctor";
+  }
+  const linked = await storage.getExpertByUserId(userId);
+  if (linked && linked.id !== expertId) {
+    return `${user.fullName} already has an expert profile`;
+  }
+  return undefined;
+}
+
+// Load a case if the logged-in user may see it; doctors only see the cases assigned to them,
+// and cases they cannot see are reported as missing
+async function getAccessibleCase(caseId: number, req: Request): Promise<Case | undefined> {
+  const caseData = await storage.getCase(caseId);
+  if (!caseData) {
+    return undefined;
+  }
+  if (!hasPermission(req.user!.role, "cases:view-all") && caseData.userId !== req.user!.id) {
+    return undefined;
+  }
+  return caseData;
+}
+
+// Case revision from an If-Match header such as "3" or W/"3"
+function ifMatchRevision(req: Request): number | undefined {
+  const match = req.headers["if-match"]?.trim().match(/^(?:W\/)?"?(\d+)"?$/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+const caseETag = (caseData: Case) => `"${caseData.revision}"`;
+
+// Refuse an update made against an out-of-date copy of the case, sending back
+// the current copy and who last changed it so the form can offer a merge
+async function sendRevisionConflict(res: Response, caseId: number) {
+  const currentCase = await storage.getCase(caseId);
+  const [lastEvent] = await storage.getAuditEvents(caseId);
+  const lastEditor = lastEvent ? await storage.getUser(lastEvent.userId) : undefined;
+  
+  if (currentCase) {
+    res.setHeader("ETag", caseETag(currentCase));
+  }
+  return res.status(409).json({ 
+    message: "This case has been changed by someone else since you opened it",
+    case: currentCase,
+    changedBy: lastEditor?.fullName ?? null,
+    changedAt: lastEvent?.createdAt ?? null
+  });
+}
+
+// Section saves must say which revision they were made against. Returns that
+// revision, or undefined once a 428 or 409 response has been sent.
+async function requireCurrentRevision(req: Request, res: Response, existingCase: Case): Promise<number | undefined> {
+  const expectedRevision = ifMatchRevision(req);
+  if (expectedRevision === undefined) {
+    res.status(428).json({ message: "An If-Match header with the case revision is required" });
+    return undefined;
+  }
+  if (expectedRevision !== existingCase.revision) {
+    await sendRevisionConflict(res, existingCase.id);
+    return undefined;
+  }
+  return expectedRevision;
+}
+
+// The doctor a new case is assigned to: the one chosen, or the doctor creating
+// it. Office staff must choose, since a case belongs to the doctor who reports
+// on it. Sends a 400 and returns undefined when there's no valid choice.
+async function newCaseAssignee(req: Request, res: Response, requestedUserId?: number): Promise<number | undefined> {
+  if (requestedUserId === undefined) {
+    if (req.user!.role === "doctor") return req.user!.id;
+    res.status(400).json({ message: "Choose the doctor the case is assigned to" });
+    return undefined;
+  }
+  
+  const assignee = await storage.getUser(requestedUserId);
+  if (!assignee || assignee.role !== "doctor") {
+    res.status(400).json({ message: "Cases can only be assigned to a doctor" });
+    return undefined;
+  }
+  return assignee.id;
+}
+
+// Case numbers of the cases we hold, keyed by MedCo reference. A MedCo
+// reference identifies the instruction, so it must not be imported twice.
+async function heldMedcoRefs(): Promise<Map<string, string>> {
+  return new Map(
+    (await storage.getCases())
+      .map(caseData => [(caseData.claimantDetails as ClaimantDetails | null)?.medcoRefNumber, caseData.caseNumber])
+      .filter((entry): entry is [string, string] => !!entry[0]),
+  );
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Session, login, logout and current-user routes
+  setupAuth(app);
+  
   // API routes
   const apiRouter = app.route("/api");
   
+  // Every case route requires a logged-in user
+  app.use("/api/cases", requireAuth);
+  
   // Case routes
   app.get("/api/cases", async (req: Request, res: Response) => {
     try {
-      // TODO: In a real app we'd get the user ID from the session
-      const userId = 1; // Hardcoded for demo
-      const cases = await storage.getCases(userId);
+      const cases = hasPermission(req.user!.role, "cases:view-all")
+        ? await storage.getCases()
+        : await storage.getCases(req.user!.id);
       res.json(cases);
     } catch (error) {
       console.error("Error fetching cases:", error);
@@ -37,12 +264,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/cases/:id", async (req: Request, res: Response) => {
     try {
       const caseId = parseInt(req.params.id, 10);
-      const caseData = await storage.getCase(caseId);
+      const caseData = await getAccessibleCase(caseId, req);
       
       if (!caseData) {
         return res.status(404).json({ message: "Case not found" });
       }
       
+      res.setHeader("ETag", caseETag(caseData));
       res.json(caseData);
     } catch (error) {
       console.error("Error fetching case:", error);
@@ -50,10 +278,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/cases", async (req: Request, res: Response) => {
+  app.post("/api/cases", requirePermission("cases:create"), async (req: Request, res: Response) => {
     try {
-      // Parse and validate the request body
-      const parseResult = insertCaseSchema.safeParse(req.body);
+      // Parse and validate the request body; the case number and status are
+      // set by the server, and every case starts as a draft
+      const parseResult = insertCaseSchema
+        .omit({ caseNumber: true, status: true })
+        .partial({ userId: true })
+        .safeParse(req.body);
       
       if (!parseResult.success) {
         const validationError = fromZodError(parseResult.error);
@@ -63,14 +295,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Generate a unique case number
-      const caseNumber = await storage.generateCaseNumber();
+      const { userId: requestedUserId, ...caseData } = parseResult.data;
+      const userId = await newCaseAssignee(req, res, requestedUserId);
+      if (userId === undefined) return;
       
-      // Create the case
-      const newCase = await storage.createCase({
-        ...parseResult.data,
-        caseNumber,
-      });
+      // Create the case under the next case number
+      const newCase = await createNumberedCase(storage, { ...caseData, userId });
+      await recordAuditEvent(req, null, newCase);
       
       res.status(201).json(newCase);
     } catch (error) {
@@ -79,12 +310,176 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Bulk import, step 1: read an instruction spreadsheet and validate every row
+  // without creating anything. The raw file is the body; its name comes in the query.
+  app.post(
+    "/api/cases/import/spreadsheet/preview",
+    requirePermission("cases:create"),
+    express.raw({ type: () => true, limit: MAX_IMPORT_BYTES }),
+    async (req: Request, res: Response) => {
+      try {
+        const fileName = typeof req.query.fileName === "string" ? req.query.fileName : "";
+        const extension = path.extname(fileName).toLowerCase();
+        if (!spreadsheetExtensions.includes(extension)) {
+          return res.status(415).json({ message: "Upload a CSV file or an Excel workbook (.xlsx)" });
+        }
+        
+        const data: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+        const table = data.length > 0 ? await readSpreadsheet(data, extension) : undefined;
+        if (!table) {
+          return res.status(400).json({ message: "The file could not be read as a spreadsheet" });
+        }
+        
+        const preview = previewImport(fileName, table);
+        
+        const missingColumns = requiredImportFields.filter(field => preview.mapping.fields[field] === undefined);
+        if (missingColumns.length > 0) {
+          return res.status(400).json({ 
+            message: `Missing required columns: ${missingColumns.map(field => importFieldLabels[field]).join(", ")}`,
+          });
+        }
+        if (preview.rows.length === 0) {
+          return res.status(400).json({ message: "The spreadsheet has no rows to import" });
+        }
+        if (preview.rows.length > MAX_IMPORT_ROWS) {
+          return res.status(400).json({ message: `At most ${MAX_IMPORT_ROWS} rows can be imported at once` });
+        }
+        
+        // Flag instructions we already hold
+        const existingRefs = await heldMedcoRefs();
+        for (const row of preview.rows) {
+          const caseNumber = existingRefs.get(row.data?.claimantDetails.medcoRefNumber ?? "");
+          if (caseNumber) {
+            row.errors.push({
+              field: importFieldLabels.medcoRefNumber,
+              message: `Already imported as case ${caseNumber}`,
+            });
+            delete row.data;
+          }
+        }
+        
+        res.json(preview);
+      } catch (error) {
+        console.error("Error previewing case import:", error);
+        res.status(500).json({ message: "Failed to read spreadsheet" });
+      }
+    },
+  );
+  
+  // Bulk import, step 2: create a case for each row confirmed from the preview
+  app.post("/api/cases/import/spreadsheet", requirePermission("cases:create"), async (req: Request, res: Response) => {
+    try {
+      // Rows are validated again; the preview is only advisory
+      const parseResult = importConfirmSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        const validationError = fromZodError(parseResult.error);
+        return res.status(400).json({ 
+          message: "Invalid import data",
+          errors: validationError.details
+        });
+      }
+      
+      const userId = await newCaseAssignee(req, res, parseResult.data.userId);
+      if (userId === undefined) return;
+      
+      // Cases may have been created since the preview, and a posted row list
+      // needn't come from one, so duplicate MedCo references are refused here too
+      const rows = parseResult.data.rows as ImportRow[];
+      const existingRefs = await heldMedcoRefs();
+      const postedRefs = new Set<string>();
+      const duplicates: string[] = [];
+      for (const row of rows) {
+        const medcoRef = row.claimantDetails.medcoRefNumber;
+        if (!medcoRef) continue;
+        const caseNumber = existingRefs.get(medcoRef);
+        if (caseNumber) {
+          duplicates.push(`MedCo reference ${medcoRef} was already imported as case ${caseNumber}`);
+        } else if (postedRefs.has(medcoRef)) {
+          duplicates.push(`MedCo reference ${medcoRef} appears more than once`);
+        }
+        postedRefs.add(medcoRef);
+      }
+      if (duplicates.length > 0) {
+        return res.status(409).json({ message: duplicates.join("; ") });
+      }
+      
+      const created: Case[] = [];
+      for (const row of rows) {
+        const newCase = await createNumberedCase(storage, {
+          userId,
+          claimantDetails: row.claimantDetails,
+          accidentDetails: row.accidentDetails,
+          // A row carries everything needed to book the examination
+          status: "awaiting_examination",
+          completionPercentage: caseCompletion(row),
+        });
+        await recordAuditEvent(req, null, newCase);
+        created.push(newCase);
+      }
+      
+      res.status(201).json(created);
+    } catch (error) {
+      console.error("Error importing cases:", error);
+      res.status(500).json({ message: "Failed to import cases" });
+    }
+  });
+  
+  // Restore a case from a bundle written by GET /api/cases/:id/export, possibly on another instance.
+  // The bundle is the body, so office staff name the doctor it's assigned to in ?userId=.
+  app.post("/api/cases/import", requirePermission("cases:create"), async (req: Request, res: Response) => {
+    try {
+      const queryResult = bundleImportQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        const validationError = fromZodError(queryResult.error);
+        return res.status(400).json({ 
+          message: "Invalid doctor",
+          errors: validationError.details
+        });
+      }
+      
+      const result = readCaseBundle(req.body);
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "The case file is not compatible with this instance",
+          incompatibilities: result.incompatibilities
+        });
+      }
+      
+      const userId = await newCaseAssignee(req, res, queryResult.data.userId);
+      if (userId === undefined) return;
+      
+      // Case numbers are only unique within an instance, so the case gets a new one.
+      // It starts as a draft: a report issued elsewhere hasn't been signed off here.
+      const newCase = await createNumberedCase(storage, {
+        ...result.sections,
+        status: "draft",
+        completionPercentage: result.bundle.case.completionPercentage,
+        userId,
+      });
+      await recordAuditEvent(req, null, newCase);
+      
+      // Attachment contents aren't part of the bundle
+      const warnings = result.bundle.attachments.map(attachment =>
+        `Attachment "${attachment.fileName}" (${attachment.category}) was not transferred and must be uploaded again`);
+      
+      res.status(201).json({ 
+        case: newCase,
+        originalCaseNumber: result.bundle.case.caseNumber,
+        warnings
+      });
+    } catch (error) {
+      console.error("Error importing case bundle:", error);
+      res.status(500).json({ message: "Failed to import case" });
+    }
+  });
+  
   app.put("/api/cases/:id", async (req: Request, res: Response) => {
     try {
       const caseId = parseInt(req.params.id, 10);
       
       // Check if the case exists
-      const existingCase = await storage.getCase(caseId);
+      const existingCase = await getAccessibleCase(caseId, req);
       if (!existingCase) {
         return res.status(404).json({ message: "Case not found" });
       }
@@ -100,30 +495,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      // The status only moves through the workflow
+      if (parseResult.data.status !== undefined) {
+        return res.status(400).json({ message: "Change the case status with POST /api/cases/:id/transition" });
+      }
+      
+      // Section columns are subject to the same role rules as the section routes
+      for (const column of Object.keys(parseResult.data)) {
+        const section = getSectionForColumn(column);
+        if (section && !canEditSection(req.user!.role, section)) {
+          return res.status(403).json({ message: "Your role cannot edit this section" });
+        }
+      }
+      
+      // If-Match is optional here, but honoured when sent
+      const expectedRevision = ifMatchRevision(req);
+      if (expectedRevision !== undefined && expectedRevision !== existingCase.revision) {
+        return sendRevisionConflict(res, caseId);
+      }
+      
       // Update the case
-      const updatedCase = await storage.updateCase(caseId, parseResult.data);
+      const updatedCase = await storage.updateCase(caseId, parseResult.data, expectedRevision);
+      await recordAuditEvent(req, existingCase, updatedCase);
       
+      res.setHeader("ETag", caseETag(updatedCase));
       res.json(updatedCase);
     } catch (error) {
+      if (error instanceof CaseRevisionConflictError) {
+        return sendRevisionConflict(res, error.caseId);
+      }
       console.error("Error updating case:", error);
       res.status(500).json({ message: "Failed to update case" });
     }
   });
   
-  app.delete("/api/cases/:id", async (req: Request, res: Response) => {
+  app.delete("/api/cases/:id", requirePermission("cases:delete"), async (req: Request, res: Response) => {
     try {
       const caseId = parseInt(req.params.id, 10);
       
       // Check if the case exists
-      const existingCase = await storage.getCase(caseId);
+      const existingCase = await getAccessibleCase(caseId, req);
       if (!existingCase) {
         return res.status(404).json({ message: "Case not found" });
       }
       
-      // Delete the case
+      // Delete the case, and its appointments with it
       const deleted = await storage.deleteCase(caseId);
       
       if (deleted) {
+        await recordAuditEvent(req, existingCase, null);
+        
+        // Attachments go with the case
+        for (const caseDocument of await storage.getCaseDocuments(caseId)) {
+          await storage.deleteCaseDocument(caseId, caseDocument.id);
+          await fileStorage.delete(caseDocument.storageKey);
+        }
         res.status(204).end();
       } else {
         res.status(500).json({ message: "Failed to delete case" });
@@ -135,16 +561,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Section-specific update routes
-  app.put("/api/cases/:id/claimant-details", async (req: Request, res: Response) => {
+  app.put("/api/cases/:id/claimant-details", requireSectionEdit("claimant-details"), async (req: Request, res: Response) => {
     try {
       const caseId = parseInt(req.params.id, 10);
       
       // Check if the case exists
-      const existingCase = await storage.getCase(caseId);
+      const existingCase = await getAccessibleCase(caseId, req);
       if (!existingCase) {
         return res.status(404).json({ message: "Case not found" });
       }
       
+      // Don't overwrite changes this user hasn't seen
+      const expectedRevision = await requireCurrentRevision(req, res, existingCase);
+      if (expectedRevision === undefined) return;
+      
       // Parse and validate the request body
       const parseResult = claimantDetailsSchema.safeParse(req.body);
       
@@ -156,28 +586,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      // The place of examination is described from the venue, as it stands now
+      let claimantDetails = parseResult.data;
+      if (claimantDetails.venueId) {
+        const venue = await storage.getVenue(claimantDetails.venueId);
+        if (!venue) {
+          return res.status(400).json({ message: "Venue not found" });
+        }
+        const previousVenueId = (existingCase.claimantDetails as Partial<ClaimantDetails> | null)?.venueId;
+        if (!venue.active && venue.id !== previousVenueId) {
+          return res.status(400).json({ message: `${venue.name} is no longer in use` });
+        }
+        claimantDetails = { ...claimantDetails, placeOfExamination: placeOfExamination(venue) };
+      }
+      
       // Update the case
       const updatedCase = await storage.updateCase(caseId, {
-        claimantDetails: parseResult.data,
-      });
+        claimantDetails,
+      }, expectedRevision);
+      await recordAuditEvent(req, existingCase, updatedCase);
       
+      res.setHeader("ETag", caseETag(updatedCase));
       res.json(updatedCase);
     } catch (error) {
+      if (error instanceof CaseRevisionConflictError) {
+        return sendRevisionConflict(res, error.caseId);
+      }
       console.error("Error updating claimant details:", error);
       res.status(500).json({ message: "Failed to update claimant details" });
     }
   });
   
-  app.put("/api/cases/:id/accident-details", async (req: Request, res: Response) => {
+  app.put("/api/cases/:id/accident-details", requireSectionEdit("accident-details"), async (req: Request, res: Response) => {
     try {
       const caseId = parseInt(req.params.id, 10);
       
       // Check if the case exists
-      const existingCase = await storage.getCase(caseId);
+      const existingCase = await getAccessibleCase(caseId, req);
       if (!existingCase) {
         return res.status(404).json({ message: "Case not found" });
       }
       
+      // Don't overwrite changes this user hasn't seen
+      const expectedRevision = await requireCurrentRevision(req, res, existingCase);
+      if (expectedRevision === undefined) return;
+      
       // Parse and validate the request body
       const parseResult = accidentDetailsSchema.safeParse(req.body);
       
@@ -192,27 +645,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Update the case
       const updatedCase = await storage.updateCase(caseId, {
         accidentDetails: parseResult.data,
-      });
+      }, expectedRevision);
+      await recordAuditEvent(req, existingCase, updatedCase);
       
+      res.setHeader("ETag", caseETag(updatedCase));
       res.json(updatedCase);
     } catch (error) {
+      if (error instanceof CaseRevisionConflictError) {
+        return sendRevisionConflict(res, error.caseId);
+      }
       console.error("Error updating accident details:", error);
       res.status(500).json({ message: "Failed to update accident details" });
     }
   });
   
-  app.put("/api/cases/:id/physical-injury", async (req: Request, res: Response) => {
+  app.put("/api/cases/:id/physical-injury", requireSectionEdit("physical-injury"), async (req: Request, res: Response) => {
     try {
       const caseId = parseInt(req.params.id, 10);
       
       // Check if the case exists
-      const existingCase = await storage.getCase(caseId);
+      const existingCase = await getAccessibleCase(caseId, req);
       if (!existingCase) {
         return res.status(404).json({ message: "Case not found" });
       }
       
-      // Parse and validate the request body
-      const parseResult = physicalInjurySchema.safeParse(req.body);
+      // Don't overwrite changes this user hasn't seen
+      const expectedRevision = await requireCurrentRevision(req, res, existingCase);
+      if (expectedRevision === undefined) return;
+      
+      // Parse and validate the request body; resolution dates are checked against the accident date
+      const accidentDate = (existingCase.accidentDetails as AccidentDetails | null)?.accidentDate;
+      const parseResult = physicalInjuryForAccidentSchema(accidentDate).safeParse(req.body);
       
       if (!parseResult.success) {
         const validationError = fromZodError(parseResult.error);
@@ -225,25 +688,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Update the case
       const updatedCase = await storage.updateCase(caseId, {
         physicalInjuryDetails: parseResult.data,
-      });
+      }, expectedRevision);
+      await recordAuditEvent(req, existingCase, updatedCase);
       
+      res.setHeader("ETag", caseETag(updatedCase));
       res.json(updatedCase);
     } catch (error) {
+      if (error instanceof CaseRevisionConflictError) {
+        return sendRevisionConflict(res, error.caseId);
+      }
       console.error("Error updating physical injury details:", error);
       res.status(500).json({ message: "Failed to update physical injury details" });
     }
   });
   
-  app.put("/api/cases/:id/psychological-injuries", async (req: Request, res: Response) => {
+  app.put("/api/cases/:id/psychological-injuries", requireSectionEdit("psychological-injuries"), async (req: Request, res: Response) => {
     try {
       const caseId = parseInt(req.params.id, 10);
       
       // Check if the case exists
-      const existingCase = await storage.getCase(caseId);
+      const existingCase = await getAccessibleCase(caseId, req);
       if (!existingCase) {
         return res.status(404).json({ message: "Case not found" });
       }
       
+      // Don't overwrite changes this user hasn't seen
+      const expectedRevision = await requireCurrentRevision(req, res, existingCase);
+      if (expectedRevision === undefined) return;
+      
       // Parse and validate the request body
       const parseResult = psychologicalInjuriesSchema.safeParse(req.body);
       
@@ -258,25 +730,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Update the case
       const updatedCase = await storage.updateCase(caseId, {
         psychologicalInjuries: parseResult.data,
-      });
+      }, expectedRevision);
+      await recordAuditEvent(req, existingCase, updatedCase);
       
+      res.setHeader("ETag", caseETag(updatedCase));
       res.json(updatedCase);
     } catch (error) {
+      if (error instanceof CaseRevisionConflictError) {
+        return sendRevisionConflict(res, error.caseId);
+      }
       console.error("Error updating psychological injuries:", error);
       res.status(500).json({ message: "Failed to update psychological injuries" });
     }
   });
   
-  app.put("/api/cases/:id/treatments", async (req: Request, res: Response) => {
+  app.put("/api/cases/:id/treatments", requireSectionEdit("treatments"), async (req: Request, res: Response) => {
     try {
       const caseId = parseInt(req.params.id, 10);
       
       // Check if the case exists
-      const existingCase = await storage.getCase(caseId);
+      const existingCase = await getAccessibleCase(caseId, req);
       if (!existingCase) {
         return res.status(404).json({ message: "Case not found" });
       }
       
+      // Don't overwrite changes this user hasn't seen
+      const expectedRevision = await requireCurrentRevision(req, res, existingCase);
+      if (expectedRevision === undefined) return;
+      
       // Parse and validate the request body
       const parseResult = treatmentsSchema.safeParse(req.body);
       
@@ -291,25 +772,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Update the case
       const updatedCase = await storage.updateCase(caseId, {
         treatments: parseResult.data,
-      });
+      }, expectedRevision);
+      await recordAuditEvent(req, existingCase, updatedCase);
       
+      res.setHeader("ETag", caseETag(updatedCase));
       res.json(updatedCase);
     } catch (error) {
+      if (error instanceof CaseRevisionConflictError) {
+        return sendRevisionConflict(res, error.caseId);
+      }
       console.error("Error updating treatments:", error);
       res.status(500).json({ message: "Failed to update treatments" });
     }
   });
   
-  app.put("/api/cases/:id/lifestyle-impact", async (req: Request, res: Response) => {
+  app.put("/api/cases/:id/lifestyle-impact", requireSectionEdit("lifestyle-impact"), async (req: Request, res: Response) => {
     try {
       const caseId = parseInt(req.params.id, 10);
       
       // Check if the case exists
-      const existingCase = await storage.getCase(caseId);
+      const existingCase = await getAccessibleCase(caseId, req);
       if (!existingCase) {
         return res.status(404).json({ message: "Case not found" });
       }
       
+      // Don't overwrite changes this user hasn't seen
+      const expectedRevision = await requireCurrentRevision(req, res, existingCase);
+      if (expectedRevision === undefined) return;
+      
       // Parse and validate the request body
       const parseResult = lifestyleImpactSchema.safeParse(req.body);
       
@@ -324,25 +814,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Update the case
       const updatedCase = await storage.updateCase(caseId, {
         lifestyleImpact: parseResult.data,
-      });
+      }, expectedRevision);
+      await recordAuditEvent(req, existingCase, updatedCase);
       
+      res.setHeader("ETag", caseETag(updatedCase));
       res.json(updatedCase);
     } catch (error) {
+      if (error instanceof CaseRevisionConflictError) {
+        return sendRevisionConflict(res, error.caseId);
+      }
       console.error("Error updating lifestyle impact:", error);
       res.status(500).json({ message: "Failed to update lifestyle impact" });
     }
   });
   
-  app.put("/api/cases/:id/family-history", async (req: Request, res: Response) => {
+  app.put("/api/cases/:id/family-history", requireSectionEdit("family-history"), async (req: Request, res: Response) => {
     try {
       const caseId = parseInt(req.params.id, 10);
       
       // Check if the case exists
-      const existingCase = await storage.getCase(caseId);
+      const existingCase = await getAccessibleCase(caseId, req);
       if (!existingCase) {
         return res.status(404).json({ message: "Case not found" });
       }
       
+      // Don't overwrite changes this user hasn't seen
+      const expectedRevision = await requireCurrentRevision(req, res, existingCase);
+      if (expectedRevision === undefined) return;
+      
       // Parse and validate the request body
       const parseResult = familyHistorySchema.safeParse(req.body);
       
@@ -357,25 +856,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Update the case
       const updatedCase = await storage.updateCase(caseId, {
         familyHistory: parseResult.data,
-      });
+      }, expectedRevision);
+      await recordAuditEvent(req, existingCase, updatedCase);
       
+      res.setHeader("ETag", caseETag(updatedCase));
       res.json(updatedCase);
     } catch (error) {
+      if (error instanceof CaseRevisionConflictError) {
+        return sendRevisionConflict(res, error.caseId);
+      }
       console.error("Error updating family history:", error);
       res.status(500).json({ message: "Failed to update family history" });
     }
   });
   
-  app.put("/api/cases/:id/work-history", async (req: Request, res: Response) => {
+  app.put("/api/cases/:id/work-history", requireSectionEdit("work-history"), async (req: Request, res: Response) => {
     try {
       const caseId = parseInt(req.params.id, 10);
       
       // Check if the case exists
-      const existingCase = await storage.getCase(caseId);
+      const existingCase = await getAccessibleCase(caseId, req);
       if (!existingCase) {
         return res.status(404).json({ message: "Case not found" });
       }
       
+      // Don't overwrite changes this user hasn't seen
+      const expectedRevision = await requireCurrentRevision(req, res, existingCase);
+      if (expectedRevision === undefined) return;
+      
       // Parse and validate the request body
       const parseResult = workHistorySchema.safeParse(req.body);
       
@@ -390,25 +898,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Update the case
       const updatedCase = await storage.updateCase(caseId, {
         workHistory: parseResult.data,
-      });
+      }, expectedRevision);
+      await recordAuditEvent(req, existingCase, updatedCase);
       
+      res.setHeader("ETag", caseETag(updatedCase));
       res.json(updatedCase);
     } catch (error) {
+      if (error instanceof CaseRevisionConflictError) {
+        return sendRevisionConflict(res, error.caseId);
+      }
       console.error("Error updating work history:", error);
       res.status(500).json({ message: "Failed to update work history" });
     }
   });
   
-  app.put("/api/cases/:id/prognosis", async (req: Request, res: Response) => {
+  app.put("/api/cases/:id/prognosis", requireSectionEdit("prognosis"), async (req: Request, res: Response) => {
     try {
       const caseId = parseInt(req.params.id, 10);
       
       // Check if the case exists
-      const existingCase = await storage.getCase(caseId);
+      const existingCase = await getAccessibleCase(caseId, req);
       if (!existingCase) {
         return res.status(404).json({ message: "Case not found" });
       }
       
+      // Don't overwrite changes this user hasn't seen
+      const expectedRevision = await requireCurrentRevision(req, res, existingCase);
+      if (expectedRevision === undefined) return;
+      
       // Parse and validate the request body
       const parseResult = prognosisSchema.safeParse(req.body);
       
@@ -423,25 +940,118 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Update the case
       const updatedCase = await storage.updateCase(caseId, {
         prognosis: parseResult.data,
-      });
+      }, expectedRevision);
+      await recordAuditEvent(req, existingCase, updatedCase);
       
+      res.setHeader("ETag", caseETag(updatedCase));
       res.json(updatedCase);
     } catch (error) {
+      if (error instanceof CaseRevisionConflictError) {
+        return sendRevisionConflict(res, error.caseId);
+      }
       console.error("Error updating prognosis:", error);
       res.status(500).json({ message: "Failed to update prognosis" });
     }
   });
   
-  app.put("/api/cases/:id/expert-details", async (req: Request, res: Response) => {
+  app.put("/api/cases/:id/examination", requireSectionEdit("examination"), async (req: Request, res: Response) => {
+    try {
+      const caseId = parseInt(req.params.id, 10);
+      
+      // Check if the case exists
+      const existingCase = await getAccessibleCase(caseId, req);
+      if (!existingCase) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+      
+      // Don't overwrite changes this user hasn't seen
+      const expectedRevision = await requireCurrentRevision(req, res, existingCase);
+      if (expectedRevision === undefined) return;
+      
+      // Parse and validate the request body
+      const parseResult = examinationSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        const validationError = fromZodError(parseResult.error);
+        return res.status(400).json({ 
+          message: "Invalid examination findings",
+          errors: validationError.details
+        });
+      }
+      
+      // Update the case
+      const updatedCase = await storage.updateCase(caseId, {
+        examination: parseResult.data,
+      }, expectedRevision);
+      await recordAuditEvent(req, existingCase, updatedCase);
+      
+      res.setHeader("ETag", caseETag(updatedCase));
+      res.json(updatedCase);
+    } catch (error) {
+      if (error instanceof CaseRevisionConflictError) {
+        return sendRevisionConflict(res, error.caseId);
+      }
+      console.error("Error updating examination findings:", error);
+      res.status(500).json({ message: "Failed to update examination findings" });
+    }
+  });
+  
+  app.put("/api/cases/:id/medical-records", requireSectionEdit("medical-records"), async (req: Request, res: Response) => {
+    try {
+      const caseId = parseInt(req.params.id, 10);
+      
+      // Check if the case exists
+      const existingCase = await getAccessibleCase(caseId, req);
+      if (!existingCase) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+      
+      // Don't overwrite changes this user hasn't seen
+      const expectedRevision = await requireCurrentRevision(req, res, existingCase);
+      if (expectedRevision === undefined) return;
+      
+      // Parse and validate the request body
+      const parseResult = medicalRecordsReviewSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        const validationError = fromZodError(parseResult.error);
+        return res.status(400).json({ 
+          message: "Invalid medical records review",
+          errors: validationError.details
+        });
+      }
+      
+      // Update the case
+      const updatedCase = await storage.updateCase(caseId, {
+        medicalRecordsReview: parseResult.data,
+      }, expectedRevision);
+      await recordAuditEvent(req, existingCase, updatedCase);
+      
+      res.setHeader("ETag", caseETag(updatedCase));
+      res.json(updatedCase);
+    } catch (error) {
+      if (error instanceof CaseRevisionConflictError) {
+        return sendRevisionConflict(res, error.caseId);
+      }
+      console.error("Error updating medical records review:", error);
+      res.status(500).json({ message: "Failed to update medical records review" });
+    }
+  });
+  
+  app.put("/api/cases/:id/expert-details", requireSectionEdit("expert-details"), async (req: Request, res: Response) => {
     try {
       const caseId = parseInt(req.params.id, 10);
       
       // Check if the case exists
-      const existingCase = await storage.getCase(caseId);
+      const existingCase = await getAccessibleCase(caseId, req);
       if (!existingCase) {
         return res.status(404).json({ message: "Case not found" });
       }
       
+      // Don't overwrite changes this user hasn't seen
+      const expectedRevision = await requireCurrentRevision(req, res, existingCase);
+      if (expectedRevision === undefined) return;
+      
       // Parse and validate the request body
       const parseResult = expertDetailsSchema.safeParse(req.body);
       
@@ -453,78 +1063,1243 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      // A linked profile's details replace whatever was typed in
+      let expertDetails = parseResult.data;
+      if (expertDetails.expertId) {
+        const expert = await storage.getExpert(expertDetails.expertId);
+        if (!expert) {
+          return res.status(400).json({ message: "Expert profile not found" });
+        }
+        expertDetails = { ...expertDetails, ...expertDetailsFromProfile(expert) };
+      }
+      
       // Update the case
       const updatedCase = await storage.updateCase(caseId, {
-        expertDetails: parseResult.data,
-      });
+        expertDetails,
+      }, expectedRevision);
+      await recordAuditEvent(req, existingCase, updatedCase);
       
+      res.setHeader("ETag", caseETag(updatedCase));
       res.json(updatedCase);
     } catch (error) {
+      if (error instanceof CaseRevisionConflictError) {
+        return sendRevisionConflict(res, error.caseId);
+      }
       console.error("Error updating expert details:", error);
       res.status(500).json({ message: "Failed to update expert details" });
     }
   });
   
-  // Calculate and update completion percentage
-  app.post("/api/cases/:id/calculate-completion", async (req: Request, res: Response) => {
+  // Doctor sign-off of a completed report
+  app.post("/api/cases/:id/sign-off", requirePermission("cases:sign-off"), async (req: Request, res: Response) => {
     try {
       const caseId = parseInt(req.params.id, 10);
       
       // Check if the case exists
-      const existingCase = await storage.getCase(caseId);
+      const existingCase = await getAccessibleCase(caseId, req);
       if (!existingCase) {
         return res.status(404).json({ message: "Case not found" });
       }
       
-      // Count completed sections
-      let completedSections = 0;
-      const totalSections = 10; // Total number of case sections
+      // Only the doctor the case is assigned to may sign it off
+      if (existingCase.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Only the assigned doctor can sign off this case" });
+      }
       
-      if (existingCase.claimantDetails) completedSections++;
-      if (existingCase.accidentDetails) completedSections++;
-      if (existingCase.physicalInjuryDetails) completedSections++;
-      if (existingCase.psychologicalInjuries) completedSections++;
-      if (existingCase.treatments) completedSections++;
-      if (existingCase.lifestyleImpact) completedSections++;
-      if (existingCase.familyHistory) completedSections++;
-      if (existingCase.workHistory) completedSections++;
-      if (existingCase.prognosis) completedSections++;
-      if (existingCase.expertDetails) completedSections++;
+      // Signing off issues the report, or an amended one if it was issued before
+      const status = signOffTarget(existingCase.status);
+      if (!status) {
+        return res.status(409).json({ 
+          message: `A case that is ${caseStatusLabels[toCaseStatus(existingCase.status)].toLowerCase()} can't be signed off; move it to Under Review first`
+        });
+      }
+      const blockers = transitionBlockers(existingCase, status);
+      if (blockers.length > 0) {
+        return res.status(409).json({ 
+          message: "The report can't be issued until these problems are fixed",
+          blockers
+        });
+      }
       
-      const completionPercentage = Math.round((completedSections / totalSections) * 100);
+      // The issued report carries the assigned expert's own signature, so the
+      // image itself has to load, not just be named on their profile
+      const assets = await loadReportAssets(existingCase);
+      if (!assets.signatureImage) {
+        return res.status(409).json({ 
+          message: "The report can't be signed off until the assigned expert has a signature on file"
+        });
+      }
       
-      // Update the case
-      const updatedCase = await storage.updateCase(caseId, {
-        completionPercentage,
+      // The issued PDF is rendered here, from the case as issued and the
+      // expert's profile and signature, and kept so it can be reproduced later.
+      // It's rendered before anything is saved, so a failure leaves the case as it was.
+      const pdf = await renderCasePdf({ ...existingCase, status }, undefined, assets);
+      const { case: updatedCase, reportVersion } = await storage.issueReport(caseId, { status }, existingCase.revision, {
+        issuedBy: req.user!.id,
+        pdfData: pdf.toString("base64"),
       });
+      await recordAuditEvent(req, existingCase, updatedCase);
       
-      res.json({ completionPercentage });
+      res.setHeader("ETag", caseETag(updatedCase));
+      res.json({ ...updatedCase, issuedVersion: reportVersion.version });
     } catch (error) {
-      console.error("Error calculating completion:", error);
-      res.status(500).json({ message: "Failed to calculate completion percentage" });
+      if (error instanceof CaseRevisionConflictError) {
+        return sendRevisionConflict(res, error.caseId);
+      }
+      console.error("Error signing off case:", error);
+      res.status(500).json({ message: "Failed to sign off case" });
     }
   });
   
-  // PDF generation endpoint (server-side rendering of PDF)
-  app.get("/api/cases/:id/pdf", async (req: Request, res: Response) => {
+  // Move a case along the status workflow. Issuing is done by signing off.
+  app.post("/api/cases/:id/transition", async (req: Request, res: Response) => {
     try {
       const caseId = parseInt(req.params.id, 10);
       
       // Check if the case exists
-      const existingCase = await storage.getCase(caseId);
+      const existingCase = await getAccessibleCase(caseId, req);
       if (!existingCase) {
         return res.status(404).json({ message: "Case not found" });
       }
       
-      // Return the case data for client-side PDF generation
-      // The actual PDF generation happens in the client using jsPDF
-      res.json({
-        message: "Case data retrieved for PDF generation",
-        caseData: existingCase
-      });
+      const parseResult = transitionSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        const validationError = fromZodError(parseResult.error);
+        return res.status(400).json({ 
+          message: "Invalid status",
+          errors: validationError.details
+        });
+      }
+      
+      const from = toCaseStatus(existingCase.status);
+      const to = parseResult.data.status;
+      if (signOffStatuses.includes(to)) {
+        return res.status(400).json({ message: "Reports are issued by signing them off" });
+      }
+      if (!caseTransitions[from].includes(to)) {
+        return res.status(409).json({ 
+          message: `A case can't move from ${caseStatusLabels[from]} to ${caseStatusLabels[to]}`
+        });
+      }
+      
+      const blockers = transitionBlockers(existingCase, to);
+      if (blockers.length > 0) {
+        return res.status(409).json({ 
+          message: `The case can't move to ${caseStatusLabels[to]} yet`,
+          blockers
+        });
+      }
+      
+      const updatedCase = await storage.updateCase(caseId, { status: to }, existingCase.revision);
+      await recordAuditEvent(req, existingCase, updatedCase);
+      
+      res.setHeader("ETag", caseETag(updatedCase));
+      res.json(updatedCase);
+    } catch (error) {
+      if (error instanceof CaseRevisionConflictError) {
+        return sendRevisionConflict(res, error.caseId);
+      }
+      console.error("Error changing case status:", error);
+      res.status(500).json({ message: "Failed to change case status" });
+    }
+  });
+  
+  // Versions of the report issued for a case, newest first
+  app.get("/api/cases/:id/reports", async (req: Request, res: Response) => {
+    try {
+      const caseId = parseInt(req.params.id, 10);
+      
+      // Check if the case exists
+      const existingCase = await getAccessibleCase(caseId, req);
+      if (!existingCase) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+      
+      const versions = await storage.getReportVersions(caseId);
+      const users = await storage.getUsers();
+      const userNames = new Map(users.map(u => [u.id, u.fullName]));
+      
+      res.json(versions.map(version => ({
+        ...version,
+        issuedByName: userNames.get(version.issuedBy) ?? "Unknown user",
+      })));
+    } catch (error) {
+      console.error("Error fetching report versions:", error);
+      res.status(500).json({ message: "Failed to fetch report versions" });
+    }
+  });
+  
+  // Case snapshot for a single issued report version
+  app.get("/api/cases/:id/reports/:version", async (req: Request, res: Response) => {
+    try {
+      const caseId = parseInt(req.params.id, 10);
+      const versionNumber = parseInt(req.params.version, 10);
+      
+      // Check if the case exists
+      const existingCase = await getAccessibleCase(caseId, req);
+      if (!existingCase) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+      
+      const reportVersion = await storage.getReportVersion(caseId, versionNumber);
+      if (!reportVersion) {
+        return res.status(404).json({ message: "Report version not found" });
+      }
+      
+      const { pdfData, ...snapshot } = reportVersion;
+      res.json(snapshot);
+    } catch (error) {
+      console.error("Error fetching report version:", error);
+      res.status(500).json({ message: "Failed to fetch report version" });
+    }
+  });
+  
+  // PDF exactly as it was issued for a report version
+  app.get("/api/cases/:id/reports/:version/pdf", async (req: Request, res: Response) => {
+    try {
+      const caseId = parseInt(req.params.id, 10);
+      const versionNumber = parseInt(req.params.version, 10);
+      
+      // Check if the case exists
+      const existingCase = await getAccessibleCase(caseId, req);
+      if (!existingCase) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+      
+      const reportVersion = await storage.getReportVersion(caseId, versionNumber);
+      if (!reportVersion) {
+        return res.status(404).json({ message: "Report version not found" });
+      }
+      
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader(
+        "Content-Disposition",
+        `inline; filename="${existingCase.caseNumber}-v${reportVersion.version}.pdf"`,
+      );
+      res.send(Buffer.from(reportVersion.pdfData, "base64"));
+    } catch (error) {
+      console.error("Error fetching report PDF:", error);
+      res.status(500).json({ message: "Failed to fetch report PDF" });
+    }
+  });
+  
+  // Reassign a case to another doctor
+  app.put("/api/cases/:id/assign", requirePermission("cases:reassign"), async (req: Request, res: Response) => {
+    try {
+      const caseId = parseInt(req.params.id, 10);
+      
+      // Check if the case exists
+      const existingCase = await getAccessibleCase(caseId, req);
+      if (!existingCase) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+      
+      const parseResult = z.object({ userId: z.number().int() }).safeParse(req.body);
+      
+      if (!parseResult.success) {
+        const validationError = fromZodError(parseResult.error);
+        return res.status(400).json({ 
+          message: "Invalid assignment",
+          errors: validationError.details
+        });
+      }
+      
+      const assignee = await storage.getUser(parseResult.data.userId);
+      if (!assignee || assignee.role !== "doctor") {
+        return res.status(400).json({ message: "Cases can only be assigned to a doctor" });
+      }
+      
+      const updatedCase = await storage.assignCase(caseId, assignee.id);
+      await recordAuditEvent(req, existingCase, updatedCase);
+      
+      res.json(updatedCase);
+    } catch (error) {
+      console.error("Error reassigning case:", error);
+      res.status(500).json({ message: "Failed to reassign case" });
+    }
+  });
+  
+  // Doctors a new case can be assigned to, for anyone who creates cases
+  app.get("/api/doctors", requirePermission("cases:create"), async (req: Request, res: Response) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.filter(user => user.role === "doctor").map(toPublicUser));
+    } catch (error) {
+      console.error("Error fetching doctors:", error);
+      res.status(500).json({ message: "Failed to fetch doctors" });
+    }
+  });
+  
+  // User management routes
+  app.get("/api/users", requirePermission("users:manage"), async (req: Request, res: Response) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+  
+  app.post("/api/users", requirePermission("users:manage"), async (req: Request, res: Response) => {
+    try {
+      const parseResult = insertUserSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        const validationError = fromZodError(parseResult.error);
+        return res.status(400).json({ 
+          message: "Invalid user data",
+          errors: validationError.details
+        });
+      }
+      
+      const existingUser = await storage.getUserByUsername(parseResult.data.username);
+      if (existingUser) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+      
+      const user = await storage.createUser({
+        ...parseResult.data,
+        password: await hashPassword(parseResult.data.password),
+      });
+      
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      console.error("Error creating user:", error);
+      res.status(500).json({ message: "Failed to create user" });
+    }
+  });
+  
+  app.patch("/api/users/:id", requirePermission("users:manage"), async (req: Request, res: Response) => {
+    try {
+      const userId = parseInt(req.params.id, 10);
+      
+      const existingUser = await storage.getUser(userId);
+      if (!existingUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const parseResult = insertUserSchema.omit({ username: true }).partial().safeParse(req.body);
+      
+      if (!parseResult.success) {
+        const validationError = fromZodError(parseResult.error);
+        return res.status(400).json({ 
+          message: "Invalid user data",
+          errors: validationError.details
+        });
+      }
+      
+      // Admins cannot lock themselves out of user management
+      if (userId === req.user!.id && parseResult.data.role && parseResult.data.role !== "admin") {
+        return res.status(400).json({ message: "You cannot remove your own admin role" });
+      }
+      
+      const { password, ...userData } = parseResult.data;
+      const updatedUser = await storage.updateUser(userId, {
+        ...userData,
+        ...(password ? { password: await hashPassword(password) } : {}),
+      });
+      
+      res.json(toPublicUser(updatedUser));
+    } catch (error) {
+      console.error("Error updating user:", error);
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+  
+  // Expert profiles: the details, signature and letterhead printed on reports
+  app.use("/api/experts", requireAuth);
+  
+  app.get("/api/experts", async (req: Request, res: Response) => {
+    try {
+      const experts = await storage.getExperts();
+      res.json(experts.map(toPublicExpert));
+    } catch (error) {
+      console.error("Error fetching experts:", error);
+      res.status(500).json({ message: "Failed to fetch experts" });
+    }
+  });
+  
+  app.get("/api/experts/:id", async (req: Request, res: Response) => {
+    try {
+      const expert = await storage.getExpert(parseInt(req.params.id, 10));
+      if (!expert) {
+        return res.status(404).json({ message: "Expert not found" });
+      }
+      res.json(toPublicExpert(expert));
+    } catch (error) {
+      console.error("Error fetching expert:", error);
+      res.status(500).json({ message: "Failed to fetch expert" });
+    }
+  });
+  
+  app.post("/api/experts", requirePermission("experts:manage"), async (req: Request, res: Response) => {
+    try {
+      const parseResult = insertExpertSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        const validationError = fromZodError(parseResult.error);
+        return res.status(400).json({ 
+          message: "Invalid expert data",
+          errors: validationError.details
+        });
+      }
+      
+      if (parseResult.data.userId) {
+        const problem = await expertUserProblem(parseResult.data.userId);
+        if (problem) {
+          return res.status(400).json({ message: problem });
+        }
+      }
+      if (parseResult.data.defaultVenueId && !(await storage.getVenue(parseResult.data.defaultVenueId))) {
+        return res.status(400).json({ message: "Venue not found" });
+      }
+      
+      const expert = await storage.createExpert(parseResult.data);
+      res.status(201).json(toPublicExpert(expert));
+    } catch (error) {
+      console.error("Error creating expert:", error);
+      res.status(500).json({ message: "Failed to create expert" });
+    }
+  });
+  
+  app.put("/api/experts/:id", async (req: Request, res: Response) => {
+    try {
+      const expertId = parseInt(req.params.id, 10);
+      
+      const existingExpert = await storage.getExpert(expertId);
+      if (!existingExpert) {
+        return res.status(404).json({ message: "Expert not found" });
+      }
+      if (!canEditExpert(req, existingExpert)) {
+        return res.status(403).json({ message: "You do not have permission to perform this action" });
+      }
+      
+      const parseResult = insertExpertSchema.partial().safeParse(req.body);
+      
+      if (!parseResult.success) {
+        const validationError = fromZodError(parseResult.error);
+        return res.status(400).json({ 
+          message: "Invalid expert data",
+          errors: validationError.details
+        });
+      }
+      
+      // Only expert managers decide whose cases a profile signs
+      if (parseResult.data.userId !== undefined && parseResult.data.userId !== existingExpert.userId) {
+        if (!hasPermission(req.user!.role, "experts:manage")) {
+          return res.status(403).json({ message: "Only an administrator can change who an expert profile belongs to" });
+        }
+        if (parseResult.data.userId) {
+          const problem = await expertUserProblem(parseResult.data.userId, expertId);
+          if (problem) {
+            return res.status(400).json({ message: problem });
+          }
+        }
+      }
+      
+      if (parseResult.data.defaultVenueId && !(await storage.getVenue(parseResult.data.defaultVenueId))) {
+        return res.status(400).json({ message: "Venue not found" });
+      }
+      
+      const updatedExpert = await storage.updateExpert(expertId, parseResult.data);
+      res.json(toPublicExpert(updatedExpert));
+    } catch (error) {
+      console.error("Error updating expert:", error);
+      res.status(500).json({ message: "Failed to update expert" });
+    }
+  });
+  
+  // Cases that referenced the profile keep the details copied from it
+  app.delete("/api/experts/:id", requirePermission("experts:manage"), async (req: Request, res: Response) => {
+    try {
+      const expertId = parseInt(req.params.id, 10);
+      
+      const existingExpert = await storage.getExpert(expertId);
+      if (!existingExpert) {
+        return res.status(404).json({ message: "Expert not found" });
+      }
+      
+      await storage.deleteExpert(expertId);
+      for (const key of [existingExpert.signatureKey, existingExpert.letterheadKey]) {
+        if (key) {
+          await fileStorage.delete(key);
+        }
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting expert:", error);
+      res.status(500).json({ message: "Failed to delete expert" });
+    }
+  });
+  
+  // Signature or letterhead upload; the image is the raw request body
+  app.put(
+    "/api/experts/:id/:kind(signature|letterhead)",
+    express.raw({ type: () => true, limit: MAX_EXPERT_IMAGE_BYTES }),
+    async (req: Request, res: Response) => {
+      try {
+        const expertId = parseInt(req.params.id, 10);
+        const kind = expertImageKindSchema.parse(req.params.kind);
+        
+        const existingExpert = await storage.getExpert(expertId);
+        if (!existingExpert) {
+          return res.status(404).json({ message: "Expert not found" });
+        }
+        if (!canEditExpert(req, existingExpert)) {
+          return res.status(403).json({ message: "You do not have permission to perform this action" });
+        }
+        
+        const data: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+        const contentType = (req.headers["content-type"] || "").split(";")[0].trim().toLowerCase();
+        const extension = expertImageTypes[contentType];
+        
+        if (data.length === 0) {
+          return res.status(400).json({ message: "The uploaded image is empty" });
+        }
+        if (!extension) {
+          return res.status(415).json({ message: "Unsupported image type. Upload a JPEG or PNG image." });
+        }
+        if (!matchesFileSignature(contentType, data)) {
+          return res.status(415).json({ message: "File contents do not match its type" });
+        }
+        
+        const columns = expertImageColumns[kind];
+        const storageKey = newExpertImageKey(expertId, kind, extension);
+        await fileStorage.put(storageKey, data);
+        
+        const updatedExpert = await storage.updateExpert(expertId, {
+          [columns.key]: storageKey,
+          [columns.contentType]: contentType,
+        });
+        
+        // Replace, don't accumulate, old images
+        const previousKey = existingExpert[columns.key];
+        if (previousKey) {
+          await fileStorage.delete(previousKey);
+        }
+        
+        res.json(toPublicExpert(updatedExpert));
+      } catch (error) {
+        console.error("Error uploading expert image:", error);
+        res.status(500).json({ message: "Failed to upload image" });
+      }
+    },
+  );
+  
+  app.get("/api/experts/:id/:kind(signature|letterhead)", async (req: Request, res: Response) => {
+    try {
+      const kind = expertImageKindSchema.parse(req.params.kind);
+      const columns = expertImageColumns[kind];
+      
+      const expert = await storage.getExpert(parseInt(req.params.id, 10));
+      const storageKey = expert?.[columns.key];
+      const data = storageKey && await fileStorage.get(storageKey);
+      if (!expert || !data) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+      
+      res.setHeader("Content-Type", expert[columns.contentType] || "application/octet-stream");
+      res.setHeader("Content-Length", data.length);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.end(data);
+    } catch (error) {
+      console.error("Error downloading expert image:", error);
+      res.status(500).json({ message: "Failed to download image" });
+    }
+  });
+  
+  app.delete("/api/experts/:id/:kind(signature|letterhead)", async (req: Request, res: Response) => {
+    try {
+      const expertId = parseInt(req.params.id, 10);
+      const kind = expertImageKindSchema.parse(req.params.kind);
+      const columns = expertImageColumns[kind];
+      
+      const existingExpert = await storage.getExpert(expertId);
+      if (!existingExpert) {
+        return res.status(404).json({ message: "Expert not found" });
+      }
+      if (!canEditExpert(req, existingExpert)) {
+        return res.status(403).json({ message: "You do not have permission to perform this action" });
+      }
+      
+      const updatedExpert = await storage.updateExpert(expertId, {
+        [columns.key]: null,
+        [columns.contentType]: null,
+      });
+      const previousKey = existingExpert[columns.key];
+      if (previousKey) {
+        await fileStorage.delete(previousKey);
+      }
+      
+      res.json(toPublicExpert(updatedExpert));
+    } catch (error) {
+      console.error("Error deleting expert image:", error);
+      res.status(500).json({ message: "Failed to delete image" });
+    }
+  });
+  
+  // The expert's calendar feed URL, or null if they haven't got one
+  app.get("/api/experts/:id/calendar-feed", async (req: Request, res: Response) => {
+    try {
+      const expert = await storage.getExpert(parseInt(req.params.id, 10));
+      if (!expert) {
+        return res.status(404).json({ message: "Expert not found" });
+      }
+      if (!canEditExpert(req, expert)) {
+        return res.status(403).json({ message: "You do not have permission to perform this action" });
+      }
+      
+      res.json({ url: expert.calendarToken ? calendarFeedUrl(req, expert.calendarToken) : null });
+    } catch (error) {
+      console.error("Error fetching calendar feed:", error);
+      res.status(500).json({ message: "Failed to fetch calendar feed" });
+    }
+  });
+  
+  // Issues a new feed URL; calendars subscribed to the old one stop updating
+  app.post("/api/experts/:id/calendar-feed", async (req: Request, res: Response) => {
+    try {
+      const expertId = parseInt(req.params.id, 10);
+      
+      const expert = await storage.getExpert(expertId);
+      if (!expert) {
+        return res.status(404).json({ message: "Expert not found" });
+      }
+      if (!canEditExpert(req, expert)) {
+        return res.status(403).json({ message: "You do not have permission to perform this action" });
+      }
+      
+      const calendarToken = randomBytes(24).toString("hex");
+      await storage.updateExpert(expertId, { calendarToken });
+      res.json({ url: calendarFeedUrl(req, calendarToken) });
+    } catch (error) {
+      console.error("Error creating calendar feed:", error);
+      res.status(500).json({ message: "Failed to create calendar feed" });
+    }
+  });
+  
+  app.delete("/api/experts/:id/calendar-feed", async (req: Request, res: Response) => {
+    try {
+      const expertId = parseInt(req.params.id, 10);
+      
+      const expert = await storage.getExpert(expertId);
+      if (!expert) {
+        return res.status(404).json({ message: "Expert not found" });
+      }
+      if (!canEditExpert(req, expert)) {
+        return res.status(403).json({ message: "You do not have permission to perform this action" });
+      }
+      
+      await storage.updateExpert(expertId, { calendarToken: null });
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error revoking calendar feed:", error);
+      res.status(500).json({ message: "Failed to revoke calendar feed" });
+    }
+  });
+  
+  // Calendar apps can't log in, so the token in the URL is the only credential
+  app.get("/api/calendar/:token.ics", async (req: Request, res: Response) => {
+    try {
+      const expert = await storage.getExpertByCalendarToken(req.params.token);
+      if (!expert) {
+        return res.status(404).json({ message: "Calendar not found" });
+      }
+      
+      const events = await expertCalendarEvents(expert);
+      res.setHeader("Cache-Control", "no-cache");
+      sendCalendar(res, "examinations.ics", toICalendar(`Examinations - ${expert.name}`, events));
+    } catch (error) {
+      console.error("Error building calendar feed:", error);
+      res.status(500).json({ message: "Failed to build calendar feed" });
+    }
+  });
+  
+  // Examination venues; retired venues stay listed so old cases can show them
+  app.use("/api/venues", requireAuth);
+  
+  app.get("/api/venues", async (req: Request, res: Response) => {
+    try {
+      res.json(await storage.getVenues());
+    } catch (error) {
+      console.error("Error fetching venues:", error);
+      res.status(500).json({ message: "Failed to fetch venues" });
+    }
+  });
+  
+  app.post("/api/venues", requirePermission("venues:manage"), async (req: Request, res: Response) => {
+    try {
+      const parseResult = insertVenueSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        const validationError = fromZodError(parseResult.error);
+        return res.status(400).json({ 
+          message: "Invalid venue data",
+          errors: validationError.details
+        });
+      }
+      
+      const venue = await storage.createVenue(parseResult.data);
+      res.status(201).json(venue);
+    } catch (error) {
+      console.error("Error creating venue:", error);
+      res.status(500).json({ message: "Failed to create venue" });
+    }
+  });
+  
+  app.put("/api/venues/:id", requirePermission("venues:manage"), async (req: Request, res: Response) => {
+    try {
+      const venueId = parseInt(req.params.id, 10);
+      
+      const existingVenue = await storage.getVenue(venueId);
+      if (!existingVenue) {
+        return res.status(404).json({ message: "Venue not found" });
+      }
+      
+      const parseResult = insertVenueSchema.partial().safeParse(req.body);
+      
+      if (!parseResult.success) {
+        const validationError = fromZodError(parseResult.error);
+        return res.status(400).json({ 
+          message: "Invalid venue data",
+          errors: validationError.details
+        });
+      }
+      
+      const updatedVenue = await storage.updateVenue(venueId, parseResult.data);
+      res.json(updatedVenue);
+    } catch (error) {
+      console.error("Error updating venue:", error);
+      res.status(500).json({ message: "Failed to update venue" });
+    }
+  });
+  
+  // Examination appointments; the case routes below cover booking
+  app.use("/api/appointments", requireAuth);
+  
+  // Daily clinic list, optionally for one venue
+  app.get("/api/appointments", async (req: Request, res: Response) => {
+    try {
+      const parseResult = clinicListQuerySchema.safeParse(req.query);
+      
+      if (!parseResult.success) {
+        const validationError = fromZodError(parseResult.error);
+        return res.status(400).json({ 
+          message: "Invalid clinic list range",
+          errors: validationError.details
+        });
+      }
+      
+      let appointments = await storage.getAppointments(parseResult.data);
+      
+      // Doctors only see clinics for their own cases
+      if (!hasPermission(req.user!.role, "cases:view-all")) {
+        const ownCaseIds = new Set((await storage.getCases(req.user!.id)).map(c => c.id));
+        appointments = appointments.filter(appointment => ownCaseIds.has(appointment.caseId));
+      }
+      
+      res.json(await withAppointmentDetails(appointments));
+    } catch (error) {
+      console.error("Error fetching clinic list:", error);
+      res.status(500).json({ message: "Failed to fetch clinic list" });
+    }
+  });
+  
+  app.get("/api/cases/:id/appointments", async (req: Request, res: Response) => {
+    try {
+      const caseId = parseInt(req.params.id, 10);
+      
+      const caseData = await getAccessibleCase(caseId, req);
+      if (!caseData) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+      
+      const appointments = await storage.getAppointments({ caseId });
+      res.json(await withAppointmentDetails(appointments));
+    } catch (error) {
+      console.error("Error fetching appointments:", error);
+      res.status(500).json({ message: "Failed to fetch appointments" });
+    }
+  });
+  
+  app.post("/api/cases/:id/appointments", async (req: Request, res: Response) => {
+    try {
+      const caseId = parseInt(req.params.id, 10);
+      
+      const caseData = await getAccessibleCase(caseId, req);
+      if (!caseData) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+      
+      const parseResult = insertAppointmentSchema.safeParse({ ...req.body, caseId });
+      
+      if (!parseResult.success) {
+        const validationError = fromZodError(parseResult.error);
+        return res.status(400).json({ 
+          message: "Invalid appointment",
+          errors: validationError.details
+        });
+      }
+      
+      const expert = await storage.getExpert(parseResult.data.expertId);
+      if (!expert) {
+        return res.status(400).json({ message: "Expert profile not found" });
+      }
+      const venue = await storage.getVenue(parseResult.data.venueId);
+      if (!venue) {
+        return res.status(400).json({ message: "Venue not found" });
+      }
+      if (!venue.active) {
+        return res.status(400).json({ message: `${venue.name} is no longer in use` });
+      }
+      
+      const appointment = await storage.bookAppointment(parseResult.data, req.user!.id);
+      const [created] = await withAppointmentDetails([appointment]);
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof AppointmentClashError) {
+        const clashes = await withAppointmentDetails(error.clashes);
+        const messages = clashes.map(clash => describeClash(clash, parseInt(req.params.id, 10)));
+        // Only the message: the clashing cases may belong to other doctors
+        return res.status(409).json({ message: messages.join("; ") });
+      }
+      console.error("Error booking appointment:", error);
+      res.status(500).json({ message: "Failed to book appointment" });
+    }
+  });
+  
+  // Records how a booked appointment ended; attending fills in the case's
+  // date and place of examination
+  app.post("/api/appointments/:id/outcome", async (req: Request, res: Response) => {
+    try {
+      const appointmentId = parseInt(req.params.id, 10);
+      
+      const appointment = await storage.getAppointment(appointmentId);
+      const caseData = appointment && await getAccessibleCase(appointment.caseId, req);
+      if (!appointment || !caseData) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      
+      const parseResult = appointmentOutcomeSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        const validationError = fromZodError(parseResult.error);
+        return res.status(400).json({ 
+          message: "Invalid appointment outcome",
+          errors: validationError.details
+        });
+      }
+      
+      const closed = await storage.closeAppointment(appointmentId, parseResult.data.status);
+      if (!closed) {
+        return res.status(409).json({ message: "This appointment has already been closed" });
+      }
+      
+      if (closed.status === "attended") {
+        const venue = await storage.getVenue(closed.venueId);
+        if (venue) {
+          const updatedCase = await storage.updateCase(caseData.id, {
+            claimantDetails: attendedClaimantDetails(caseData, closed, venue),
+          });
+          await recordAuditEvent(req, caseData, updatedCase);
+        }
+      }
+      
+      const [updated] = await withAppointmentDetails([closed]);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error closing appointment:", error);
+      res.status(500).json({ message: "Failed to update appointment" });
+    }
+  });
+  
+  app.get("/api/appointments/:id/calendar.ics", async (req: Request, res: Response) => {
+    try {
+      const appointment = await storage.getAppointment(parseInt(req.params.id, 10));
+      const caseData = appointment && await getAccessibleCase(appointment.caseId, req);
+      if (!appointment || !caseData) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      
+      const event = await appointmentEvent(appointment, caseData);
+      sendCalendar(res, `${caseData.caseNumber}.ics`, toICalendar(caseData.caseNumber, [event]));
+    } catch (error) {
+      console.error("Error building appointment calendar:", error);
+      res.status(500).json({ message: "Failed to build calendar" });
+    }
+  });
+  
+  // The examination recorded on the case, for cases seen without a booking
+  app.get("/api/cases/:id/examination.ics", async (req: Request, res: Response) => {
+    try {
+      const caseId = parseInt(req.params.id, 10);
+      
+      const caseData = await getAccessibleCase(caseId, req);
+      if (!caseData) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+      
+      const event = await caseExaminationEvent(caseData);
+      if (!event) {
+        return res.status(404).json({ message: "No examination date and time recorded for this case" });
+      }
+      
+      sendCalendar(res, `${caseData.caseNumber}.ics`, toICalendar(caseData.caseNumber, [event]));
+    } catch (error) {
+      console.error("Error building examination calendar:", error);
+      res.status(500).json({ message: "Failed to build calendar" });
+    }
+  });
+  
+  // Audit trail for a case, newest first
+  app.get("/api/cases/:id/audit", async (req: Request, res: Response) => {
+    try {
+      const caseId = parseInt(req.params.id, 10);
+      
+      // Check if the case exists
+      const existingCase = await getAccessibleCase(caseId, req);
+      if (!existingCase) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+      
+      const events = await storage.getAuditEvents(caseId);
+      const users = await storage.getUsers();
+      const userNames = new Map(users.map(u => [u.id, u.fullName]));
+      
+      res.json(events.map(event => ({
+        ...event,
+        userFullName: userNames.get(event.userId) ?? "Unknown user",
+      })));
+    } catch (error) {
+      console.error("Error fetching audit events:", error);
+      res.status(500).json({ message: "Failed to fetch audit events" });
+    }
+  });
+  
+  // Calculate and update completion percentage
+  app.post("/api/cases/:id/calculate-completion", async (req: Request, res: Response) => {
+    try {
+      const caseId = parseInt(req.params.id, 10);
+      
+      // Check if the case exists
+      const existingCase = await getAccessibleCase(caseId, req);
+      if (!existingCase) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+      
+      const completionPercentage = caseCompletion(existingCase);
+      
+      // Nothing to write, so the revision stays where the client has it
+      if (completionPercentage === existingCase.completionPercentage) {
+        res.setHeader("ETag", caseETag(existingCase));
+        return res.json({ completionPercentage, revision: existingCase.revision });
+      }
+      
+      // Update the case
+      const updatedCase = await storage.updateCase(caseId, {
+        completionPercentage,
+      });
+      await recordAuditEvent(req, existingCase, updatedCase);
+      
+      // The revision moves on, so the client needs it for its next section save
+      res.setHeader("ETag", caseETag(updatedCase));
+      res.json({ completionPercentage, revision: updatedCase.revision });
+    } catch (error) {
+      console.error("Error calculating completion:", error);
+      res.status(500).json({ message: "Failed to calculate completion percentage" });
+    }
+  });
+  
+  // Case attachments
+  app.get("/api/cases/:id/documents", async (req: Request, res: Response) => {
+    try {
+      const caseId = parseInt(req.params.id, 10);
+      
+      // Check if the case exists
+      const existingCase = await getAccessibleCase(caseId, req);
+      if (!existingCase) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+      
+      const caseDocuments = await storage.getCaseDocuments(caseId);
+      const uploaderNames = new Map((await storage.getUsers()).map(user => [user.id, user.fullName]));
+      
+      res.json(caseDocuments.map(({ storageKey, ...caseDocument }) => ({
+        ...caseDocument,
+        uploadedByName: uploaderNames.get(caseDocument.uploadedBy) ?? "Unknown user",
+      })));
+    } catch (error) {
+      console.error("Error fetching case documents:", error);
+      res.status(500).json({ message: "Failed to fetch case documents" });
+    }
+  });
+  
+  // The file is the raw request body; its name and category come in the query string
+  app.post(
+    "/api/cases/:id/documents",
+    express.raw({ type: () => true, limit: MAX_ATTACHMENT_BYTES }),
+    async (req: Request, res: Response) => {
+      try {
+        const caseId = parseInt(req.params.id, 10);
+        
+        // Check if the case exists
+        const existingCase = await getAccessibleCase(caseId, req);
+        if (!existingCase) {
+          return res.status(404).json({ message: "Case not found" });
+        }
+        
+        const parseResult = uploadQuerySchema.safeParse(req.query);
+        if (!parseResult.success) {
+          const validationError = fromZodError(parseResult.error);
+          return res.status(400).json({ 
+            message: "Invalid document upload",
+            errors: validationError.details
+          });
+        }
+        
+        const data: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+        const contentType = (req.headers["content-type"] || "").split(";")[0].trim().toLowerCase();
+        const extension = path.extname(parseResult.data.fileName).toLowerCase();
+        
+        if (data.length === 0) {
+          return res.status(400).json({ message: "The uploaded file is empty" });
+        }
+        if (!attachmentTypes[contentType]?.includes(extension)) {
+          return res.status(415).json({ 
+            message: "Unsupported file type. Upload a PDF, image or Word document." 
+          });
+        }
+        if (!matchesFileSignature(contentType, data)) {
+          return res.status(415).json({ message: "File contents do not match its type" });
+        }
+        
+        const storageKey = newStorageKey(caseId, extension);
+        await fileStorage.put(storageKey, data);
+        
+        const caseDocument = await storage.createCaseDocument({
+          caseId,
+          fileName: parseResult.data.fileName,
+          contentType,
+          size: data.length,
+          category: parseResult.data.category,
+          storageKey,
+          uploadedBy: req.user!.id,
+        });
+        
+        const { storageKey: _, ...created } = caseDocument;
+        res.status(201).json({ ...created, uploadedByName: req.user!.fullName });
+      } catch (error) {
+        console.error("Error uploading case document:", error);
+        res.status(500).json({ message: "Failed to upload document" });
+      }
+    },
+  );
+  
+  app.get("/api/cases/:id/documents/:documentId", async (req: Request, res: Response) => {
+    try {
+      const caseId = parseInt(req.params.id, 10);
+      const documentId = parseInt(req.params.documentId, 10);
+      
+      // Check if the case exists
+      const existingCase = await getAccessibleCase(caseId, req);
+      if (!existingCase) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+      
+      const caseDocument = await storage.getCaseDocument(caseId, documentId);
+      const data = caseDocument && await fileStorage.get(caseDocument.storageKey);
+      if (!caseDocument || !data) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      // ?download=1 asks the browser to save rather than display the file
+      const disposition = req.query.download ? "attachment" : "inline";
+      res.setHeader("Content-Type", caseDocument.contentType);
+      res.setHeader("Content-Length", data.length);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader(
+        "Content-Disposition",
+        `${disposition}; filename*=UTF-8''${encodeURIComponent(caseDocument.fileName)}`,
+      );
+      res.end(data);
+    } catch (error) {
+      console.error("Error downloading case document:", error);
+      res.status(500).json({ message: "Failed to download document" });
+    }
+  });
+  
+  app.delete("/api/cases/:id/documents/:documentId", async (req: Request, res: Response) => {
+    try {
+      const caseId = parseInt(req.params.id, 10);
+      const documentId = parseInt(req.params.documentId, 10);
+      
+      // Check if the case exists
+      const existingCase = await getAccessibleCase(caseId, req);
+      if (!existingCase) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+      
+      const caseDocument = await storage.getCaseDocument(caseId, documentId);
+      if (!caseDocument) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      // Whoever uploaded a file can remove it; otherwise it takes delete rights
+      if (caseDocument.uploadedBy !== req.user!.id && !hasPermission(req.user!.role, "cases:delete")) {
+        return res.status(403).json({ message: "You do not have permission to delete this document" });
+      }
+      
+      await storage.deleteCaseDocument(caseId, documentId);
+      await fileStorage.delete(caseDocument.storageKey);
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting case document:", error);
+      res.status(500).json({ message: "Failed to delete document" });
+    }
+  });
+  
+  // Documentation gaps found by the suggestion rules, for the editor and other tools
+  app.get("/api/cases/:id/suggestions", async (req: Request, res: Response) => {
+    try {
+      const caseId = parseInt(req.params.id, 10);
+      
+      // Check if the case exists
+      const existingCase = await getAccessibleCase(caseId, req);
+      if (!existingCase) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+      
+      res.json(analyzeCaseCompleteness(existingCase));
+    } catch (error) {
+      console.error("Error fetching suggestions:", error);
+      res.status(500).json({ message: "Failed to fetch suggestions" });
+    }
+  });
+  
+  // Expert profile and images for reports drawn in the browser
+  app.get("/api/cases/:id/report-assets", async (req: Request, res: Response) => {
+    try {
+      const caseId = parseInt(req.params.id, 10);
+      
+      // Check if the case exists
+      const existingCase = await getAccessibleCase(caseId, req);
+      if (!existingCase) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+      
+      res.json(toBrowserReportAssets(await loadReportAssets(existingCase)));
+    } catch (error) {
+      console.error("Error loading report assets:", error);
+      res.status(500).json({ message: "Failed to load report assets" });
+    }
+  });
+  
+  app.get("/api/cases/:id/pdf", async (req: Request, res: Response) => {
+    try {
+      const caseId = parseInt(req.params.id, 10);
+      
+      // Check if the case exists
+      const existingCase = await getAccessibleCase(caseId, req);
+      if (!existingCase) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+      
+      // ?template=plain etc. picks one of the shared report templates
+      const templateResult = z.enum(reportTemplateIds).optional().safeParse(req.query.template);
+      if (!templateResult.success) {
+        const validationError = fromZodError(templateResult.error);
+        return res.status(400).json({ 
+          message: "Unknown report template",
+          errors: validationError.details
+        });
+      }
+      
+      // ?final=1 is for a copy to send out, which mustn't have critical gaps
+      // or be missing the signature
+      let assets: ReportAssets | undefined;
+      if (req.query.final) {
+        const critical = analyzeCaseCompleteness(existingCase).filter(s => s.severity === "critical");
+        if (critical.length > 0) {
+          return res.status(409).json({ 
+            message: "The report has critical problems that must be fixed first",
+            suggestions: critical
+          });
+        }
+        assets = await loadReportAssets(existingCase);
+        if (!assets.signatureImage) {
+          return res.status(409).json({ 
+            message: "The report can't be sent out until the assigned expert has a signature on file"
+          });
+        }
+      }
+      
+      const pdf = await renderCasePdf(existingCase, { template: templateResult.data }, assets);
+      
+      // ?download=1 asks the browser to save rather than display the report
+      const disposition = req.query.download ? "attachment" : "inline";
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Length", pdf.length);
+      res.setHeader("Content-Disposition", `${disposition}; filename="${existingCase.caseNumber}.pdf"`);
+      res.end(pdf);
+    } catch (error) {
+      console.error("Error generating PDF:", error);
+      res.status(500).json({ message: "Failed to generate PDF" });
+    }
+  });
+
+  // Word export of the same report, for solicitors who need an editable copy
+  app.get("/api/cases/:id/docx", async (req: Request, res: Response) => {
+    try {
+      const caseId = parseInt(req.params.id, 10);
+      
+      // Check if the case exists
+      const existingCase = await getAccessibleCase(caseId, req);
+      if (!existingCase) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+      
+      const templateResult = z.enum(reportTemplateIds).optional().safeParse(req.query.template);
+      if (!templateResult.success) {
+        const validationError = fromZodError(templateResult.error);
+        return res.status(400).json({ 
+          message: "Unknown report template",
+          errors: validationError.details
+        });
+      }
+      
+      const docx = await renderCaseDocx(existingCase, { template: templateResult.data });
+      
+      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.wordprocessingml.document");
+      res.setHeader("Content-Length", docx.length);
+      res.setHeader("Content-Disposition", `attachment; filename="${existingCase.caseNumber}.docx"`);
+      res.end(docx);
+    } catch (error) {
+      console.error("Error generating DOCX:", error);
+      res.status(500).json({ message: "Failed to generate Word document" });
+    }
+  });
+
+  // JSON bundle of the whole case, for backup or moving it to another instance
+  app.get("/api/cases/:id/export", async (req: Request, res: Response) => {
+    try {
+      const caseId = parseInt(req.params.id, 10);
+      
+      // Check if the case exists
+      const existingCase = await getAccessibleCase(caseId, req);
+      if (!existingCase) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+      
+      const bundle = createCaseBundle(existingCase, await storage.getCaseDocuments(caseId));
+      
+      res.setHeader("Content-Disposition", `attachment; filename="${existingCase.caseNumber}.json"`);
+      res.json(bundle);
     } catch (error) {
-      console.error("Error retrieving case data for PDF:", error);
-      res.status(500).json({ message: "Failed to retrieve case data for PDF generation" });
+      console.error("Error exporting case:", error);
+      res.status(500).json({ message: "Failed to export case" });
     }
   });
 
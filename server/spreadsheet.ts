@@ -0,0 +1,97 @@
+import ExcelJS from "exceljs";
+
+// Spreadsheet formats accepted for case import. Browsers disagree on the MIME
+// type of a CSV file, so the format is taken from the file name.
+export const spreadsheetExtensions = [".csv", ".xlsx"];
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells containing commas,
+ * newlines and doubled quotes, as written by Excel.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  // Excel prefixes UTF-8 CSV files with a byte order mark
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Date cells come back as JS dates at midnight UTC; keep only the date part
+const cellText = (cell: ExcelJS.Cell): string => {
+  const value = cell.type === ExcelJS.ValueType.Formula ? cell.result : cell.value;
+  if (value instanceof Date) return value.toISOString().split("T")[0];
+  return cell.text ?? "";
+};
+
+// Reads the first worksheet of an .xlsx workbook as rows of cell text
+async function parseXlsx(data: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data);
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return [];
+
+  const rows: string[][] = [];
+  worksheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    const cells: string[] = [];
+    for (let column = 1; column <= worksheet.columnCount; column++) {
+      cells.push(cellText(row.getCell(column)));
+    }
+    rows[rowNumber - 1] = cells;
+  });
+  return Array.from(rows, row => row ?? []);
+}
+
+// An .xlsx workbook is a zip archive
+const isZip = (data: Buffer) =>
+  data.length >= 4 && data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04;
+
+/**
+ * Reads a CSV file or the first sheet of a workbook as rows of cell text.
+ * Returns undefined when the contents don't match the extension.
+ */
+export async function readSpreadsheet(data: Buffer, extension: string): Promise<string[][] | undefined> {
+  if (extension === ".xlsx") {
+    if (!isZip(data)) return undefined;
+    try {
+      return await parseXlsx(data);
+    } catch {
+      return undefined;
+    }
+  }
+  // Binary files renamed to .csv
+  if (data.includes(0)) return undefined;
+  return parseCsv(data.toString("utf8"));
+}
@@ -0,0 +1,379 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Case } from "@shared/schema";
+import {
+  AppointmentClashError,
+  CaseRevisionConflictError,
+  DatabaseStorage,
+  MemStorage,
+  type IStorage,
+} from "./storage";
+import { getDatabase } from "./db";
+
+// Behaviour both storage drivers must share. Each run makes its own users,
+// experts and venues, so it can run against a database that already has data.
+function storageContract(createStorage: () => IStorage) {
+  let storage: IStorage;
+  let run: string;
+  let doctorId: number;
+
+  const newCase = async (overrides: Partial<Parameters<IStorage["createCase"]>[0]> = {}): Promise<Case> =>
+    storage.createCase({
+      caseNumber: await storage.generateCaseNumber(),
+      userId: doctorId,
+      ...overrides,
+    });
+
+  const newExpert = (name: string) =>
+    storage.createExpert({ name: `${name} ${run}`, qualifications: "MBChB", gmcNumber: "1234567" });
+
+  const newVenue = (name: string) =>
+    storage.createVenue({ name: `${name} ${run}`, address: "1 High Street", type: "face_to_face" });
+
+  before(async () => {
+    storage = createStorage();
+    run = `${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+    const doctor = await storage.createUser({
+      username: `doctor-${run}`,
+      password: "hashed",
+      fullName: "Dr Contract",
+      role: "doctor",
+    });
+    doctorId = doctor.id;
+  });
+
+  describe("users", () => {
+    it("finds a user by id and username, and updates them", async () => {
+      const user = await storage.createUser({
+        username: `secretary-${run}`,
+        password: "hashed",
+        fullName: "Contract Secretary",
+        role: "secretary",
+      });
+
+      assert.equal((await storage.getUser(user.id))?.username, user.username);
+      assert.equal((await storage.getUserByUsername(user.username))?.id, user.id);
+      assert.equal(await storage.getUserByUsername(`missing-${run}`), undefined);
+
+      const updated = await storage.updateUser(user.id, { fullName: "Renamed Secretary" });
+      assert.equal(updated.fullName, "Renamed Secretary");
+      assert.equal(updated.role, "secretary");
+      assert.ok((await storage.getUsers()).some(u => u.id === user.id));
+    });
+  });
+
+  describe("cases", () => {
+    it("creates a draft case at revision 1", async () => {
+      const created = await newCase();
+
+      assert.equal(created.status, "draft");
+      assert.equal(created.revision, 1);
+      assert.equal(created.completionPercentage, 0);
+      assert.equal(created.claimantDetails, null);
+      assert.equal((await storage.getCase(created.id))?.caseNumber, created.caseNumber);
+      assert.equal((await storage.getCaseByNumber(created.caseNumber))?.id, created.id);
+    });
+
+    it("refuses a case number that is already taken", async () => {
+      const existing = await newCase();
+
+      await assert.rejects(
+        storage.createCase({ caseNumber: existing.caseNumber, userId: doctorId }),
+        (error: { code?: string }) => error.code === "23505",
+      );
+    });
+
+    it("never hands out the same case number twice", async () => {
+      const numbers = await Promise.all(Array.from({ length: 5 }, () => storage.generateCaseNumber()));
+      assert.equal(new Set(numbers).size, numbers.length);
+    });
+
+    it("bumps the revision on every update", async () => {
+      const created = await newCase();
+
+      const updated = await storage.updateCase(created.id, { claimantDetails: { fullName: "A Claimant" } });
+      assert.equal(updated.revision, 2);
+      assert.deepEqual(updated.claimantDetails, { fullName: "A Claimant" });
+
+      const assigned = await storage.assignCase(created.id, doctorId);
+      assert.equal(assigned.revision, 3);
+    });
+
+    it("refuses an update made against an old revision", async () => {
+      const created = await newCase();
+      await storage.updateCase(created.id, { completionPercentage: 10 }, 1);
+
+      await assert.rejects(
+        storage.updateCase(created.id, { completionPercentage: 20 }, 1),
+        CaseRevisionConflictError,
+      );
+      assert.equal((await storage.getCase(created.id))?.completionPercentage, 10);
+    });
+
+    it("lists a user's cases and deletes them", async () => {
+      const created = await newCase();
+
+      assert.ok((await storage.getCases(doctorId)).some(c => c.id === created.id));
+      assert.ok(!(await storage.getCases(doctorId + 100_000)).some(c => c.id === created.id));
+
+      assert.equal(await storage.deleteCase(created.id), true);
+      assert.equal(await storage.getCase(created.id), undefined);
+      assert.equal(await storage.deleteCase(created.id), false);
+    });
+  });
+
+  describe("audit events and report versions", () => {
+    it("lists a case's audit events newest first", async () => {
+      const created = await newCase();
+      const route = "PUT /api/cases/:id/claimant-details";
+      const first = await storage.createAuditEvent({ caseId: created.id, userId: doctorId, route, changes: [] });
+      const second = await storage.createAuditEvent({ caseId: created.id, userId: doctorId, route, changes: [] });
+
+      assert.deepEqual((await storage.getAuditEvents(created.id)).map(e => e.id), [second.id, first.id]);
+    });
+
+    it("numbers report versions per case and keeps their snapshots", async () => {
+      const created = await newCase();
+      const first = await storage.createReportVersion({ caseId: created.id, issuedBy: doctorId, snapshot: { a: 1 }, pdfData: "JVBERi0x" });
+      const second = await storage.createReportVersion({ caseId: created.id, issuedBy: doctorId, snapshot: { a: 2 }, pdfData: "JVBERi0y" });
+
+      assert.equal(first.version, 1);
+      assert.equal(second.version, 2);
+
+      const listed = await storage.getReportVersions(created.id);
+      assert.deepEqual(listed.map(r => r.version), [2, 1]);
+      assert.ok(!("pdfData" in listed[0]));
+
+      const fetched = await storage.getReportVersion(created.id, 1);
+      assert.deepEqual(fetched?.snapshot, { a: 1 });
+      assert.equal(fetched?.pdfData, "JVBERi0x");
+      assert.equal(await storage.getReportVersion(created.id, 3), undefined);
+    });
+
+    it("issues a report with the case update, or neither on a stale revision", async () => {
+      const created = await newCase();
+      const issued = await storage.issueReport(created.id, { status: "issued" }, 1, { issuedBy: doctorId, pdfData: "JVBERi0x" });
+
+      assert.equal(issued.case.status, "issued");
+      assert.equal(issued.case.revision, 2);
+      assert.equal(issued.reportVersion.version, 1);
+      assert.equal((issued.reportVersion.snapshot as { revision: number }).revision, 2);
+
+      await assert.rejects(
+        storage.issueReport(created.id, { status: "amended" }, 1, { issuedBy: doctorId, pdfData: "JVBERi0y" }),
+        CaseRevisionConflictError,
+      );
+      assert.equal((await storage.getCase(created.id))?.status, "issued");
+      assert.deepEqual((await storage.getReportVersions(created.id)).map(r => r.version), [1]);
+    });
+  });
+
+  describe("case documents", () => {
+    it("only finds or deletes a document through its own case", async () => {
+      const created = await newCase();
+      const other = await newCase();
+      const document = await storage.createCaseDocument({
+        caseId: created.id,
+        fileName: "gp-records.pdf",
+        contentType: "application/pdf",
+        size: 1024,
+        storageKey: `cases/${created.id}/${run}-gp-records.pdf`,
+        uploadedBy: doctorId,
+      });
+
+      assert.equal(document.category, "Other");
+      assert.deepEqual((await storage.getCaseDocuments(created.id)).map(d => d.id), [document.id]);
+      assert.equal(await storage.getCaseDocument(other.id, document.id), undefined);
+      assert.equal(await storage.deleteCaseDocument(other.id, document.id), false);
+
+      assert.equal(await storage.deleteCaseDocument(created.id, document.id), true);
+      assert.deepEqual(await storage.getCaseDocuments(created.id), []);
+    });
+  });
+
+  describe("experts and venues", () => {
+    it("finds an expert by user and calendar token", async () => {
+      const expert = await storage.createExpert({
+        userId: doctorId,
+        name: `Dr Contract ${run}`,
+        qualifications: "MBChB",
+        gmcNumber: "7654321",
+      });
+
+      assert.equal(expert.calendarToken, null);
+      assert.equal((await storage.getExpertByUserId(doctorId))?.id, expert.id);
+
+      const token = `token-${run}`;
+      await storage.updateExpert(expert.id, { calendarToken: token });
+      assert.equal((await storage.getExpertByCalendarToken(token))?.id, expert.id);
+      assert.equal(await storage.getExpertByCalendarToken(`missing-${run}`), undefined);
+
+      assert.equal(await storage.deleteExpert(expert.id), true);
+      assert.equal(await storage.getExpert(expert.id), undefined);
+    });
+
+    it("creates venues active and retires them", async () => {
+      const venue = await newVenue("Contract Clinic");
+      assert.equal(venue.active, true);
+
+      const retired = await storage.updateVenue(venue.id, { active: false });
+      assert.equal(retired.active, false);
+      assert.equal((await storage.getVenue(venue.id))?.active, false);
+    });
+  });
+
+  describe("appointments", () => {
+    const at = (time: string) => new Date(`2030-03-04T${time}:00Z`);
+
+    it("books an appointment and filters by case, expert, venue and time", async () => {
+      const created = await newCase();
+      const expert = await newExpert("Dr Filter");
+      const venue = await newVenue("Filter Clinic");
+
+      const booked = await storage.bookAppointment(
+        { caseId: created.id, expertId: expert.id, venueId: venue.id, startsAt: at("09:00") },
+        doctorId,
+      );
+      assert.equal(booked.status, "booked");
+      assert.equal(booked.durationMinutes, 30);
+      assert.equal(booked.bookedBy, doctorId);
+
+      const ids = async (filter: Parameters<IStorage["getAppointments"]>[0]) =>
+        (await storage.getAppointments(filter)).map(a => a.id);
+      assert.deepEqual(await ids({ caseId: created.id }), [booked.id]);
+      assert.deepEqual(await ids({ expertId: expert.id }), [booked.id]);
+      assert.deepEqual(await ids({ venueId: venue.id, from: at("09:00"), to: at("09:30") }), [booked.id]);
+      assert.deepEqual(await ids({ venueId: venue.id, from: at("09:01") }), []);
+      assert.deepEqual(await ids({ venueId: venue.id, to: at("09:00") }), []);
+    });
+
+    it("refuses to double-book the expert or the case", async () => {
+      const first = await newCase();
+      const second = await newCase();
+      const expert = await newExpert("Dr Busy");
+      const otherExpert = await newExpert("Dr Free");
+      const venue = await newVenue("Busy Clinic");
+
+      const booked = await storage.bookAppointment(
+        { caseId: first.id, expertId: expert.id, venueId: venue.id, startsAt: at("10:00"), durationMinutes: 60 },
+        doctorId,
+      );
+
+      await assert.rejects(
+        storage.bookAppointment({ caseId: second.id, expertId: expert.id, venueId: venue.id, startsAt: at("10:30") }, doctorId),
+        (error: unknown) => error instanceof AppointmentClashError && error.clashes[0].id === booked.id,
+      );
+      await assert.rejects(
+        storage.bookAppointment({ caseId: first.id, expertId: otherExpert.id, venueId: venue.id, startsAt: at("14:00") }, doctorId),
+        AppointmentClashError,
+      );
+
+      // Back to back is not a clash
+      await storage.bookAppointment({ caseId: second.id, expertId: expert.id, venueId: venue.id, startsAt: at("11:00") }, doctorId);
+    });
+
+    it("closes a booked appointment once and frees its slot when cancelled", async () => {
+      const first = await newCase();
+      const second = await newCase();
+      const expert = await newExpert("Dr Cancelled");
+      const venue = await newVenue("Cancelled Clinic");
+
+      const booked = await storage.bookAppointment(
+        { caseId: first.id, expertId: expert.id, venueId: venue.id, startsAt: at("15:00") },
+        doctorId,
+      );
+
+      assert.equal((await storage.closeAppointment(booked.id, "cancelled"))?.status, "cancelled");
+      assert.equal(await storage.closeAppointment(booked.id, "attended"), undefined);
+      assert.equal((await storage.getAppointment(booked.id))?.status, "cancelled");
+
+      await storage.bookAppointment({ caseId: second.id, expertId: expert.id, venueId: venue.id, startsAt: at("15:00") }, doctorId);
+    });
+
+    it("deletes a case's appointments with the case", async () => {
+      const first = await newCase();
+      const second = await newCase();
+      const expert = await newExpert("Dr Deleted");
+      const venue = await newVenue("Deleted Clinic");
+
+      const booked = await storage.bookAppointment(
+        { caseId: first.id, expertId: expert.id, venueId: venue.id, startsAt: at("16:00") },
+        doctorId,
+      );
+      await storage.deleteCase(first.id);
+
+      assert.equal(await storage.getAppointment(booked.id), undefined);
+      assert.deepEqual(await storage.getAppointments({ caseId: first.id }), []);
+      await storage.bookAppointment({ caseId: second.id, expertId: expert.id, venueId: venue.id, startsAt: at("16:00") }, doctorId);
+    });
+
+    it("finds the appointments and examined cases on an expert's schedule", async () => {
+      const doctor = await storage.createUser({
+        username: `scheduled-${run}`,
+        password: "hashed",
+        fullName: "Dr Scheduled",
+        role: "doctor",
+      });
+      const expert = await storage.createExpert({
+        userId: doctor.id,
+        name: `Dr Scheduled ${run}`,
+        qualifications: "MBChB",
+        gmcNumber: "1234567",
+      });
+      const otherExpert = await newExpert("Dr Other");
+      const deletedExpert = await newExpert("Dr Deleted Profile");
+      await storage.deleteExpert(deletedExpert.id);
+      const venue = await newVenue("Schedule Clinic");
+
+      const examined = (dateOfExamination: string) => ({ claimantDetails: { fullName: "A Claimant", dateOfExamination } });
+      const assigned = await newCase({ userId: doctor.id, ...examined("2030-03-01") });
+      const selected = await newCase({ ...examined("2030-03-01"), expertDetails: { expertId: expert.id } });
+      const selectedOther = await newCase({ userId: doctor.id, ...examined("2030-03-01"), expertDetails: { expertId: otherExpert.id } });
+      const selectedDeleted = await newCase({ userId: doctor.id, ...examined("2030-03-01"), expertDetails: { expertId: deletedExpert.id } });
+      const examinedEarlier = await newCase({ userId: doctor.id, ...examined("2030-02-01") });
+      const notExamined = await newCase({ userId: doctor.id });
+
+      const booked = await storage.bookAppointment(
+        { caseId: notExamined.id, expertId: expert.id, venueId: venue.id, startsAt: at("09:00") },
+        doctorId,
+      );
+      const cancelled = await storage.bookAppointment(
+        { caseId: examinedEarlier.id, expertId: expert.id, venueId: venue.id, startsAt: at("10:00") },
+        doctorId,
+      );
+      await storage.closeAppointment(cancelled.id, "cancelled");
+      await storage.bookAppointment(
+        { caseId: selectedOther.id, expertId: otherExpert.id, venueId: venue.id, startsAt: at("09:00") },
+        doctorId,
+      );
+
+      const schedule = await storage.getExpertSchedule(expert, { from: at("00:00"), examinedFrom: "2030-02-15" });
+
+      assert.deepEqual(
+        schedule.appointments.map(({ appointment, case: caseData }) => [appointment.id, caseData.id]),
+        [[booked.id, notExamined.id]],
+      );
+      assert.deepEqual(
+        schedule.examinedCases.map(c => c.id).sort((a, b) => a - b),
+        [assigned.id, selected.id, selectedDeleted.id],
+      );
+      assert.deepEqual(
+        (await storage.getExpertSchedule(expert, { from: at("09:01"), examinedFrom: "2030-02-15" })).appointments,
+        [],
+      );
+    });
+  });
+}
+
+describe("MemStorage", () => {
+  storageContract(() => new MemStorage());
+});
+
+// Runs against the database only when one is configured
+describe("DatabaseStorage", { skip: !process.env.DATABASE_URL && "DATABASE_URL is not set" }, () => {
+  after(async () => {
+    await getDatabase().pool.end();
+  });
+
+  storageContract(() => new DatabaseStorage());
+});
@@ -1,67 +1,250 @@
 import { 
   users, 
   cases, 
+  auditEvents,
+  reportVersions,
+  caseDocuments,
+  caseNumberCounters,
+  experts,
+  venues,
+  appointments,
   type User, 
   type InsertUser, 
   type Case, 
   type InsertCase,
-  type UpdateCase
+  type UpdateCase,
+  type AuditEvent,
+  type InsertAuditEvent,
+  type ReportVersion,
+  type InsertReportVersion,
+  type CaseDocument,
+  type InsertCaseDocument,
+  type Expert,
+  type InsertExpert,
+  type Venue,
+  type InsertVenue,
+  type Appointment,
+  type AppointmentStatus,
+  type InsertAppointment
 } from "@shared/schema";
-import { db } from './db';
-import { eq, desc, like, sql, and } from 'drizzle-orm';
+import { getDatabase, type DatabaseConnection } from './db';
+import { eq, desc, like, sql, and, or, gt, gte, lt, inArray, asc, type SQL } from 'drizzle-orm';
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { caseNumberFormat, caseNumberScope, formatCaseNumber } from "./case-numbers";
+
+const PostgresSessionStore = connectPg(session);
+const MemoryStore = createMemoryStore(session);
+
+// An update was made against an out-of-date copy of the case
+export class CaseRevisionConflictError extends Error {
+  constructor(public caseId: number, public expectedRevision: number) {
+    super(`Case with ID ${caseId} has changed since revision ${expectedRevision}`);
+    this.name = "CaseRevisionConflictError";
+  }
+}
+
+// Thrown when a booking overlaps the expert's other appointments, or the case
+// already has one booked
+export class AppointmentClashError extends Error {
+  constructor(public clashes: Appointment[]) {
+    super(`Appointment clashes with ${clashes.length} existing booking(s)`);
+    this.name = "AppointmentClashError";
+  }
+}
+
+export interface AppointmentFilter {
+  caseId?: number;
+  venueId?: number;
+  expertId?: number;
+  // Appointments starting in [from, to)
+  from?: Date;
+  to?: Date;
+}
+
+// A case as issued, with the report version kept for it
+export interface IssuedReport {
+  case: Case;
+  reportVersion: ReportVersion;
+}
+
+// What an expert's calendar feed shows
+export interface ExpertSchedule {
+  // Their booked appointments starting at or after `from`, each with its case
+  appointments: { appointment: Appointment; case: Case }[];
+  // Cases whose report they sign that were examined on or after `examinedFrom`
+  examinedCases: Case[];
+}
+
+export interface ExpertScheduleFilter {
+  from: Date;
+  examinedFrom: string; // "yyyy-MM-dd"
+}
+
+// Appointments that still hold their slot
+const slotHoldingStatuses: AppointmentStatus[] = ["booked", "attended"];
+
+// Longest appointment allowed, so overlap checks only need to look this far back
+const MAX_APPOINTMENT_MINUTES = 240;
+
+// Length of a booking made without one, as the column defaults to
+const DEFAULT_APPOINTMENT_MINUTES = 30;
+
+const appointmentEnd = (appointment: Pick<InsertAppointment, "startsAt" | "durationMinutes">) =>
+  new Date(appointment.startsAt.getTime() + (appointment.durationMinutes ?? DEFAULT_APPOINTMENT_MINUTES) * 60_000);
+
+// Whether an existing appointment clashes with a new booking
+const clashesWith = (booking: InsertAppointment) => (existing: Appointment) =>
+  (existing.caseId === booking.caseId && existing.status === "booked") ||
+  (existing.expertId === booking.expertId &&
+    slotHoldingStatuses.includes(existing.status as AppointmentStatus) &&
+    existing.startsAt < appointmentEnd(booking) &&
+    appointmentEnd(existing) > booking.startsAt);
 
 export interface IStorage {
+  // Session store backing express-session
+  sessionStore: session.Store;
+  
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUsers(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, userData: Partial<InsertUser>): Promise<User>;
   
   // Case operations
   getCase(id: number): Promise<Case | undefined>;
   getCaseByNumber(caseNumber: string): Promise<Case | undefined>;
   getCases(userId?: number): Promise<Case[]>;
   createCase(caseData: InsertCase): Promise<Case>;
-  updateCase(id: number, caseData: Partial<UpdateCase>): Promise<Case>;
+  // With expectedRevision, throws CaseRevisionConflictError if the case has changed since
+  updateCase(id: number, caseData: Partial<UpdateCase>, expectedRevision?: number): Promise<Case>;
+  assignCase(id: number, userId: number): Promise<Case>;
+  // Deletes the case's appointments with it, so they don't hold the expert's time
   deleteCase(id: number): Promise<boolean>;
   
-  // Generate a unique case number
+  // Allocate the next case number in the configured format; never returns the same number twice
   generateCaseNumber(): Promise<string>;
+  
+  // Audit operations (append-only, no update or delete)
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  getAuditEvents(caseId: number): Promise<AuditEvent[]>;
+  
+  // Issued report operations (snapshots are immutable once created)
+  createReportVersion(report: InsertReportVersion): Promise<ReportVersion>;
+  getReportVersions(caseId: number): Promise<Omit<ReportVersion, "snapshot" | "pdfData">[]>;
+  getReportVersion(caseId: number, version: number): Promise<ReportVersion | undefined>;
+  // Updates the case and keeps the issued report together, or does neither; throws
+  // CaseRevisionConflictError if the case has changed since expectedRevision
+  issueReport(
+    id: number,
+    caseData: Partial<UpdateCase>,
+    expectedRevision: number,
+    report: Pick<InsertReportVersion, "issuedBy" | "pdfData">,
+  ): Promise<IssuedReport>;
+  
+  // Case attachment metadata (file contents are kept by the file storage backend)
+  createCaseDocument(document: InsertCaseDocument): Promise<CaseDocument>;
+  getCaseDocuments(caseId: number): Promise<CaseDocument[]>;
+  getCaseDocument(caseId: number, id: number): Promise<CaseDocument | undefined>;
+  deleteCaseDocument(caseId: number, id: number): Promise<boolean>;
+  
+  // Expert profile operations (images are kept by the file storage backend)
+  getExperts(): Promise<Expert[]>;
+  getExpert(id: number): Promise<Expert | undefined>;
+  getExpertByUserId(userId: number): Promise<Expert | undefined>;
+  getExpertByCalendarToken(token: string): Promise<Expert | undefined>;
+  createExpert(expert: InsertExpert): Promise<Expert>;
+  updateExpert(id: number, expertData: Partial<Omit<Expert, "id" | "updatedAt">>): Promise<Expert>;
+  deleteExpert(id: number): Promise<boolean>;
+  
+  // Venue operations (venues are retired, not deleted)
+  getVenues(): Promise<Venue[]>;
+  getVenue(id: number): Promise<Venue | undefined>;
+  createVenue(venue: InsertVenue): Promise<Venue>;
+  updateVenue(id: number, venueData: Partial<InsertVenue>): Promise<Venue>;
+  
+  // Appointment operations
+  getAppointments(filter: AppointmentFilter): Promise<Appointment[]>;
+  getAppointment(id: number): Promise<Appointment | undefined>;
+  // Throws AppointmentClashError rather than double-book the expert or the case
+  bookAppointment(appointment: InsertAppointment, bookedBy: number): Promise<Appointment>;
+  // Closes a booked appointment; undefined if it wasn't booked any more
+  closeAppointment(id: number, status: AppointmentStatus): Promise<Appointment | undefined>;
+  // The signing expert is chosen as getCaseExpert does: the case's selected
+  // profile, or else the assigned doctor's
+  getExpertSchedule(expert: Expert, filter: ExpertScheduleFilter): Promise<ExpertSchedule>;
 }
 
 // PostgreSQL database implementation
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+  private db: DatabaseConnection["db"];
+  
+  constructor() {
+    const { db, pool } = getDatabase();
+    this.db = db;
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true,
+    });
+  }
+  
   // User operations
   async getUser(id: number): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user;
   }
   
   async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
     return user;
   }
   
+  async getUsers(): Promise<User[]> {
+    return await this.db.select().from(users).orderBy(users.fullName);
+  }
+  
   async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db.insert(users).values(insertUser).returning();
+    const [user] = await this.db.insert(users).values(insertUser).returning();
     return user;
   }
   
+  async updateUser(id: number, userData: Partial<InsertUser>): Promise<User> {
+    const [updatedUser] = await this.db
+      .update(users)
+      .set(userData)
+      .where(eq(users.id, id))
+      .returning();
+    
+    if (!updatedUser) {
+      throw new Error(`User with ID ${id} not found`);
+    }
+    
+    return updatedUser;
+  }
+  
   // Case operations
   async getCase(id: number): Promise<Case | undefined> {
-    const [foundCase] = await db.select().from(cases).where(eq(cases.id, id));
+    const [foundCase] = await this.db.select().from(cases).where(eq(cases.id, id));
     return foundCase;
   }
   
   async getCaseByNumber(caseNumber: string): Promise<Case | undefined> {
-    const [foundCase] = await db.select().from(cases).where(eq(cases.caseNumber, caseNumber));
+    const [foundCase] = await this.db.select().from(cases).where(eq(cases.caseNumber, caseNumber));
     return foundCase;
   }
   
   async getCases(userId?: number): Promise<Case[]> {
     if (userId) {
-      return await db.select().from(cases).where(eq(cases.userId, userId));
+      return await this.db
+        .select()
+        .from(cases)
+        .where(eq(cases.userId, userId))
+        .orderBy(desc(cases.updatedAt));
     }
-    return await db.select().from(cases).orderBy(desc(cases.updatedAt));
+    return await this.db.select().from(cases).orderBy(desc(cases.updatedAt));
   }
   
   async createCase(caseData: InsertCase): Promise<Case> {
@@ -73,86 +256,421 @@ export class DatabaseStorage implements IStorage {
       updatedAt: now,
     };
     
-    const [newCase] = await db.insert(cases).values(newCaseData).returning();
+    const [newCase] = await this.db.insert(cases).values(newCaseData).returning();
     return newCase;
   }
   
-  async updateCase(id: number, caseData: Partial<UpdateCase>): Promise<Case> {
-    const [updatedCase] = await db
+  async updateCase(id: number, caseData: Partial<UpdateCase>, expectedRevision?: number): Promise<Case> {
+    // The revision check is part of the update itself, so two writers can't both pass it
+    const [updatedCase] = await this.db
       .update(cases)
       .set({
         ...caseData,
+        revision: sql`${cases.revision} + 1`,
         updatedAt: new Date(),
       })
-      .where(eq(cases.id, id))
+      .where(expectedRevision === undefined
+        ? eq(cases.id, id)
+        : and(eq(cases.id, id), eq(cases.revision, expectedRevision)))
       .returning();
     
     if (!updatedCase) {
+      if (expectedRevision !== undefined && await this.getCase(id)) {
+        throw new CaseRevisionConflictError(id, expectedRevision);
+      }
       throw new Error(`Case with ID ${id} not found`);
     }
     
     return updatedCase;
   }
   
+  async assignCase(id: number, userId: number): Promise<Case> {
+    const [assignedCase] = await this.db
+      .update(cases)
+      .set({
+        userId,
+        revision: sql`${cases.revision} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(eq(cases.id, id))
+      .returning();
+    
+    if (!assignedCase) {
+      throw new Error(`Case with ID ${id} not found`);
+    }
+    
+    return assignedCase;
+  }
+  
   async deleteCase(id: number): Promise<boolean> {
-    const result = await db.delete(cases).where(eq(cases.id, id)).returning({ id: cases.id });
-    return result.length > 0;
+    return await this.db.transaction(async (tx) => {
+      const result = await tx.delete(cases).where(eq(cases.id, id)).returning({ id: cases.id });
+      if (result.length === 0) return false;
+      
+      await tx.delete(appointments).where(eq(appointments.caseId, id));
+      return true;
+    });
   }
   
-  // Generate a unique case number in the format MED-YYYY-XXX
+  // Next number from the counter for the current series. The upsert is a single
+  // statement, so concurrent requests are always given different numbers.
   async generateCaseNumber(): Promise<string> {
-    const year = new Date().getFullYear();
-    const yearStr = year.toString();
+    const scope = caseNumberScope(caseNumberFormat);
+    const numberFrom = scope.length + 1;
     
-    // Get the cases with the current year prefix
-    const existingCases = await db
+    // A new series carries on from the highest number already used in it, so
+    // cases numbered before the counter existed aren't numbered again.
+    // The scope is letters, digits and dashes, so it needs no LIKE escaping.
+    const highestExisting = sql<number>`(
+      select coalesce(max(substring(${cases.caseNumber} from ${numberFrom}::integer)::integer), 0)
+      from ${cases}
+      where ${cases.caseNumber} like ${scope + "%"}
+        and substring(${cases.caseNumber} from ${numberFrom}::integer) ~ '^[0-9]+$'
+    )`;
+    
+    const [counter] = await this.db
+      .insert(caseNumberCounters)
+      .values({ scope, lastNumber: sql`${highestExisting} + 1` })
+      .onConflictDoUpdate({
+        target: caseNumberCounters.scope,
+        set: { lastNumber: sql`${caseNumberCounters.lastNumber} + 1` },
+      })
+      .returning();
+    
+    return formatCaseNumber(scope, counter.lastNumber, caseNumberFormat);
+  }
+  
+  // Audit operations
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const [auditEvent] = await this.db.insert(auditEvents).values(event).returning();
+    return auditEvent;
+  }
+  
+  async getAuditEvents(caseId: number): Promise<AuditEvent[]> {
+    return await this.db
       .select()
-      .from(cases)
-      .where(like(cases.caseNumber, `MED-${yearStr}-%`));
-    
-    let highestNumber = 0;
-    
-    if (existingCases.length > 0) {
-      existingCases.forEach(c => {
-        const parts = c.caseNumber.split('-');
-        if (parts.length === 3) {
-          const num = parseInt(parts[2], 10);
-          if (!isNaN(num) && num > highestNumber) {
-            highestNumber = num;
-          }
+      .from(auditEvents)
+      .where(eq(auditEvents.caseId, caseId))
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id));
+  }
+  
+  // Issued report operations
+  async createReportVersion(report: InsertReportVersion): Promise<ReportVersion> {
+    // Version numbers run per case; the unique constraint on (case_id, version)
+    // rejects a concurrent issue that picked the same number
+    const [{ maxVersion }] = await this.db
+      .select({ maxVersion: sql<number>`coalesce(max(${reportVersions.version}), 0)` })
+      .from(reportVersions)
+      .where(eq(reportVersions.caseId, report.caseId));
+    
+    const [reportVersion] = await this.db
+      .insert(reportVersions)
+      .values({ ...report, version: Number(maxVersion) + 1 })
+      .returning();
+    return reportVersion;
+  }
+  
+  async getReportVersions(caseId: number): Promise<Omit<ReportVersion, "snapshot" | "pdfData">[]> {
+    return await this.db
+      .select({
+        id: reportVersions.id,
+        caseId: reportVersions.caseId,
+        version: reportVersions.version,
+        issuedBy: reportVersions.issuedBy,
+        issuedAt: reportVersions.issuedAt,
+      })
+      .from(reportVersions)
+      .where(eq(reportVersions.caseId, caseId))
+      .orderBy(desc(reportVersions.version));
+  }
+  
+  async getReportVersion(caseId: number, version: number): Promise<ReportVersion | undefined> {
+    const [reportVersion] = await this.db
+      .select()
+      .from(reportVersions)
+      .where(and(eq(reportVersions.caseId, caseId), eq(reportVersions.version, version)));
+    return reportVersion;
+  }
+  
+  async issueReport(
+    id: number,
+    caseData: Partial<UpdateCase>,
+    expectedRevision: number,
+    report: Pick<InsertReportVersion, "issuedBy" | "pdfData">,
+  ): Promise<IssuedReport> {
+    return await this.db.transaction(async (tx) => {
+      // The update locks the case row, so a second sign-off waits and then
+      // fails the revision check rather than issuing the same version
+      const [issuedCase] = await tx
+        .update(cases)
+        .set({
+          ...caseData,
+          revision: sql`${cases.revision} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(cases.id, id), eq(cases.revision, expectedRevision)))
+        .returning();
+      
+      if (!issuedCase) {
+        const [existing] = await tx.select({ id: cases.id }).from(cases).where(eq(cases.id, id));
+        if (existing) {
+          throw new CaseRevisionConflictError(id, expectedRevision);
         }
-      });
+        throw new Error(`Case with ID ${id} not found`);
+      }
+      
+      const [{ maxVersion }] = await tx
+        .select({ maxVersion: sql<number>`coalesce(max(${reportVersions.version}), 0)` })
+        .from(reportVersions)
+        .where(eq(reportVersions.caseId, id));
+      
+      const [reportVersion] = await tx
+        .insert(reportVersions)
+        .values({ ...report, caseId: id, snapshot: issuedCase, version: Number(maxVersion) + 1 })
+        .returning();
+      return { case: issuedCase, reportVersion };
+    });
+  }
+  
+  // Case attachment operations
+  async createCaseDocument(document: InsertCaseDocument): Promise<CaseDocument> {
+    const [caseDocument] = await this.db.insert(caseDocuments).values(document).returning();
+    return caseDocument;
+  }
+  
+  async getCaseDocuments(caseId: number): Promise<CaseDocument[]> {
+    return await this.db
+      .select()
+      .from(caseDocuments)
+      .where(eq(caseDocuments.caseId, caseId))
+      .orderBy(desc(caseDocuments.uploadedAt), desc(caseDocuments.id));
+  }
+  
+  async getCaseDocument(caseId: number, id: number): Promise<CaseDocument | undefined> {
+    const [caseDocument] = await this.db
+      .select()
+      .from(caseDocuments)
+      .where(and(eq(caseDocuments.caseId, caseId), eq(caseDocuments.id, id)));
+    return caseDocument;
+  }
+  
+  async deleteCaseDocument(caseId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(caseDocuments)
+      .where(and(eq(caseDocuments.caseId, caseId), eq(caseDocuments.id, id)))
+      .returning({ id: caseDocuments.id });
+    return deleted.length > 0;
+  }
+  
+  // Expert profile operations
+  async getExperts(): Promise<Expert[]> {
+    return await this.db.select().from(experts).orderBy(experts.name);
+  }
+  
+  async getExpert(id: number): Promise<Expert | undefined> {
+    const [expert] = await this.db.select().from(experts).where(eq(experts.id, id));
+    return expert;
+  }
+  
+  async getExpertByUserId(userId: number): Promise<Expert | undefined> {
+    const [expert] = await this.db.select().from(experts).where(eq(experts.userId, userId));
+    return expert;
+  }
+  
+  async getExpertByCalendarToken(token: string): Promise<Expert | undefined> {
+    const [expert] = await this.db.select().from(experts).where(eq(experts.calendarToken, token));
+    return expert;
+  }
+  
+  async createExpert(expert: InsertExpert): Promise<Expert> {
+    const [created] = await this.db.insert(experts).values(expert).returning();
+    return created;
+  }
+  
+  async updateExpert(id: number, expertData: Partial<Omit<Expert, "id" | "updatedAt">>): Promise<Expert> {
+    const [updated] = await this.db
+      .update(experts)
+      .set({ ...expertData, updatedAt: new Date() })
+      .where(eq(experts.id, id))
+      .returning();
+    
+    if (!updated) {
+      throw new Error(`Expert with ID ${id} not found`);
     }
     
-    const nextNumber = highestNumber + 1;
-    const formattedNumber = nextNumber.toString().padStart(3, '0');
+    return updated;
+  }
+  
+  async deleteExpert(id: number): Promise<boolean> {
+    const result = await this.db.delete(experts).where(eq(experts.id, id)).returning({ id: experts.id });
+    return result.length > 0;
+  }
+  
+  // Venue operations
+  async getVenues(): Promise<Venue[]> {
+    return await this.db.select().from(venues).orderBy(venues.name);
+  }
+  
+  async getVenue(id: number): Promise<Venue | undefined> {
+    const [venue] = await this.db.select().from(venues).where(eq(venues.id, id));
+    return venue;
+  }
+  
+  async createVenue(venue: InsertVenue): Promise<Venue> {
+    const [created] = await this.db.insert(venues).values(venue).returning();
+    return created;
+  }
+  
+  async updateVenue(id: number, venueData: Partial<InsertVenue>): Promise<Venue> {
+    const [updated] = await this.db
+      .update(venues)
+      .set(venueData)
+      .where(eq(venues.id, id))
+      .returning();
+    
+    if (!updated) {
+      throw new Error(`Venue with ID ${id} not found`);
+    }
+    
+    return updated;
+  }
+  
+  // Appointment operations
+  async getAppointments(filter: AppointmentFilter): Promise<Appointment[]> {
+    const conditions: SQL[] = [];
+    if (filter.caseId !== undefined) conditions.push(eq(appointments.caseId, filter.caseId));
+    if (filter.venueId !== undefined) conditions.push(eq(appointments.venueId, filter.venueId));
+    if (filter.expertId !== undefined) conditions.push(eq(appointments.expertId, filter.expertId));
+    if (filter.from) conditions.push(gte(appointments.startsAt, filter.from));
+    if (filter.to) conditions.push(lt(appointments.startsAt, filter.to));
+    
+    return await this.db
+      .select()
+      .from(appointments)
+      .where(and(...conditions))
+      .orderBy(asc(appointments.startsAt));
+  }
+  
+  async getAppointment(id: number): Promise<Appointment | undefined> {
+    const [appointment] = await this.db.select().from(appointments).where(eq(appointments.id, id));
+    return appointment;
+  }
+  
+  async bookAppointment(appointment: InsertAppointment, bookedBy: number): Promise<Appointment> {
+    return await this.db.transaction(async (tx) => {
+      // Bookings for the same expert or case wait for each other, so two
+      // can't both pass the clash check
+      await tx.execute(sql`select pg_advisory_xact_lock(1, ${appointment.expertId}::int)`);
+      await tx.execute(sql`select pg_advisory_xact_lock(2, ${appointment.caseId}::int)`);
+      
+      const earliestOverlap = new Date(appointment.startsAt.getTime() - MAX_APPOINTMENT_MINUTES * 60_000);
+      const candidates = await tx
+        .select()
+        .from(appointments)
+        .where(or(
+          and(eq(appointments.caseId, appointment.caseId), eq(appointments.status, "booked")),
+          and(
+            eq(appointments.expertId, appointment.expertId),
+            inArray(appointments.status, slotHoldingStatuses),
+            gt(appointments.startsAt, earliestOverlap),
+            lt(appointments.startsAt, appointmentEnd(appointment)),
+          ),
+        ));
+      
+      const clashes = candidates.filter(clashesWith(appointment));
+      if (clashes.length > 0) {
+        throw new AppointmentClashError(clashes);
+      }
+      
+      const [created] = await tx.insert(appointments).values({ ...appointment, bookedBy }).returning();
+      return created;
+    });
+  }
+  
+  async closeAppointment(id: number, status: AppointmentStatus): Promise<Appointment | undefined> {
+    // Only a booked appointment can be closed, checked in the update itself
+    const [closed] = await this.db
+      .update(appointments)
+      .set({ status })
+      .where(and(eq(appointments.id, id), eq(appointments.status, "booked")))
+      .returning();
+    return closed;
+  }
+  
+  async getExpertSchedule(expert: Expert, filter: ExpertScheduleFilter): Promise<ExpertSchedule> {
+    const booked = await this.db
+      .select({ appointment: appointments, case: cases })
+      .from(appointments)
+      .innerJoin(cases, eq(cases.id, appointments.caseId))
+      .where(and(
+        eq(appointments.expertId, expert.id),
+        eq(appointments.status, "booked"),
+        gte(appointments.startsAt, filter.from),
+      ))
+      .orderBy(asc(appointments.startsAt));
+    
+    const selectedExpertId = sql`(${cases.expertDetails}->>'expertId')::int`;
+    const signedByExpert = or(
+      eq(selectedExpertId, expert.id),
+      // A selected profile that has since been deleted falls back to the assigned doctor's
+      expert.userId === null ? undefined : and(
+        eq(cases.userId, expert.userId),
+        sql`not exists (select 1 from ${experts} where ${experts.id} = ${selectedExpertId})`,
+      ),
+    );
+    const examinedCases = await this.db
+      .select()
+      .from(cases)
+      .where(and(
+        sql`${cases.claimantDetails}->>'dateOfExamination' >= ${filter.examinedFrom}`,
+        signedByExpert,
+      ));
     
-    return `MED-${yearStr}-${formattedNumber}`;
+    return { appointments: booked, examinedCases };
   }
 }
 
-// Create an instance of the database storage - now using PostgreSQL
-export const storage = new DatabaseStorage();
-
-// Memory storage implementation kept for reference only
+// In-memory implementation for local development and tests; data is lost on restart
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
   private users: Map<number, User>;
   private cases: Map<number, Case>;
+  private auditEvents: Map<number, AuditEvent>;
+  private reportVersions: Map<number, ReportVersion>;
+  private caseDocuments: Map<number, CaseDocument>;
+  private caseNumberCounters: Map<string, number>;
+  private experts: Map<number, Expert>;
+  private venues: Map<number, Venue>;
+  private appointments: Map<number, Appointment>;
   private userCurrentId: number;
   private caseCurrentId: number;
+  private auditEventCurrentId: number;
+  private reportVersionCurrentId: number;
+  private caseDocumentCurrentId: number;
+  private expertCurrentId: number;
+  private venueCurrentId: number;
+  private appointmentCurrentId: number;
   
   constructor() {
     this.users = new Map();
     this.cases = new Map();
+    this.auditEvents = new Map();
+    this.reportVersions = new Map();
+    this.caseDocuments = new Map();
+    this.caseNumberCounters = new Map();
+    this.experts = new Map();
+    this.venues = new Map();
+    this.appointments = new Map();
     this.userCurrentId = 1;
     this.caseCurrentId = 1;
-    
-    // Initialize with a default user
-    this.createUser({
-      username: "doctor",
-      password: "password123",
-      fullName: "Dr. Sarah Johnson",
-      role: "doctor"
+    this.auditEventCurrentId = 1;
+    this.reportVersionCurrentId = 1;
+    this.caseDocumentCurrentId = 1;
+    this.expertCurrentId = 1;
+    this.venueCurrentId = 1;
+    this.appointmentCurrentId = 1;
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired sessions every 24h
     });
   }
   
@@ -167,17 +685,37 @@ export class MemStorage implements IStorage {
     );
   }
   
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).sort((a, b) => a.fullName.localeCompare(b.fullName));
+  }
+  
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userCurrentId++;
     const user: User = { 
       ...insertUser, 
       id,
-      role: insertUser.role || 'user'  // Ensure role is never undefined
+      role: insertUser.role || 'secretary'  // Ensure role is never undefined
     };
     this.users.set(id, user);
     return user;
   }
   
+  async updateUser(id: number, userData: Partial<InsertUser>): Promise<User> {
+    const existingUser = await this.getUser(id);
+    
+    if (!existingUser) {
+      throw new Error(`User with ID ${id} not found`);
+    }
+    
+    const updatedUser: User = {
+      ...existingUser,
+      ...userData,
+    };
+    
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+  
   // Case operations
   async getCase(id: number): Promise<Case | undefined> {
     return this.cases.get(id);
@@ -190,13 +728,21 @@ export class MemStorage implements IStorage {
   }
   
   async getCases(userId?: number): Promise<Case[]> {
+    // Most recently updated first, as in the database
+    const allCases = Array.from(this.cases.values())
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime() || b.id - a.id);
     if (userId) {
-      return Array.from(this.cases.values()).filter(c => c.userId === userId);
+      return allCases.filter(c => c.userId === userId);
     }
-    return Array.from(this.cases.values());
+    return allCases;
   }
   
   async createCase(caseData: InsertCase): Promise<Case> {
+    // Case numbers are unique, as in the database
+    if (await this.getCaseByNumber(caseData.caseNumber)) {
+      throw Object.assign(new Error(`Case number ${caseData.caseNumber} already exists`), { code: "23505" });
+    }
+    
     const id = this.caseCurrentId++;
     const now = new Date();
     
@@ -205,34 +751,41 @@ export class MemStorage implements IStorage {
       id,
       createdAt: now,
       updatedAt: now,
-      status: caseData.status || 'in_progress',
-      claimantDetails: caseData.claimantDetails || {},
-      accidentDetails: caseData.accidentDetails || {},
-      physicalInjuryDetails: caseData.physicalInjuryDetails || {},
-      psychologicalInjuries: caseData.psychologicalInjuries || {},
-      treatments: caseData.treatments || {},
-      lifestyleImpact: caseData.lifestyleImpact || {},
-      familyHistory: caseData.familyHistory || {},
-      workHistory: caseData.workHistory || {},
-      prognosis: caseData.prognosis || {},
-      expertDetails: caseData.expertDetails || {},
-      completionPercentage: caseData.completionPercentage || 0
+      status: caseData.status || 'draft',
+      revision: 1,
+      claimantDetails: caseData.claimantDetails ?? null,
+      accidentDetails: caseData.accidentDetails ?? null,
+      physicalInjuryDetails: caseData.physicalInjuryDetails ?? null,
+      psychologicalInjuries: caseData.psychologicalInjuries ?? null,
+      treatments: caseData.treatments ?? null,
+      lifestyleImpact: caseData.lifestyleImpact ?? null,
+      familyHistory: caseData.familyHistory ?? null,
+      workHistory: caseData.workHistory ?? null,
+      prognosis: caseData.prognosis ?? null,
+      examination: caseData.examination ?? null,
+      medicalRecordsReview: caseData.medicalRecordsReview ?? null,
+      expertDetails: caseData.expertDetails ?? null,
+      completionPercentage: caseData.completionPercentage ?? 0
     };
     
     this.cases.set(id, newCase);
     return newCase;
   }
   
-  async updateCase(id: number, caseData: Partial<UpdateCase>): Promise<Case> {
+  async updateCase(id: number, caseData: Partial<UpdateCase>, expectedRevision?: number): Promise<Case> {
     const existingCase = await this.getCase(id);
     
     if (!existingCase) {
       throw new Error(`Case with ID ${id} not found`);
     }
+    if (expectedRevision !== undefined && existingCase.revision !== expectedRevision) {
+      throw new CaseRevisionConflictError(id, expectedRevision);
+    }
     
     const updatedCase: Case = {
       ...existingCase,
       ...caseData,
+      revision: existingCase.revision + 1,
       updatedAt: new Date(),
     };
     
@@ -240,35 +793,309 @@ export class MemStorage implements IStorage {
     return updatedCase;
   }
   
+  async assignCase(id: number, userId: number): Promise<Case> {
+    const existingCase = await this.getCase(id);
+    
+    if (!existingCase) {
+      throw new Error(`Case with ID ${id} not found`);
+    }
+    
+    const assignedCase: Case = {
+      ...existingCase,
+      userId,
+      revision: existingCase.revision + 1,
+      updatedAt: new Date(),
+    };
+    
+    this.cases.set(id, assignedCase);
+    return assignedCase;
+  }
+  
   async deleteCase(id: number): Promise<boolean> {
-    return this.cases.delete(id);
+    if (!this.cases.delete(id)) return false;
+    
+    for (const appointment of Array.from(this.appointments.values())) {
+      if (appointment.caseId === id) this.appointments.delete(appointment.id);
+    }
+    return true;
   }
   
-  // Generate a unique case number in the format MED-YYYY-XXX
   async generateCaseNumber(): Promise<string> {
-    const year = new Date().getFullYear();
+    const scope = caseNumberScope(caseNumberFormat);
     
-    // Get the highest case number for the current year
-    const existingCases = Array.from(this.cases.values())
-      .filter(c => c.caseNumber.includes(`MED-${year}`));
-      
-    let highestNumber = 0;
-    
-    if (existingCases.length > 0) {
-      existingCases.forEach(c => {
-        const parts = c.caseNumber.split('-');
-        if (parts.length === 3) {
-          const num = parseInt(parts[2], 10);
-          if (!isNaN(num) && num > highestNumber) {
-            highestNumber = num;
-          }
-        }
-      });
+    // Start a new series after the highest number already used in it
+    let lastNumber = this.caseNumberCounters.get(scope);
+    if (lastNumber === undefined) {
+      lastNumber = Array.from(this.cases.values())
+        .filter(c => c.caseNumber.startsWith(scope) && /^[0-9]+$/.test(c.caseNumber.slice(scope.length)))
+        .reduce((highest, c) => Math.max(highest, parseInt(c.caseNumber.slice(scope.length), 10)), 0);
     }
     
-    const nextNumber = highestNumber + 1;
-    const formattedNumber = nextNumber.toString().padStart(3, '0');
+    this.caseNumberCounters.set(scope, lastNumber + 1);
+    return formatCaseNumber(scope, lastNumber + 1, caseNumberFormat);
+  }
+  
+  // Audit operations
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const id = this.auditEventCurrentId++;
+    const auditEvent: AuditEvent = {
+      ...event,
+      id,
+      createdAt: new Date(),
+      changes: event.changes ?? [],
+    };
+    this.auditEvents.set(id, auditEvent);
+    return auditEvent;
+  }
+  
+  async getAuditEvents(caseId: number): Promise<AuditEvent[]> {
+    return Array.from(this.auditEvents.values())
+      .filter(e => e.caseId === caseId)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  // Issued report operations
+  async createReportVersion(report: InsertReportVersion): Promise<ReportVersion> {
+    const existing = Array.from(this.reportVersions.values()).filter(r => r.caseId === report.caseId);
+    const id = this.reportVersionCurrentId++;
+    const reportVersion: ReportVersion = {
+      ...report,
+      id,
+      version: existing.length + 1,
+      issuedAt: new Date(),
+      snapshot: report.snapshot ?? {},
+    };
+    this.reportVersions.set(id, reportVersion);
+    return reportVersion;
+  }
+  
+  async getReportVersions(caseId: number): Promise<Omit<ReportVersion, "snapshot" | "pdfData">[]> {
+    return Array.from(this.reportVersions.values())
+      .filter(r => r.caseId === caseId)
+      .sort((a, b) => b.version - a.version)
+      .map(({ snapshot, pdfData, ...summary }) => summary);
+  }
+  
+  async getReportVersion(caseId: number, version: number): Promise<ReportVersion | undefined> {
+    return Array.from(this.reportVersions.values())
+      .find(r => r.caseId === caseId && r.version === version);
+  }
+  
+  async issueReport(
+    id: number,
+    caseData: Partial<UpdateCase>,
+    expectedRevision: number,
+    report: Pick<InsertReportVersion, "issuedBy" | "pdfData">,
+  ): Promise<IssuedReport> {
+    const issuedCase = await this.updateCase(id, caseData, expectedRevision);
+    const reportVersion = await this.createReportVersion({ ...report, caseId: id, snapshot: issuedCase });
+    return { case: issuedCase, reportVersion };
+  }
+  
+  // Case attachment operations
+  async createCaseDocument(document: InsertCaseDocument): Promise<CaseDocument> {
+    const id = this.caseDocumentCurrentId++;
+    const caseDocument: CaseDocument = {
+      ...document,
+      id,
+      category: document.category ?? "Other",
+      uploadedAt: new Date(),
+    };
+    this.caseDocuments.set(id, caseDocument);
+    return caseDocument;
+  }
+  
+  async getCaseDocuments(caseId: number): Promise<CaseDocument[]> {
+    return Array.from(this.caseDocuments.values())
+      .filter(d => d.caseId === caseId)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async getCaseDocument(caseId: number, id: number): Promise<CaseDocument | undefined> {
+    const caseDocument = this.caseDocuments.get(id);
+    return caseDocument?.caseId === caseId ? caseDocument : undefined;
+  }
+  
+  async deleteCaseDocument(caseId: number, id: number): Promise<boolean> {
+    if (!(await this.getCaseDocument(caseId, id))) return false;
+    return this.caseDocuments.delete(id);
+  }
+  
+  // Expert profile operations
+  async getExperts(): Promise<Expert[]> {
+    return Array.from(this.experts.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async getExpert(id: number): Promise<Expert | undefined> {
+    return this.experts.get(id);
+  }
+  
+  async getExpertByUserId(userId: number): Promise<Expert | undefined> {
+    return Array.from(this.experts.values()).find(e => e.userId === userId);
+  }
+  
+  async getExpertByCalendarToken(token: string): Promise<Expert | undefined> {
+    return Array.from(this.experts.values()).find(e => e.calendarToken === token);
+  }
+  
+  async createExpert(expert: InsertExpert): Promise<Expert> {
+    const id = this.expertCurrentId++;
+    const created: Expert = {
+      id,
+      userId: expert.userId ?? null,
+      name: expert.name,
+      qualifications: expert.qualifications,
+      gmcNumber: expert.gmcNumber,
+      medcoRegistration: expert.medcoRegistration ?? null,
+      specialty: expert.specialty ?? null,
+      experienceYears: expert.experienceYears ?? null,
+      contactInformation: expert.contactInformation ?? null,
+      defaultVenueId: expert.defaultVenueId ?? null,
+      cv: expert.cv ?? null,
+      signatureKey: null,
+      signatureContentType: null,
+      letterheadKey: null,
+      letterheadContentType: null,
+      calendarToken: null,
+      updatedAt: new Date(),
+    };
+    this.experts.set(id, created);
+    return created;
+  }
+  
+  async updateExpert(id: number, expertData: Partial<Omit<Expert, "id" | "updatedAt">>): Promise<Expert> {
+    const expert = this.experts.get(id);
+    if (!expert) {
+      throw new Error(`Expert with ID ${id} not found`);
+    }
     
-    return `MED-${year}-${formattedNumber}`;
+    const updated: Expert = { ...expert, ...expertData, updatedAt: new Date() };
+    this.experts.set(id, updated);
+    return updated;
+  }
+  
+  async deleteExpert(id: number): Promise<boolean> {
+    return this.experts.delete(id);
+  }
+  
+  // Venue operations
+  async getVenues(): Promise<Venue[]> {
+    return Array.from(this.venues.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async getVenue(id: number): Promise<Venue | undefined> {
+    return this.venues.get(id);
+  }
+  
+  async createVenue(venue: InsertVenue): Promise<Venue> {
+    const id = this.venueCurrentId++;
+    const created: Venue = {
+      id,
+      name: venue.name,
+      address: venue.address,
+      type: venue.type,
+      active: venue.active ?? true,
+    };
+    this.venues.set(id, created);
+    return created;
+  }
+  
+  async updateVenue(id: number, venueData: Partial<InsertVenue>): Promise<Venue> {
+    const venue = this.venues.get(id);
+    if (!venue) {
+      throw new Error(`Venue with ID ${id} not found`);
+    }
+    
+    const updated: Venue = { ...venue, ...venueData };
+    this.venues.set(id, updated);
+    return updated;
+  }
+  
+  // Appointment operations
+  async getAppointments(filter: AppointmentFilter): Promise<Appointment[]> {
+    return Array.from(this.appointments.values())
+      .filter(a =>
+        (filter.caseId === undefined || a.caseId === filter.caseId) &&
+        (filter.venueId === undefined || a.venueId === filter.venueId) &&
+        (filter.expertId === undefined || a.expertId === filter.expertId) &&
+        (!filter.from || a.startsAt >= filter.from) &&
+        (!filter.to || a.startsAt < filter.to))
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+  
+  async getAppointment(id: number): Promise<Appointment | undefined> {
+    return this.appointments.get(id);
+  }
+  
+  async bookAppointment(appointment: InsertAppointment, bookedBy: number): Promise<Appointment> {
+    const clashes = Array.from(this.appointments.values()).filter(clashesWith(appointment));
+    if (clashes.length > 0) {
+      throw new AppointmentClashError(clashes);
+    }
+    
+    const id = this.appointmentCurrentId++;
+    const created: Appointment = {
+      id,
+      caseId: appointment.caseId,
+      expertId: appointment.expertId,
+      venueId: appointment.venueId,
+      startsAt: appointment.startsAt,
+      durationMinutes: appointment.durationMinutes ?? DEFAULT_APPOINTMENT_MINUTES,
+      status: "booked",
+      notes: appointment.notes ?? null,
+      bookedBy,
+      createdAt: new Date(),
+    };
+    this.appointments.set(id, created);
+    return created;
+  }
+  
+  async closeAppointment(id: number, status: AppointmentStatus): Promise<Appointment | undefined> {
+    const appointment = this.appointments.get(id);
+    if (!appointment || appointment.status !== "booked") {
+      return undefined;
+    }
+    
+    const closed: Appointment = { ...appointment, status };
+    this.appointments.set(id, closed);
+    return closed;
+  }
+  
+  async getExpertSchedule(expert: Expert, filter: ExpertScheduleFilter): Promise<ExpertSchedule> {
+    const booked = (await this.getAppointments({ expertId: expert.id, from: filter.from }))
+      .filter(appointment => appointment.status === "booked")
+      .flatMap(appointment => {
+        const caseData = this.cases.get(appointment.caseId);
+        return caseData ? [{ appointment, case: caseData }] : [];
+      });
+    
+    const signedByExpert = (caseData: Case) => {
+      const selectedExpertId = (caseData.expertDetails as { expertId?: number } | null)?.expertId;
+      if (selectedExpertId !== undefined && this.experts.has(selectedExpertId)) {
+        return selectedExpertId === expert.id;
+      }
+      return expert.userId !== null && caseData.userId === expert.userId;
+    };
+    const examinedCases = Array.from(this.cases.values()).filter(caseData => {
+      const examinedOn = (caseData.claimantDetails as { dateOfExamination?: string } | null)?.dateOfExamination;
+      return !!examinedOn && examinedOn >= filter.examinedFrom && signedByExpert(caseData);
+    });
+    
+    return { appointments: booked, examinedCases };
   }
 }
+
+// STORAGE_DRIVER picks the backend: "database" (the default) or "memory"
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || "database";
+  switch (driver) {
+    case "database":
+      return new DatabaseStorage();
+    case "memory":
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+  }
+}
+
+export const storage = createStorage();
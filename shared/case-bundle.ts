@@ -0,0 +1,199 @@
+import { z } from "zod";
+import {
+  claimantDetailsSchema,
+  accidentDetailsSchema,
+  physicalInjuryForAccidentSchema,
+  psychologicalInjuriesSchema,
+  treatmentsSchema,
+  lifestyleImpactSchema,
+  familyHistorySchema,
+  workHistorySchema,
+  prognosisSchema,
+  examinationSchema,
+  medicalRecordsReviewSchema,
+  expertDetailsSchema,
+} from "./schema";
+import type { AccidentDetails, Case, CaseDocument, InsertCase } from "./schema";
+
+// ---------------------------------------------------------------------------
+// Case bundles
+//
+// A bundle is a self-contained JSON copy of one case, used to back a case up
+// or move it between deployments. Attachments are listed but their contents
+// are not included; they have to be uploaded again on the receiving side.
+// ---------------------------------------------------------------------------
+
+export const CASE_BUNDLE_FORMAT = "medico-legal-case";
+
+// Bump when a bundle written by this version couldn't be read by an older one
+export const CASE_BUNDLE_VERSION = 1;
+
+// The jsonb section columns carried in a bundle, in case form order
+export const bundleSections = [
+  "claimantDetails",
+  "accidentDetails",
+  "physicalInjuryDetails",
+  "psychologicalInjuries",
+  "treatments",
+  "lifestyleImpact",
+  "familyHistory",
+  "workHistory",
+  "prognosis",
+  "examination",
+  "medicalRecordsReview",
+  "expertDetails",
+] as const;
+
+export type BundleSection = typeof bundleSections[number];
+
+// Schema for each section; physical injuries are checked against the accident date
+const sectionSchema = (section: BundleSection, accidentDate?: string): z.ZodTypeAny => {
+  switch (section) {
+    case "claimantDetails": return claimantDetailsSchema;
+    case "accidentDetails": return accidentDetailsSchema;
+    case "physicalInjuryDetails": return physicalInjuryForAccidentSchema(accidentDate);
+    case "psychologicalInjuries": return psychologicalInjuriesSchema;
+    case "treatments": return treatmentsSchema;
+    case "lifestyleImpact": return lifestyleImpactSchema;
+    case "familyHistory": return familyHistorySchema;
+    case "workHistory": return workHistorySchema;
+    case "prognosis": return prognosisSchema;
+    case "examination": return examinationSchema;
+    case "medicalRecordsReview": return medicalRecordsReviewSchema;
+    case "expertDetails": return expertDetailsSchema;
+  }
+};
+
+const bundleAttachmentSchema = z.object({
+  fileName: z.string(),
+  contentType: z.string(),
+  size: z.number().int().nonnegative(),
+  category: z.string(),
+  uploadedAt: z.string(),
+});
+
+// Envelope only; sections are checked one by one so every problem can be reported
+export const caseBundleSchema = z.object({
+  format: z.literal(CASE_BUNDLE_FORMAT, {
+    errorMap: () => ({ message: "Not a case export file" }),
+  }),
+  version: z.number().int().positive(),
+  exportedAt: z.string(),
+  case: z.object({
+    caseNumber: z.string(),
+    status: z.string(),
+    completionPercentage: z.number().int().min(0).max(100),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+  }),
+  sections: z.record(z.unknown()),
+  attachments: z.array(bundleAttachmentSchema).default([]),
+});
+
+export type CaseBundle = z.infer<typeof caseBundleSchema>;
+
+export interface BundleIncompatibility {
+  // Section column name, or "bundle" for problems with the file as a whole
+  section: string;
+  message: string;
+}
+
+// Venue and expert profile ids only mean something on the exporting instance;
+// the details copied from them travel in the section instead
+const instanceIdFields: Partial<Record<BundleSection, string>> = {
+  claimantDetails: "venueId",
+  expertDetails: "expertId",
+};
+
+export function createCaseBundle(caseData: Case, documents: CaseDocument[]): CaseBundle {
+  const sections: Record<string, unknown> = {};
+  for (const section of bundleSections) {
+    if (caseData[section] !== null && caseData[section] !== undefined) {
+      const idField = instanceIdFields[section];
+      if (idField) {
+        const { [idField]: _, ...details } = caseData[section] as Record<string, unknown>;
+        sections[section] = details;
+      } else {
+        sections[section] = caseData[section];
+      }
+    }
+  }
+  return {
+    format: CASE_BUNDLE_FORMAT,
+    version: CASE_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    case: {
+      caseNumber: caseData.caseNumber,
+      status: caseData.status,
+      completionPercentage: caseData.completionPercentage,
+      createdAt: new Date(caseData.createdAt).toISOString(),
+      updatedAt: new Date(caseData.updatedAt).toISOString(),
+    },
+    sections,
+    attachments: documents.map(document => ({
+      fileName: document.fileName,
+      contentType: document.contentType,
+      size: document.size,
+      category: document.category,
+      uploadedAt: new Date(document.uploadedAt).toISOString(),
+    })),
+  };
+}
+
+export type BundleReadResult =
+  | { success: true; bundle: CaseBundle; sections: Pick<InsertCase, BundleSection> }
+  | { success: false; incompatibilities: BundleIncompatibility[] };
+
+const issueMessages = (error: z.ZodError) =>
+  error.issues.map(issue => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message));
+
+/**
+ * Checks a bundle before import: the envelope and version, then every section
+ * against the current schemas. All problems are collected rather than
+ * stopping at the first, so they can be fixed in one go.
+ */
+export function readCaseBundle(input: unknown): BundleReadResult {
+  const envelope = caseBundleSchema.safeParse(input);
+  if (!envelope.success) {
+    return {
+      success: false,
+      incompatibilities: issueMessages(envelope.error).map(message => ({ section: "bundle", message })),
+    };
+  }
+
+  const bundle = envelope.data;
+  if (bundle.version > CASE_BUNDLE_VERSION) {
+    return {
+      success: false,
+      incompatibilities: [{
+        section: "bundle",
+        message: `Exported by a newer version (format ${bundle.version}); this instance reads up to format ${CASE_BUNDLE_VERSION}`,
+      }],
+    };
+  }
+
+  const incompatibilities: BundleIncompatibility[] = [];
+  const sections: Pick<InsertCase, BundleSection> = {};
+
+  for (const name of Object.keys(bundle.sections)) {
+    if (!(bundleSections as readonly string[]).includes(name)) {
+      incompatibilities.push({ section: name, message: "Unknown section" });
+    }
+  }
+
+  const accidentDate = (bundle.sections.accidentDetails as Partial<AccidentDetails> | undefined)?.accidentDate;
+  for (const section of bundleSections) {
+    const value = bundle.sections[section];
+    if (value === undefined || value === null) continue;
+    const result = sectionSchema(section, accidentDate).safeParse(value);
+    if (result.success) {
+      sections[section] = result.data as InsertCase[BundleSection];
+    } else {
+      issueMessages(result.error).forEach(message => incompatibilities.push({ section, message }));
+    }
+  }
+
+  return incompatibilities.length > 0
+    ? { success: false, incompatibilities }
+    : { success: true, bundle, sections };
+}
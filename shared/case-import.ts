@@ -0,0 +1,251 @@
+import { z } from "zod";
+import { accidentDetailsSchema, claimantDetailsSchema } from "./schema";
+import type { AccidentDetails, ClaimantDetails } from "./schema";
+
+// ---------------------------------------------------------------------------
+// Bulk import of new instructions
+//
+// Solicitors and agencies send new instructions as a spreadsheet, one claimant
+// per row. Each column is matched to a claimant or accident field by its
+// header, and each row becomes a new case once it passes the same schemas the
+// case forms use.
+// ---------------------------------------------------------------------------
+
+export type ImportField =
+  | "fullName"
+  | "dateOfBirth"
+  | "accidentDate"
+  | "accidentType"
+  | "instructingParty"
+  | "instructingPartyRef"
+  | "solicitorName"
+  | "referenceNumber"
+  | "medcoRefNumber"
+  | "phone"
+  | "email"
+  | "address";
+
+// Header spellings seen on instruction spreadsheets, compared after normaliseHeader
+const columnAliases: Record<ImportField, string[]> = {
+  fullName: ["claimantname", "claimant", "name", "fullname", "clientname"],
+  dateOfBirth: ["dob", "dateofbirth", "claimantdob", "birthdate"],
+  accidentDate: ["accidentdate", "dateofaccident", "doa", "indexdate", "incidentdate"],
+  accidentType: ["accidenttype", "typeofaccident", "incidenttype"],
+  instructingParty: ["instructingparty", "agency", "instructedby", "ip"],
+  instructingPartyRef: ["instructingpartyref", "instructingpartyreference", "agencyref", "agencyreference", "ipref"],
+  solicitorName: ["solicitor", "solicitorname", "instructingsolicitor", "firm"],
+  referenceNumber: ["reference", "ref", "referencenumber", "solicitorref", "solicitorreference", "yourref", "ourref", "clientref"],
+  medcoRefNumber: ["medco", "medcoref", "medconumber", "medcorefnumber", "medcoreference", "medcocaseid"],
+  phone: ["phone", "telephone", "tel", "mobile", "phonenumber"],
+  email: ["email", "emailaddress"],
+  address: ["address", "claimantaddress"],
+};
+
+export const importFieldLabels: Record<ImportField, string> = {
+  fullName: "Claimant Name",
+  dateOfBirth: "Date of Birth",
+  accidentDate: "Accident Date",
+  accidentType: "Accident Type",
+  instructingParty: "Instructing Party",
+  instructingPartyRef: "Instructing Party Reference",
+  solicitorName: "Solicitor",
+  referenceNumber: "Reference",
+  medcoRefNumber: "MedCo Reference",
+  phone: "Phone",
+  email: "Email",
+  address: "Address",
+};
+
+// Without these a row can't become a case, so the whole file is rejected
+export const requiredImportFields: ImportField[] = ["fullName", "dateOfBirth", "accidentDate"];
+
+// Spreadsheet rows are road traffic accident instructions unless a column says otherwise
+const DEFAULT_ACCIDENT_TYPE = "vehicleCollision";
+
+const normaliseHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export interface ColumnMapping {
+  // Column index for each field found in the header row
+  fields: Partial<Record<ImportField, number>>;
+  // Headers that matched no field; their values are not imported
+  unmapped: string[];
+}
+
+export function mapColumns(headers: string[]): ColumnMapping {
+  const fields: Partial<Record<ImportField, number>> = {};
+  const unmapped: string[] = [];
+  headers.forEach((header, index) => {
+    const normalised = normaliseHeader(header);
+    const field = (Object.keys(columnAliases) as ImportField[])
+      .find(name => fields[name] === undefined && columnAliases[name].includes(normalised));
+    if (field) {
+      fields[field] = index;
+    } else if (header.trim()) {
+      unmapped.push(header.trim());
+    }
+  });
+  return { fields, unmapped };
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/**
+ * Converts the date formats seen on UK spreadsheets to the yyyy-mm-dd the case
+ * forms store. Slashed dates are read day first. Returns the input unchanged
+ * when it isn't a recognisable date so that validation can report it.
+ */
+export function normaliseDate(value: string): string {
+  const trimmed = value.trim();
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:T.*)?$/);
+  const uk = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  let year: number, month: number, day: number;
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (uk) {
+    [day, month, year] = [Number(uk[1]), Number(uk[2]), Number(uk[3])];
+    // Two-digit years: anything after this year is last century
+    if (uk[3].length === 2) {
+      year += 2000;
+      if (year > new Date().getFullYear()) year -= 100;
+    }
+  } else {
+    return trimmed;
+  }
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return trimmed;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const isoDate = (label: string) =>
+  z.string().min(1, `${label} is required`).regex(ISO_DATE, `${label} must be a date, e.g. 31/01/2024`);
+
+// A row must carry enough to open the case; everything else is filled in later
+export const importRowSchema = z.object({
+  claimantDetails: claimantDetailsSchema.extend({
+    dateOfBirth: isoDate("Date of birth"),
+  }),
+  accidentDetails: accidentDetailsSchema.extend({
+    accidentDate: isoDate("Accident date"),
+  }),
+}).superRefine((row, ctx) => {
+  // Unreadable dates are already reported by the field schemas
+  if (!ISO_DATE.test(row.claimantDetails.dateOfBirth) || !ISO_DATE.test(row.accidentDetails.accidentDate)) return;
+  if (row.claimantDetails.dateOfBirth >= row.accidentDetails.accidentDate) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["accidentDetails", "accidentDate"],
+      message: "Accident date must be after the date of birth",
+    });
+  }
+  if (row.accidentDetails.accidentDate > new Date().toISOString().split("T")[0]) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["accidentDetails", "accidentDate"],
+      message: "Accident date cannot be in the future",
+    });
+  }
+});
+
+export type ImportRow = z.infer<typeof importRowSchema>;
+
+export interface ImportRowError {
+  field: string;
+  message: string;
+}
+
+export interface ImportPreviewRow {
+  // Spreadsheet row number, counting the header as row 1
+  rowNumber: number;
+  data?: ImportRow;
+  errors: ImportRowError[];
+}
+
+export interface ImportPreview {
+  fileName: string;
+  mapping: ColumnMapping;
+  rows: ImportPreviewRow[];
+}
+
+// Field label for an issue path such as ["claimantDetails", "dateOfBirth"]
+const issueField = (path: (string | number)[]) => {
+  const field = path[path.length - 1] as ImportField;
+  return importFieldLabels[field] ?? String(field ?? "Row");
+};
+
+/**
+ * Builds the claimant and accident sections for one spreadsheet row and
+ * validates them. Blank cells are left out so schema defaults apply.
+ */
+export function validateImportRow(cells: string[], mapping: ColumnMapping, rowNumber: number): ImportPreviewRow {
+  const value = (field: ImportField) => {
+    const index = mapping.fields[field];
+    const cell = index === undefined ? "" : (cells[index] ?? "").trim();
+    return cell === "" ? undefined : cell;
+  };
+  const date = (field: ImportField) => {
+    const cell = value(field);
+    return cell === undefined ? "" : normaliseDate(cell);
+  };
+
+  const claimantDetails: Partial<ClaimantDetails> = {
+    fullName: value("fullName") ?? "",
+    dateOfBirth: date("dateOfBirth"),
+    address: value("address"),
+    phone: value("phone"),
+    email: value("email"),
+    instructingParty: value("instructingParty"),
+    instructingPartyRef: value("instructingPartyRef"),
+    solicitorName: value("solicitorName"),
+    referenceNumber: value("referenceNumber"),
+    medcoRefNumber: value("medcoRefNumber"),
+  };
+  const accidentDetails: Partial<AccidentDetails> = {
+    accidentDate: date("accidentDate"),
+    accidentType: value("accidentType") ?? DEFAULT_ACCIDENT_TYPE,
+  };
+
+  const result = importRowSchema.safeParse({ claimantDetails, accidentDetails });
+  if (!result.success) {
+    return {
+      rowNumber,
+      errors: result.error.issues.map(issue => ({ field: issueField(issue.path), message: issue.message })),
+    };
+  }
+  return { rowNumber, data: result.data, errors: [] };
+}
+
+/**
+ * Validates every data row of a sheet whose first row is the header. Rows with
+ * no values at all are skipped, and a MedCo reference may appear only once.
+ */
+export function previewImport(fileName: string, table: string[][]): ImportPreview {
+  const [headers = [], ...body] = table;
+  const mapping = mapColumns(headers);
+  const rows: ImportPreviewRow[] = [];
+  const seenMedcoRefs = new Map<string, number>();
+
+  body.forEach((cells, index) => {
+    if (cells.every(cell => !cell || !cell.trim())) return;
+    const row = validateImportRow(cells, mapping, index + 2);
+    const medcoRef = row.data?.claimantDetails.medcoRefNumber;
+    if (medcoRef) {
+      const firstRow = seenMedcoRefs.get(medcoRef);
+      if (firstRow !== undefined) {
+        row.errors.push({
+          field: importFieldLabels.medcoRefNumber,
+          message: `Same MedCo reference as row ${firstRow}`,
+        });
+        delete row.data;
+      } else {
+        seenMedcoRefs.set(medcoRef, row.rowNumber);
+      }
+    }
+    rows.push(row);
+  });
+
+  return { fileName, mapping, rows };
+}
@@ -0,0 +1,100 @@
+import { z } from "zod";
+import type { AccidentDetails, Case, ClaimantDetails } from "./schema";
+import { analyzeCaseCompleteness } from "./suggestion-engine";
+
+// ---------------------------------------------------------------------------
+// Case status workflow
+//
+// A case moves from instruction through examination and drafting to an issued
+// report. Only the moves listed in caseTransitions are allowed, and some of
+// them have preconditions on the case itself.
+// ---------------------------------------------------------------------------
+
+export const caseStatuses = [
+  "draft",
+  "awaiting_examination",
+  "examined",
+  "report_drafted",
+  "under_review",
+  "issued",
+  "amended",
+  "archived",
+] as const;
+
+export type CaseStatus = typeof caseStatuses[number];
+
+export const caseStatusLabels: Record<CaseStatus, string> = {
+  draft: "Draft",
+  awaiting_examination: "Awaiting Examination",
+  examined: "Examined",
+  report_drafted: "Report Drafted",
+  under_review: "Under Review",
+  issued: "Issued",
+  amended: "Amended",
+  archived: "Archived",
+};
+
+// Where each status can move next. Issued and amended are only reached by
+// signing the report off, since that is what records the issued PDF.
+export const caseTransitions: Record<CaseStatus, CaseStatus[]> = {
+  draft: ["awaiting_examination", "archived"],
+  awaiting_examination: ["examined", "draft", "archived"],
+  examined: ["report_drafted", "awaiting_examination"],
+  report_drafted: ["under_review", "examined"],
+  under_review: ["issued", "report_drafted"],
+  issued: ["amended", "archived"],
+  amended: ["amended", "archived"],
+  archived: [],
+};
+
+export const signOffStatuses: CaseStatus[] = ["issued", "amended"];
+
+// Statuses stored before the workflow existed
+const legacyStatuses: Record<string, CaseStatus> = {
+  in_progress: "draft",
+  completed: "issued",
+};
+
+export const toCaseStatus = (status: string): CaseStatus =>
+  (caseStatuses as readonly string[]).includes(status)
+    ? status as CaseStatus
+    : legacyStatuses[status] ?? "draft";
+
+// The status signing off moves a case to: a first issue from review, or an
+// amended report once it has been issued before
+export function signOffTarget(status: string): CaseStatus | undefined {
+  const current = toCaseStatus(status);
+  return (["issued", "amended"] as const).find(target => caseTransitions[current].includes(target));
+}
+
+export const transitionSchema = z.object({
+  status: z.enum(caseStatuses),
+});
+
+/**
+ * Reasons the case can't move to `to` yet; empty when the move is allowed.
+ * Whether `to` follows on from the current status is checked separately.
+ */
+export function transitionBlockers(caseData: Case, to: CaseStatus): string[] {
+  const blockers: string[] = [];
+  const claimant = (caseData.claimantDetails ?? {}) as Partial<ClaimantDetails>;
+  const accident = (caseData.accidentDetails ?? {}) as Partial<AccidentDetails>;
+
+  switch (to) {
+    case "awaiting_examination":
+      if (!claimant.fullName) blockers.push("The claimant's name is missing");
+      if (!claimant.dateOfBirth) blockers.push("The claimant's date of birth is missing");
+      if (!accident.accidentDate) blockers.push("The accident date is missing");
+      break;
+    case "examined":
+      if (!claimant.dateOfExamination) blockers.push("The date of examination is missing");
+      break;
+    case "issued":
+    case "amended": {
+      const critical = analyzeCaseCompleteness(caseData).filter(suggestion => suggestion.severity === "critical");
+      critical.forEach(suggestion => blockers.push(suggestion.message));
+      break;
+    }
+  }
+  return blockers;
+}
@@ -0,0 +1,26 @@
+import type { Expert, ExpertDetails, PublicExpert } from "./schema";
+
+// ---------------------------------------------------------------------------
+// Expert profiles in a case's Medical Expert Details
+//
+// A case can point at an expert profile instead of having its details typed
+// in. The profile's fields are copied into the section whenever it is saved,
+// so every case for that expert reads the same.
+// ---------------------------------------------------------------------------
+
+export type ProfileDetails = Pick<
+  ExpertDetails,
+  "expertId" | "examiner" | "credentials" | "licenseNumber" | "licensureState" | "specialty" | "experienceYears" | "contactInformation"
+>;
+
+// The expert details fields a profile fills in
+export const expertDetailsFromProfile = (expert: Expert | PublicExpert): ProfileDetails => ({
+  expertId: expert.id,
+  examiner: expert.name,
+  credentials: expert.qualifications,
+  licenseNumber: expert.gmcNumber,
+  licensureState: expert.medcoRegistration ?? undefined,
+  specialty: expert.specialty ?? undefined,
+  experienceYears: expert.experienceYears ?? undefined,
+  contactInformation: expert.contactInformation ?? undefined,
+});
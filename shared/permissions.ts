@@ -0,0 +1,96 @@
+import type { Case } from "./schema";
+
+// Roles a user account can hold
+export const userRoles = ["doctor", "secretary", "admin"] as const;
+export type UserRole = typeof userRoles[number];
+
+export type Permission =
+  | "cases:create"
+  | "cases:view-all"
+  | "cases:delete"
+  | "cases:sign-off"
+  | "cases:reassign"
+  | "users:manage"
+  | "experts:manage"
+  | "venues:manage";
+
+const rolePermissions: Record<UserRole, Permission[]> = {
+  doctor: ["cases:create", "cases:delete", "cases:sign-off"],
+  secretary: ["cases:create", "cases:view-all"],
+  admin: ["cases:create", "cases:view-all", "cases:delete", "cases:reassign", "users:manage", "experts:manage", "venues:manage"],
+};
+
+// Case sections keyed by their API path segment (PUT /api/cases/:id/<section>)
+export type CaseSection =
+  | "claimant-details"
+  | "accident-details"
+  | "physical-injury"
+  | "psychological-injuries"
+  | "treatments"
+  | "lifestyle-impact"
+  | "family-history"
+  | "work-history"
+  | "prognosis"
+  | "examination"
+  | "medical-records"
+  | "expert-details";
+
+// The jsonb column on `cases` that each section writes to
+export const caseSectionColumns: Record<CaseSection, keyof Case> = {
+  "claimant-details": "claimantDetails",
+  "accident-details": "accidentDetails",
+  "physical-injury": "physicalInjuryDetails",
+  "psychological-injuries": "psychologicalInjuries",
+  "treatments": "treatments",
+  "lifestyle-impact": "lifestyleImpact",
+  "family-history": "familyHistory",
+  "work-history": "workHistory",
+  "prognosis": "prognosis",
+  "examination": "examination",
+  "medical-records": "medicalRecordsReview",
+  "expert-details": "expertDetails",
+};
+
+// Share of a case's sections that have been filled in, as a whole percentage
+export function caseCompletion(caseData: Partial<Case>): number {
+  const columns = Object.values(caseSectionColumns);
+  const completed = columns.filter(column => caseData[column]).length;
+  return Math.round((completed / columns.length) * 100);
+}
+
+// Administrative sections can be filled by office staff; everything else is clinical
+const sectionEditors: Record<CaseSection, UserRole[]> = {
+  "claimant-details": ["doctor", "secretary", "admin"],
+  "accident-details": ["doctor", "secretary", "admin"],
+  "physical-injury": ["doctor"],
+  "psychological-injuries": ["doctor"],
+  "treatments": ["doctor"],
+  "lifestyle-impact": ["doctor"],
+  "family-history": ["doctor"],
+  "work-history": ["doctor"],
+  "prognosis": ["doctor"],
+  "examination": ["doctor"],
+  "medical-records": ["doctor"],
+  "expert-details": ["doctor"],
+};
+
+export function isUserRole(role: string): role is UserRole {
+  return (userRoles as readonly string[]).includes(role);
+}
+
+export function hasPermission(role: string | undefined, permission: Permission): boolean {
+  if (!role || !isUserRole(role)) return false;
+  return rolePermissions[role].includes(permission);
+}
+
+export function canEditSection(role: string | undefined, section: CaseSection): boolean {
+  if (!role || !isUserRole(role)) return false;
+  return sectionEditors[section].includes(role);
+}
+
+// Find the section that owns a given case column, if any
+export function getSectionForColumn(column: string): CaseSection | undefined {
+  return (Object.keys(caseSectionColumns) as CaseSection[]).find(
+    (section) => caseSectionColumns[section] === column,
+  );
+}
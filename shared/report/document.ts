@@ -0,0 +1,789 @@
+import type {
+  Case,
+  ClaimantDetails,
+  AccidentDetails,
+  PhysicalInjury,
+  PsychologicalInjuries,
+  Treatments,
+  LifestyleImpact,
+  FamilyHistory,
+  Prognosis,
+  ExpertDetails,
+  Examination,
+  MedicalRecordsReview,
+  Expert,
+} from "../schema";
+import { examinationNarrative, injuryFindings, listJoin, percentOfNormal } from "./examination";
+import type { ReportSectionKey, ResolvedPDFOptions } from "./options";
+import {
+  assessWhiplashTariff,
+  formatTariffAmount,
+  injuryDurationMonths,
+  tariffSchedules,
+} from "../whiplash-tariff";
+
+// ---------------------------------------------------------------------------
+// Document model
+//
+// A report is built once from a Case into this template-neutral structure;
+// templates only decide how the blocks look on the page.
+// ---------------------------------------------------------------------------
+
+export interface ReportField {
+  label: string;
+  value: string;
+}
+
+export type ReportBlock =
+  | { kind: "fields"; fields: ReportField[] }
+  | { kind: "paragraph"; text: string; note?: boolean }
+  | { kind: "subheading"; text: string }
+  | { kind: "table"; columns: string[]; rows: string[][]; emptyText: string }
+  | { kind: "signatureLine"; text: string };
+
+export interface ReportSection {
+  // The options-panel switch controlling this section, if any
+  key?: ReportSectionKey;
+  title: string;
+  blocks: ReportBlock[];
+}
+
+export interface ReportDocument {
+  title: string;
+  caseNumber: string;
+  claimantName: string;
+  medcoReference: string;
+  reportDate: string;
+  expert: {
+    name: string;
+    credentials: string;
+  };
+  sections: ReportSection[];
+  signature: {
+    name: string;
+    credentials: string;
+    date: string;
+  };
+}
+
+// The profile of the expert assigned to the case, when one is on file
+export type ReportExpert = Pick<Expert, "name" | "qualifications" | "gmcNumber" | "medcoRegistration" | "cv">;
+
+// What the report prints for the expert: their profile, falling back to what
+// was typed into the case's expert details
+interface ExpertCredentials {
+  name: string;
+  credentials: string;
+  gmcNumber: string;
+  medcoRegistration: string;
+  cv?: string | null;
+}
+
+const resolveExpert = (details: Partial<ExpertDetails>, profile?: ReportExpert): ExpertCredentials => {
+  const gmcNumber = profile?.gmcNumber || details.licenseNumber;
+  return {
+    name: profile?.name || details.examiner || "Not provided",
+    credentials: profile?.qualifications || details.credentials || "Not provided",
+    gmcNumber: gmcNumber ? `GMC ${gmcNumber.replace(/^GMC\s*/i, "")}` : "Not provided",
+    medcoRegistration: profile?.medcoRegistration || details.licensureState || "Not provided",
+    cv: profile?.cv,
+  };
+};
+
+export const formatReportDate = (dateString?: string): string => {
+  if (!dateString) return "Not provided";
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return dateString;
+  return date.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' });
+};
+
+const yesNo = (value?: boolean) => (value ? "Yes" : "No");
+
+const orNotProvided = (value?: string | null) => value || "Not provided";
+
+// Age in whole years on a given date
+const ageOn = (dateOfBirth?: string, onDate?: string): string => {
+  if (!dateOfBirth || !onDate) return "Not calculated";
+  const dob = new Date(dateOfBirth);
+  const on = new Date(onDate);
+  if (isNaN(dob.getTime()) || isNaN(on.getTime())) return "Not calculated";
+
+  let age = on.getFullYear() - dob.getFullYear();
+  if (on.getMonth() < dob.getMonth() ||
+      (on.getMonth() === dob.getMonth() && on.getDate() < dob.getDate())) {
+    age--;
+  }
+  return age.toString();
+};
+
+type Injury = NonNullable<PhysicalInjury["injuries"]>[number];
+
+// Falls back to deriving the classification from the injury type for cases
+// saved before the form auto-populated it
+export const classifyInjury = (injury: Injury): string => {
+  if (injury.classification) return injury.classification;
+
+  const name = injury.type.toLowerCase();
+  if (name.includes("neck") || name.includes("shoulder") || name.includes("back")) return "Whiplash";
+  if (name.includes("headache")) return "Whiplash Associated";
+  return "Non-whiplash";
+};
+
+const isWhiplash = (classification: string) => classification.toLowerCase().startsWith("whiplash");
+
+const injuryName = (injury: Injury) =>
+  injury.type === "Other" && injury.description ? injury.description : injury.type;
+
+const injuryMechanism = (injury: Injury, accident: Partial<AccidentDetails>): string => {
+  if (injury.mechanism) return injury.mechanism;
+
+  const classification = classifyInjury(injury);
+  if (isWhiplash(classification)) {
+    const jolt = accident.collisionImpact && accident.collisionImpact !== "None"
+      ? accident.collisionImpact.toLowerCase()
+      : "forward and backward";
+    return `Due to sudden jolt ${jolt} during the collision. It is classified as a ${classification} injury.`;
+  }
+  return "It was due to the direct trauma. It is classified as a non-whiplash injury and falls within subsection 1.3 of the Civil Liability Act 2018.";
+};
+
+// What the clinical examination recorded for the injury; undefined when it
+// recorded nothing, so the report doesn't state findings that weren't made
+const injuryExamination = (injury: Injury, examination: Partial<Examination>): string | undefined => {
+  const findings = injuryFindings(examination, injury.type);
+  return findings.length > 0 ? findings.join("\n") : undefined;
+};
+
+const wantsPhysiotherapy = (family: Partial<FamilyHistory>) =>
+  family.physiotherapyPreference !== "No" && family.physiotherapyPreference !== "Already recovered";
+
+const injuryTreatment = (injury: Injury, family: Partial<FamilyHistory>, short = false): string => {
+  if (injury.currentSeverity === "Resolved") {
+    return short ? "None needed" : "No further treatment needed as the injury has resolved.";
+  }
+  if (wantsPhysiotherapy(family)) {
+    return short
+      ? "Physiotherapy"
+      : "Physiotherapy is recommended. Number of sessions to be advised by the referred expert.";
+  }
+  return short
+    ? "Pain medication"
+    : "Pain management with appropriate over-the-counter pain medications as the claimant does not want physiotherapy.";
+};
+
+const plural = (n: number, unit: string) => `${n} ${unit}${n === 1 ? "" : "s"}`;
+
+// Reads the expert's per-injury prognosis; every template goes through here
+const injuryPrognosis = (injury: Injury, accidentDate?: string, short = false): string => {
+  const prognosis = injury.prognosis;
+  if (!prognosis) {
+    return "Not recorded";
+  }
+
+  let text: string;
+  if (prognosis.resolved) {
+    const months = injuryDurationMonths(injury, accidentDate);
+    const after = months !== null ? ` (${plural(Math.round(months * 10) / 10, "month")} after the accident)` : "";
+    text = short
+      ? `Resolved ${formatReportDate(prognosis.dateResolved)}`
+      : `Injury resolved on ${formatReportDate(prognosis.dateResolved)}${after} with no expected ongoing symptoms.`;
+  } else {
+    const months = prognosis.periodMonths ?? 0;
+    text = short
+      ? plural(months, "month")
+      : `Expected recovery within ${plural(months, "month")} from the date of accident.`;
+  }
+
+  if (prognosis.referralNeeded) {
+    text += short
+      ? ", referral advised"
+      : ` Further referral is recommended${prognosis.referralDetails ? `: ${prognosis.referralDetails}` : "."}`;
+  }
+  return text;
+};
+
+// ---------------------------------------------------------------------------
+// Section builders
+// ---------------------------------------------------------------------------
+
+const claimantSection = (claimant: Partial<ClaimantDetails>, accident: Partial<AccidentDetails>): ReportSection => {
+  let communicationHelp = "No";
+  if (claimant.helpWithCommunication) {
+    communicationHelp = claimant.interpreterName
+      ? `Yes - ${claimant.interpreterName}${claimant.interpreterRelationship ? ` (${claimant.interpreterRelationship})` : ""}`
+      : "Yes";
+  }
+
+  return {
+    key: "claimantDetails",
+    title: "Claimant Details",
+    blocks: [{
+      kind: "fields",
+      fields: [
+        { label: "Claimant's Name", value: orNotProvided(claimant.fullName) },
+        { label: "Date of Birth", value: formatReportDate(claimant.dateOfBirth) },
+        { label: "Address", value: orNotProvided(claimant.address) },
+        { label: "Gender", value: claimant.gender || "Not specified" },
+        { label: "Age (At the time of the Incident)", value: ageOn(claimant.dateOfBirth, accident.accidentDate) },
+        { label: "Date of Accident", value: formatReportDate(accident.accidentDate) },
+        { label: "Identification", value: claimant.identification?.type || "Not specified" },
+        { label: "Accompanied by", value: claimant.accompaniedBy || "None" },
+        { label: "Help with Communication", value: communicationHelp },
+      ],
+    }],
+  };
+};
+
+const expertSection = (expert: ExpertCredentials): ReportSection => ({
+  key: "expertDetails",
+  title: "Expert Details",
+  blocks: [{
+    kind: "fields",
+    fields: [
+      { label: "Medical Expert Name", value: expert.name },
+      { label: "Qualifications", value: expert.credentials },
+      { label: "GMC Number", value: expert.gmcNumber },
+      { label: "Medco Registration", value: expert.medcoRegistration },
+    ],
+  }],
+});
+
+// Which records the expert was sent, as listed in the records review
+const recordsProvided = (review: Partial<MedicalRecordsReview>): string => {
+  const sources = Array.from(new Set((review.documents ?? []).map(document =>
+    document.source === "Other" ? document.description || "Other records" : document.source)));
+  return sources.length === 0
+    ? "No medical records were provided for review"
+    : `The following records were provided for review: ${listJoin(sources)}`;
+};
+
+const instructionSection = (claimant: Partial<ClaimantDetails>, records: Partial<MedicalRecordsReview>): ReportSection => ({
+  key: "claimantDetails",
+  title: "Instruction Details",
+  blocks: [{
+    kind: "fields",
+    fields: [
+      { label: "Agency Name", value: orNotProvided(claimant.instructingParty) },
+      { label: "Agency Reference Number", value: orNotProvided(claimant.instructingPartyRef) },
+      { label: "Solicitor Name", value: orNotProvided(claimant.solicitorName) },
+      { label: "Solicitor Reference Number", value: orNotProvided(claimant.referenceNumber) },
+      { label: "Medco Reference", value: orNotProvided(claimant.medcoRefNumber) },
+      { label: "Review of Records", value: recordsProvided(records) },
+    ],
+  }],
+});
+
+const appointmentSection = (claimant: Partial<ClaimantDetails>): ReportSection => ({
+  key: "claimantDetails",
+  title: "Appointment Details",
+  blocks: [{
+    kind: "fields",
+    fields: [
+      { label: "Date of Appointment", value: formatReportDate(claimant.dateOfExamination) },
+      { label: "Time spent", value: claimant.timeSpent || "15 min" },
+      { label: "Place of Examination", value: orNotProvided(claimant.placeOfExamination) },
+    ],
+  }],
+});
+
+const statementOfInstructionSection = (): ReportSection => ({
+  title: "Statement of Instruction",
+  blocks: [{
+    kind: "paragraph",
+    text: "This report is entirely independent and is prepared for the injuries sustained in the accident. The instructing party has requested an examination to be conducted with a report to include the nature and extent of the claimant's injuries, treatment received, effects on lifestyle and whether any further treatment is appropriate.\n\nThe report is produced for the Court based on the information provided by the client and the instructing party.",
+  }],
+});
+
+const exceptionalCircumstancesSection = (family: Partial<FamilyHistory>): ReportSection => {
+  const claimed = family.hasExceptionalCircumstances === true || family.hasExceptionalSeverity === true;
+  return {
+    key: "familyHistory",
+    title: "Exceptional Circumstances",
+    blocks: [{
+      kind: "paragraph",
+      text: claimed
+        ? "Claimant has claimed for exceptional physical and exceptional psychological circumstances. I would agree considering history symptoms and examination."
+        : "Claimant has not claimed for exceptional physical or exceptional psychological circumstances. I would agree considering history symptoms and examination.",
+    }],
+  };
+};
+
+const injurySummarySection = (
+  injuries: Injury[],
+  accident: Partial<AccidentDetails>,
+  family: Partial<FamilyHistory>,
+): ReportSection => ({
+  key: "physicalInjury",
+  title: "Summary of Injuries",
+  blocks: [
+    {
+      kind: "table",
+      columns: ["Injury Name", "Current Status", "Prognosis", "Treatment", "Classification"],
+      rows: injuries.map(injury => [
+        injuryName(injury),
+        injury.currentSeverity === "Resolved"
+          ? "Resolved"
+          : `${injury.currentSeverity} symptoms currently present`,
+        injuryPrognosis(injury, accident.accidentDate, true),
+        injuryTreatment(injury, family, true),
+        classifyInjury(injury),
+      ]),
+      emptyText: "No injuries recorded",
+    },
+    {
+      kind: "paragraph",
+      note: true,
+      text: "Note: The injuries listed above are based on the claimant's reported symptoms and clinical examination.",
+    },
+    {
+      kind: "paragraph",
+      text: "There were no other injuries / symptoms which were stated in the instructions other than those listed in the medical report suffered by the claimant as told to me during the examination after direct questioning.",
+    },
+  ],
+});
+
+const accidentNarrative = (accident: Partial<AccidentDetails>): string => {
+  const position = (accident.claimantPosition || "Driver").toLowerCase();
+  const vehicle = (accident.vehicleType || "Car").toLowerCase();
+  const impact = (accident.impactLocation || "Rear").toLowerCase();
+  const movement = accident.vehicleMovement === "Moving" ? "moving" : "stationary";
+  const jolt = accident.collisionImpact && accident.collisionImpact !== "None"
+    ? ` As a result of this the claimant was jolted ${accident.collisionImpact.toLowerCase()}.`
+    : "";
+  const damage = accident.damageSeverity
+    ? ` Due to the accident the claimant's vehicle was ${accident.damageSeverity.toLowerCase()}.`
+    : "";
+
+  return `On ${formatReportDate(accident.accidentDate)}, the claimant was the ${position} of a ${vehicle} when another vehicle hit it in the ${impact} while it was ${movement}.${jolt}${damage} ` +
+    `The claimant was ${accident.seatBeltWorn === false ? "not wearing" : "wearing"} a seat belt, head rests were ${accident.headRestFitted === false ? "not fitted" : "fitted"} and air bags ${accident.airBagDeployed ? "did" : "did not"} deploy.`;
+};
+
+const accidentSection = (accident: Partial<AccidentDetails>): ReportSection => {
+  const blocks: ReportBlock[] = [{ kind: "paragraph", text: accidentNarrative(accident) }];
+  if (accident.accidentDescription) {
+    blocks.push({ kind: "paragraph", text: accident.accidentDescription });
+  }
+  return { key: "accidentDetails", title: "Accident/Incident Details", blocks };
+};
+
+const injuriesSection = (
+  injuries: Injury[],
+  accident: Partial<AccidentDetails>,
+  family: Partial<FamilyHistory>,
+  physical: Partial<PhysicalInjury>,
+  examination: Partial<Examination>,
+): ReportSection => {
+  const blocks: ReportBlock[] = [{
+    kind: "paragraph",
+    note: true,
+    text: "Note: The injuries listed below are based on the claimant's reported symptoms and clinical examination.",
+  }];
+
+  if (injuries.length === 0) {
+    blocks.push({ kind: "paragraph", text: "No specific injuries or symptoms have been recorded." });
+  }
+
+  injuries.forEach(injury => {
+    const examinationFindings = injuryExamination(injury, examination);
+    blocks.push({ kind: "subheading", text: injuryName(injury) });
+    blocks.push({
+      kind: "fields",
+      fields: [
+        { label: "When did this injury start", value: injury.onsetTime || "Not specified" },
+        { label: "Initial Severity", value: injury.initialSeverity },
+        { label: "Current Severity", value: injury.currentSeverity },
+        { label: "Classification", value: classifyInjury(injury) },
+        { label: "Mechanism", value: injuryMechanism(injury, accident) },
+        ...(examinationFindings ? [{ label: "Examination", value: examinationFindings }] : []),
+        { label: "Treatment Recommendations", value: injuryTreatment(injury, family) },
+        { label: "Prognosis", value: injuryPrognosis(injury, accident.accidentDate) },
+      ],
+    });
+  });
+
+  if (physical.physicalInjurySummary) {
+    blocks.push({ kind: "paragraph", text: physical.physicalInjurySummary });
+  }
+
+  return { key: "physicalInjury", title: "Injuries / Symptoms", blocks };
+};
+
+const travelAnxietySection = (psych: Partial<PsychologicalInjuries>): ReportSection => {
+  const symptoms = psych.travelAnxietySymptoms ?? [];
+  if (symptoms.length === 0) {
+    return {
+      key: "psychologicalInjury",
+      title: "Travel Anxiety",
+      blocks: [{ kind: "paragraph", text: "The claimant did not report any travel anxiety." }],
+    };
+  }
+
+  return {
+    key: "psychologicalInjury",
+    title: "Travel Anxiety",
+    blocks: [{
+      kind: "fields",
+      fields: [
+        { label: "Symptoms", value: symptoms.join(", ") },
+        { label: "Onset", value: psych.travelAnxietyOnset || "Not specified" },
+        { label: "Initial Severity", value: psych.travelAnxietyInitialSeverity || "Not specified" },
+        { label: "Current Severity", value: psych.travelAnxietyCurrentSeverity || "Not specified" },
+        ...(psych.travelAnxietyCurrentSeverity === "Resolved" && psych.travelAnxietyResolutionDays
+          ? [{ label: "Resolved After", value: `${psych.travelAnxietyResolutionDays} days` }]
+          : []),
+      ],
+    }],
+  };
+};
+
+const treatmentNarrative = (treatments: Partial<Treatments>): string => {
+  if (treatments.treatmentSummary) return treatments.treatmentSummary;
+
+  const parts: string[] = ["The claimant reports the following treatment history:"];
+
+  if (treatments.receivedTreatmentAtScene) {
+    const scene = [
+      treatments.sceneFirstAid && "first aid",
+      treatments.sceneNeckCollar && "a neck collar",
+      treatments.sceneOtherTreatment && treatments.sceneOtherTreatmentDetails,
+    ].filter(Boolean);
+    parts.push(`Treatment was received at the scene${scene.length ? ` (${scene.join(", ")})` : ""}.`);
+  } else {
+    parts.push("No treatment was received at the scene of the accident.");
+  }
+
+  if (treatments.wentToHospital) {
+    const hospital = [
+      treatments.hospitalXRay && "X-ray",
+      treatments.hospitalCTScan && "CT scan",
+      treatments.hospitalBandage && "bandage",
+      treatments.hospitalNeckCollar && "neck collar",
+      treatments.hospitalOtherTreatment && treatments.hospitalOtherTreatmentDetails,
+    ].filter(Boolean);
+    parts.push(`The claimant attended ${treatments.hospitalName || "hospital"}${hospital.length ? ` and received ${hospital.join(", ")}` : ""}.`);
+  } else {
+    parts.push("No hospital treatment was required.");
+  }
+
+  if (treatments.wentToGPWalkIn) {
+    parts.push(`The claimant attended a GP or walk-in centre${treatments.daysToGPWalkIn ? ` ${treatments.daysToGPWalkIn} days after the accident` : ""}.`);
+  } else {
+    parts.push("No GP visits were required.");
+  }
+
+  const medication = [
+    treatments.takingParacetamol && "paracetamol",
+    treatments.takingIbuprofen && "ibuprofen",
+    treatments.takingCodeine && "codeine",
+    treatments.takingOtherMedication && treatments.otherMedicationDetails,
+  ].filter(Boolean);
+  parts.push(medication.length
+    ? `Current medications: ${medication.join(", ")}.`
+    : "No current medications reported.");
+
+  if (treatments.physiotherapySessions) {
+    parts.push(`Physiotherapy: ${treatments.physiotherapySessions} sessions.`);
+  }
+
+  return parts.join(" ");
+};
+
+const examinationSection = (examination: Partial<Examination>): ReportSection | null => {
+  if (!examination.regions || examination.regions.length === 0) return null;
+
+  const blocks: ReportBlock[] = examinationNarrative(examination).map(text => ({ kind: "paragraph", text }));
+
+  const rows = examination.regions
+    .filter(region => region.examined)
+    .flatMap(region => region.rangeOfMovement
+      .filter(rom => rom.value !== undefined)
+      .map(rom => [
+        region.region,
+        rom.movement,
+        region.rangeOfMovementUnit === "Degrees" ? `${rom.value}°` : `${rom.value}%`,
+        `${percentOfNormal(region, rom)}%`,
+        yesNo(rom.painful),
+      ]));
+  if (rows.length > 0) {
+    blocks.push({ kind: "subheading", text: "Range of Movement" });
+    blocks.push({
+      kind: "table",
+      columns: ["Spine", "Movement", "Recorded", "% of Normal", "Painful"],
+      rows,
+      emptyText: "No range of movement recorded",
+    });
+  }
+
+  return { key: "examination", title: "Clinical Examination", blocks };
+};
+
+const treatmentsSection = (treatments: Partial<Treatments>): ReportSection => ({
+  key: "treatments",
+  title: "Treatments",
+  blocks: [{ kind: "paragraph", text: treatmentNarrative(treatments) }],
+});
+
+const dateRange = (from?: string, to?: string): string => {
+  if (from && to) return `${formatReportDate(from)} to ${formatReportDate(to)}`;
+  if (from) return `From ${formatReportDate(from)}`;
+  if (to) return `To ${formatReportDate(to)}`;
+  return "Not stated";
+};
+
+const recordsConsistencyText: Record<MedicalRecordsReview["overallConsistency"], string> = {
+  "Supports": "The records reviewed are consistent with the claimant's account.",
+  "Partially Supports": "The records reviewed are partly consistent with the claimant's account; the differences are noted above.",
+  "Contradicts": "The records reviewed are not consistent with the claimant's account; the differences are noted above.",
+  "Not Applicable": "",
+};
+
+const medicalRecordsSection = (review: Partial<MedicalRecordsReview>): ReportSection => {
+  const documents = review.documents ?? [];
+  const entries = review.entries ?? [];
+
+  if (documents.length === 0) {
+    return {
+      key: "medicalRecords",
+      title: "Medical Records Review",
+      blocks: [{ kind: "paragraph", text: "No medical records were provided for review." }],
+    };
+  }
+
+  const blocks: ReportBlock[] = [
+    { kind: "paragraph", text: "I have reviewed the following medical records:" },
+    {
+      kind: "table",
+      columns: ["Source", "Description", "Period Covered", "Pages"],
+      rows: documents.map(document => [
+        document.source,
+        document.description || "-",
+        dateRange(document.dateFrom, document.dateTo),
+        document.pages ? String(document.pages) : "-",
+      ]),
+      emptyText: "No records reviewed",
+    },
+    { kind: "subheading", text: "Relevant Entries" },
+    {
+      kind: "table",
+      columns: ["Date", "Source", "Clinician", "Finding", "Claimant's Account"],
+      rows: [...entries]
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .map(entry => [
+          formatReportDate(entry.date),
+          entry.source,
+          entry.clinician || "-",
+          entry.finding,
+          entry.relationToAccount,
+        ]),
+      emptyText: "No relevant entries found in the records",
+    },
+  ];
+
+  const consistency = review.overallConsistency ? recordsConsistencyText[review.overallConsistency] : "";
+  if (consistency) {
+    blocks.push({ kind: "paragraph", text: consistency });
+  }
+  if (review.commentary) {
+    blocks.push({ kind: "paragraph", text: review.commentary });
+  }
+
+  return { key: "medicalRecords", title: "Medical Records Review", blocks };
+};
+
+const lifestyleSection = (lifestyle: Partial<LifestyleImpact>): ReportSection => {
+  const fields: ReportField[] = [];
+  if (lifestyle.currentJobTitle) fields.push({ label: "Job Title", value: lifestyle.currentJobTitle });
+  if (lifestyle.workStatus) fields.push({ label: "Work Status", value: lifestyle.workStatus });
+  if (lifestyle.daysOffWork) fields.push({ label: "Time Off Work", value: `${lifestyle.daysOffWork} days` });
+
+  const blocks: ReportBlock[] = [];
+  if (fields.length > 0) blocks.push({ kind: "fields", fields });
+  blocks.push(
+    { kind: "subheading", text: "Impact Summary" },
+    { kind: "paragraph", text: lifestyle.impactSummary || lifestyle.lifestyleSummary || "No impact summary provided" },
+    { kind: "subheading", text: "Prospects on the Open Job Market" },
+    { kind: "paragraph", text: "Employment prospects in the open job market would be unaffected because of the injuries" },
+  );
+
+  return { key: "lifeStyleImpact", title: "Impact on Daily Life", blocks };
+};
+
+const pastHistorySection = (family: Partial<FamilyHistory>): ReportSection => ({
+  key: "familyHistory",
+  title: "Past History of Accidents or Illness",
+  blocks: [{
+    kind: "paragraph",
+    text: family.historySummary || family.medicalHistorySummary ||
+      "No significant past medical history reported by the claimant. The claimant denies any previous accidents, injuries, or pre-existing medical conditions relevant to the current claim. Overall general health was reported as good prior to the accident.",
+  }],
+});
+
+// Overall prognosis is only printed when it has been written up
+const prognosisSection = (prognosis: Partial<Prognosis>): ReportSection | null => {
+  const fields: ReportField[] = [];
+  if (prognosis.overallPrognosis) fields.push({ label: "Overall Prognosis", value: prognosis.overallPrognosis });
+  if (prognosis.expectedRecoveryTime) fields.push({ label: "Expected Recovery Time", value: prognosis.expectedRecoveryTime });
+  if (prognosis.permanentImpairment) fields.push({ label: "Permanent Impairment", value: prognosis.permanentImpairment });
+  if (prognosis.futureCarePlans) fields.push({ label: "Future Care", value: prognosis.futureCarePlans });
+  if (prognosis.treatmentRecommendations?.length) {
+    fields.push({ label: "Treatment Recommendations", value: prognosis.treatmentRecommendations.join(", ") });
+  }
+  if (fields.length === 0) return null;
+
+  return { key: "prognosis", title: "Prognosis", blocks: [{ kind: "fields", fields }] };
+};
+
+const declarationSection = (accident: Partial<AccidentDetails>, signedBy: string): ReportSection => ({
+  title: "Case Classification and Declaration",
+  blocks: [
+    { kind: "subheading", text: "Case Classification" },
+    {
+      kind: "paragraph",
+      text: [
+        `Seatbelts: Was the claimant wearing a seat belt? ${yesNo(accident.seatBeltWorn !== false)}`,
+        "Soft-tissue Injury Claim: Yes",
+        "Was the Claimant an occupant of a motor vehicle? Yes",
+        "Is the client's most significant injury a soft-tissue injury? Yes",
+        "Is this the first report in relation to the client's injuries from the index accident? Yes",
+      ].join("\n"),
+    },
+    { kind: "subheading", text: "Declaration" },
+    {
+      kind: "paragraph",
+      text: "I was able to obtain a good history. Claimant's injuries and recovery period were entirely consistent with the account of the accident. The treatment provided for the claimant has been appropriate. The problems reported in home life are consistent and reasonable. In my opinion, the time taken off work by the claimant is reasonable. Claimant is currently fit working. Declaration: I have not provided treatment to the claimant. I am not associated with any person who has provided treatment. I have not recommended any treatment provider.",
+    },
+    { kind: "paragraph", text: "Agreement of Report: I confirm that I have verified with the claimant the facts as referred to in this report" },
+    { kind: "signatureLine", text: signedBy },
+  ],
+});
+
+const statementOfTruthSection = (signedBy: string): ReportSection => ({
+  title: "Statement of Truth",
+  blocks: [
+    {
+      kind: "paragraph",
+      text: "I understand that my overriding duty is to the court, both in preparing reports and in giving oral evidence. I have complied and will continue to comply with that duty. I am aware of the requirements of Part 35 and practice direction 35, the protocol for instructing experts to give evidence in civil claims and the practice direction on pre-action conduct. I have set out in my report that I understand from those instructing me to be the questions in respect of which my opinion as an expert is required. I have done my best, in preparing this report, to be accurate and complete. I have mentioned all matters which I regard as relevant to the opinions I have expressed. I consider that all the matters on which I have expressed an opinion lie within my field of expertise. I have drawn to the attention of the court all matters, of which I am aware, which might adversely affect my opinion.",
+    },
+    { kind: "signatureLine", text: signedBy },
+  ],
+});
+
+const tariffAppendixSection = (caseData: Case): ReportSection => {
+  const assessment = assessWhiplashTariff(caseData);
+  const schedule = assessment.schedule ?? tariffSchedules[0];
+  const fields: ReportField[] = [
+    {
+      label: "Whiplash Injury Duration",
+      value: assessment.whiplashMonths !== null
+        ? `${Math.round(assessment.whiplashMonths * 10) / 10} months`
+        : "Not determined",
+    },
+    { label: "Minor Psychological Injury", value: yesNo(assessment.withPsychologicalInjury) },
+    { label: "Tariff Band", value: assessment.band?.label ?? "Outside the tariff" },
+  ];
+  if (assessment.amount !== null) {
+    fields.push({ label: "Tariff Amount", value: formatTariffAmount(assessment.amount) });
+  }
+
+  return {
+    title: "Appendix: Whiplash Tariff",
+    blocks: [
+      { kind: "fields", fields },
+      ...assessment.reasons.map((reason): ReportBlock => ({ kind: "paragraph", note: true, text: reason })),
+      { kind: "subheading", text: `Tariff under the ${schedule.regulations}` },
+      {
+        kind: "table",
+        columns: ["Duration of Injury", "Whiplash Only", "With Minor Psychological Injury"],
+        rows: schedule.bands.map(b => [
+          b === assessment.band ? `${b.label} (this claim)` : b.label,
+          formatTariffAmount(b.amount),
+          formatTariffAmount(b.amountWithPsychologicalInjury),
+        ]),
+        emptyText: "",
+      },
+      {
+        kind: "paragraph",
+        note: true,
+        text: "The band follows from the prognosis periods given in this report and is provided for information only; the award itself is a matter for the parties and the court.",
+      },
+    ],
+  };
+};
+
+const expertCVSection = (cv: string, signedBy: string): ReportSection => ({
+  title: "Medical Expert's Curriculum Vitae",
+  blocks: [
+    { kind: "paragraph", text: cv },
+    { kind: "signatureLine", text: signedBy },
+  ],
+});
+
+/**
+ * Builds the template-neutral report for a case. Sections switched off in
+ * `options.sectionsToInclude` are left out here, so every template honours
+ * the same selection.
+ */
+export function buildReportDocument(
+  caseData: Case,
+  options: ResolvedPDFOptions,
+  expertProfile?: ReportExpert,
+): ReportDocument {
+  const claimant = (caseData.claimantDetails ?? {}) as Partial<ClaimantDetails>;
+  const accident = (caseData.accidentDetails ?? {}) as Partial<AccidentDetails>;
+  const physical = (caseData.physicalInjuryDetails ?? {}) as Partial<PhysicalInjury>;
+  const psych = (caseData.psychologicalInjuries ?? {}) as Partial<PsychologicalInjuries>;
+  const treatments = (caseData.treatments ?? {}) as Partial<Treatments>;
+  const lifestyle = (caseData.lifestyleImpact ?? {}) as Partial<LifestyleImpact>;
+  const family = (caseData.familyHistory ?? {}) as Partial<FamilyHistory>;
+  const prognosis = (caseData.prognosis ?? {}) as Partial<Prognosis>;
+  const examination = (caseData.examination ?? {}) as Partial<Examination>;
+  const records = (caseData.medicalRecordsReview ?? {}) as Partial<MedicalRecordsReview>;
+  const expertDetails = (caseData.expertDetails ?? {}) as Partial<ExpertDetails>;
+
+  const injuries = physical.injuries ?? [];
+  const expert = resolveExpert(expertDetails, expertProfile);
+  const signedBy = `${expert.name}, ${expert.credentials}`;
+
+  const sections: (ReportSection | null)[] = [
+    claimantSection(claimant, accident),
+    expertSection(expert),
+    options.includeAgencyDetails ? instructionSection(claimant, records) : null,
+    appointmentSection(claimant),
+    statementOfInstructionSection(),
+    exceptionalCircumstancesSection(family),
+    injurySummarySection(injuries, accident, family),
+    accidentSection(accident),
+    injuriesSection(injuries, accident, family, physical, examination),
+    travelAnxietySection(psych),
+    examinationSection(examination),
+    treatmentsSection(treatments),
+    medicalRecordsSection(records),
+    lifestyleSection(lifestyle),
+    pastHistorySection(family),
+    prognosisSection(prognosis),
+    options.includeDeclaration ? declarationSection(accident, signedBy) : null,
+    options.includeDeclaration ? statementOfTruthSection(signedBy) : null,
+    options.includeExpertCV && expert.cv ? expertCVSection(expert.cv, signedBy) : null,
+    options.includeTariffAppendix ? tariffAppendixSection(caseData) : null,
+  ];
+
+  return {
+    title: "MEDICO-LEGAL REPORT",
+    caseNumber: caseData.caseNumber,
+    claimantName: claimant.fullName || "Claimant",
+    medcoReference: claimant.medcoRefNumber || "Not provided",
+    reportDate: formatReportDate(claimant.dateOfReport || new Date().toISOString()),
+    expert: {
+      name: expert.name,
+      credentials: expert.credentials,
+    },
+    sections: sections.filter((section): section is ReportSection =>
+      section !== null && (!section.key || options.sectionsToInclude[section.key] !== false),
+    ),
+    signature: {
+      name: expert.name,
+      credentials: expert.credentials,
+      date: formatReportDate(expertDetails.signatureDate || claimant.dateOfReport || new Date().toISOString()),
+    },
+  };
+}
@@ -0,0 +1,163 @@
+import type { Examination } from "../schema";
+import { spinalMovements, spinalRegions } from "../schema";
+
+type Region = Examination["regions"][number];
+type SpinalRegion = typeof spinalRegions[number];
+type Movement = typeof spinalMovements[number];
+
+// Typical adult active range of movement in degrees, used to express a
+// measurement in degrees as a proportion of normal
+export const normalRangeOfMovement: Record<SpinalRegion, Record<Movement, number>> = {
+  Cervical: {
+    "Flexion": 50,
+    "Extension": 60,
+    "Left Lateral Flexion": 45,
+    "Right Lateral Flexion": 45,
+    "Left Rotation": 80,
+    "Right Rotation": 80,
+  },
+  Thoracic: {
+    "Flexion": 45,
+    "Extension": 25,
+    "Left Lateral Flexion": 25,
+    "Right Lateral Flexion": 25,
+    "Left Rotation": 30,
+    "Right Rotation": 30,
+  },
+  Lumbar: {
+    "Flexion": 60,
+    "Extension": 25,
+    "Left Lateral Flexion": 25,
+    "Right Lateral Flexion": 25,
+    "Left Rotation": 15,
+    "Right Rotation": 15,
+  },
+};
+
+// A blank examination with every region and movement listed, for new cases
+export const emptyExamination = (): Examination => ({
+  generalObservations: "",
+  regions: spinalRegions.map(region => ({
+    region,
+    examined: true,
+    tenderness: "None" as const,
+    tendernessSite: "",
+    rangeOfMovementUnit: "Percent" as const,
+    rangeOfMovement: spinalMovements.map(movement => ({ movement, value: undefined, painful: false })),
+    observations: "",
+  })),
+  neurological: {
+    reflexes: "Normal",
+    power: "Normal",
+    sensation: "Normal",
+    notes: "",
+  },
+  otherFindings: "",
+});
+
+// Percentage of the normal range for one recorded movement
+export const percentOfNormal = (region: Region, rom: Region["rangeOfMovement"][number]): number | undefined => {
+  if (rom.value === undefined) return undefined;
+  if (region.rangeOfMovementUnit === "Percent") return rom.value;
+  return Math.min(100, Math.round((rom.value / normalRangeOfMovement[region.region][rom.movement]) * 100));
+};
+
+// "a", "a and b", "a, b and c"
+export const listJoin = (items: string[]) =>
+  items.length <= 1 ? items.join("") : `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+
+const describeMovement = (region: Region, rom: Region["rangeOfMovement"][number]): string => {
+  const name = rom.movement.toLowerCase();
+  const percent = percentOfNormal(region, rom)!;
+  const pain = rom.painful ? " with pain" : "";
+  if (percent >= 100) return `full ${name}${pain}`;
+  return region.rangeOfMovementUnit === "Degrees"
+    ? `${name} ${rom.value}° (${percent}% of normal)${pain}`
+    : `${name} ${percent}% of normal${pain}`;
+};
+
+const regionNarrative = (region: Region): string => {
+  const name = `${region.region} spine`;
+  if (!region.examined) return `${name}: not examined.`;
+
+  const tenderness = region.tenderness === "None"
+    ? "No tenderness on palpation"
+    : `${region.tenderness} tenderness on palpation${region.tendernessSite ? ` of the ${region.tendernessSite}` : ""}`;
+
+  const recorded = region.rangeOfMovement.filter(rom => rom.value !== undefined);
+  let movement = "";
+  if (recorded.length > 0) {
+    const restricted = recorded.filter(rom => percentOfNormal(region, rom)! < 100 || rom.painful);
+    if (restricted.length === 0) {
+      movement = " Full, pain-free range of movement.";
+    } else {
+      const others = restricted.length < recorded.length ? "; other recorded movements full" : "";
+      movement = ` Range of movement: ${listJoin(restricted.map(rom => describeMovement(region, rom)))}${others}.`;
+    }
+  }
+
+  const observations = region.observations ? ` ${region.observations}` : "";
+  return `${name}: ${tenderness}.${movement}${observations}`;
+};
+
+const neurologicalNarrative = (neurological: Examination["neurological"]): string => {
+  const checks: [string, string][] = [
+    ["reflexes", neurological.reflexes],
+    ["power", neurological.power],
+    ["sensation", neurological.sensation],
+  ];
+  const normal = checks.filter(([, finding]) => finding === "Normal").map(([name]) => name);
+  const abnormal = checks.filter(([, finding]) => finding === "Abnormal").map(([name]) => name);
+  const untested = checks.filter(([, finding]) => finding === "Not Tested").map(([name]) => name);
+
+  const parts: string[] = [];
+  if (normal.length > 0) parts.push(`${listJoin(normal)} ${normal.length === 1 ? "was" : "were"} normal`);
+  if (abnormal.length > 0) parts.push(`${listJoin(abnormal)} ${abnormal.length === 1 ? "was" : "were"} abnormal`);
+  if (untested.length > 0) parts.push(`${listJoin(untested)} ${untested.length === 1 ? "was" : "were"} not tested`);
+
+  const summary = `Neurological examination of the upper and lower limbs: ${listJoin(parts)}.`;
+  return neurological.notes ? `${summary} ${neurological.notes}` : summary;
+};
+
+// The spinal region each injury type is examined in
+const injuryRegions: Record<string, SpinalRegion> = {
+  "Neck": "Cervical",
+  "Upper Back / Shoulders": "Thoracic",
+  "Lower Back": "Lumbar",
+};
+
+/**
+ * The recorded findings that bear on one injury: its spinal region and the
+ * neurological examination. Empty when the injury has no spinal region or
+ * that region wasn't examined.
+ */
+export function injuryFindings(examination: Partial<Examination>, injuryType: string): string[] {
+  const region = (examination.regions ?? []).find(r => r.region === injuryRegions[injuryType]);
+  if (!region?.examined) return [];
+
+  const findings = [regionNarrative(region)];
+  if (examination.neurological) {
+    findings.push(neurologicalNarrative(examination.neurological));
+  }
+  return findings;
+}
+
+/**
+ * Turns the recorded findings into report prose, one paragraph per region
+ * plus general observations and the neurological summary. Shown under the
+ * form as the expert fills it in and used as-is in the report.
+ */
+export function examinationNarrative(examination: Partial<Examination>): string[] {
+  const paragraphs: string[] = [];
+  if (examination.generalObservations) {
+    paragraphs.push(examination.generalObservations);
+  }
+  (examination.regions ?? []).forEach(region => paragraphs.push(regionNarrative(region)));
+  if (examination.neurological) {
+    paragraphs.push(neurologicalNarrative(examination.neurological));
+  }
+  if (examination.otherFindings) {
+    paragraphs.push(examination.otherFindings);
+  }
+  return paragraphs;
+}
@@ -0,0 +1,109 @@
+export const reportTemplateIds = ["medco-standard", "custom-teal", "plain"] as const;
+export type ReportTemplateId = typeof reportTemplateIds[number];
+
+export type RGBColor = [number, number, number];
+
+// Case sections that can be switched on or off in the PDF options panel
+export interface SectionsToInclude {
+  claimantDetails?: boolean;
+  accidentDetails?: boolean;
+  physicalInjury?: boolean;
+  psychologicalInjury?: boolean;
+  examination?: boolean;
+  treatments?: boolean;
+  medicalRecords?: boolean;
+  lifeStyleImpact?: boolean;
+  familyHistory?: boolean;
+  prognosis?: boolean;
+  expertDetails?: boolean;
+}
+
+export type ReportSectionKey = keyof SectionsToInclude;
+
+export interface PDFFontSizes {
+  title: number;
+  subtitle: number;
+  sectionHeader: number;
+  bodyText: number;
+}
+
+// PDF customization options shared by every report template
+export interface PDFCustomizationOptions {
+  // Which template renders the report
+  template?: ReportTemplateId;
+  
+  // Layout options
+  pageSize?: 'a4' | 'letter';
+  orientation?: 'portrait' | 'landscape';
+  
+  // Cover page options
+  includeCoverPage?: boolean;
+  includeAgencyDetails?: boolean;
+  logoUrl?: string;
+  
+  // Content options
+  fontFamily?: 'helvetica' | 'courier' | 'times';
+  fontSize?: PDFFontSizes;
+  includeSectionNumbers?: boolean;
+  includeTableOfContents?: boolean;
+  
+  // Style options
+  primaryColor?: RGBColor;
+  secondaryColor?: RGBColor;
+  
+  // Additional content options
+  includeExpertCV?: boolean;
+  includeDeclaration?: boolean;
+  includeFooterOnEveryPage?: boolean;
+  // Appendix showing the Whiplash Injury Regulations tariff band
+  includeTariffAppendix?: boolean;
+  
+  // Sections to include/exclude
+  sectionsToInclude?: SectionsToInclude;
+}
+
+export const defaultPDFOptions: Required<Omit<PDFCustomizationOptions, "logoUrl">> & { logoUrl?: string } = {
+  template: 'custom-teal',
+  pageSize: 'a4',
+  orientation: 'portrait',
+  includeCoverPage: true,
+  includeAgencyDetails: true,
+  fontFamily: 'helvetica',
+  fontSize: {
+    title: 18,
+    subtitle: 10,
+    sectionHeader: 11,
+    bodyText: 9
+  },
+  includeSectionNumbers: true,
+  includeTableOfContents: false,
+  primaryColor: [14, 124, 123], // RGB for #0E7C7B dark teal
+  secondaryColor: [74, 85, 104], // RGB for #4A5568 slate grey
+  includeExpertCV: true,
+  includeDeclaration: true,
+  includeFooterOnEveryPage: true,
+  includeTariffAppendix: false,
+  sectionsToInclude: {
+    claimantDetails: true,
+    accidentDetails: true,
+    physicalInjury: true,
+    psychologicalInjury: true,
+    examination: true,
+    treatments: true,
+    medicalRecords: true,
+    lifeStyleImpact: true,
+    familyHistory: true,
+    prognosis: true,
+    expertDetails: true
+  }
+};
+
+export type ResolvedPDFOptions = typeof defaultPDFOptions;
+
+// Fill in defaults, including sections the caller did not mention
+export const resolvePDFOptions = (options?: PDFCustomizationOptions): ResolvedPDFOptions => ({
+  ...defaultPDFOptions,
+  ...options,
+  fontSize: { ...defaultPDFOptions.fontSize, ...options?.fontSize },
+  sectionsToInclude: { ...defaultPDFOptions.sectionsToInclude, ...options?.sectionsToInclude },
+});
@@ -0,0 +1,342 @@
+import { jsPDF } from "jspdf";
+import type { Case } from "../schema";
+import {
+  buildReportDocument,
+  type ReportBlock,
+  type ReportDocument,
+  type ReportExpert,
+  type ReportField,
+} from "./document";
+import {
+  resolvePDFOptions,
+  type PDFCustomizationOptions,
+  type PDFFontSizes,
+  type ResolvedPDFOptions,
+  type ReportTemplateId,
+  type RGBColor,
+} from "./options";
+import { getReportTemplate } from "./templates";
+
+// Shared between the browser and the server, so nothing here may touch the DOM
+// or bundler-only imports; callers supply images themselves
+export interface ReportImage {
+  // Data URL in the browser, raw bytes on the server
+  data: string | Uint8Array;
+  format: "JPEG" | "PNG";
+  // Pixel size, used to keep the aspect ratio when scaling
+  width: number;
+  height: number;
+}
+
+// The assigned expert's profile and images. Without a signature the report
+// is rendered as an unsigned draft.
+export interface ReportAssets {
+  expert?: ReportExpert;
+  signatureImage?: ReportImage;
+  letterheadImage?: ReportImage;
+}
+
+export interface ReportTheme {
+  fontFamily: string;
+  fontSize: PDFFontSizes;
+  textColor: RGBColor;
+  mutedColor: RGBColor;
+  // "bar" draws a filled band with white text, "rule" coloured text over a line
+  headerStyle: "bar" | "rule";
+  headerColor: RGBColor;
+  labelColor: RGBColor;
+  // Width of the label column for label/value fields, in mm
+  labelWidth: number;
+  margin: number;
+}
+
+// What a template's cover page drawer gets to work with
+export interface PageContext {
+  doc: jsPDF;
+  theme: ReportTheme;
+  options: ResolvedPDFOptions;
+  pageWidth: number;
+  pageHeight: number;
+}
+
+export interface ReportTemplate {
+  id: ReportTemplateId;
+  name: string;
+  description: string;
+  theme: (options: ResolvedPDFOptions) => ReportTheme;
+  drawCover: (page: PageContext, document: ReportDocument) => void;
+}
+
+const FOOTER_HEIGHT = 15;
+const LETTERHEAD_MAX_HEIGHT = 40;
+const SIGNATURE_MAX_HEIGHT = 20;
+
+/**
+ * Lays a report document out with the given template. Page flow, numbering,
+ * footers and the signature block are shared; the template decides colours,
+ * fonts, header style and the cover page.
+ */
+export function renderReportDocument(
+  document: ReportDocument,
+  template: ReportTemplate,
+  options: ResolvedPDFOptions,
+  assets: ReportAssets = {},
+): jsPDF {
+  const doc = new jsPDF({
+    orientation: options.orientation,
+    unit: 'mm',
+    format: options.pageSize,
+  });
+
+  const theme = template.theme(options);
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const { margin } = theme;
+  const contentWidth = pageWidth - margin * 2;
+  const lineHeight = theme.fontSize.bodyText * 0.5;
+  const bottom = pageHeight - FOOTER_HEIGHT - 5;
+  let y = margin;
+
+  // Pages before the body (cover, contents) never carry the running footer
+  let firstBodyPage = 1;
+
+  const setText = (style: "normal" | "bold" | "italic", size: number, color: RGBColor = theme.textColor) => {
+    doc.setFont(theme.fontFamily, style);
+    doc.setFontSize(size);
+    doc.setTextColor(color[0], color[1], color[2]);
+  };
+
+  const newPage = () => {
+    doc.addPage();
+    y = margin;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom) newPage();
+  };
+
+  const sectionTitle = (title: string, index: number) =>
+    options.includeSectionNumbers ? `${index + 1}. ${title.toUpperCase()}` : title.toUpperCase();
+
+  const drawSectionHeader = (title: string) => {
+    const height = theme.fontSize.sectionHeader * 0.65;
+    ensureSpace(height + lineHeight * 3);
+
+    if (theme.headerStyle === "bar") {
+      doc.setFillColor(theme.headerColor[0], theme.headerColor[1], theme.headerColor[2]);
+      doc.rect(margin, y, contentWidth, height, "F");
+      setText("bold", theme.fontSize.sectionHeader, [255, 255, 255]);
+      doc.text(title, margin + 3, y + height - 2);
+    } else {
+      setText("bold", theme.fontSize.sectionHeader, theme.headerColor);
+      doc.text(title, margin, y + height - 2);
+      doc.setDrawColor(theme.headerColor[0], theme.headerColor[1], theme.headerColor[2]);
+      doc.line(margin, y + height, margin + contentWidth, y + height);
+    }
+    y += height + 3;
+  };
+
+  // Writes wrapped text line by line so long paragraphs can break across pages
+  const writeLines = (lines: string[], x: number) => {
+    lines.forEach(line => {
+      ensureSpace(lineHeight);
+      doc.text(line, x, y + lineHeight * 0.75);
+      y += lineHeight;
+    });
+  };
+
+  const drawFields = (fields: ReportField[], sectionIndex: number, counter: { n: number }) => {
+    fields.forEach(field => {
+      counter.n += 1;
+      const label = options.includeSectionNumbers
+        ? `${sectionIndex + 1}.${counter.n} ${field.label}:`
+        : `${field.label}:`;
+
+      setText("normal", theme.fontSize.bodyText);
+      const valueLines: string[] = doc.splitTextToSize(field.value, contentWidth - theme.labelWidth);
+      setText("bold", theme.fontSize.bodyText, theme.labelColor);
+      const labelLines: string[] = doc.splitTextToSize(label, theme.labelWidth - 2);
+      ensureSpace(lineHeight * Math.max(labelLines.length, Math.min(valueLines.length, 3)));
+
+      const rowTop = y;
+      labelLines.forEach((line, i) => doc.text(line, margin, rowTop + lineHeight * (i + 0.75)));
+
+      setText("normal", theme.fontSize.bodyText);
+      y = rowTop;
+      valueLines.forEach((line, i) => {
+        if (i > 0) ensureSpace(lineHeight);
+        doc.text(line, margin + theme.labelWidth, y + lineHeight * 0.75);
+        y += lineHeight;
+      });
+      y = Math.max(y, rowTop + lineHeight * labelLines.length) + 1;
+    });
+  };
+
+  const drawTable = (block: Extract<ReportBlock, { kind: "table" }>) => {
+    const columnWidth = contentWidth / block.columns.length;
+    const padding = 2;
+
+    const drawHeaderRow = () => {
+      const height = lineHeight + 3;
+      ensureSpace(height + lineHeight * 2);
+      if (theme.headerStyle === "bar") {
+        doc.setFillColor(theme.headerColor[0], theme.headerColor[1], theme.headerColor[2]);
+        doc.rect(margin, y, contentWidth, height, "F");
+        setText("bold", theme.fontSize.bodyText, [255, 255, 255]);
+      } else {
+        setText("bold", theme.fontSize.bodyText, theme.headerColor);
+      }
+      block.columns.forEach((column, i) =>
+        doc.text(column, margin + i * columnWidth + padding, y + height - 2),
+      );
+      doc.setDrawColor(200, 200, 200);
+      doc.line(margin, y + height, margin + contentWidth, y + height);
+      y += height;
+    };
+
+    drawHeaderRow();
+    setText("normal", theme.fontSize.bodyText - 1);
+
+    if (block.rows.length === 0) {
+      doc.text(block.emptyText, margin + contentWidth / 2, y + lineHeight, { align: "center" });
+      y += lineHeight + 3;
+      doc.line(margin, y, margin + contentWidth, y);
+      y += 3;
+      return;
+    }
+
+    block.rows.forEach(row => {
+      setText("normal", theme.fontSize.bodyText - 1);
+      const cells: string[][] = row.map(cell => doc.splitTextToSize(cell, columnWidth - padding * 2));
+      const height = Math.max(...cells.map(lines => lines.length)) * lineHeight + 2;
+      if (y + height > bottom) {
+        newPage();
+        drawHeaderRow();
+        setText("normal", theme.fontSize.bodyText - 1);
+      }
+      cells.forEach((lines, i) =>
+        lines.forEach((line, j) =>
+          doc.text(line, margin + i * columnWidth + padding, y + lineHeight * (j + 0.75) + 1),
+        ),
+      );
+      y += height;
+      doc.setDrawColor(200, 200, 200);
+      doc.line(margin, y, margin + contentWidth, y);
+    });
+    y += 3;
+  };
+
+  const drawBlock = (block: ReportBlock, sectionIndex: number, counter: { n: number }) => {
+    switch (block.kind) {
+      case "fields":
+        drawFields(block.fields, sectionIndex, counter);
+        break;
+      case "paragraph":
+        setText(block.note ? "italic" : "normal", theme.fontSize.bodyText);
+        writeLines(doc.splitTextToSize(block.text, contentWidth), margin);
+        y += 2;
+        break;
+      case "subheading":
+        ensureSpace(lineHeight * 3);
+        setText("bold", theme.fontSize.bodyText + 1, theme.labelColor);
+        doc.text(block.text, margin, y + lineHeight * 0.75);
+        y += lineHeight + 1;
+        break;
+      case "table":
+        drawTable(block);
+        break;
+      case "signatureLine":
+        ensureSpace(lineHeight * 4);
+        y += lineHeight * 2;
+        doc.setDrawColor(0, 0, 0);
+        doc.line(margin, y, margin + contentWidth / 2, y);
+        setText("italic", theme.fontSize.bodyText - 1);
+        doc.text(block.text, margin, y + lineHeight);
+        y += lineHeight + 2;
+        break;
+    }
+  };
+
+  const page: PageContext = { doc, theme, options, pageWidth, pageHeight };
+
+  if (options.includeCoverPage) {
+    template.drawCover(page, document);
+    newPage();
+    firstBodyPage++;
+  }
+
+  if (options.includeTableOfContents) {
+    setText("bold", theme.fontSize.title, theme.headerColor);
+    doc.text("CONTENTS", margin, y + 8);
+    y += 16;
+    setText("normal", theme.fontSize.bodyText + 1);
+    document.sections.forEach((section, index) => {
+      ensureSpace(lineHeight + 2);
+      doc.text(sectionTitle(section.title, index), margin, y);
+      y += lineHeight + 2;
+    });
+    newPage();
+    firstBodyPage++;
+  }
+
+  if (assets.letterheadImage) {
+    const { data, format, width, height } = assets.letterheadImage;
+    const drawHeight = Math.min(LETTERHEAD_MAX_HEIGHT, contentWidth * height / width);
+    const drawWidth = drawHeight * width / height;
+    doc.addImage(data, format, margin + (contentWidth - drawWidth) / 2, y, drawWidth, drawHeight);
+    y += drawHeight + 6;
+  }
+
+  document.sections.forEach((section, index) => {
+    if (index > 0) y += 6;
+    drawSectionHeader(sectionTitle(section.title, index));
+    const counter = { n: 0 };
+    section.blocks.forEach(block => drawBlock(block, index, counter));
+  });
+
+  // Signature block
+  y += 6;
+  ensureSpace(60);
+  drawSectionHeader(sectionTitle("Signature", document.sections.length));
+  setText("normal", theme.fontSize.bodyText + 1);
+  doc.text(`Date: ${document.signature.date}`, margin, y + 4);
+  y += 8;
+  if (assets.signatureImage) {
+    const { data, format, width, height } = assets.signatureImage;
+    doc.addImage(data, format, margin, y, SIGNATURE_MAX_HEIGHT * width / height, SIGNATURE_MAX_HEIGHT);
+  } else {
+    setText("italic", theme.fontSize.bodyText + 1);
+    doc.text("Unsigned - no signature on file", margin, y + 10);
+  }
+  y += 26;
+  setText("normal", theme.fontSize.bodyText + 1);
+  doc.text(document.signature.name, margin, y);
+  doc.text(document.signature.credentials, margin, y + 6);
+
+  // Footers are written last, once the page count is known
+  const totalPages = doc.getNumberOfPages();
+  const firstFooterPage = options.includeFooterOnEveryPage ? 1 : firstBodyPage;
+  for (let i = firstFooterPage; i <= totalPages; i++) {
+    doc.setPage(i);
+    setText("normal", 8, theme.mutedColor);
+    doc.text(
+      `Page ${i} of ${totalPages} | ${document.claimantName} | ${document.caseNumber || "Medico-Legal Report"}`,
+      pageWidth / 2,
+      pageHeight - 10,
+      { align: "center" },
+    );
+  }
+
+  return doc;
+}
+
+// Builds and renders the report for a case in one step
+export function renderCaseReport(
+  caseData: Case,
+  options?: PDFCustomizationOptions,
+  assets?: ReportAssets,
+): jsPDF {
+  const resolved = resolvePDFOptions(options);
+  const document = buildReportDocument(caseData, resolved, assets?.expert);
+  return renderReportDocument(document, getReportTemplate(resolved.template), resolved, assets);
+}
@@ -0,0 +1,187 @@
+import type { ReportDocument } from "./document";
+import type { ReportTemplateId, RGBColor } from "./options";
+import type { PageContext, ReportTemplate } from "./renderer";
+
+const TEAL: RGBColor = [14, 124, 123];
+const BLACK: RGBColor = [0, 0, 0];
+const GREY: RGBColor = [100, 100, 100];
+
+// Centred label/value pair used on the cover pages
+const centredPair = (
+  { doc, pageWidth }: PageContext,
+  label: string,
+  value: string,
+  y: number,
+  labelColor: RGBColor,
+  valueSize: number,
+) => {
+  doc.setFontSize(14);
+  doc.setTextColor(labelColor[0], labelColor[1], labelColor[2]);
+  doc.text(label, pageWidth / 2, y, { align: "center" });
+  doc.setFontSize(valueSize);
+  doc.setTextColor(0, 0, 0);
+  doc.text(value, pageWidth / 2, y + 10, { align: "center" });
+};
+
+// The teal report the practice has been issuing: centred cover, teal bars and labels
+const customTeal: ReportTemplate = {
+  id: "custom-teal",
+  name: "Custom teal",
+  description: "Teal section bars and labels with a centred cover page",
+  theme: (options) => ({
+    fontFamily: "helvetica",
+    fontSize: options.fontSize,
+    textColor: BLACK,
+    mutedColor: GREY,
+    headerStyle: "bar",
+    headerColor: TEAL,
+    labelColor: TEAL,
+    labelWidth: 60,
+    margin: 20,
+  }),
+  drawCover: (page: PageContext, document: ReportDocument) => {
+    const { doc, pageWidth, pageHeight } = page;
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(16);
+    doc.setTextColor(0, 0, 0);
+    doc.text(document.title, pageWidth / 2, 60, { align: "center" });
+
+    doc.setFontSize(24);
+    doc.setTextColor(TEAL[0], TEAL[1], TEAL[2]);
+    doc.text(document.claimantName, pageWidth / 2, 90, { align: "center" });
+
+    centredPair(page, "MedCo Reference:", document.medcoReference, 110, TEAL, 18);
+    centredPair(page, "Medical Expert:", document.expert.name, 160, TEAL, 20);
+    doc.setFontSize(12);
+    doc.text(document.expert.credentials, pageWidth / 2, 180, { align: "center" });
+
+    doc.setFontSize(12);
+    doc.setTextColor(TEAL[0], TEAL[1], TEAL[2]);
+    doc.text("Report Date:", pageWidth / 2, pageHeight - 40, { align: "center" });
+    doc.setTextColor(0, 0, 0);
+    doc.text(document.reportDate, pageWidth / 2, pageHeight - 32, { align: "center" });
+  },
+};
+
+// MedCo layout driven by the colour and typography choices in the options panel
+const medcoStandard: ReportTemplate = {
+  id: "medco-standard",
+  name: "MedCo standard",
+  description: "Banner cover page using your chosen colours and fonts",
+  theme: (options) => ({
+    fontFamily: options.fontFamily,
+    fontSize: options.fontSize,
+    textColor: BLACK,
+    mutedColor: GREY,
+    headerStyle: "bar",
+    headerColor: options.primaryColor,
+    labelColor: options.secondaryColor,
+    labelWidth: 55,
+    margin: 15,
+  }),
+  drawCover: ({ doc, theme, pageWidth }: PageContext, document: ReportDocument) => {
+    const [r, g, b] = theme.headerColor;
+    doc.setFillColor(r, g, b);
+    doc.rect(0, 0, pageWidth, 50, "F");
+
+    doc.setFont(theme.fontFamily, "bold");
+    doc.setFontSize(theme.fontSize.title + 4);
+    doc.setTextColor(255, 255, 255);
+    doc.text(document.title, pageWidth / 2, 25, { align: "center" });
+    doc.setFont(theme.fontFamily, "normal");
+    doc.setFontSize(theme.fontSize.subtitle + 2);
+    doc.text(`Case ${document.caseNumber}`, pageWidth / 2, 38, { align: "center" });
+
+    // Information card
+    const cardX = theme.margin;
+    const cardWidth = pageWidth - theme.margin * 2;
+    doc.setDrawColor(r, g, b);
+    doc.rect(cardX, 70, cardWidth, 60);
+    doc.setFillColor(r, g, b);
+    doc.rect(cardX, 70, cardWidth, 9, "F");
+    doc.setFont(theme.fontFamily, "bold");
+    doc.setFontSize(theme.fontSize.sectionHeader);
+    doc.setTextColor(255, 255, 255);
+    doc.text("CLAIMANT", cardX + 4, 76.5);
+
+    const rows: [string, string][] = [
+      ["Claimant", document.claimantName],
+      ["MedCo Reference", document.medcoReference],
+      ["Report Date", document.reportDate],
+    ];
+    rows.forEach(([label, value], i) => {
+      doc.setFont(theme.fontFamily, "bold");
+      doc.setFontSize(theme.fontSize.bodyText + 2);
+      doc.setTextColor(theme.labelColor[0], theme.labelColor[1], theme.labelColor[2]);
+      doc.text(label, cardX + 6, 92 + i * 12);
+      doc.setFont(theme.fontFamily, "normal");
+      doc.setTextColor(0, 0, 0);
+      doc.text(value, cardX + 60, 92 + i * 12);
+    });
+
+    // Expert card with accent bar
+    doc.setFillColor(245, 247, 250);
+    doc.rect(cardX, 145, cardWidth, 35, "F");
+    doc.setFillColor(r, g, b);
+    doc.rect(cardX, 145, 3, 35, "F");
+    doc.setFont(theme.fontFamily, "bold");
+    doc.setFontSize(theme.fontSize.subtitle + 2);
+    doc.setTextColor(r, g, b);
+    doc.text("MEDICAL EXPERT", cardX + 8, 155);
+    doc.setFontSize(theme.fontSize.title - 4);
+    doc.setTextColor(0, 0, 0);
+    doc.text(document.expert.name, cardX + 8, 165);
+    doc.setFont(theme.fontFamily, "italic");
+    doc.setFontSize(theme.fontSize.bodyText + 1);
+    doc.text(document.expert.credentials, cardX + 8, 173);
+  },
+};
+
+// Monochrome layout for fax, print and solicitors who ask for no branding
+const plain: ReportTemplate = {
+  id: "plain",
+  name: "Plain",
+  description: "Black and white, ruled headings, no colour fills",
+  theme: (options) => ({
+    fontFamily: options.fontFamily,
+    fontSize: options.fontSize,
+    textColor: BLACK,
+    mutedColor: BLACK,
+    headerStyle: "rule",
+    headerColor: BLACK,
+    labelColor: BLACK,
+    labelWidth: 60,
+    margin: 20,
+  }),
+  drawCover: ({ doc, theme }: PageContext, document: ReportDocument) => {
+    const x = theme.margin;
+    doc.setTextColor(0, 0, 0);
+    doc.setFont(theme.fontFamily, "bold");
+    doc.setFontSize(theme.fontSize.title);
+    doc.text(document.title, x, 50);
+
+    const rows: [string, string][] = [
+      ["Claimant", document.claimantName],
+      ["Case Number", document.caseNumber],
+      ["MedCo Reference", document.medcoReference],
+      ["Medical Expert", `${document.expert.name}, ${document.expert.credentials}`],
+      ["Report Date", document.reportDate],
+    ];
+    doc.setFontSize(theme.fontSize.bodyText + 2);
+    rows.forEach(([label, value], i) => {
+      doc.setFont(theme.fontFamily, "bold");
+      doc.text(`${label}:`, x, 75 + i * 10);
+      doc.setFont(theme.fontFamily, "normal");
+      doc.text(value, x + 45, 75 + i * 10);
+    });
+  },
+};
+
+export const reportTemplates: Record<ReportTemplateId, ReportTemplate> = {
+  "medco-standard": medcoStandard,
+  "custom-teal": customTeal,
+  "plain": plain,
+};
+
+export const getReportTemplate = (id: ReportTemplateId): ReportTemplate =>
+  reportTemplates[id] ?? customTeal;
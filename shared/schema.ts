@@ -1,6 +1,7 @@
-import { pgTable, text, serial, integer, boolean, date, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, date, timestamp, jsonb, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { userRoles } from "./permissions";
 
 // User model for authentication
 export const users = pgTable("users", {
@@ -8,10 +9,12 @@ export const users = pgTable("users", {
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   fullName: text("full_name").notNull(),
-  role: text("role").notNull().default("user"),
+  role: text("role").notNull().default("secretary"), // doctor, secretary, admin; older "user" rows become doctors at startup
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
+export const insertUserSchema = createInsertSchema(users, {
+  role: z.enum(userRoles),
+}).pick({
   username: true,
   password: true,
   fullName: true,
@@ -22,7 +25,8 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export const cases = pgTable("cases", {
   id: serial("id").primaryKey(),
   caseNumber: text("case_number").notNull().unique(),
-  status: text("status").notNull().default("in_progress"), // in_progress, completed, archived
+  status: text("status").notNull().default("draft"), // see caseStatuses in case-status.ts
+  revision: integer("revision").notNull().default(1), // bumped on every update; the case's ETag
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
   userId: integer("user_id").notNull(),
@@ -54,6 +58,12 @@ export const cases = pgTable("cases", {
   // Prognosis
   prognosis: jsonb("prognosis"),
   
+  // Clinical Examination
+  examination: jsonb("examination"),
+  
+  // Medical Records Review
+  medicalRecordsReview: jsonb("medical_records_review"),
+  
   // Medical Expert Details
   expertDetails: jsonb("expert_details"),
   
@@ -63,6 +73,7 @@ export const cases = pgTable("cases", {
 
 export const insertCaseSchema = createInsertSchema(cases).omit({
   id: true,
+  revision: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -70,11 +81,209 @@ export const insertCaseSchema = createInsertSchema(cases).omit({
 export const updateCaseSchema = createInsertSchema(cases).omit({
   id: true,
   caseNumber: true,
+  revision: true,
   createdAt: true,
   updatedAt: true,
   userId: true,
 });
 
+// Last case number handed out in each numbering series, e.g. scope "MED-2025-".
+// Series are per installation, not per organisation; see server/case-numbers.ts.
+export const caseNumberCounters = pgTable("case_number_counters", {
+  scope: text("scope").primaryKey(),
+  lastNumber: integer("last_number").notNull(),
+});
+
+// Append-only audit trail of changes made to cases
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  caseId: integer("case_id").notNull(),
+  userId: integer("user_id").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  route: text("route").notNull(), // e.g. PUT /api/cases/:id/physical-injury
+  changes: jsonb("changes").notNull(), // AuditChange[]
+});
+
+export const insertAuditEventSchema = createInsertSchema(auditEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Immutable snapshot of a case taken each time its report is issued
+export const reportVersions = pgTable("report_versions", {
+  id: serial("id").primaryKey(),
+  caseId: integer("case_id").notNull(),
+  version: integer("version").notNull(), // 1, 2, 3... per case
+  issuedBy: integer("issued_by").notNull(),
+  issuedAt: timestamp("issued_at").notNull().defaultNow(),
+  snapshot: jsonb("snapshot").notNull(), // full Case row as issued
+  pdfData: text("pdf_data").notNull(), // base64-encoded PDF as issued
+}, (table) => ({
+  caseVersionUnique: unique().on(table.caseId, table.version),
+}));
+
+export const insertReportVersionSchema = createInsertSchema(reportVersions).omit({
+  id: true,
+  version: true,
+  issuedAt: true,
+});
+
+export const caseDocumentCategories = [
+  "Instruction Letter",
+  "Identification",
+  "Medical Records",
+  "Correspondence",
+  "Other",
+] as const;
+
+// Attachment types we accept, with the file extensions each may carry
+export const attachmentTypes: Record<string, string[]> = {
+  "application/pdf": [".pdf"],
+  "image/jpeg": [".jpg", ".jpeg"],
+  "image/png": [".png"],
+  "image/tiff": [".tif", ".tiff"],
+  "application/msword": [".doc"],
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [".docx"],
+};
+
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+// Files attached to a case; the bytes live in the file storage backend
+export const caseDocuments = pgTable("case_documents", {
+  id: serial("id").primaryKey(),
+  caseId: integer("case_id").notNull(),
+  fileName: text("file_name").notNull(), // as uploaded
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(), // bytes
+  category: text("category").notNull().default("Other"),
+  storageKey: text("storage_key").notNull().unique(), // location within the storage backend
+  uploadedBy: integer("uploaded_by").notNull(),
+  uploadedAt: timestamp("uploaded_at").notNull().defaultNow(),
+});
+
+export const insertCaseDocumentSchema = createInsertSchema(caseDocuments, {
+  category: z.enum(caseDocumentCategories),
+}).omit({
+  id: true,
+  uploadedAt: true,
+});
+
+// How an examination at a venue takes place
+export const venueTypes = ["face_to_face", "remote_video", "home_visit"] as const;
+export type VenueType = typeof venueTypes[number];
+
+export const venueTypeLabels: Record<VenueType, string> = {
+  face_to_face: "Face to Face",
+  remote_video: "Remote Video",
+  home_visit: "Home Visit",
+};
+
+// Where claimants are examined. Venues are retired rather than deleted, since
+// cases keep the address they were examined at.
+export const venues = pgTable("venues", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(), // e.g. "Preston - Ibis Garstang Rd"
+  address: text("address").notNull(), // postal address, or the video platform for remote venues
+  type: text("type").notNull().default("face_to_face"), // see venueTypes
+  active: boolean("active").notNull().default(true),
+});
+
+export const insertVenueSchema = createInsertSchema(venues, {
+  name: z.string().min(1, "Name is required"),
+  address: z.string().min(1, "Address is required"),
+  type: z.enum(venueTypes),
+}).omit({
+  id: true,
+});
+
+// A medical expert's details as printed on their reports. The signature and
+// letterhead images are kept by the file storage backend.
+export const experts = pgTable("experts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").unique(), // doctor account whose cases this expert signs
+  name: text("name").notNull(), // as printed, e.g. "Dr. Jane Smith"
+  qualifications: text("qualifications").notNull(), // e.g. "MBChB, MRCGP"
+  gmcNumber: text("gmc_number").notNull(),
+  medcoRegistration: text("medco_registration"),
+  specialty: text("specialty"),
+  experienceYears: integer("experience_years"),
+  contactInformation: text("contact_information"),
+  defaultVenueId: integer("default_venue_id"), // venue picked for their new cases
+  cv: text("cv"), // printed as the expert's CV appendix
+  signatureKey: text("signature_key"),
+  signatureContentType: text("signature_content_type"),
+  letterheadKey: text("letterhead_key"),
+  letterheadContentType: text("letterhead_content_type"),
+  // Secret in the URL of the expert's .ics feed, which calendar apps fetch without logging in
+  calendarToken: text("calendar_token").unique(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertExpertSchema = createInsertSchema(experts, {
+  name: z.string().min(1, "Name is required"),
+  qualifications: z.string().min(1, "Qualifications are required"),
+  // GMC reference numbers are seven digits
+  gmcNumber: z.string().regex(/^\d{7}$/, "GMC number must be 7 digits"),
+  experienceYears: z.number().int().min(0).nullish(),
+}).omit({
+  id: true,
+  signatureKey: true,
+  signatureContentType: true,
+  letterheadKey: true,
+  letterheadContentType: true,
+  calendarToken: true,
+  updatedAt: true,
+});
+
+// Signature and letterhead images are drawn into the PDF, which takes JPEG or PNG
+export const expertImageTypes: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+};
+
+export const MAX_EXPERT_IMAGE_BYTES = 2 * 1024 * 1024;
+
+// Booked is the only open state; the others record how the slot ended
+export const appointmentStatuses = ["booked", "attended", "did_not_attend", "cancelled"] as const;
+export type AppointmentStatus = typeof appointmentStatuses[number];
+
+export const appointmentStatusLabels: Record<AppointmentStatus, string> = {
+  booked: "Booked",
+  attended: "Attended",
+  did_not_attend: "Did Not Attend",
+  cancelled: "Cancelled",
+};
+
+// A claimant's examination slot with an expert at a venue
+export const appointments = pgTable("appointments", {
+  id: serial("id").primaryKey(),
+  caseId: integer("case_id").notNull(),
+  expertId: integer("expert_id").notNull(),
+  venueId: integer("venue_id").notNull(),
+  startsAt: timestamp("starts_at").notNull(),
+  durationMinutes: integer("duration_minutes").notNull().default(30),
+  status: text("status").notNull().default("booked"), // see appointmentStatuses
+  notes: text("notes"),
+  bookedBy: integer("booked_by").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertAppointmentSchema = createInsertSchema(appointments, {
+  // Sent as an ISO string
+  startsAt: z.coerce.date(),
+  durationMinutes: z.number().int().min(5, "Appointments are at least 5 minutes").max(240, "Appointments are at most 4 hours"),
+}).omit({
+  id: true,
+  status: true,
+  bookedBy: true,
+  createdAt: true,
+});
+
+// Closing a booked appointment
+export const appointmentOutcomeSchema = z.object({
+  status: z.enum(["attended", "did_not_attend", "cancelled"]),
+});
+
 // Define the nested schemas for each section
 export const claimantDetailsSchema = z.object({
   fullName: z.string().min(1, "Name is required"),
@@ -89,14 +298,17 @@ export const claimantDetailsSchema = z.object({
   // Default date of report to today's date
   dateOfReport: z.string().default(() => new Date().toISOString().split('T')[0]),
   dateOfExamination: z.string().optional(),
+  // Start time as "HH:mm", blank until known; with timeSpent it places the
+  // examination in calendars
+  examinationTime: z.string().regex(/^(([01]\d|2[0-3]):[0-5]\d)?$/, "Use a 24-hour time like 09:30").optional(),
   timeSpent: z.string().default("15 min"),
   helpWithCommunication: z.boolean().default(false),
   interpreterName: z.string().optional(),
   interpreterRelationship: z.string().optional(),
-  placeOfExamination: z.enum([
-    "Face to Face at Meeting Room, North, Ibis, Garstang Rd, Preston PR3 5JE",
-    "Regus Office, Centenary Way, Salford M50 1RF"
-  ]).default("Face to Face at Meeting Room, North, Ibis, Garstang Rd, Preston PR3 5JE"),
+  // Venue the examination took place at; its description is copied into
+  // placeOfExamination so the report keeps it if the venue changes later
+  venueId: z.number().int().positive().optional(),
+  placeOfExamination: z.string().optional(),
   phone: z.string().optional(),
   email: z.string().email("Invalid email address").optional(),
   // Added new fields
@@ -127,6 +339,25 @@ export const accidentDetailsSchema = z.object({
   accidentDescription: z.string().optional(),
 });
 
+// The expert's prognosis for a single injury
+export const injuryPrognosisSchema = z.object({
+  periodMonths: z.number().int().min(0).max(60).optional(), // Expected recovery, in months from the accident
+  resolved: z.boolean().default(false),
+  dateResolved: z.string().optional(),
+  referralNeeded: z.boolean().default(false),
+  referralDetails: z.string().optional(), // Who to refer to and why
+}).superRefine((prognosis, ctx) => {
+  if (prognosis.resolved && !prognosis.dateResolved) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["dateResolved"], message: "Date resolved is required" });
+  }
+  if (!prognosis.resolved && prognosis.periodMonths === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["periodMonths"], message: "Prognosis period is required" });
+  }
+  if (prognosis.referralNeeded && !prognosis.referralDetails) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["referralDetails"], message: "Referral details are required" });
+  }
+});
+
 export const physicalInjurySchema = z.object({
   injuries: z.array(
     z.object({
@@ -137,7 +368,11 @@ export const physicalInjurySchema = z.object({
       currentSeverity: z.enum(["Mild", "Moderate", "Severe", "Resolved"]),
       resolutionDays: z.string().optional(), // If resolved, how many days it took
       mechanism: z.string(), // Auto-populated based on injury type
-      classification: z.string() // Auto-populated based on injury type
+      classification: z.string(), // Auto-populated based on injury type
+      prognosis: injuryPrognosisSchema,
+    }).refine(injury => injury.currentSeverity !== "Resolved" || injury.prognosis.resolved, {
+      message: "A resolved injury must have a resolved prognosis",
+      path: ["prognosis", "resolved"],
     })
   ).optional(),
   otherInjuriesDescription: z.string().optional(),
@@ -145,6 +380,31 @@ export const physicalInjurySchema = z.object({
   physicalInjurySummary: z.string().optional(), // Summary of all physical injuries
 });
 
+// Physical injury details checked against the accident date, which lives in
+// another section; used by both the form and the API
+export const physicalInjuryForAccidentSchema = (accidentDate?: string) =>
+  physicalInjurySchema.superRefine((details, ctx) => {
+    const today = new Date().toISOString().split('T')[0];
+    (details.injuries ?? []).forEach((injury, index) => {
+      const { dateResolved } = injury.prognosis;
+      if (!dateResolved) return;
+      if (accidentDate && dateResolved < accidentDate) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["injuries", index, "prognosis", "dateResolved"],
+          message: "Date resolved cannot be before the accident date",
+        });
+      }
+      if (dateResolved > today) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["injuries", index, "prognosis", "dateResolved"],
+          message: "Date resolved cannot be in the future",
+        });
+      }
+    });
+  });
+
 export const psychologicalInjuriesSchema = z.object({
   travelAnxietySymptoms: z.array(z.string()).optional(),
   travelAnxietyOnset: z.enum(["Same Day", "Next Day", "Few Days Later"]).optional(),
@@ -153,6 +413,88 @@ export const psychologicalInjuriesSchema = z.object({
   travelAnxietyResolutionDays: z.string().optional()
 });
 
+export const spinalRegions = ["Cervical", "Thoracic", "Lumbar"] as const;
+export const spinalMovements = [
+  "Flexion",
+  "Extension",
+  "Left Lateral Flexion",
+  "Right Lateral Flexion",
+  "Left Rotation",
+  "Right Rotation",
+] as const;
+const neurologicalFinding = z.enum(["Normal", "Abnormal", "Not Tested"]).default("Normal");
+
+export const examinationSchema = z.object({
+  generalObservations: z.string().optional(), // Gait, posture, demeanour, undressing
+  regions: z.array(
+    z.object({
+      region: z.enum(spinalRegions),
+      examined: z.boolean().default(true),
+      tenderness: z.enum(["None", "Mild", "Moderate", "Severe"]).default("None"),
+      tendernessSite: z.string().optional(), // e.g. "paraspinal muscles and trapezius"
+      // Range of movement is recorded either in degrees or as a percentage of normal
+      rangeOfMovementUnit: z.enum(["Degrees", "Percent"]).default("Percent"),
+      rangeOfMovement: z.array(
+        z.object({
+          movement: z.enum(spinalMovements),
+          value: z.number().min(0).max(360).optional(),
+          painful: z.boolean().default(false),
+        })
+      ),
+      observations: z.string().optional(),
+    }).refine(region => region.rangeOfMovementUnit !== "Percent" ||
+      region.rangeOfMovement.every(rom => rom.value === undefined || rom.value <= 100), {
+      message: "Percentages cannot exceed 100",
+      path: ["rangeOfMovement"],
+    })
+  ),
+  neurological: z.object({
+    reflexes: neurologicalFinding,
+    power: neurologicalFinding,
+    sensation: neurologicalFinding,
+    notes: z.string().optional(), // Details of any abnormal finding
+  }),
+  otherFindings: z.string().optional(),
+});
+
+export const medicalRecordSources = [
+  "GP Records",
+  "A&E Records",
+  "Hospital Records",
+  "Ambulance Records",
+  "Physiotherapy Records",
+  "Other",
+] as const;
+
+export const medicalRecordsReviewSchema = z.object({
+  // Each bundle of notes that was seen
+  documents: z.array(
+    z.object({
+      source: z.enum(medicalRecordSources),
+      description: z.string().optional(), // e.g. "Royal Preston Hospital ED card"
+      dateFrom: z.string().optional(),
+      dateTo: z.string().optional(),
+      pages: z.number().int().min(1).optional(),
+    }).refine(document => !document.dateFrom || !document.dateTo || document.dateFrom <= document.dateTo, {
+      message: "End date cannot be before start date",
+      path: ["dateTo"],
+    })
+  ).default([]),
+  // Individual entries in those records that bear on the claim
+  entries: z.array(
+    z.object({
+      date: z.string().min(1, "Date is required"),
+      source: z.enum(medicalRecordSources),
+      clinician: z.string().optional(),
+      finding: z.string().min(1, "Finding is required"),
+      relationToAccount: z.enum(["Supports", "Contradicts", "Neutral"]).default("Supports"),
+    })
+  ).default([]),
+  // The expert's overall view of the records against the claimant's account
+  overallConsistency: z.enum(["Supports", "Partially Supports", "Contradicts", "Not Applicable"]).default("Not Applicable"),
+  commentary: z.string().optional(),
+});
+
 export const treatmentsSchema = z.object({
   // Accident scene treatment
   receivedTreatmentAtScene: z.boolean().optional(),
@@ -315,6 +657,8 @@ export const prognosisSchema = z.object({
 });
 
 export const expertDetailsSchema = z.object({
+  // Expert profile the details below are filled from; the profile wins on the report
+  expertId: z.number().int().positive().optional(),
   examiner: z.string().min(1, "Examiner name is required"),
   credentials: z.string().min(1, "Credentials are required"),
   licensureState: z.string().optional(),
@@ -328,18 +672,78 @@ export const expertDetailsSchema = z.object({
 // Export types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
 
 export type InsertCase = z.infer<typeof insertCaseSchema>;
 export type UpdateCase = z.infer<typeof updateCaseSchema>;
 export type Case = typeof cases.$inferSelect;
 
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+
+// A single changed value within a case, addressed by a dotted path such as
+// "physicalInjuryDetails.injuries.0.currentSeverity"
+export interface AuditChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Audit event as returned by the API, with the acting user's name resolved
+export type AuditEventWithUser = AuditEvent & {
+  userFullName: string;
+};
+
+export type InsertReportVersion = z.infer<typeof insertReportVersionSchema>;
+export type ReportVersion = typeof reportVersions.$inferSelect;
+
+// Report version as listed by the API, without the snapshot or PDF payload
+export type ReportVersionSummary = Omit<ReportVersion, "snapshot" | "pdfData"> & {
+  issuedByName: string;
+};
+
+export type InsertCaseDocument = z.infer<typeof insertCaseDocumentSchema>;
+export type CaseDocument = typeof caseDocuments.$inferSelect;
+
+// Attachment as listed by the API, with the uploader's name resolved
+export type CaseDocumentWithUser = Omit<CaseDocument, "storageKey"> & {
+  uploadedByName: string;
+};
+
+export type InsertVenue = z.infer<typeof insertVenueSchema>;
+export type Venue = typeof venues.$inferSelect;
+
+export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
+export type Appointment = typeof appointments.$inferSelect;
+
+// Appointment with the names a clinic list or case needs to show it
+export type AppointmentWithDetails = Appointment & {
+  caseNumber: string;
+  claimantName: string | null;
+  expertName: string;
+  venueName: string;
+};
+
+export type InsertExpert = z.infer<typeof insertExpertSchema>;
+export type Expert = typeof experts.$inferSelect;
+
+// Expert as returned by the API; storage keys stay on the server
+export type PublicExpert = Omit<Expert, "signatureKey" | "signatureContentType" | "letterheadKey" | "letterheadContentType" | "calendarToken"> & {
+  hasSignature: boolean;
+  hasLetterhead: boolean;
+  hasCalendarFeed: boolean;
+};
+
 export type ClaimantDetails = z.infer<typeof claimantDetailsSchema>;
 export type AccidentDetails = z.infer<typeof accidentDetailsSchema>;
 export type PhysicalInjury = z.infer<typeof physicalInjurySchema>;
+export type InjuryPrognosis = z.infer<typeof injuryPrognosisSchema>;
 export type PsychologicalInjuries = z.infer<typeof psychologicalInjuriesSchema>;
 export type Treatments = z.infer<typeof treatmentsSchema>;
 export type LifestyleImpact = z.infer<typeof lifestyleImpactSchema>;
 export type FamilyHistory = z.infer<typeof familyHistorySchema>;
 export type WorkHistory = z.infer<typeof workHistorySchema>;
 export type Prognosis = z.infer<typeof prognosisSchema>;
+export type Examination = z.infer<typeof examinationSchema>;
+export type MedicalRecordsReview = z.infer<typeof medicalRecordsReviewSchema>;
 export type ExpertDetails = z.infer<typeof expertDetailsSchema>;
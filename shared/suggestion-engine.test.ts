@@ -0,0 +1,539 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Case } from "./schema";
+import { analyzeCaseCompleteness, type Suggestion, type SuggestionSeverity } from "./suggestion-engine";
+
+type SectionColumn =
+  | "claimantDetails"
+  | "accidentDetails"
+  | "physicalInjuryDetails"
+  | "psychologicalInjuries"
+  | "examination"
+  | "treatments"
+  | "lifestyleImpact"
+  | "familyHistory"
+  | "expertDetails"
+  | "medicalRecordsReview";
+
+// Fields to change in each section of the complete case
+type SectionOverrides = Partial<Record<SectionColumn, Record<string, unknown>>>;
+
+const neckInjury = {
+  type: "Neck",
+  onsetTime: "Same Day",
+  initialSeverity: "Moderate",
+  currentSeverity: "Mild",
+  mechanism: "Flexion-extension of the cervical spine",
+  classification: "Whiplash associated disorder grade II",
+  prognosis: { periodMonths: 6, resolved: false, referralNeeded: false },
+};
+
+const resolvedNeckInjury = {
+  ...neckInjury,
+  currentSeverity: "Resolved",
+  prognosis: { resolved: true, dateResolved: "2025-02-20", referralNeeded: false },
+};
+
+const cervicalRegion = {
+  region: "Cervical",
+  examined: true,
+  tenderness: "Mild",
+  rangeOfMovementUnit: "Percent",
+  rangeOfMovement: [{ movement: "Flexion", value: 80, painful: true }],
+};
+
+const supportingEntry = {
+  date: "2025-01-10",
+  source: "A&E Records",
+  finding: "Neck pain after a rear-end collision",
+  relationToAccount: "Supports",
+};
+
+const contradictingEntry = { ...supportingEntry, relationToAccount: "Contradicts" };
+
+// A case with every section filled in well enough that no rule fires
+const completeSections: Record<SectionColumn, Record<string, unknown>> = {
+  claimantDetails: {
+    fullName: "Jane Claimant",
+    dateOfBirth: "1985-06-01",
+    gender: "Female",
+    address: "1 High Street, Preston",
+    accompaniedBy: "Alone",
+    dateOfReport: "2025-03-10",
+    dateOfExamination: "2025-03-01",
+    timeSpent: "30 min",
+    helpWithCommunication: false,
+    medcoRefNumber: "MED123456",
+  },
+  accidentDetails: {
+    accidentDate: "2025-01-10",
+    accidentType: "Rear-end collision",
+    vehicleLocation: "Main Road",
+    claimantPosition: "Driver",
+    impactLocation: "Rear",
+    seatBeltWorn: true,
+    headRestFitted: true,
+    airBagDeployed: false,
+    accidentDescription: "Stationary at traffic lights when struck from behind by a car.",
+  },
+  physicalInjuryDetails: {
+    injuries: [neckInjury],
+  },
+  psychologicalInjuries: {
+    travelAnxietySymptoms: ["Nervous as a passenger"],
+    travelAnxietyOnset: "Same Day",
+    travelAnxietyInitialSeverity: "Moderate",
+    travelAnxietyCurrentSeverity: "Mild",
+  },
+  examination: {
+    regions: [cervicalRegion],
+    neurological: { reflexes: "Normal", power: "Normal", sensation: "Normal" },
+  },
+  treatments: {
+    receivedTreatmentAtScene: false,
+    wentToHospital: true,
+    hospitalName: "Royal Preston Hospital",
+    hospitalXRay: true,
+    wentToGPWalkIn: true,
+    daysToGPWalkIn: "3",
+    takingParacetamol: true,
+    treatmentSummary: "X-rayed at A&E, then seen by the GP three days later.",
+  },
+  lifestyleImpact: {
+    workStatus: "Full-time",
+    currentJobTitle: "Delivery driver",
+    workDifficulties: ["Driving for long periods"],
+    daysOffWork: "5",
+    hasSleepDisturbance: true,
+    sleepDisturbances: ["Woken by pain"],
+    hasDomesticImpact: false,
+    hasSportLeisureImpact: false,
+    hasSocialImpact: false,
+  },
+  familyHistory: {
+    hasPreviousAccident: false,
+    hasPreviousMedicalCondition: false,
+  },
+  expertDetails: {
+    examiner: "Dr Jane Smith",
+    credentials: "MBChB, MRCGP",
+  },
+  medicalRecordsReview: {
+    documents: [{ source: "A&E Records" }, { source: "GP Records" }],
+    entries: [supportingEntry],
+    overallConsistency: "Supports",
+  },
+};
+
+function caseWith(overrides: SectionOverrides = {}, missing: SectionColumn[] = []): Case {
+  const sections = Object.fromEntries(
+    (Object.keys(completeSections) as SectionColumn[]).map(section => [
+      section,
+      missing.includes(section) ? null : { ...completeSections[section], ...overrides[section] },
+    ]),
+  );
+  return {
+    id: 1,
+    caseNumber: "MED-2025-001",
+    status: "draft",
+    revision: 1,
+    createdAt: new Date("2025-03-01T09:00:00Z"),
+    updatedAt: new Date("2025-03-01T09:00:00Z"),
+    userId: 1,
+    workHistory: null,
+    prognosis: null,
+    completionPercentage: 0,
+    ...sections,
+  } as Case;
+}
+
+interface RuleFixture {
+  rule: string;
+  expected: { sectionId: string; field: string; severity: SuggestionSeverity; message: string };
+  // Changes to the complete case that make the rule fire
+  fires: SectionOverrides;
+  // The nearest changes that shouldn't
+  quiet: SectionOverrides;
+}
+
+const findSuggestion = (suggestions: Suggestion[], expected: RuleFixture["expected"]) =>
+  suggestions.find(s => s.sectionId === expected.sectionId && s.field === expected.field && s.message.includes(expected.message));
+
+const fixtures: RuleFixture[] = [
+  // Claimant details
+  {
+    rule: "claimant name too short",
+    expected: { sectionId: "claimant", field: "fullName", severity: "critical", message: "Claimant name is missing" },
+    fires: { claimantDetails: { fullName: "Jo" } },
+    quiet: { claimantDetails: { fullName: "Joe" } },
+  },
+  {
+    rule: "date of birth missing",
+    expected: { sectionId: "claimant", field: "dateOfBirth", severity: "critical", message: "Date of birth is required" },
+    fires: { claimantDetails: { dateOfBirth: "" } },
+    quiet: { claimantDetails: { dateOfBirth: "1990-01-01" } },
+  },
+  {
+    rule: "date of examination missing",
+    expected: { sectionId: "claimant", field: "dateOfExamination", severity: "critical", message: "Date of examination is missing" },
+    fires: { claimantDetails: { dateOfExamination: undefined } },
+    quiet: { claimantDetails: { dateOfExamination: "2025-03-02" } },
+  },
+  {
+    rule: "report dated before the examination",
+    expected: { sectionId: "claimant", field: "dateOfReport", severity: "warning", message: "dated before the examination" },
+    fires: { claimantDetails: { dateOfReport: "2025-02-28" } },
+    quiet: { claimantDetails: { dateOfReport: "2025-03-01" } },
+  },
+  {
+    rule: "address incomplete",
+    expected: { sectionId: "claimant", field: "address", severity: "warning", message: "Address is missing or incomplete" },
+    fires: { claimantDetails: { address: "Lane" } },
+    quiet: { claimantDetails: { address: "Lane1" } },
+  },
+  {
+    rule: "MedCo reference missing",
+    expected: { sectionId: "claimant", field: "medcoRefNumber", severity: "warning", message: "MedCo reference number is missing" },
+    fires: { claimantDetails: { medcoRefNumber: " " } },
+    quiet: { claimantDetails: { medcoRefNumber: "M1" } },
+  },
+  {
+    rule: "interpreter not named",
+    expected: { sectionId: "claimant", field: "interpreterName", severity: "warning", message: "no interpreter is named" },
+    fires: { claimantDetails: { helpWithCommunication: true } },
+    quiet: { claimantDetails: { helpWithCommunication: true, interpreterName: "Sam Patel" } },
+  },
+  {
+    rule: "interpreter relationship missing",
+    expected: { sectionId: "claimant", field: "interpreterRelationship", severity: "info", message: "interpreter's relationship" },
+    fires: { claimantDetails: { helpWithCommunication: true, interpreterName: "Sam Patel" } },
+    quiet: { claimantDetails: { helpWithCommunication: true, interpreterName: "Sam Patel", interpreterRelationship: "Professional interpreter" } },
+  },
+  {
+    rule: "time spent missing",
+    expected: { sectionId: "claimant", field: "timeSpent", severity: "info", message: "Time spent with claimant is missing" },
+    fires: { claimantDetails: { timeSpent: "" } },
+    quiet: { claimantDetails: { timeSpent: "15 min" } },
+  },
+
+  // Accident details
+  {
+    rule: "accident date missing",
+    expected: { sectionId: "accident", field: "accidentDate", severity: "critical", message: "Date of accident is required" },
+    fires: { accidentDetails: { accidentDate: "" } },
+    quiet: { accidentDetails: { accidentDate: "2025-01-11" } },
+  },
+  {
+    rule: "accident description too brief",
+    expected: { sectionId: "accident", field: "accidentDescription", severity: "critical", message: "Accident description is missing or too brief" },
+    fires: { accidentDetails: { accidentDescription: "Hit from behind." } },
+    quiet: { accidentDetails: { accidentDescription: "Hit from behind, lights" } },
+  },
+  {
+    rule: "location of accident missing",
+    expected: { sectionId: "accident", field: "vehicleLocation", severity: "warning", message: "Location of accident" },
+    fires: { accidentDetails: { vehicleLocation: undefined } },
+    quiet: { accidentDetails: { vehicleLocation: "Other" } },
+  },
+  {
+    rule: "claimant's position missing",
+    expected: { sectionId: "accident", field: "claimantPosition", severity: "info", message: "position in the vehicle" },
+    fires: { accidentDetails: { claimantPosition: undefined } },
+    quiet: { accidentDetails: { claimantPosition: "Rear Passenger" } },
+  },
+  {
+    rule: "point of impact missing",
+    expected: { sectionId: "accident", field: "impactLocation", severity: "info", message: "Where the vehicle was struck" },
+    fires: { accidentDetails: { impactLocation: undefined } },
+    quiet: { accidentDetails: { impactLocation: "Front" } },
+  },
+
+  // Physical injuries
+  {
+    rule: "no injuries recorded",
+    expected: { sectionId: "physical", field: "injuries", severity: "critical", message: "No physical injuries" },
+    fires: { physicalInjuryDetails: { injuries: [] } },
+    quiet: { physicalInjuryDetails: { injuries: [{ ...neckInjury, type: "Lower Back" }] } },
+  },
+  {
+    rule: "\"Other\" injury not described",
+    expected: { sectionId: "physical", field: "injuries", severity: "warning", message: "recorded as \"Other\" without a description" },
+    fires: { physicalInjuryDetails: { injuries: [{ ...neckInjury, type: "Other" }] } },
+    quiet: { physicalInjuryDetails: { injuries: [{ ...neckInjury, type: "Other", description: "Wrist pain" }] } },
+  },
+  {
+    rule: "resolved injury without resolution time",
+    expected: { sectionId: "physical", field: "injuries", severity: "info", message: "how many days they took to resolve" },
+    fires: { physicalInjuryDetails: { injuries: [resolvedNeckInjury] } },
+    quiet: { physicalInjuryDetails: { injuries: [{ ...resolvedNeckInjury, resolutionDays: "40" }] } },
+  },
+
+  // Psychological injuries
+  {
+    rule: "travel anxiety onset missing",
+    expected: { sectionId: "psychological", field: "travelAnxietyOnset", severity: "warning", message: "their onset is missing" },
+    fires: { psychologicalInjuries: { travelAnxietyOnset: undefined } },
+    quiet: { psychologicalInjuries: { travelAnxietySymptoms: [], travelAnxietyOnset: undefined } },
+  },
+  {
+    rule: "travel anxiety severity missing",
+    expected: { sectionId: "psychological", field: "travelAnxietyInitialSeverity", severity: "warning", message: "their severity is missing" },
+    fires: { psychologicalInjuries: { travelAnxietyCurrentSeverity: undefined } },
+    quiet: { psychologicalInjuries: { travelAnxietySymptoms: [], travelAnxietyInitialSeverity: undefined, travelAnxietyCurrentSeverity: undefined } },
+  },
+  {
+    rule: "travel anxiety resolution time missing",
+    expected: { sectionId: "psychological", field: "travelAnxietyResolutionDays", severity: "info", message: "Travel anxiety has resolved" },
+    fires: { psychologicalInjuries: { travelAnxietyCurrentSeverity: "Resolved" } },
+    quiet: { psychologicalInjuries: { travelAnxietyCurrentSeverity: "Resolved", travelAnxietyResolutionDays: "60" } },
+  },
+
+  // Examination
+  {
+    rule: "no spinal region examined",
+    expected: { sectionId: "examination", field: "regions", severity: "warning", message: "No spinal region is marked as examined" },
+    fires: { examination: { regions: [{ ...cervicalRegion, examined: false }] } },
+    quiet: { examination: { regions: [{ ...cervicalRegion, examined: false }, { ...cervicalRegion, region: "Lumbar" }] } },
+  },
+  {
+    rule: "abnormal neurology without notes",
+    expected: { sectionId: "examination", field: "neurological", severity: "warning", message: "abnormal neurological finding" },
+    fires: { examination: { neurological: { reflexes: "Normal", power: "Abnormal", sensation: "Normal" } } },
+    quiet: { examination: { neurological: { reflexes: "Normal", power: "Abnormal", sensation: "Normal", notes: "Reduced grip, left hand" } } },
+  },
+
+  // Treatments
+  {
+    rule: "treatment at scene not detailed",
+    expected: { sectionId: "treatments", field: "receivedTreatmentAtScene", severity: "info", message: "Treatment at scene is indicated" },
+    fires: { treatments: { receivedTreatmentAtScene: true } },
+    quiet: { treatments: { receivedTreatmentAtScene: true, sceneFirstAid: true } },
+  },
+  {
+    rule: "other scene treatment not described",
+    expected: { sectionId: "treatments", field: "sceneOtherTreatmentDetails", severity: "info", message: "Other treatment at the scene" },
+    fires: { treatments: { sceneOtherTreatment: true } },
+    quiet: { treatments: { sceneOtherTreatment: true, sceneOtherTreatmentDetails: "Ice pack" } },
+  },
+  {
+    rule: "hospital not named",
+    expected: { sectionId: "treatments", field: "hospitalName", severity: "warning", message: "the hospital is not named" },
+    fires: { treatments: { hospitalName: "" } },
+    quiet: { treatments: { wentToHospital: false, hospitalName: "" } },
+  },
+  {
+    rule: "hospital treatment not detailed",
+    expected: { sectionId: "treatments", field: "wentToHospital", severity: "warning", message: "details of examinations or treatments" },
+    fires: { treatments: { hospitalXRay: false } },
+    quiet: { treatments: { hospitalXRay: false, hospitalNoTreatment: true } },
+  },
+  {
+    rule: "other hospital treatment not described",
+    expected: { sectionId: "treatments", field: "hospitalOtherTreatmentDetails", severity: "info", message: "Other hospital treatment" },
+    fires: { treatments: { hospitalOtherTreatment: true } },
+    quiet: { treatments: { hospitalOtherTreatment: true, hospitalOtherTreatmentDetails: "Soft collar" } },
+  },
+  {
+    rule: "GP attendance not dated",
+    expected: { sectionId: "treatments", field: "daysToGPWalkIn", severity: "info", message: "not when it happened" },
+    fires: { treatments: { daysToGPWalkIn: "" } },
+    quiet: { treatments: { wentToGPWalkIn: false, daysToGPWalkIn: "" } },
+  },
+  {
+    rule: "other medication not named",
+    expected: { sectionId: "treatments", field: "otherMedicationDetails", severity: "info", message: "Other medication is ticked" },
+    fires: { treatments: { takingOtherMedication: true } },
+    quiet: { treatments: { takingOtherMedication: true, otherMedicationDetails: "Naproxen" } },
+  },
+  {
+    rule: "treatment summary missing",
+    expected: { sectionId: "treatments", field: "treatmentSummary", severity: "info", message: "Treatment summary is missing" },
+    fires: { treatments: { treatmentSummary: " " } },
+    quiet: { treatments: { treatmentSummary: "GP only." } },
+  },
+  {
+    rule: "injuries without any treatment",
+    expected: { sectionId: "treatments", field: "receivedTreatmentAtScene", severity: "warning", message: "no treatments are documented" },
+    fires: { treatments: { wentToHospital: false, wentToGPWalkIn: false, takingParacetamol: false } },
+    quiet: { treatments: { wentToHospital: false, wentToGPWalkIn: false, takingParacetamol: false, physiotherapySessions: "6" } },
+  },
+
+  // Impact on lifestyle
+  {
+    rule: "occupation missing for someone in work",
+    expected: { sectionId: "lifestyle", field: "currentJobTitle", severity: "warning", message: "Occupation should be included" },
+    fires: { lifestyleImpact: { currentJobTitle: "" } },
+    quiet: { lifestyleImpact: { workStatus: "Retired", currentJobTitle: "" } },
+  },
+  {
+    rule: "days off work missing",
+    expected: { sectionId: "lifestyle", field: "daysOffWork", severity: "warning", message: "days off work are not specified" },
+    fires: { lifestyleImpact: { daysOffWork: "" } },
+    quiet: { lifestyleImpact: { workDifficulties: [], daysOffWork: "" } },
+  },
+  {
+    rule: "sleep disturbances not listed",
+    expected: { sectionId: "lifestyle", field: "sleepDisturbances", severity: "info", message: "Sleep disturbance is indicated" },
+    fires: { lifestyleImpact: { sleepDisturbances: [] } },
+    quiet: { lifestyleImpact: { sleepDisturbances: [], sleepOtherDetails: "Cannot lie on her side" } },
+  },
+  {
+    rule: "domestic impact not detailed",
+    expected: { sectionId: "lifestyle", field: "domesticActivities", severity: "info", message: "Domestic impact is indicated" },
+    fires: { lifestyleImpact: { hasDomesticImpact: true } },
+    quiet: { lifestyleImpact: { hasDomesticImpact: true, domesticActivities: ["Vacuuming"] } },
+  },
+  {
+    rule: "sport and leisure impact not detailed",
+    expected: { sectionId: "lifestyle", field: "sportLeisureActivities", severity: "info", message: "Sport/leisure impact is indicated" },
+    fires: { lifestyleImpact: { hasSportLeisureImpact: true } },
+    quiet: { lifestyleImpact: { hasSportLeisureImpact: true, sportLeisureOtherDetails: "Stopped going to the gym" } },
+  },
+  {
+    rule: "social impact not detailed",
+    expected: { sectionId: "lifestyle", field: "socialActivities", severity: "info", message: "Social impact is indicated" },
+    fires: { lifestyleImpact: { hasSocialImpact: true } },
+    quiet: { lifestyleImpact: { hasSocialImpact: true, socialActivities: ["Going out with friends"] } },
+  },
+
+  // Past history
+  {
+    rule: "previous accident year missing",
+    expected: { sectionId: "family", field: "previousAccidentYear", severity: "warning", message: "its year is missing" },
+    fires: { familyHistory: { hasPreviousAccident: true, previousAccidentRecovery: "Complete" } },
+    quiet: { familyHistory: { hasPreviousAccident: true, previousAccidentYear: "2019", previousAccidentRecovery: "Complete" } },
+  },
+  {
+    rule: "recovery from previous accident missing",
+    expected: { sectionId: "family", field: "previousAccidentRecovery", severity: "warning", message: "whether the claimant recovered" },
+    fires: { familyHistory: { hasPreviousAccident: true, previousAccidentYear: "2019" } },
+    quiet: { familyHistory: { hasPreviousAccident: true, previousAccidentYear: "2019", previousAccidentRecovery: "Partial" } },
+  },
+  {
+    rule: "previous medical condition not described",
+    expected: { sectionId: "family", field: "previousMedicalConditionDetails", severity: "warning", message: "A previous medical condition is indicated" },
+    fires: { familyHistory: { hasPreviousMedicalCondition: true } },
+    quiet: { familyHistory: { hasPreviousMedicalCondition: true, previousMedicalConditionDetails: "Asthma" } },
+  },
+  {
+    rule: "previous medical history not answered",
+    expected: { sectionId: "family", field: "hasPreviousMedicalCondition", severity: "info", message: "Previous medical history is not documented" },
+    fires: { familyHistory: { hasPreviousMedicalCondition: undefined } },
+    quiet: { familyHistory: { hasPreviousMedicalCondition: true, previousMedicalConditionDetails: "Asthma" } },
+  },
+  {
+    rule: "exceptional claim not explained",
+    expected: { sectionId: "family", field: "additionalNotes", severity: "warning", message: "Exceptional severity or circumstances" },
+    fires: { familyHistory: { hasExceptionalCircumstances: true } },
+    quiet: { familyHistory: { hasExceptionalCircumstances: true, additionalNotes: "Sole carer for a disabled parent" } },
+  },
+
+  // Expert details
+  {
+    rule: "examiner name too short",
+    expected: { sectionId: "expert", field: "examiner", severity: "critical", message: "Medical examiner name is missing" },
+    fires: { expertDetails: { examiner: "Dr" } },
+    quiet: { expertDetails: { examiner: "Dr J" } },
+  },
+  {
+    rule: "examiner credentials missing",
+    expected: { sectionId: "expert", field: "credentials", severity: "warning", message: "credentials are missing" },
+    fires: { expertDetails: { credentials: "" } },
+    quiet: { expertDetails: { credentials: "MBBS" } },
+  },
+
+  // Medical records review
+  {
+    rule: "contradicting entries without commentary",
+    expected: { sectionId: "records", field: "commentary", severity: "warning", message: "1 record entry contradicts the claimant's account" },
+    fires: { medicalRecordsReview: { entries: [contradictingEntry], overallConsistency: "Partially Supports" } },
+    quiet: { medicalRecordsReview: { entries: [contradictingEntry], overallConsistency: "Partially Supports", commentary: "The ED card records no neck pain." } },
+  },
+  {
+    rule: "records marked supporting despite contradictions",
+    expected: { sectionId: "records", field: "overallConsistency", severity: "critical", message: "marked as supporting the claimant's account" },
+    fires: { medicalRecordsReview: { entries: [contradictingEntry], commentary: "The ED card records no neck pain." } },
+    quiet: { medicalRecordsReview: { entries: [contradictingEntry], commentary: "The ED card records no neck pain.", overallConsistency: "Partially Supports" } },
+  },
+  {
+    rule: "entries before the accident",
+    expected: { sectionId: "records", field: "entries", severity: "info", message: "predate the accident" },
+    fires: { medicalRecordsReview: { entries: [{ ...supportingEntry, date: "2025-01-09" }] } },
+    quiet: { medicalRecordsReview: { entries: [{ ...supportingEntry, date: "2025-01-10" }] } },
+  },
+  {
+    rule: "hospital attended but no hospital records reviewed",
+    expected: { sectionId: "records", field: "documents", severity: "info", message: "no A&E or hospital records" },
+    fires: { medicalRecordsReview: { documents: [{ source: "GP Records" }] } },
+    quiet: { medicalRecordsReview: { documents: [{ source: "GP Records" }, { source: "Hospital Records" }] } },
+  },
+  {
+    rule: "GP attended but no GP records reviewed",
+    expected: { sectionId: "records", field: "documents", severity: "info", message: "no GP records" },
+    fires: { medicalRecordsReview: { documents: [{ source: "A&E Records" }] } },
+    quiet: { medicalRecordsReview: { documents: [{ source: "A&E Records" }, { source: "GP Records" }] } },
+  },
+
+  // Dates compared across sections
+  {
+    rule: "examination before the accident",
+    expected: { sectionId: "claimant", field: "dateOfExamination", severity: "critical", message: "Examination date is before the accident date" },
+    fires: { claimantDetails: { dateOfExamination: "2025-01-09" } },
+    quiet: { claimantDetails: { dateOfExamination: "2025-01-10" } },
+  },
+  {
+    rule: "born on or after the accident",
+    expected: { sectionId: "claimant", field: "dateOfBirth", severity: "critical", message: "Date of birth is on or after the accident date" },
+    fires: { claimantDetails: { dateOfBirth: "2025-01-10" } },
+    quiet: { claimantDetails: { dateOfBirth: "2025-01-09" } },
+  },
+];
+
+describe("analyzeCaseCompleteness", () => {
+  it("has nothing to suggest for a complete case", () => {
+    assert.deepEqual(analyzeCaseCompleteness(caseWith()), []);
+  });
+
+  for (const fixture of fixtures) {
+    describe(fixture.rule, () => {
+      it("fires", () => {
+        const suggestion = findSuggestion(analyzeCaseCompleteness(caseWith(fixture.fires)), fixture.expected);
+        assert.ok(suggestion, `expected a suggestion on ${fixture.expected.sectionId}.${fixture.expected.field}`);
+        assert.equal(suggestion.severity, fixture.expected.severity);
+      });
+
+      it("stays quiet when the gap is filled", () => {
+        assert.equal(findSuggestion(analyzeCaseCompleteness(caseWith(fixture.quiet)), fixture.expected), undefined);
+      });
+    });
+  }
+
+  it("counts every contradicting record entry", () => {
+    const suggestions = analyzeCaseCompleteness(caseWith({
+      medicalRecordsReview: { entries: [contradictingEntry, contradictingEntry], overallConsistency: "Contradicts" },
+    }));
+    assert.ok(suggestions.some(s => s.message.startsWith("2 record entries contradict the claimant's account.")));
+  });
+
+  describe("sections not filled in", () => {
+    const required: [SectionColumn, string, string][] = [
+      ["claimantDetails", "claimant", "Claimant details have not been completed."],
+      ["accidentDetails", "accident", "Accident details have not been completed."],
+      ["physicalInjuryDetails", "physical", "Physical injury details have not been completed."],
+      ["examination", "examination", "The clinical examination has not been recorded."],
+      ["expertDetails", "expert", "Expert details have not been completed."],
+    ];
+
+    for (const [section, sectionId, message] of required) {
+      it(`reports ${section} as missing`, () => {
+        assert.deepEqual(analyzeCaseCompleteness(caseWith({}, [section])), [
+          { sectionId, field: section, message, severity: "critical" },
+        ]);
+      });
+    }
+
+    it("doesn't report optional sections as missing", () => {
+      assert.deepEqual(analyzeCaseCompleteness(caseWith({}, ["psychologicalInjuries", "familyHistory"])), []);
+    });
+  });
+});
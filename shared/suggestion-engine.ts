@@ -0,0 +1,529 @@
+import type {
+  Case,
+  ClaimantDetails,
+  AccidentDetails,
+  PhysicalInjury,
+  PsychologicalInjuries,
+  Examination,
+  Treatments,
+  LifestyleImpact,
+  FamilyHistory,
+  ExpertDetails,
+  MedicalRecordsReview,
+} from "./schema";
+
+export type SuggestionSeverity = "info" | "warning" | "critical";
+
+export interface Suggestion {
+  sectionId: string;
+  field: string;
+  message: string;
+  severity: SuggestionSeverity;
+}
+
+// Severity levels:
+// - info: Minor suggestions for improvements
+// - warning: Important information might be missing
+// - critical: Essential information is missing; the report can't be issued
+
+// The section values the rules read, keyed by their column on `cases`
+interface SectionValues {
+  claimantDetails: ClaimantDetails;
+  accidentDetails: AccidentDetails;
+  physicalInjuryDetails: PhysicalInjury;
+  psychologicalInjuries: PsychologicalInjuries;
+  examination: Examination;
+  treatments: Treatments;
+  lifestyleImpact: LifestyleImpact;
+  familyHistory: FamilyHistory;
+  expertDetails: ExpertDetails;
+  medicalRecordsReview: MedicalRecordsReview;
+}
+
+type RuleSection = keyof SectionValues;
+
+/**
+ * One check on a section. `fires` is given the section's saved value and the
+ * whole case, and returns true when the suggestion should be shown.
+ */
+interface SectionRule<T> {
+  field: keyof T & string;
+  severity: SuggestionSeverity;
+  message: string | ((details: T) => string);
+  fires: (details: T, caseData: Case) => boolean;
+}
+
+interface SectionRuleSet<T> {
+  // Sidebar section the suggestions link to
+  sectionId: string;
+  // Shown as critical when the section hasn't been saved at all
+  missingMessage?: string;
+  rules: SectionRule<T>[];
+}
+
+type RuleSets = { [K in RuleSection]: SectionRuleSet<SectionValues[K]> };
+
+// A section's saved value, or undefined when it hasn't been filled in
+const sectionOf = <K extends RuleSection>(caseData: Case, section: K) =>
+  (caseData[section] ?? undefined) as Partial<SectionValues[K]> | undefined;
+
+const isBlank = (value: string | undefined, minLength = 1) => !value || value.trim().length < minLength;
+
+const isEmpty = (values: unknown[] | undefined) => !values || values.length === 0;
+
+const hasRecordedInjuries = (caseData: Case) =>
+  (sectionOf(caseData, "physicalInjuryDetails")?.injuries ?? []).length > 0;
+
+const hasAnyTreatment = (treatments: Partial<Treatments>) =>
+  !!(treatments.receivedTreatmentAtScene ||
+    treatments.wentToHospital ||
+    treatments.wentToGPWalkIn ||
+    treatments.takingParacetamol ||
+    treatments.takingIbuprofen ||
+    treatments.takingCodeine ||
+    treatments.takingOtherMedication ||
+    !isBlank(treatments.physiotherapySessions));
+
+const ruleSets: RuleSets = {
+  claimantDetails: {
+    sectionId: "claimant",
+    missingMessage: "Claimant details have not been completed.",
+    rules: [
+      {
+        field: "fullName",
+        severity: "critical",
+        message: "Claimant name is missing or too short. Full legal name is required for MedCo reports.",
+        fires: details => isBlank(details.fullName, 3),
+      },
+      {
+        field: "dateOfBirth",
+        severity: "critical",
+        message: "Date of birth is required for accurate medical assessment.",
+        fires: details => isBlank(details.dateOfBirth),
+      },
+      {
+        field: "dateOfExamination",
+        severity: "critical",
+        message: "Date of examination is missing. This is a critical element of the medical report.",
+        fires: details => isBlank(details.dateOfExamination),
+      },
+      {
+        field: "dateOfReport",
+        severity: "warning",
+        message: "The report is dated before the examination. Please verify these dates.",
+        fires: details => !!details.dateOfReport && !!details.dateOfExamination &&
+          details.dateOfReport < details.dateOfExamination,
+      },
+      {
+        field: "address",
+        severity: "warning",
+        message: "Address is missing or incomplete. Full address is required for MedCo reports.",
+        fires: details => isBlank(details.address, 5),
+      },
+      {
+        field: "medcoRefNumber",
+        severity: "warning",
+        message: "MedCo reference number is missing. It must appear on the report.",
+        fires: details => isBlank(details.medcoRefNumber),
+      },
+      {
+        field: "interpreterName",
+        severity: "warning",
+        message: "The claimant needed help with communication but no interpreter is named.",
+        fires: details => !!details.helpWithCommunication && isBlank(details.interpreterName),
+      },
+      {
+        field: "interpreterRelationship",
+        severity: "info",
+        message: "State the interpreter's relationship to the claimant, as independence may be questioned.",
+        fires: details => !!details.helpWithCommunication && !isBlank(details.interpreterName) &&
+          isBlank(details.interpreterRelationship),
+      },
+      {
+        field: "timeSpent",
+        severity: "info",
+        message: "Time spent with claimant is missing. This is important for demonstrating thorough assessment.",
+        fires: details => isBlank(details.timeSpent),
+      },
+    ],
+  },
+
+  accidentDetails: {
+    sectionId: "accident",
+    missingMessage: "Accident details have not been completed.",
+    rules: [
+      {
+        field: "accidentDate",
+        severity: "critical",
+        message: "Date of accident is required for timeline assessment.",
+        fires: details => isBlank(details.accidentDate),
+      },
+      {
+        field: "accidentDescription",
+        severity: "critical",
+        message: "Accident description is missing or too brief. Detailed description helps establish causation.",
+        fires: details => isBlank(details.accidentDescription, 20),
+      },
+      {
+        field: "vehicleLocation",
+        severity: "warning",
+        message: "Location of accident should be specified.",
+        fires: details => !details.vehicleLocation,
+      },
+      {
+        field: "claimantPosition",
+        severity: "info",
+        message: "The claimant's position in the vehicle is not recorded.",
+        fires: details => !details.claimantPosition,
+      },
+      {
+        field: "impactLocation",
+        severity: "info",
+        message: "Where the vehicle was struck is not recorded. This helps explain the mechanism of injury.",
+        fires: details => !details.impactLocation,
+      },
+    ],
+  },
+
+  physicalInjuryDetails: {
+    sectionId: "physical",
+    missingMessage: "Physical injury details have not been completed.",
+    rules: [
+      {
+        field: "injuries",
+        severity: "critical",
+        message: "No physical injuries or complaints have been recorded. At least one injury area should be documented.",
+        fires: details => isEmpty(details.injuries),
+      },
+      {
+        field: "injuries",
+        severity: "warning",
+        message: "An injury is recorded as \"Other\" without a description. Describe each such injury.",
+        fires: details => (details.injuries ?? []).some(injury => injury.type === "Other" && isBlank(injury.description)),
+      },
+      {
+        field: "injuries",
+        severity: "info",
+        message: "Some resolved injuries don't say how many days they took to resolve.",
+        fires: details => (details.injuries ?? []).some(injury =>
+          injury.currentSeverity === "Resolved" && isBlank(injury.resolutionDays)),
+      },
+    ],
+  },
+
+  psychologicalInjuries: {
+    sectionId: "psychological",
+    rules: [
+      {
+        field: "travelAnxietyOnset",
+        severity: "warning",
+        message: "Travel anxiety symptoms are recorded but their onset is missing.",
+        fires: details => !isEmpty(details.travelAnxietySymptoms) && !details.travelAnxietyOnset,
+      },
+      {
+        field: "travelAnxietyInitialSeverity",
+        severity: "warning",
+        message: "Travel anxiety symptoms are recorded but their severity is missing. Provide initial and current severity.",
+        fires: details => !isEmpty(details.travelAnxietySymptoms) &&
+          (!details.travelAnxietyInitialSeverity || !details.travelAnxietyCurrentSeverity),
+      },
+      {
+        field: "travelAnxietyResolutionDays",
+        severity: "info",
+        message: "Travel anxiety has resolved but the time it took is not recorded.",
+        fires: details => details.travelAnxietyCurrentSeverity === "Resolved" && isBlank(details.travelAnxietyResolutionDays),
+      },
+    ],
+  },
+
+  examination: {
+    sectionId: "examination",
+    missingMessage: "The clinical examination has not been recorded.",
+    rules: [
+      {
+        field: "regions",
+        severity: "warning",
+        message: "No spinal region is marked as examined.",
+        fires: details => !(details.regions ?? []).some(region => region.examined),
+      },
+      {
+        field: "neurological",
+        severity: "warning",
+        message: "An abnormal neurological finding is recorded without notes. Describe the abnormality.",
+        fires: details => !!details.neurological &&
+          [details.neurological.reflexes, details.neurological.power, details.neurological.sensation].includes("Abnormal") &&
+          isBlank(details.neurological.notes),
+      },
+    ],
+  },
+
+  treatments: {
+    sectionId: "treatments",
+    rules: [
+      {
+        field: "receivedTreatmentAtScene",
+        severity: "info",
+        message: "Treatment at scene is indicated but specific details are missing.",
+        fires: details => details.receivedTreatmentAtScene === true &&
+          !(details.sceneFirstAid || details.sceneNeckCollar || details.sceneAmbulanceArrived ||
+            details.scenePoliceArrived || details.sceneOtherTreatment),
+      },
+      {
+        field: "sceneOtherTreatmentDetails",
+        severity: "info",
+        message: "Other treatment at the scene is ticked but not described.",
+        fires: details => !!details.sceneOtherTreatment && isBlank(details.sceneOtherTreatmentDetails),
+      },
+      {
+        field: "hospitalName",
+        severity: "warning",
+        message: "Hospital attendance is indicated but the hospital is not named.",
+        fires: details => details.wentToHospital === true && isBlank(details.hospitalName),
+      },
+      {
+        field: "wentToHospital",
+        severity: "warning",
+        message: "Hospital attendance is indicated but details of examinations or treatments are missing.",
+        fires: details => details.wentToHospital === true &&
+          !(details.hospitalNoTreatment || details.hospitalXRay || details.hospitalCTScan ||
+            details.hospitalBandage || details.hospitalNeckCollar || details.hospitalOtherTreatment),
+      },
+      {
+        field: "hospitalOtherTreatmentDetails",
+        severity: "info",
+        message: "Other hospital treatment is ticked but not described.",
+        fires: details => !!details.hospitalOtherTreatment && isBlank(details.hospitalOtherTreatmentDetails),
+      },
+      {
+        field: "daysToGPWalkIn",
+        severity: "info",
+        message: "GP or walk-in centre attendance is indicated but not when it happened.",
+        fires: details => details.wentToGPWalkIn === true && isBlank(details.daysToGPWalkIn),
+      },
+      {
+        field: "otherMedicationDetails",
+        severity: "info",
+        message: "Other medication is ticked but not named.",
+        fires: details => !!details.takingOtherMedication && isBlank(details.otherMedicationDetails),
+      },
+      {
+        field: "treatmentSummary",
+        severity: "info",
+        message: "Treatment summary is missing. A comprehensive overview of all treatments is valuable for the report.",
+        fires: details => isBlank(details.treatmentSummary),
+      },
+      {
+        field: "receivedTreatmentAtScene",
+        severity: "warning",
+        message: "Physical injuries are reported but no treatments are documented. Review if treatment section is complete.",
+        fires: (details, caseData) => hasRecordedInjuries(caseData) && !hasAnyTreatment(details),
+      },
+    ],
+  },
+
+  lifestyleImpact: {
+    sectionId: "lifestyle",
+    rules: [
+      {
+        field: "currentJobTitle",
+        severity: "warning",
+        message: "Occupation should be included to assess impact on work and daily activities.",
+        fires: details => (details.workStatus === "Full-time" || details.workStatus === "Part-time") &&
+          isBlank(details.currentJobTitle),
+      },
+      {
+        field: "daysOffWork",
+        severity: "warning",
+        message: "Work difficulties are recorded but days off work are not specified. This is important for compensation assessment.",
+        fires: details => !isEmpty(details.workDifficulties) && isBlank(details.daysOffWork),
+      },
+      {
+        field: "sleepDisturbances",
+        severity: "info",
+        message: "Sleep disturbance is indicated but the disturbances are not listed.",
+        fires: details => !!details.hasSleepDisturbance && isEmpty(details.sleepDisturbances) && isBlank(details.sleepOtherDetails),
+      },
+      {
+        field: "domesticActivities",
+        severity: "info",
+        message: "Domestic impact is indicated but details are missing. Specifics help assess daily living challenges.",
+        fires: details => !!details.hasDomesticImpact && isEmpty(details.domesticActivities) && isBlank(details.domesticOtherDetails),
+      },
+      {
+        field: "sportLeisureActivities",
+        severity: "info",
+        message: "Sport/leisure impact is indicated but details are missing. Specify activities affected.",
+        fires: details => !!details.hasSportLeisureImpact && isEmpty(details.sportLeisureActivities) &&
+          isBlank(details.sportLeisureOtherDetails),
+      },
+      {
+        field: "socialActivities",
+        severity: "info",
+        message: "Social impact is indicated but the activities affected are not listed.",
+        fires: details => !!details.hasSocialImpact && isEmpty(details.socialActivities) && isBlank(details.socialOtherDetails),
+      },
+    ],
+  },
+
+  familyHistory: {
+    sectionId: "family",
+    rules: [
+      {
+        field: "previousAccidentYear",
+        severity: "warning",
+        message: "A previous accident is indicated but its year is missing. This is important for causation assessment.",
+        fires: details => !!details.hasPreviousAccident && isBlank(details.previousAccidentYear),
+      },
+      {
+        field: "previousAccidentRecovery",
+        severity: "warning",
+        message: "A previous accident is indicated but not whether the claimant recovered from it.",
+        fires: details => !!details.hasPreviousAccident && !details.previousAccidentRecovery,
+      },
+      {
+        field: "previousMedicalConditionDetails",
+        severity: "warning",
+        message: "A previous medical condition is indicated but details are missing. This can be important for differential diagnosis.",
+        fires: details => !!details.hasPreviousMedicalCondition && isBlank(details.previousMedicalConditionDetails),
+      },
+      {
+        field: "hasPreviousMedicalCondition",
+        severity: "info",
+        message: "Previous medical history is not documented. This is essential for a comprehensive assessment.",
+        fires: details => details.hasPreviousMedicalCondition === undefined,
+      },
+      {
+        field: "additionalNotes",
+        severity: "warning",
+        message: "Exceptional severity or circumstances are claimed but not explained in the notes.",
+        fires: details => !!(details.hasExceptionalSeverity || details.hasExceptionalCircumstances) &&
+          isBlank(details.additionalNotes),
+      },
+    ],
+  },
+
+  expertDetails: {
+    sectionId: "expert",
+    missingMessage: "Expert details have not been completed.",
+    rules: [
+      {
+        field: "examiner",
+        severity: "critical",
+        message: "Medical examiner name is missing or incomplete. This is required for a valid MedCo report.",
+        fires: details => isBlank(details.examiner, 3),
+      },
+      {
+        field: "credentials",
+        severity: "warning",
+        message: "Medical examiner credentials are missing. This is required to establish expertise.",
+        fires: details => isBlank(details.credentials),
+      },
+    ],
+  },
+
+  medicalRecordsReview: {
+    sectionId: "records",
+    rules: [
+      {
+        field: "commentary",
+        severity: "warning",
+        message: details => {
+          const count = (details.entries ?? []).filter(entry => entry.relationToAccount === "Contradicts").length;
+          return `${count} record ${count === 1 ? "entry contradicts" : "entries contradict"} the claimant's account. Comment on the differences in the records review.`;
+        },
+        fires: details => (details.entries ?? []).some(entry => entry.relationToAccount === "Contradicts") &&
+          isBlank(details.commentary),
+      },
+      {
+        field: "overallConsistency",
+        severity: "critical",
+        message: "The records are marked as supporting the claimant's account, but some entries contradict it.",
+        fires: details => details.overallConsistency === "Supports" &&
+          (details.entries ?? []).some(entry => entry.relationToAccount === "Contradicts"),
+      },
+      {
+        field: "entries",
+        severity: "info",
+        message: "Some record entries predate the accident. Check whether they show a pre-existing condition and reflect this in the past history.",
+        fires: (details, caseData) => {
+          const accidentDate = sectionOf(caseData, "accidentDetails")?.accidentDate;
+          return !!accidentDate && (details.entries ?? []).some(entry => entry.date < accidentDate);
+        },
+      },
+      {
+        field: "documents",
+        severity: "info",
+        message: "Claimant attended hospital but no A&E or hospital records are listed as reviewed.",
+        fires: (details, caseData) => !!sectionOf(caseData, "treatments")?.wentToHospital &&
+          !(details.documents ?? []).some(document => document.source === "A&E Records" || document.source === "Hospital Records"),
+      },
+      {
+        field: "documents",
+        severity: "info",
+        message: "Claimant attended a GP or walk-in centre but no GP records are listed as reviewed.",
+        fires: (details, caseData) => !!sectionOf(caseData, "treatments")?.wentToGPWalkIn &&
+          !(details.documents ?? []).some(document => document.source === "GP Records"),
+      },
+    ],
+  },
+};
+
+// Checks that compare dates across sections
+function analyzeConsistency(caseData: Case): Suggestion[] {
+  const suggestions: Suggestion[] = [];
+  const claimant = sectionOf(caseData, "claimantDetails");
+  const accidentDate = sectionOf(caseData, "accidentDetails")?.accidentDate;
+
+  if (accidentDate && claimant?.dateOfExamination && claimant.dateOfExamination < accidentDate) {
+    suggestions.push({
+      sectionId: "claimant",
+      field: "dateOfExamination",
+      message: "Examination date is before the accident date. Please verify these dates.",
+      severity: "critical",
+    });
+  }
+
+  if (accidentDate && claimant?.dateOfBirth && claimant.dateOfBirth >= accidentDate) {
+    suggestions.push({
+      sectionId: "claimant",
+      field: "dateOfBirth",
+      message: "Date of birth is on or after the accident date. Please verify these dates.",
+      severity: "critical",
+    });
+  }
+
+  return suggestions;
+}
+
+function analyzeSection<K extends RuleSection>(caseData: Case, section: K): Suggestion[] {
+  const ruleSet = ruleSets[section] as SectionRuleSet<SectionValues[K]>;
+  const details = caseData[section] as SectionValues[K] | null;
+
+  if (!details) {
+    return ruleSet.missingMessage
+      ? [{ sectionId: ruleSet.sectionId, field: section, message: ruleSet.missingMessage, severity: "critical" }]
+      : [];
+  }
+
+  return ruleSet.rules
+    .filter(rule => rule.fires(details, caseData))
+    .map(rule => ({
+      sectionId: ruleSet.sectionId,
+      field: rule.field,
+      message: typeof rule.message === "function" ? rule.message(details) : rule.message,
+      severity: rule.severity,
+    }));
+}
+
+/**
+ * Analyzes a case and returns suggestions for improving documentation completeness
+ */
+export function analyzeCaseCompleteness(caseData: Case): Suggestion[] {
+  // Only analyze if the case exists
+  if (!caseData) return [];
+
+  return [
+    ...(Object.keys(ruleSets) as RuleSection[]).flatMap(section => analyzeSection(caseData, section)),
+    ...analyzeConsistency(caseData),
+  ];
+}
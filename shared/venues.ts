@@ -0,0 +1,12 @@
+import type { Venue, VenueType } from "./schema";
+
+// How the report describes an examination at each kind of venue
+const placeDescriptions: Record<VenueType, (address: string) => string> = {
+  face_to_face: address => `Face to Face at ${address}`,
+  remote_video: address => `Remote video consultation via ${address}`,
+  home_visit: address => `Home visit at ${address}`,
+};
+
+// The Place of Examination printed on the report for a venue
+export const placeOfExamination = (venue: Pick<Venue, "type" | "address">): string =>
+  (placeDescriptions[venue.type as VenueType] ?? placeDescriptions.face_to_face)(venue.address);
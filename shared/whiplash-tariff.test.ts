@@ -0,0 +1,85 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { assessWhiplashTariff } from "./whiplash-tariff";
+
+// The tables as published: [up to months, amount, amount with psychological injury]
+const publishedTables: { regulations: string; accidentDate: string; rows: [number, number, number][] }[] = [
+  {
+    regulations: "Whiplash Injury Regulations 2021",
+    accidentDate: "2023-06-01",
+    rows: [
+      [3, 240, 260],
+      [6, 495, 520],
+      [9, 840, 895],
+      [12, 1320, 1390],
+      [15, 2040, 2125],
+      [18, 3005, 3100],
+      [24, 4215, 4345],
+    ],
+  },
+  {
+    regulations: "Whiplash Injury (Amendment) Regulations 2025",
+    accidentDate: "2025-06-01",
+    rows: [
+      [3, 275, 300],
+      [6, 565, 595],
+      [9, 960, 1025],
+      [12, 1510, 1590],
+      [15, 2335, 2430],
+      [18, 3440, 3550],
+      [24, 4825, 4975],
+    ],
+  },
+];
+
+// An adult's neck injury expected to last `periodMonths`
+const whiplashCase = (accidentDate: string, periodMonths: number, withPsychologicalInjury = false) => ({
+  claimantDetails: { dateOfBirth: "1980-01-01" },
+  accidentDetails: { accidentDate },
+  physicalInjuryDetails: {
+    injuries: [{ type: "Neck", prognosis: { periodMonths, resolved: false, referralNeeded: false } }],
+  },
+  psychologicalInjuries: { travelAnxietySymptoms: withPsychologicalInjury ? ["Nervous as a passenger"] : [] },
+});
+
+describe("whiplash tariff", () => {
+  for (const table of publishedTables) {
+    describe(table.regulations, () => {
+      table.rows.forEach(([maxMonths, amount, amountWithPsych], index) => {
+        const minMonths = index === 0 ? 0 : table.rows[index - 1][0];
+
+        it(`pays £${amount} or £${amountWithPsych} for more than ${minMonths} and up to ${maxMonths} months`, () => {
+          for (const months of [minMonths + 1, maxMonths]) {
+            const plain = assessWhiplashTariff(whiplashCase(table.accidentDate, months));
+            assert.equal(plain.schedule?.regulations, table.regulations);
+            assert.deepEqual([plain.band?.minMonths, plain.band?.maxMonths], [minMonths, maxMonths]);
+            assert.equal(plain.amount, amount);
+
+            const withPsych = assessWhiplashTariff(whiplashCase(table.accidentDate, months, true));
+            assert.equal(withPsych.amount, amountWithPsych);
+          }
+        });
+      });
+
+      it("puts an injury already resolved at the accident in the first band", () => {
+        assert.equal(assessWhiplashTariff(whiplashCase(table.accidentDate, 0)).amount, table.rows[0][1]);
+      });
+
+      it("leaves an injury lasting more than two years outside the tariff", () => {
+        const assessment = assessWhiplashTariff(whiplashCase(table.accidentDate, 25));
+        assert.equal(assessment.applicable, false);
+        assert.equal(assessment.amount, null);
+      });
+    });
+  }
+
+  it("picks the schedule in force on the accident date", () => {
+    assert.equal(assessWhiplashTariff(whiplashCase("2025-05-30", 6)).amount, 495);
+    assert.equal(assessWhiplashTariff(whiplashCase("2025-05-31", 6)).amount, 565);
+    assert.equal(assessWhiplashTariff(whiplashCase("2021-05-31", 6)).amount, 495);
+
+    const beforeReforms = assessWhiplashTariff(whiplashCase("2021-05-30", 6));
+    assert.equal(beforeReforms.applicable, false);
+    assert.equal(beforeReforms.schedule, null);
+  });
+});
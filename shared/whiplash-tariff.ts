@@ -0,0 +1,179 @@
+import type { Case, PhysicalInjury, PsychologicalInjuries, ClaimantDetails, AccidentDetails } from "./schema";
+
+type Injury = NonNullable<PhysicalInjury["injuries"]>[number];
+
+// ---------------------------------------------------------------------------
+// Whiplash Injury Regulations tariff
+//
+// Part 1 of the Civil Liability Act 2018 fixes damages for whiplash injuries
+// lasting up to two years by reference to a tariff. The amount depends on the
+// duration of the whiplash injury (or the longest of them) and on whether the
+// claimant also suffered a minor psychological injury on the same occasion.
+// ---------------------------------------------------------------------------
+
+export interface TariffBand {
+  // Duration of the whiplash injury, in months: minMonths < duration <= maxMonths
+  minMonths: number;
+  maxMonths: number;
+  label: string;
+  amount: number;
+  amountWithPsychologicalInjury: number;
+}
+
+export interface TariffSchedule {
+  // Applies to accidents on or after this date (ISO yyyy-mm-dd)
+  effectiveFrom: string;
+  regulations: string;
+  bands: TariffBand[];
+}
+
+const band = (minMonths: number, maxMonths: number, amount: number, amountWithPsychologicalInjury: number): TariffBand => ({
+  minMonths,
+  maxMonths,
+  label: minMonths === 0
+    ? `Not more than ${maxMonths} months`
+    : `More than ${minMonths} months, but not more than ${maxMonths} months`,
+  amount,
+  amountWithPsychologicalInjury,
+});
+
+// Newest first; pick the first schedule in force on the accident date
+export const tariffSchedules: TariffSchedule[] = [
+  {
+    effectiveFrom: "2025-05-31",
+    regulations: "Whiplash Injury (Amendment) Regulations 2025",
+    bands: [
+      band(0, 3, 275, 300),
+      band(3, 6, 565, 595),
+      band(6, 9, 960, 1025),
+      band(9, 12, 1510, 1590),
+      band(12, 15, 2335, 2430),
+      band(15, 18, 3440, 3550),
+      band(18, 24, 4825, 4975),
+    ],
+  },
+  {
+    effectiveFrom: "2021-05-31",
+    regulations: "Whiplash Injury Regulations 2021",
+    bands: [
+      band(0, 3, 240, 260),
+      band(3, 6, 495, 520),
+      band(6, 9, 840, 895),
+      band(9, 12, 1320, 1390),
+      band(12, 15, 2040, 2125),
+      band(15, 18, 3005, 3100),
+      band(18, 24, 4215, 4345),
+    ],
+  },
+];
+
+// Soft tissue injuries of the neck, back or shoulder count as whiplash (s.1 CLA 2018)
+const whiplashInjuryTypes: Injury["type"][] = ["Neck", "Upper Back / Shoulders", "Lower Back"];
+
+export const isWhiplashInjury = (injury: Injury) => whiplashInjuryTypes.includes(injury.type);
+
+const DAYS_PER_MONTH = 365.25 / 12;
+
+/**
+ * Total duration of an injury in months from the accident: up to the date it
+ * resolved if it has, otherwise the expert's prognosis period. Null when the
+ * prognosis doesn't say, e.g. cases recorded before injuries had a prognosis.
+ */
+export const injuryDurationMonths = (injury: Injury, accidentDate?: string): number | null => {
+  const prognosis = injury.prognosis;
+  if (prognosis?.resolved) {
+    if (!prognosis.dateResolved || !accidentDate) return null;
+    const days = (new Date(prognosis.dateResolved).getTime() - new Date(accidentDate).getTime()) / 86400000;
+    return isNaN(days) ? null : Math.max(days, 0) / DAYS_PER_MONTH;
+  }
+  return prognosis?.periodMonths ?? null;
+};
+
+export interface TariffAssessment {
+  // False when the claim falls outside the tariff; see `reasons`
+  applicable: boolean;
+  reasons: string[];
+  whiplashMonths: number | null;
+  withPsychologicalInjury: boolean;
+  schedule: TariffSchedule | null;
+  band: TariffBand | null;
+  amount: number | null;
+}
+
+const yearsBetween = (from: string, to: string): number | null => {
+  const start = new Date(from);
+  const end = new Date(to);
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) return null;
+  let years = end.getFullYear() - start.getFullYear();
+  const monthDiff = end.getMonth() - start.getMonth();
+  if (monthDiff < 0 || (monthDiff === 0 && end.getDate() < start.getDate())) years--;
+  return years;
+};
+
+/**
+ * Works out which tariff band the expert's prognosis puts the claim in.
+ * The band is indicative only: it follows from the durations recorded on the
+ * case, and the reasons list explains anything that takes the claim outside
+ * the tariff.
+ */
+export function assessWhiplashTariff(
+  caseData: Pick<Case, "claimantDetails" | "accidentDetails" | "physicalInjuryDetails" | "psychologicalInjuries">,
+): TariffAssessment {
+  const claimant = (caseData.claimantDetails ?? {}) as Partial<ClaimantDetails>;
+  const accident = (caseData.accidentDetails ?? {}) as Partial<AccidentDetails>;
+  const physical = (caseData.physicalInjuryDetails ?? {}) as Partial<PhysicalInjury>;
+  const psych = (caseData.psychologicalInjuries ?? {}) as Partial<PsychologicalInjuries>;
+
+  const reasons: string[] = [];
+  const withPsychologicalInjury = (psych.travelAnxietySymptoms ?? []).length > 0;
+
+  const schedule = accident.accidentDate
+    ? tariffSchedules.find(s => accident.accidentDate! >= s.effectiveFrom) ?? null
+    : tariffSchedules[0];
+  if (accident.accidentDate && !schedule) {
+    reasons.push("Accident happened before the whiplash reforms came into force on 31 May 2021");
+  }
+
+  if (claimant.dateOfBirth && accident.accidentDate) {
+    const age = yearsBetween(claimant.dateOfBirth, accident.accidentDate);
+    if (age !== null && age < 18) {
+      reasons.push("Claimant was under 18 at the date of accident");
+    }
+  }
+
+  const whiplashInjuries = (physical.injuries ?? []).filter(isWhiplashInjury);
+  const durations = whiplashInjuries.map(injury => injuryDurationMonths(injury, accident.accidentDate));
+  let whiplashMonths: number | null = null;
+
+  if (whiplashInjuries.length === 0) {
+    reasons.push("No neck, back or shoulder soft tissue injury recorded");
+  } else if (durations.some(months => months === null)) {
+    reasons.push("A whiplash injury has no prognosis period or resolution date recorded");
+  } else {
+    whiplashMonths = Math.max(...(durations as number[]));
+    if (whiplashMonths > 24) {
+      reasons.push("Whiplash injury is expected to last more than two years");
+    }
+  }
+
+  const matched = schedule && whiplashMonths !== null
+    ? schedule.bands.find(b => whiplashMonths! > b.minMonths && whiplashMonths! <= b.maxMonths)
+      ?? (whiplashMonths === 0 ? schedule.bands[0] : null)
+    : null;
+  const applicable = reasons.length === 0 && !!matched;
+
+  return {
+    applicable,
+    reasons,
+    whiplashMonths,
+    withPsychologicalInjury,
+    schedule,
+    band: matched ?? null,
+    amount: applicable && matched
+      ? (withPsychologicalInjury ? matched.amountWithPsychologicalInjury : matched.amount)
+      : null,
+  };
+}
+
+export const formatTariffAmount = (amount: number) =>
+  `£${amount.toLocaleString("en-GB")}`;